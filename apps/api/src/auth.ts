@@ -0,0 +1,83 @@
+/**
+ * HTTP API Authentication
+ *
+ * Bearer tokens from API_TOKENS, each with a name (recorded in the audit
+ * log instead of the token) and a role:
+ * - read:     GET endpoints (only enforced when API_READ_AUTH=true)
+ * - operator: halt, pause/resume trading, close positions
+ * - admin:    everything, plus the kill switch and signal injection
+ *
+ * Format: API_TOKENS="name:role:token,name:role:token"
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+
+export type ApiRole = "read" | "operator" | "admin";
+
+export interface ApiToken {
+  name: string;
+  role: ApiRole;
+  token: string;
+}
+
+const ROLE_RANK: Record<ApiRole, number> = {
+  read: 0,
+  operator: 1,
+  admin: 2,
+};
+
+/**
+ * Parse the API_TOKENS spec
+ * Throws on malformed entries so a typo can't silently disable a token
+ */
+export function parseApiTokens(spec: string | undefined): ApiToken[] {
+  if (!spec?.trim()) return [];
+
+  return spec.split(",").map(entry => {
+    const [name, role, ...rest] = entry.trim().split(":");
+    const token = rest.join(":");
+    if (!name || !token || !role || !(role in ROLE_RANK)) {
+      throw new Error(`Invalid API_TOKENS entry "${name ?? ""}": expected name:read|operator|admin:token`);
+    }
+    return { name, role: role as ApiRole, token };
+  });
+}
+
+/**
+ * True if a token with `role` may call an endpoint requiring `required`
+ */
+export function hasRole(role: ApiRole, required: ApiRole): boolean {
+  return ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+export class ApiAuth {
+  private tokens: Array<ApiToken & { digest: Buffer }>;
+
+  constructor(tokens: ApiToken[]) {
+    this.tokens = tokens.map(token => ({ ...token, digest: digest(token.token) }));
+  }
+
+  /**
+   * Write endpoints are disabled until at least one token is configured
+   */
+  isEnabled(): boolean {
+    return this.tokens.length > 0;
+  }
+
+  /**
+   * Resolve an Authorization header to its token
+   * Compares digests in constant time so response timing leaks nothing
+   */
+  authenticate(authorization: string | undefined): ApiToken | undefined {
+    const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+    if (!match?.[1]) return undefined;
+
+    const presented = digest(match[1]);
+    const found = this.tokens.find(token => timingSafeEqual(token.digest, presented));
+    return found ? { name: found.name, role: found.role, token: found.token } : undefined;
+  }
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
@@ -0,0 +1,61 @@
+/**
+ * Direction resolver tests against labeled headlines
+ */
+
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "node:fs";
+import type { SignalDirection } from "@pomabot/shared";
+import { parseMarketQuestion, resolveDirection } from "./direction-resolver";
+
+interface LabeledCase {
+  question: string;
+  text: string;
+  expected: SignalDirection;
+}
+
+const labels = JSON.parse(
+  readFileSync(new URL("./fixtures/direction-labels.json", import.meta.url), "utf-8")
+) as LabeledCase[];
+
+describe("parseMarketQuestion", () => {
+  it("should split subject, predicate and polarity", () => {
+    expect(parseMarketQuestion("Will the Fed NOT cut interest rates in December?")).toEqual({
+      subject: "the Fed",
+      subjectTerms: ["fed"],
+      predicate: "cut",
+      object: "interest rates in December",
+      polarity: "negated",
+    });
+    expect(parseMarketQuestion("Will the SEC approve a spot Ethereum ETF?")).toMatchObject({
+      subjectTerms: ["sec"],
+      predicate: "approve",
+      polarity: "affirmative",
+    });
+  });
+
+  it("should fall back to the leading capitalized phrase without a known verb", () => {
+    expect(parseMarketQuestion("Will Biden be the Democratic nominee?")).toMatchObject({
+      subject: "Biden",
+      predicate: "",
+    });
+  });
+});
+
+describe("resolveDirection", () => {
+  it("should read a loss as evidence against a win question", () => {
+    expect(resolveDirection("Will Smith win the runoff?", "Smith lost the runoff.")).toBe("down");
+    expect(resolveDirection("Will Smith win the runoff?", "Jones defeated Smith.")).toBe("down");
+  });
+
+  it("should be neutral when the subject is not mentioned", () => {
+    expect(resolveDirection("Will Smith win the runoff?", "Jones won the governor's race.")).toBe("neutral");
+  });
+
+  it("should match at least 90% of the labeled headlines", () => {
+    const misses = labels.filter(c => resolveDirection(c.question, c.text) !== c.expected);
+    const accuracy = 1 - misses.length / labels.length;
+
+    expect(labels.length).toBeGreaterThanOrEqual(30);
+    expect(accuracy, JSON.stringify(misses, undefined, 2)).toBeGreaterThanOrEqual(0.9);
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Signal Direction Resolver
+ *
+ * Maps a news item to a direction relative to the market's YES outcome.
+ * A plain keyword count says "up" for "Smith lost the runoff" as readily as
+ * for "Smith won", so instead we:
+ * 1. Parse the question into subject / predicate / polarity
+ *    ("Will the Fed NOT cut rates?" → subject "the Fed", predicate "cut", negated)
+ * 2. Only read sentences that mention the subject
+ * 3. Score outcome words from the predicate's lexicon (a "cut" question
+ *    reads "held rates" as evidence against), flipping negated words
+ *    ("did not pass") and transitive wins where the subject is the object
+ *    ("Jones defeated Smith")
+ * 4. Flip the result for negated questions
+ *
+ * Deliberately a small rule set, measured against the labeled headlines in
+ * fixtures/direction-labels.json rather than tuned to any one market.
+ */
+
+import type { SignalDirection } from "@pomabot/shared";
+
+export type QuestionPolarity = "affirmative" | "negated";
+
+export interface ParsedQuestion {
+  subject: string;            // "the Fed"
+  subjectTerms: string[];     // Words that identify the subject in news: ["fed"]
+  predicate: string;          // Main verb as asked: "cut" (empty when none was recognized)
+  object: string;             // "interest rates in December"
+  polarity: QuestionPolarity;
+}
+
+interface PredicateLexicon {
+  yes: string[];              // Outcome words that make YES more likely
+  no: string[];               // Outcome words that make NO more likely
+}
+
+const VICTORY: PredicateLexicon = {
+  yes: ["won", "wins", "win", "victory", "victorious", "clinches", "clinched", "secures", "secured", "elected", "triumphs", "advances", "advanced"],
+  no: ["lost", "loses", "lose", "concedes", "conceded", "eliminated", "withdraws", "withdrew", "ousted", "knocked"],
+};
+
+const APPROVAL: PredicateLexicon = {
+  yes: ["approved", "approves", "passed", "passes", "signed", "signs", "confirmed", "confirms", "cleared", "clears", "ratified", "adopted", "greenlit", "authorized", "enacted"],
+  no: ["rejected", "rejects", "denied", "denies", "blocked", "blocks", "vetoed", "vetoes", "delayed", "delays", "stalled", "stalls", "fails", "failed", "struck", "withdrawn"],
+};
+
+const DECREASE: PredicateLexicon = {
+  yes: ["cut", "cuts", "lowered", "lowers", "reduced", "reduces", "falls", "fell", "drops", "dropped", "declines", "declined", "slashed", "eased"],
+  no: ["raised", "raises", "hiked", "hikes", "holds", "held", "unchanged", "paused", "rises", "rose", "increases", "increased", "steady"],
+};
+
+const INCREASE: PredicateLexicon = {
+  yes: ["raised", "raises", "hiked", "hikes", "rises", "rose", "surges", "surged", "rallies", "rallied", "hits", "reaches", "reached", "exceeds", "exceeded", "tops", "topped", "climbs", "climbed", "increases", "increased", "soars", "soared", "record"],
+  no: ["falls", "fell", "drops", "dropped", "plunges", "plunged", "slides", "slid", "declines", "declined", "cut", "cuts", "lowered", "holds", "held", "unchanged", "crashes", "crashed", "slumps"],
+};
+
+const HOLD: PredicateLexicon = {
+  yes: ["holds", "held", "unchanged", "steady", "paused", "pauses", "maintains", "maintained", "keeps", "kept"],
+  no: ["cut", "cuts", "lowered", "lowers", "raised", "raises", "hiked", "hikes", "slashed"],
+};
+
+const OCCURRENCE: PredicateLexicon = {
+  yes: ["announced", "announces", "launched", "launches", "released", "releases", "confirmed", "confirms", "happened", "occurred", "resigned", "resigns", "agreed", "agrees", "completed", "completes"],
+  no: ["postponed", "postpones", "cancelled", "canceled", "cancels", "delayed", "delays", "denied", "denies", "scrapped", "suspended", "called"],
+};
+
+// The original keyword lists, for questions without a recognized predicate
+const GENERIC: PredicateLexicon = {
+  yes: ["approved", "passed", "won", "victory", "gains", "increase", "positive", "success", "favorable"],
+  no: ["denied", "rejected", "lost", "defeat", "decline", "decrease", "negative", "failure", "unfavorable"],
+};
+
+const PREDICATE_LEXICONS: Record<string, PredicateLexicon> = {
+  win: VICTORY, beat: VICTORY, defeat: VICTORY, clinch: VICTORY, secure: VICTORY, advance: VICTORY,
+  approve: APPROVAL, pass: APPROVAL, sign: APPROVAL, confirm: APPROVAL, ratify: APPROVAL, authorize: APPROVAL, adopt: APPROVAL,
+  cut: DECREASE, lower: DECREASE, reduce: DECREASE, fall: DECREASE, drop: DECREASE, decline: DECREASE,
+  raise: INCREASE, hike: INCREASE, increase: INCREASE, rise: INCREASE, reach: INCREASE, exceed: INCREASE,
+  hit: INCREASE, surpass: INCREASE, top: INCREASE,
+  announce: OCCURRENCE, launch: OCCURRENCE, release: OCCURRENCE, resign: OCCURRENCE, happen: OCCURRENCE,
+  occur: OCCURRENCE, agree: OCCURRENCE, complete: OCCURRENCE,
+  hold: HOLD, keep: HOLD, maintain: HOLD, pause: HOLD,
+};
+
+// "X defeated Y": a win for whoever comes before the verb, a loss for whoever comes after
+const TRANSITIVE_VICTORY = new Set(["beat", "beats", "defeated", "defeats", "ousts", "ousted", "eliminates", "edges", "edged", "topples", "toppled", "routs", "routed", "leads", "led"]);
+
+const NEGATIONS = new Set(["not", "no", "never", "won't", "didn't", "doesn't", "don't", "isn't", "wasn't", "can't", "cannot", "without", "fails", "failed"]);
+const NEGATION_WINDOW = 3;    // Negation words within this many tokens before an outcome word flip it
+
+const AUXILIARIES = /^(will|would|does|do|did|is|are|was|can|could|has|have|should|shall)\s+/i;
+const STOPWORDS = new Set(["the", "a", "an", "of", "in", "on", "for", "to", "and", "by", "at", "be", "been", "s"]);
+
+/**
+ * Split a "Will X <predicate> Y?" question into its parts
+ */
+export function parseMarketQuestion(question: string): ParsedQuestion {
+  let rest = question.trim().replace(/\?+$/, "").replace(AUXILIARIES, "");
+
+  let polarity: QuestionPolarity = "affirmative";
+  const negation = rest.match(/\s+(not|never)\s+/i);
+  if (negation?.index !== undefined) {
+    polarity = "negated";
+    rest = rest.slice(0, negation.index) + " " + rest.slice(negation.index + negation[0].length);
+  }
+
+  const words = rest.split(/\s+/).filter(Boolean);
+  const verbIndex = words.findIndex((word, i) => i > 0 && lemma(word) in PREDICATE_LEXICONS);
+
+  if (verbIndex === -1) {
+    // No known verb: the leading capitalized phrase is the best guess at the subject
+    const subjectWords = takeWhile(words, (word, i) => i === 0 || /^[A-Z0-9$]/.test(word));
+    return {
+      subject: subjectWords.join(" "),
+      subjectTerms: toTerms(subjectWords),
+      predicate: "",
+      object: words.slice(subjectWords.length).join(" "),
+      polarity,
+    };
+  }
+
+  const subjectWords = words.slice(0, verbIndex);
+  return {
+    subject: subjectWords.join(" "),
+    subjectTerms: toTerms(subjectWords),
+    predicate: lemma(words[verbIndex]!),
+    object: words.slice(verbIndex + 1).join(" "),
+    polarity,
+  };
+}
+
+/**
+ * Direction of a news item relative to the question's YES outcome
+ * Neutral when the item doesn't mention the subject or gives no evidence.
+ */
+export function resolveDirection(question: string | ParsedQuestion, text: string): SignalDirection {
+  const parsed = typeof question === "string" ? parseMarketQuestion(question) : question;
+  const lexicon = PREDICATE_LEXICONS[parsed.predicate] ?? GENERIC;
+
+  let score = 0;
+  for (const sentence of text.split(/(?<=[.!?;])\s+|\n+/)) {
+    const tokens = tokenize(sentence);
+    const subjectAt = tokens.findIndex(token => parsed.subjectTerms.includes(token));
+    if (parsed.subjectTerms.length > 0 && subjectAt === -1) continue;
+
+    tokens.forEach((token, i) => {
+      let evidence = 0;
+      if (TRANSITIVE_VICTORY.has(token) && lexicon === VICTORY) {
+        evidence = subjectAt !== -1 && subjectAt > i ? -1 : 1;
+      } else if (lexicon.yes.includes(token)) {
+        evidence = 1;
+      } else if (lexicon.no.includes(token)) {
+        evidence = -1;
+      }
+
+      if (evidence !== 0 && isNegated(tokens, i)) {
+        evidence = -evidence;
+      }
+      score += evidence;
+    });
+  }
+
+  if (score === 0) return "neutral";
+  const towardYes = score > 0;
+  return towardYes === (parsed.polarity === "affirmative") ? "up" : "down";
+}
+
+function isNegated(tokens: string[], index: number): boolean {
+  for (let i = Math.max(0, index - NEGATION_WINDOW); i < index; i++) {
+    if (NEGATIONS.has(tokens[i]!)) return true;
+  }
+  return false;
+}
+
+function tokenize(text: string): string[] {
+  const tokens = text.toLowerCase().replace(/[’]/g, "'").match(/[a-z0-9$]+(?:'[a-z]+)?/g) ?? [];
+  // Possessives name the subject too: "Biden's campaign"
+  return tokens.map(token => token.replace(/'s$/, ""));
+}
+
+/**
+ * Base form of a question verb ("wins" → "win", "approved" → "approve")
+ */
+function lemma(word: string): string {
+  const lower = word.toLowerCase().replace(/[^a-z]/g, "");
+  for (const suffix of ["", "es", "s", "ed", "d"]) {
+    const base = lower.slice(0, lower.length - suffix.length);
+    if (lower.endsWith(suffix) && base in PREDICATE_LEXICONS) return base;
+  }
+  return lower;
+}
+
+function toTerms(words: string[]): string[] {
+  return words
+    .flatMap(word => tokenize(word))
+    .filter(word => word.length > 1 && !STOPWORDS.has(word));
+}
+
+function takeWhile<T>(items: T[], predicate: (item: T, index: number) => boolean): T[] {
+  const taken: T[] = [];
+  for (const [i, item] of items.entries()) {
+    if (!predicate(item, i)) break;
+    taken.push(item);
+  }
+  return taken;
+}
@@ -19,6 +19,7 @@
  */
 
 import type { Signal, SignalType, MarketCategory } from "@pomabot/shared";
+import { createSignalId } from "@pomabot/shared";
 import fetch from "node-fetch";
 
 export interface HackerNewsConfig {
@@ -350,6 +351,11 @@ export class HackerNewsConnector {
       timestamp: new Date(),
       source: `hackernews`,
       description: `Hacker News: ${hnSignal.topStories[0]?.title || ""}`,
+      id: createSignalId(
+        "hackernews",
+        hnSignal.topStories.map(story => story.url).join(" "),
+        hnSignal.topStories[0]?.title ?? ""
+      ),
     };
   }
 }
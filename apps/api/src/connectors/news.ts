@@ -15,7 +15,9 @@
  */
 
 import type { Signal, SignalType, MarketCategory } from "@pomabot/shared";
+import { createSignalId } from "@pomabot/shared";
 import Parser from "rss-parser";
+import { parseMarketQuestion, resolveDirection, type ParsedQuestion } from "./direction-resolver.js";
 
 export interface NewsItem {
   source: string;
@@ -254,9 +256,12 @@ export class NewsAggregator {
 
   /**
    * Generate signals from news items
+   * With the market question, directions are relative to its YES outcome;
+   * without it, they fall back to plain keyword sentiment.
    */
-  async generateSignals(news: NewsItem[], marketKeywords: string[]): Promise<Signal[]> {
+  async generateSignals(news: NewsItem[], marketKeywords: string[], question?: string): Promise<Signal[]> {
     const signals: Signal[] = [];
+    const parsedQuestion = question ? parseMarketQuestion(question) : undefined;
 
     for (const item of news) {
       // Update relevance score based on keyword matching
@@ -265,7 +270,7 @@ export class NewsAggregator {
         continue; // Skip irrelevant news
       }
 
-      const signal = this.analyzeNewsItem({ ...item, relevance_score: relevanceScore }, marketKeywords);
+      const signal = this.analyzeNewsItem({ ...item, relevance_score: relevanceScore }, marketKeywords, parsedQuestion);
       if (signal) {
         signals.push(signal);
       }
@@ -299,7 +304,7 @@ export class NewsAggregator {
   /**
    * Analyze news item and generate signal if relevant
    */
-  private analyzeNewsItem(item: NewsItem, keywords: string[]): Signal | undefined {
+  private analyzeNewsItem(item: NewsItem, keywords: string[], question?: ParsedQuestion): Signal | undefined {
     const lowerContent = `${item.title} ${item.content}`.toLowerCase();
     
     // Check if news is relevant to market
@@ -313,7 +318,9 @@ export class NewsAggregator {
 
     // Classify signal type based on source and content
     const signalType = this.classifySignalType(item);
-    const direction = this.determineDirection(item);
+    const direction = question
+      ? resolveDirection(question, `${item.title}. ${item.content}`)
+      : this.determineDirection(item);
     const strength = this.calculateStrength(item);
 
     return {
@@ -324,6 +331,7 @@ export class NewsAggregator {
       timestamp: item.published_at,
       source: item.source,
       description: item.title,
+      id: createSignalId(item.source, item.url, item.title),
     };
   }
 
@@ -0,0 +1,167 @@
+/**
+ * Tests for Polymarket Connector token mapping
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { readFileSync } from "node:fs";
+import { ExecutionLayer, HaltWatchdog, type OrderConnector } from "@pomabot/core";
+import type { TradeDecision } from "@pomabot/shared";
+import { PolymarketConnector } from "./polymarket";
+
+const fixture = readFileSync(
+  new URL("./fixtures/clob-markets.json", import.meta.url),
+  "utf-8"
+);
+
+const FED_MARKET = "0x5f65177b394277fd294cd75650044e32ba009a95022d88a0c1d565897d72f8f1";
+const NBA_MARKET = "0x9c1a953fe92c8357f1b646ba25d983aa83e90c525992db14fb726fa895cb5763";
+const RESOLVED_MARKET = "0xe3b1bc389210504ebcb9cffe4b0ed06ccac50561e0f24abb6379984cec030f00";
+const RAIN_MARKET = "0x2c2f0bd2ae7d6e4ff1d8c1b5a1bc8a3e9e4e1b8b5e3cdf1f9e5a7b1b0c3d2e1f";
+
+describe("PolymarketConnector", () => {
+  beforeEach(() => {
+    // Recorded response: markets end mid-2025
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-06-01T00:00:00Z"));
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(fixture, { status: 200 })));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  describe("Outcome tokens", () => {
+    it("should carry YES/NO token IDs and prices from the CLOB response", async () => {
+      const markets = await new PolymarketConnector().fetchMarkets();
+      const fed = markets.find(m => m.id === FED_MARKET);
+
+      expect(fed?.tokens?.yes).toEqual({
+        token_id: "21742633143463906290569050155826241533067272736897614950488156847949938836455",
+        outcome: "Yes",
+        price: 62,
+      });
+      expect(fed?.tokens?.no.token_id).toBe(
+        "48331043336612883890938759509493159234755048973500640148014422747788308965732"
+      );
+      expect(fed?.tokens?.no.price).toBeCloseTo(38.5, 6);
+      expect(fed?.current_price).toBe(62);
+    });
+
+    it("should treat the first named outcome as YES", async () => {
+      const markets = await new PolymarketConnector().fetchMarkets();
+      const nba = markets.find(m => m.id === NBA_MARKET);
+
+      expect(nba?.tokens?.yes.outcome).toBe("Lakers");
+      expect(nba?.tokens?.no.outcome).toBe("Celtics");
+      expect(nba?.current_price).toBe(41);
+    });
+
+    it("should omit tokens when token IDs are missing", async () => {
+      const markets = await new PolymarketConnector().fetchMarkets();
+      const rain = markets.find(m => m.id === RAIN_MARKET);
+
+      expect(rain).toBeDefined();
+      expect(rain?.tokens).toBeUndefined();
+      expect(rain?.current_price).toBe(50);
+    });
+
+    it("should skip closed and resolved markets", async () => {
+      const markets = await new PolymarketConnector().fetchMarkets();
+      expect(markets).toHaveLength(3);
+    });
+  });
+
+  describe("Resolution", () => {
+    it("should map the winning token to a resolution the halt watchdog can calibrate on", async () => {
+      const resolved = (JSON.parse(fixture) as { data: Array<{ condition_id: string }> }).data
+        .find(m => m.condition_id === RESOLVED_MARKET);
+      vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(resolved), { status: 200 })));
+
+      const market = await new PolymarketConnector().getMarket(RESOLVED_MARKET);
+      expect(market?.resolution_outcome).toBe(true);
+      expect(market?.resolved_at).toEqual(new Date("2025-06-01T00:00:00Z"));
+
+      const watchdog = new HaltWatchdog({ target: { forceHalt: vi.fn(), isHalted: () => false } });
+      watchdog.recordEntry(RESOLVED_MARKET, { belief_low: 60, belief_high: 75, confidence: 70, unknowns: [], last_updated: new Date() }, 0.2);
+      expect(watchdog.isAwaitingResolution(RESOLVED_MARKET)).toBe(true);
+
+      expect(watchdog.recordResolution(market!.id, market!.resolution_outcome!, market!.resolved_at)).toBe(true);
+      expect(watchdog.isAwaitingResolution(RESOLVED_MARKET)).toBe(false);
+      expect(watchdog.getCalibration().getRecords()).toMatchObject([{ market_id: RESOLVED_MARKET, outcome: true }]);
+    });
+
+    it("should keep the time a resolution was first seen across polls", async () => {
+      const resolved = (JSON.parse(fixture) as { data: Array<{ condition_id: string }> }).data
+        .find(m => m.condition_id === RESOLVED_MARKET);
+      vi.stubGlobal("fetch", vi.fn(async () => new Response(JSON.stringify(resolved), { status: 200 })));
+      const connector = new PolymarketConnector();
+
+      const first = await connector.getMarket(RESOLVED_MARKET);
+      vi.setSystemTime(new Date("2025-06-02T00:00:00Z"));
+      const second = await connector.getMarket(RESOLVED_MARKET);
+
+      expect(second?.resolved_at).toEqual(new Date("2025-06-01T00:00:00Z"));
+      expect(second?.resolved_at).toEqual(first?.resolved_at);
+    });
+
+    it("should leave unresolved markets without an outcome", async () => {
+      const markets = await new PolymarketConnector().fetchMarkets();
+      expect(markets.every(m => m.resolution_outcome === undefined && m.resolved_at === undefined)).toBe(true);
+    });
+  });
+
+  describe("Live order placement", () => {
+    const decision = (side: "YES" | "NO"): TradeDecision => ({
+      side,
+      size_usd: 50,
+      entry_price: 62,
+      exit_conditions: [],
+      rationale_hash: "",
+      rationale: "",
+      timestamp: new Date(),
+    });
+
+    const recordingConnector = () => {
+      const placeOrder = vi.fn(async () => ({ orderId: "clob-1" }));
+      const connector: OrderConnector = {
+        placeOrder,
+        getOrderStatus: async () => undefined,
+        cancelOrder: async () => true,
+      };
+      return { connector, placeOrder };
+    };
+
+    it("should buy the NO token at its own price for NO trades", async () => {
+      const [fed] = await new PolymarketConnector().fetchMarkets();
+      const { connector, placeOrder } = recordingConnector();
+      const execution = new ExecutionLayer(connector, false);
+
+      const result = await execution.executeTrade(
+        decision("NO"),
+        fed!.id,
+        fed!.tokens!.no.token_id,
+        { tokenPrice: fed!.tokens!.no.price }
+      );
+
+      expect(result.success).toBe(true);
+      expect(placeOrder).toHaveBeenCalledWith({
+        tokenId: "48331043336612883890938759509493159234755048973500640148014422747788308965732",
+        price: 0.385,
+        size: 50,
+        side: "BUY",
+      });
+    });
+
+    it("should fall back to the YES complement when no token price is given", async () => {
+      const { connector, placeOrder } = recordingConnector();
+      const execution = new ExecutionLayer(connector, false);
+
+      await execution.executeTrade(decision("NO"), "market-1", "token-no");
+
+      expect(placeOrder).toHaveBeenCalledWith(
+        expect.objectContaining({ tokenId: "token-no", price: 0.38, side: "BUY" })
+      );
+    });
+  });
+});
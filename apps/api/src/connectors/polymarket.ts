@@ -6,9 +6,13 @@
  * - Monitor price changes
  * - Place and manage orders
  * - Authenticate with wallet signatures
+ *
+ * The base URL is configurable so live-mode paths can run against the
+ * in-repo mock CLOB (see testing/mock-clob.ts).
  */
 
-import type { Market } from "@pomabot/shared";
+import type { Market, OutcomeToken } from "@pomabot/shared";
+import type { OrderBook } from "@pomabot/core";
 import { WalletManager } from "./wallet.js";
 
 // Pagination end marker
@@ -33,7 +37,7 @@ export interface PolymarketApiResponse {
 }
 
 export interface OrderRequest {
-  tokenId: string;       // Market token ID (from market.tokens[].token_id)
+  tokenId: string;       // Outcome token ID (from market.tokens.yes/no.token_id)
   price: number;         // 0.01 to 0.99
   size: number;          // Amount in USDC terms
   side: "BUY" | "SELL";
@@ -54,13 +58,50 @@ export enum SignatureType {
   POLY_GNOSIS_SAFE = 2,
 }
 
+export const DEFAULT_CLOB_URL = "https://clob.polymarket.com";
+
+/** Polymarket CTF exchange contract that verifies signed orders */
+export const CTF_EXCHANGE_ADDRESS = "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E";
+
+/** EIP-712 order struct; side is signed as 0 (BUY) / 1 (SELL) */
+export const ORDER_EIP712_TYPES = {
+  Order: [
+    { name: "salt", type: "uint256" },
+    { name: "maker", type: "address" },
+    { name: "signer", type: "address" },
+    { name: "taker", type: "address" },
+    { name: "tokenId", type: "uint256" },
+    { name: "makerAmount", type: "uint256" },
+    { name: "takerAmount", type: "uint256" },
+    { name: "expiration", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "feeRateBps", type: "uint256" },
+    { name: "side", type: "uint8" },
+    { name: "signatureType", type: "uint8" },
+  ],
+};
+
+/**
+ * EIP-712 domain for orders on a chain
+ */
+export function ctfExchangeDomain(chainId: number) {
+  return {
+    name: "Polymarket CTF Exchange",
+    version: "1",
+    chainId,
+    verifyingContract: CTF_EXCHANGE_ADDRESS,
+  };
+}
+
 export class PolymarketConnector {
-  private baseUrl = "https://clob.polymarket.com";
+  private baseUrl: string;
   private wallet?: WalletManager;
   private authCredentials?: ClobAuthCredentials;
+  private resolvedAt: Map<string, Date> = new Map(); // First poll that saw each market's winner
 
-  constructor(wallet?: WalletManager) {
+  constructor(wallet?: WalletManager, baseUrl: string = DEFAULT_CLOB_URL) {
     this.wallet = wallet;
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
   }
 
   /**
@@ -219,14 +260,17 @@ export class PolymarketConnector {
     try {
       // Build order object
       const timestamp = Math.floor(Date.now() / 1000);
+      // BUY gives USDC for outcome shares, SELL gives shares for USDC (6 decimals each)
+      const usdcUnits = Math.floor(request.size * 1e6).toString();
+      const shareUnits = Math.floor((request.size / request.price) * 1e6).toString();
       const order = {
         salt: Math.floor(Math.random() * 1000000000),
         maker: this.wallet.getAddress(),
         signer: this.wallet.getAddress(),
         taker: "0x0000000000000000000000000000000000000000",
         tokenId: request.tokenId,
-        makerAmount: Math.floor(request.size * 1e6).toString(), // Convert to USDC units (6 decimals)
-        takerAmount: Math.floor((request.size * request.price) * 1e6).toString(),
+        makerAmount: request.side === "BUY" ? usdcUnits : shareUnits,
+        takerAmount: request.side === "BUY" ? shareUnits : usdcUnits,
         side: request.side,
         feeRateBps: request.feeRateBps?.toString() ?? "0",
         nonce: request.nonce ?? timestamp,
@@ -234,32 +278,12 @@ export class PolymarketConnector {
         signatureType: SignatureType.EOA,
       };
 
-      // Sign order with EIP-712
-      const domain = {
-        name: "Polymarket CTF Exchange",
-        version: "1",
-        chainId: this.wallet.getChainId(),
-        verifyingContract: "0x4bFb41d5B3570DeFd03C39a9A4D8dE6Bd8B8982E", // Polymarket exchange contract
-      };
-
-      const types = {
-        Order: [
-          { name: "salt", type: "uint256" },
-          { name: "maker", type: "address" },
-          { name: "signer", type: "address" },
-          { name: "taker", type: "address" },
-          { name: "tokenId", type: "uint256" },
-          { name: "makerAmount", type: "uint256" },
-          { name: "takerAmount", type: "uint256" },
-          { name: "expiration", type: "uint256" },
-          { name: "nonce", type: "uint256" },
-          { name: "feeRateBps", type: "uint256" },
-          { name: "side", type: "uint8" },
-          { name: "signatureType", type: "uint8" },
-        ],
-      };
-
-      const signature = await this.wallet.signTypedData(domain, types, order);
+      // Sign order with EIP-712 (the JSON body keeps the side as a string)
+      const signature = await this.wallet.signTypedData(
+        ctfExchangeDomain(this.wallet.getChainId()),
+        ORDER_EIP712_TYPES,
+        { ...order, side: request.side === "BUY" ? 0 : 1 }
+      );
 
       // Submit order to CLOB
       const response = await fetch(`${this.baseUrl}/order`, {
@@ -300,6 +324,8 @@ export class PolymarketConnector {
 
   /**
    * Get order status
+   * The CLOB reports sizes in shares; filledAmount is converted to USDC
+   * at the order price to match the size the order was placed with
    */
   async getOrderStatus(orderId: string): Promise<{
     status: "LIVE" | "MATCHED" | "CANCELLED";
@@ -325,11 +351,12 @@ export class PolymarketConnector {
         status: "LIVE" | "MATCHED" | "CANCELLED";
         original_size: string;
         size_matched: string;
+        price: string;
       };
 
       return {
         status: result.status,
-        filledAmount: parseFloat(result.size_matched),
+        filledAmount: parseFloat(result.size_matched) * parseFloat(result.price),
       };
     } catch (error) {
       console.error(`Failed to get order status for ${orderId}:`, error);
@@ -364,6 +391,14 @@ export class PolymarketConnector {
         throw new Error(`Order cancellation failed: ${response.statusText}`);
       }
 
+      // Orders that already matched are reported back instead of cancelled
+      const result = await response.json() as { not_canceled?: Record<string, string> };
+      const notCancelled = result.not_canceled?.[orderId];
+      if (notCancelled) {
+        console.warn(`⚠️ Order ${orderId} not cancelled: ${notCancelled}`);
+        return false;
+      }
+
       console.log(`✅ Order cancelled: ${orderId}`);
       return true;
 
@@ -374,26 +409,27 @@ export class PolymarketConnector {
   }
 
   /**
-   * Get current order book for a market
+   * Get current order book for an outcome token
+   * The CLOB quotes books per token, with prices and sizes as strings
    */
-  async getOrderBook(marketId: string): Promise<{
-    bids: Array<{ price: number; size: number }>;
-    asks: Array<{ price: number; size: number }>;
-  }> {
+  async getOrderBook(tokenId: string): Promise<OrderBook> {
     try {
-      const response = await fetch(`${this.baseUrl}/markets/${marketId}/book`);
+      const response = await fetch(`${this.baseUrl}/book?token_id=${tokenId}`);
       
       if (!response.ok) {
         return { bids: [], asks: [] };
       }
 
       const result = await response.json() as {
-        bids: Array<{ price: number; size: number }>;
-        asks: Array<{ price: number; size: number }>;
+        bids?: Array<{ price: string; size: string }>;
+        asks?: Array<{ price: string; size: string }>;
       };
-      return result;
+      const toLevels = (levels: Array<{ price: string; size: string }> = []) =>
+        levels.map(level => ({ price: parseFloat(level.price), size: parseFloat(level.size) }));
+
+      return { bids: toLevels(result.bids), asks: toLevels(result.asks) };
     } catch (error) {
-      console.error(`Failed to fetch order book for ${marketId}:`, error);
+      console.error(`Failed to fetch order book for token ${tokenId}:`, error);
       return { bids: [], asks: [] };
     }
   }
@@ -403,23 +439,82 @@ export class PolymarketConnector {
    */
   private transformMarket(data: PolymarketMarketResponse): Market {
     const category = this.categorizeMarket(data.question);
+    const tokens = this.extractOutcomeTokens(data);
     
-    // Get price from tokens array (first token's price, convert to percentage)
-    const price = data.tokens?.[0]?.price ?? 0.5;
+    // YES token price (first token when outcomes aren't Yes/No), as percentage
+    const price = tokens?.yes.price ?? (data.tokens?.[0]?.price ?? 0.5) * 100;
+    const resolutionOutcome = this.extractResolutionOutcome(data);
     
     return {
       id: data.condition_id,
       question: data.question,
       resolution_criteria: data.description,
       category,
-      current_price: price * 100, // Convert to percentage
+      current_price: price,
       liquidity: parseFloat(data.liquidity ?? "0"),
       volume_24h: parseFloat(data.volume ?? "0"),
       created_at: new Date(),
       closes_at: new Date(data.end_date_iso),
+      tokens,
+      ...(resolutionOutcome !== undefined && {
+        resolution_outcome: resolutionOutcome,
+        resolved_at: this.firstResolvedAt(data.condition_id),
+      }),
     };
   }
 
+  /**
+   * The CLOB has no resolution timestamp; the first poll that saw a winner
+   * stands in, and later polls report that same time
+   */
+  private firstResolvedAt(marketId: string): Date {
+    let resolvedAt = this.resolvedAt.get(marketId);
+    if (!resolvedAt) {
+      resolvedAt = new Date();
+      this.resolvedAt.set(marketId, resolvedAt);
+    }
+    return resolvedAt;
+  }
+
+  /**
+   * YES outcome from the winning token, once the market has resolved
+   * YES is the "Yes" token or, without one, the first token, as in
+   * extractOutcomeTokens.
+   */
+  private extractResolutionOutcome(data: PolymarketMarketResponse): boolean | undefined {
+    const tokens = data.tokens ?? [];
+    if (!tokens.some(t => t.winner === true)) return undefined;
+
+    const yes = tokens.find(t => t.outcome.toLowerCase() === "yes") ?? tokens[0];
+    return yes?.winner === true;
+  }
+
+  /**
+   * Map the CLOB tokens array onto YES/NO outcome tokens
+   * "Yes"/"No" labels are matched explicitly; otherwise the first
+   * token is treated as YES, matching current_price. Markets that
+   * aren't binary or lack token IDs are left without tokens.
+   */
+  private extractOutcomeTokens(
+    data: PolymarketMarketResponse
+  ): { yes: OutcomeToken; no: OutcomeToken } | undefined {
+    const tokens = data.tokens ?? [];
+    if (tokens.length !== 2 || tokens.some(t => !t.token_id)) {
+      return undefined;
+    }
+
+    const yesIndex = tokens.findIndex(t => t.outcome.toLowerCase() === "yes");
+    const [yes, no] = yesIndex === 1 ? [tokens[1]!, tokens[0]!] : [tokens[0]!, tokens[1]!];
+
+    const toOutcomeToken = (token: typeof yes): OutcomeToken => ({
+      token_id: token.token_id!,
+      outcome: token.outcome,
+      price: token.price * 100,
+    });
+
+    return { yes: toOutcomeToken(yes), no: toOutcomeToken(no) };
+  }
+
   /**
    * Categorize market based on question content
    * Uses keyword matching to classify markets into appropriate categories
@@ -19,6 +19,7 @@
  */
 
 import type { Signal, SignalType, MarketCategory } from "@pomabot/shared";
+import { createSignalId } from "@pomabot/shared";
 import Parser from "rss-parser";
 
 export interface RedditRSSConfig {
@@ -346,6 +347,11 @@ export class RedditRSSFetcher {
       timestamp: new Date(),
       source: `reddit-rss:${rssSignal.subreddit}`,
       description: `Reddit RSS from r/${rssSignal.subreddit}: ${rssSignal.topPosts[0]?.title || ""}`,
+      id: createSignalId(
+        `reddit-rss:${rssSignal.subreddit}`,
+        rssSignal.topPosts.map(post => post.link).join(" "),
+        rssSignal.topPosts[0]?.title ?? ""
+      ),
     };
   }
 
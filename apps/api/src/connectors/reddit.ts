@@ -9,6 +9,7 @@
  */
 
 import type { Signal, SignalType, MarketCategory } from "@pomabot/shared";
+import { createSignalId } from "@pomabot/shared";
 import fetch from "node-fetch";
 
 export interface RedditConfig {
@@ -476,6 +477,12 @@ export class RedditConnector {
       timestamp: new Date(),
       source: `reddit:${redditSignal.subreddit}`,
       description: `Reddit sentiment from r/${redditSignal.subreddit}: ${redditSignal.topPosts[0]?.title || ""}`,
+      // Same top posts, same signal: a quiet subreddit can't nudge the belief every poll
+      id: createSignalId(
+        `reddit:${redditSignal.subreddit}`,
+        redditSignal.topPosts.map(post => post.url).join(" "),
+        redditSignal.topPosts[0]?.title ?? ""
+      ),
     };
   }
 
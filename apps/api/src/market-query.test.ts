@@ -0,0 +1,70 @@
+/**
+ * /api/markets filter, sort and cursor pagination tests
+ */
+
+import { describe, it, expect } from "vitest";
+import type { MarketState } from "./services/trading";
+import { MarketQueryError, parseMarketQuery, queryMarkets } from "./market-query";
+
+function marketState(
+  id: string,
+  overrides: { category?: string; liquidity?: number; price?: number; confidence?: number; closesAt?: string } = {}
+): MarketState {
+  return {
+    market: {
+      id,
+      question: `Market ${id}?`,
+      category: overrides.category ?? "politics",
+      current_price: overrides.price ?? 50,
+      liquidity: overrides.liquidity ?? 10000,
+      closes_at: overrides.closesAt ? new Date(overrides.closesAt) : undefined,
+    },
+    belief: { belief_low: 40, belief_high: 60, confidence: overrides.confidence ?? 50, unknowns: [] },
+  } as unknown as MarketState;
+}
+
+const states = [
+  marketState("a", { liquidity: 30000, price: 30, confidence: 70, closesAt: "2026-06-01T00:00:00Z" }),
+  marketState("b", { liquidity: 10000, category: "crypto", closesAt: "2026-12-01T00:00:00Z" }),
+  marketState("c", { liquidity: 20000, price: 75, confidence: 80 }),
+  marketState("d", { liquidity: 20000, category: "crypto" }),
+];
+
+function ids(params: string): string[] {
+  return queryMarkets(states, parseMarketQuery(new URLSearchParams(params))).markets.map(s => s.market.id);
+}
+
+describe("queryMarkets", () => {
+  it("should sort by liquidity, highest first, by default", () => {
+    expect(ids("")).toEqual(["a", "c", "d", "b"]);
+    expect(ids("sort=liquidity")).toEqual(["b", "c", "d", "a"]);
+  });
+
+  it("should combine filters", () => {
+    expect(ids("category=crypto")).toEqual(["d", "b"]);
+    expect(ids("category=politics,crypto&minLiquidity=15000")).toEqual(["a", "c", "d"]);
+    expect(ids("closesBefore=2026-07-01")).toEqual(["a"]);
+    expect(ids("minConfidence=65&sort=-confidence")).toEqual(["c", "a"]);
+    expect(ids("hasEdge=true&sort=-edge")).toEqual(["c", "a"]);
+    expect(ids("hasEdge=false")).toEqual(["d", "b"]);
+  });
+
+  it("should page with cursors that survive markets being added", () => {
+    const first = queryMarkets(states, parseMarketQuery(new URLSearchParams("limit=2")));
+    expect(first.markets.map(s => s.market.id)).toEqual(["a", "c"]);
+    expect(first.total).toBe(4);
+    expect(first.nextCursor).toBeDefined();
+
+    // A new top market doesn't shift the next page
+    const grown = [marketState("z", { liquidity: 99000 }), ...states];
+    const second = queryMarkets(grown, parseMarketQuery(new URLSearchParams(`limit=2&cursor=${first.nextCursor}`)));
+    expect(second.markets.map(s => s.market.id)).toEqual(["d", "b"]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it("should reject invalid parameters", () => {
+    for (const params of ["limit=0", "sort=price", "hasEdge=yes", "minLiquidity=lots", "closesBefore=soon", "cursor=nope"]) {
+      expect(() => parseMarketQuery(new URLSearchParams(params))).toThrow(MarketQueryError);
+    }
+  });
+});
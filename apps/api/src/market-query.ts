@@ -0,0 +1,194 @@
+/**
+ * /api/markets Query Parameters
+ *
+ * Filters, sorting and cursor pagination for the market list:
+ * - category=politics,crypto   One or more categories
+ * - minLiquidity=25000         USD
+ * - closesBefore=2026-12-31    ISO date; markets without a close date are excluded
+ * - minConfidence=65           Belief confidence
+ * - hasEdge=true|false         Market price outside (or inside) the belief range
+ * - sort=-liquidity            liquidity | closesAt | confidence | edge, "-" for descending
+ * - limit=20&cursor=...        Page size (all matches without a limit) and nextCursor
+ *                              from the previous page
+ *
+ * Cursors carry the last item's sort key and ID rather than an offset, so
+ * markets added or dropped between pages don't shift or repeat results.
+ */
+
+import { calculateEdge } from "@pomabot/core";
+import type { MarketState } from "./services/trading.js";
+
+export type MarketSortField = "liquidity" | "closesAt" | "confidence" | "edge";
+
+export interface MarketQuery {
+  categories?: string[];
+  minLiquidity?: number;
+  closesBefore?: Date;
+  minConfidence?: number;
+  hasEdge?: boolean;
+  sort: { field: MarketSortField; descending: boolean };
+  limit?: number;
+  cursor?: MarketCursor;
+}
+
+export interface MarketPage {
+  markets: MarketState[];
+  total: number;          // Matches across all pages
+  nextCursor?: string;
+}
+
+interface MarketCursor {
+  key: number;
+  id: string;
+}
+
+const SORT_FIELDS: MarketSortField[] = ["liquidity", "closesAt", "confidence", "edge"];
+const DEFAULT_SORT = { field: "liquidity" as const, descending: true };
+const MAX_LIMIT = 500;
+
+/**
+ * Invalid query parameter, reported to the client as a 400
+ */
+export class MarketQueryError extends Error {}
+
+export function parseMarketQuery(params: URLSearchParams): MarketQuery {
+  const query: MarketQuery = { sort: DEFAULT_SORT };
+
+  const category = params.get("category");
+  if (category) {
+    query.categories = category.split(",").map(c => c.trim()).filter(Boolean);
+  }
+
+  query.minLiquidity = parseNumber(params, "minLiquidity");
+  query.minConfidence = parseNumber(params, "minConfidence");
+
+  const closesBefore = params.get("closesBefore");
+  if (closesBefore) {
+    const date = new Date(closesBefore);
+    if (Number.isNaN(date.getTime())) {
+      throw new MarketQueryError(`closesBefore must be an ISO date, got "${closesBefore}"`);
+    }
+    query.closesBefore = date;
+  }
+
+  const hasEdge = params.get("hasEdge");
+  if (hasEdge) {
+    if (hasEdge !== "true" && hasEdge !== "false") {
+      throw new MarketQueryError(`hasEdge must be true or false, got "${hasEdge}"`);
+    }
+    query.hasEdge = hasEdge === "true";
+  }
+
+  const sort = params.get("sort");
+  if (sort) {
+    const descending = sort.startsWith("-");
+    const field = (descending ? sort.slice(1) : sort) as MarketSortField;
+    if (!SORT_FIELDS.includes(field)) {
+      throw new MarketQueryError(`sort must be one of ${SORT_FIELDS.join(", ")} (prefix "-" for descending)`);
+    }
+    query.sort = { field, descending };
+  }
+
+  const limit = parseNumber(params, "limit");
+  if (limit !== undefined) {
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new MarketQueryError(`limit must be an integer from 1 to ${MAX_LIMIT}`);
+    }
+    query.limit = limit;
+  }
+
+  const cursor = params.get("cursor");
+  if (cursor) {
+    query.cursor = decodeCursor(cursor);
+  }
+
+  return query;
+}
+
+/**
+ * Apply a parsed query to the tracked markets
+ */
+export function queryMarkets(states: MarketState[], query: MarketQuery): MarketPage {
+  const matches = states.filter(state => matchesFilters(state, query));
+
+  const { field, descending } = query.sort;
+  const compare = (a: MarketCursor, b: MarketCursor): number => {
+    const byKey = descending ? b.key - a.key : a.key - b.key;
+    // IDs break ties so the order, and with it the cursor, is total
+    return byKey !== 0 ? byKey : a.id.localeCompare(b.id);
+  };
+
+  const keyed = matches
+    .map(state => ({ state, position: { key: sortKey(state, field), id: state.market.id } }))
+    .sort((a, b) => compare(a.position, b.position));
+
+  const cursor = query.cursor;
+  const remaining = cursor ? keyed.filter(item => compare(item.position, cursor) > 0) : keyed;
+  const page = query.limit !== undefined ? remaining.slice(0, query.limit) : remaining;
+  const last = page[page.length - 1];
+
+  return {
+    markets: page.map(item => item.state),
+    total: matches.length,
+    ...(last && page.length < remaining.length && { nextCursor: encodeCursor(last.position) }),
+  };
+}
+
+function matchesFilters(state: MarketState, query: MarketQuery): boolean {
+  const { market, belief } = state;
+
+  if (query.categories && !query.categories.includes(market.category)) return false;
+  if (query.minLiquidity !== undefined && market.liquidity < query.minLiquidity) return false;
+  if (query.minConfidence !== undefined && belief.confidence < query.minConfidence) return false;
+  if (query.closesBefore && !(market.closes_at && market.closes_at < query.closesBefore)) return false;
+  if (query.hasEdge !== undefined && (marketEdge(state) > 0) !== query.hasEdge) return false;
+  return true;
+}
+
+function sortKey(state: MarketState, field: MarketSortField): number {
+  switch (field) {
+    case "liquidity":
+      return state.market.liquidity;
+    case "closesAt":
+      // Open-ended markets sort as closing last
+      return state.market.closes_at?.getTime() ?? Number.MAX_SAFE_INTEGER;
+    case "confidence":
+      return state.belief.confidence;
+    case "edge":
+      return marketEdge(state);
+  }
+}
+
+/**
+ * Distance of the market price outside the belief range, 0 inside it
+ */
+function marketEdge(state: MarketState): number {
+  return calculateEdge(state.belief, state.market.current_price).edge;
+}
+
+function parseNumber(params: URLSearchParams, name: string): number | undefined {
+  const raw = params.get(name);
+  if (!raw) return undefined;
+
+  const value = Number(raw);
+  if (!Number.isFinite(value)) {
+    throw new MarketQueryError(`${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+function encodeCursor(position: MarketCursor): string {
+  return Buffer.from(JSON.stringify([position.key, position.id])).toString("base64url");
+}
+
+function decodeCursor(cursor: string): MarketCursor {
+  try {
+    const [key, id] = JSON.parse(Buffer.from(cursor, "base64url").toString()) as unknown[];
+    if (typeof key === "number" && typeof id === "string") {
+      return { key, id };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new MarketQueryError("Invalid cursor");
+}
@@ -0,0 +1,53 @@
+/**
+ * Backtest Runner
+ * 
+ * Replays a recorded JSON/CSV dataset through the belief and trade engines.
+ * Runs fully offline.
+ * 
+ * Usage: pnpm --filter @pomabot/api backtest <dataset.json|dataset.csv>
+ */
+
+import { Backtester, loadBacktestDataset } from "@pomabot/core";
+
+async function runBacktest() {
+  const datasetPath = process.argv[2];
+  
+  if (!datasetPath) {
+    console.error("Usage: backtest <dataset.json|dataset.csv>");
+    process.exit(1);
+  }
+
+  console.log(`🧪 Backtesting ${datasetPath}\n`);
+
+  const dataset = await loadBacktestDataset(datasetPath);
+  const capital = parseFloat(process.env.BACKTEST_CAPITAL ?? "10000");
+  const result = new Backtester({ initialCapital: capital }).run(dataset);
+
+  console.log("=".repeat(60));
+  console.log(`Markets: ${result.marketsEvaluated} | Signals applied: ${result.signalsApplied} | Rejected: ${result.signalsRejected}`);
+  console.log(`Trades: ${result.trades.length} | Win rate: ${result.winRate.toFixed(1)}%`);
+  console.log(`P&L: ${result.totalPnl >= 0 ? "+" : ""}$${result.totalPnl.toFixed(2)} (${result.returnPercent.toFixed(2)}%)`);
+  console.log(`Max drawdown: ${result.maxDrawdown.toFixed(2)}%`);
+  console.log(`Sharpe (per trade): ${result.sharpeRatio?.toFixed(3) ?? "n/a"}`);
+  console.log(`Brier score: ${result.brierScore.toFixed(4)}`);
+  console.log("=".repeat(60));
+
+  console.log("\nCalibration buckets:");
+  for (const bucket of result.calibration.calibrationBuckets) {
+    console.log(
+      `   ${bucket.beliefRange.padEnd(8)} predicted ${bucket.predictedProbability.toFixed(0)}% | actual ${bucket.actualWinRate.toFixed(0)}% | ${bucket.trades} trades`
+    );
+  }
+
+  console.log("\nTrades:");
+  for (const trade of result.trades) {
+    console.log(
+      `   ${trade.status.padEnd(7)} ${trade.side} @ ${trade.entryPrice.toFixed(1)}% | $${trade.sizeUsd.toFixed(2)} | P&L ${(trade.pnl ?? 0).toFixed(2)} | ${trade.marketQuestion}`
+    );
+  }
+}
+
+runBacktest().catch(error => {
+  console.error("❌ Backtest failed:", error);
+  process.exit(1);
+});
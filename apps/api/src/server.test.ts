@@ -0,0 +1,461 @@
+/**
+ * HTTP API authentication and control endpoint tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Server } from "node:http";
+import { AuditLogger } from "@pomabot/core";
+import { ApiAuth, hasRole, parseApiTokens } from "./auth";
+import { createApiServer, type TradingApi } from "./server";
+import { TradingEventStream } from "./services/events";
+import { MarketHistory } from "./services/market-history";
+
+const TOKENS = "dash:read:r-token,ops:operator:o-token,root:admin:a-token";
+
+function createService() {
+  const status: { halted: boolean; haltCategory?: string } & Record<string, unknown> = {
+    state: "OBSERVE",
+    markets: 1,
+    halted: false,
+    haltHistory: [],
+    paused: false,
+    tradingEnabled: true,
+  };
+  const events = new TradingEventStream();
+  const history = new MarketHistory();
+  history.recordPrice(42, new Date("2026-03-01T12:00:00Z"));
+  history.recordFailedCheck("belief_width", "Belief range too wide", new Date("2026-03-01T12:00:00Z"));
+  const marketState = {
+    market: { id: "market-1", question: "Will it rain?", category: "weather", current_price: 42, liquidity: 20000 },
+    belief: { belief_low: 50, belief_high: 60, confidence: 70, unknowns: [], last_updated: new Date("2026-03-01T12:00:00Z") },
+    signalHistory: [],
+    lastChecked: new Date("2026-03-01T12:00:00Z"),
+    lifecycle: { getCurrentState: () => "OBSERVE" },
+    history,
+  };
+  return {
+    status,
+    events,
+    subscribe: events.subscribe.bind(events),
+    getStatus: vi.fn(() => status),
+    getMarketStates: vi.fn(() => [marketState]),
+    getMarketState: vi.fn((marketId: string) => (marketId === "market-1" ? marketState : undefined)),
+    getMarketLifecycle: vi.fn((marketId: string) =>
+      marketId === "market-1"
+        ? {
+            marketId,
+            state: "HALT",
+            halted: true,
+            activeHalt: { category: "invariant_breach", reason: "Illegal transition attempted: OBSERVE → MONITOR" },
+            haltHistory: [],
+            transitions: [{ from: "OBSERVE", to: "HALT", reason: "EMERGENCY HALT" }],
+          }
+        : undefined
+    ),
+    explainTrade: vi.fn((marketId: string) =>
+      marketId === "market-1"
+        ? {
+            eligible: false,
+            side: "NONE",
+            checks: [{ check: "confidence", passed: false, value: 60, threshold: 65, reason: "Confidence 60.0 below minimum 65" }],
+          }
+        : undefined
+    ),
+    getPerformanceMetrics: vi.fn(async () => ({ winRate: 0.5 })),
+    getTradeHistory: vi.fn(() => []),
+    getPortfolioStatus: vi.fn(() => ({ openPositions: 0 })),
+    getPaperTradingPositions: vi.fn(() => []),
+    getPaperTradingMetrics: vi.fn(() => undefined),
+    getPaperTradingCalibration: vi.fn(() => undefined),
+    halt: vi.fn(async () => {}),
+    resumeFromHalt: vi.fn((_actor: string, _reason: string, marketId?: string) =>
+      marketId === undefined ? status.halted : marketId === "market-1"
+    ),
+    pause: vi.fn(),
+    resume: vi.fn(),
+    setKillSwitch: vi.fn(),
+    closePosition: vi.fn(async (marketId: string) =>
+      marketId === "market-1"
+        ? { closed: true, pending: false, pnl: 1.5 }
+        : marketId === "market-2" ? { closed: false, pending: true, pnl: 0 } : undefined
+    ),
+    injectSignal: vi.fn(async (marketId: string) =>
+      marketId === "market-1"
+        ? { accepted: true, belief: { belief_low: 50, belief_high: 60, confidence: 70, unknowns: [], last_updated: new Date() } }
+        : undefined
+    ),
+  };
+}
+
+describe("parseApiTokens", () => {
+  it("should parse name:role:token entries", () => {
+    expect(parseApiTokens(TOKENS)).toEqual([
+      { name: "dash", role: "read", token: "r-token" },
+      { name: "ops", role: "operator", token: "o-token" },
+      { name: "root", role: "admin", token: "a-token" },
+    ]);
+    expect(parseApiTokens(undefined)).toEqual([]);
+  });
+
+  it("should reject unknown roles and missing tokens", () => {
+    expect(() => parseApiTokens("ops:superuser:x")).toThrow(/ops/);
+    expect(() => parseApiTokens("ops:admin")).toThrow();
+  });
+
+  it("should rank roles read < operator < admin", () => {
+    expect(hasRole("admin", "operator")).toBe(true);
+    expect(hasRole("operator", "admin")).toBe(false);
+    expect(hasRole("read", "read")).toBe(true);
+  });
+});
+
+describe("API server", () => {
+  let server: Server;
+  let baseUrl: string;
+  let service: ReturnType<typeof createService>;
+  let logDir: string;
+
+  async function listen(tokens: string, requireReadAuth = false): Promise<void> {
+    logDir = await mkdtemp(join(tmpdir(), "pomabot-api-"));
+    const auditLogger = new AuditLogger(logDir);
+    await auditLogger.initialize();
+
+    service = createService();
+    server = createApiServer(service as unknown as TradingApi, {
+      auth: new ApiAuth(parseApiTokens(tokens)),
+      auditLogger,
+      requireReadAuth,
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  function post(path: string, token?: string, body?: unknown): Promise<Response> {
+    return fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  }
+
+  async function auditRows(): Promise<string[]> {
+    const [file] = await readdir(logDir);
+    return (await readFile(join(logDir, file!), "utf-8")).trim().split("\n").slice(1);
+  }
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await rm(logDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  describe("read endpoints", () => {
+    it("should stay open by default and resolve async metrics", async () => {
+      await listen(TOKENS);
+
+      const status = await fetch(`${baseUrl}/api/status`);
+      expect(status.status).toBe(200);
+      expect(await (await fetch(`${baseUrl}/api/performance`)).json()).toEqual({ winRate: 0.5 });
+      expect((await fetch(`${baseUrl}/api/missing`)).status).toBe(404);
+    });
+
+    it("should stream trading events and replay missed ones on reconnect", async () => {
+      await listen(TOKENS, true);
+      const halt = { type: "halt", category: "manual", reason: "Operator request", timestamp: "2026-03-01T12:00:00.000Z" } as const;
+      service.events.publish(halt);
+
+      expect((await fetch(`${baseUrl}/api/stream`)).status).toBe(401);
+
+      const controller = new AbortController();
+      const response = await fetch(`${baseUrl}/api/stream?access_token=r-token`, {
+        headers: { "Last-Event-ID": "0" },
+        signal: controller.signal,
+      });
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toBe("text/event-stream");
+
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let received = "";
+      while (!received.includes("event: halt\n")) {
+        received += decoder.decode((await reader.read()).value);
+      }
+      expect(received).toContain(`id: 1\nevent: halt\ndata: ${JSON.stringify(halt)}\n\n`);
+
+      service.events.publish({ ...halt, type: "halt", reason: "Second" });
+      while (!received.includes("Second")) {
+        received += decoder.decode((await reader.read()).value);
+      }
+      expect(received).toContain("id: 2\nevent: halt");
+
+      controller.abort();
+      await vi.waitFor(() => expect(service.events.getSubscriberCount()).toBe(0));
+
+      // A reopened stream passes the last seen ID in the query
+      const resumed = new AbortController();
+      const reopened = await fetch(`${baseUrl}/api/stream?access_token=r-token&lastEventId=1`, { signal: resumed.signal });
+      const reopenedReader = reopened.body!.getReader();
+      let replayed = "";
+      while (!replayed.includes("Second")) {
+        replayed += decoder.decode((await reopenedReader.read()).value);
+      }
+      expect(replayed).toContain("id: 2\nevent: halt");
+      expect(replayed).not.toContain("id: 1\n");
+
+      resumed.abort();
+      await vi.waitFor(() => expect(service.events.getSubscriberCount()).toBe(0));
+    });
+
+    it("should serve a market's lifecycle and transition history", async () => {
+      await listen(TOKENS);
+
+      const response = await fetch(`${baseUrl}/api/markets/market-1/transitions`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ marketId: "market-1", state: "HALT", transitions: [{ to: "HALT" }] });
+      expect((await fetch(`${baseUrl}/api/markets/unknown/transitions`)).status).toBe(404);
+    });
+
+    it("should filter the market list from query parameters", async () => {
+      await listen(TOKENS);
+
+      const weather = await fetch(`${baseUrl}/api/markets?category=weather&hasEdge=true&limit=10`);
+      expect(weather.status).toBe(200);
+      expect(await weather.json()).toMatchObject({ total: 1, markets: [{ marketId: "market-1", lifecycleState: "OBSERVE" }] });
+
+      const crypto = await fetch(`${baseUrl}/api/markets?category=crypto`);
+      expect(await crypto.json()).toEqual({ total: 0, markets: [] });
+
+      const invalid = await fetch(`${baseUrl}/api/markets?sort=price`);
+      expect(invalid.status).toBe(400);
+      expect(await invalid.json()).toEqual({ error: expect.stringContaining("sort must be one of") });
+    });
+
+    it("should serve a market's belief, price and signal history", async () => {
+      await listen(TOKENS);
+
+      const response = await fetch(`${baseUrl}/api/markets/market-1`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        marketId: "market-1",
+        currentPrice: 42,
+        lifecycleState: "OBSERVE",
+        priceHistory: [{ timestamp: "2026-03-01T12:00:00.000Z", price: 42 }],
+        rejectedSignals: [],
+        resolvedUnknowns: [],
+        lastFailedCheck: { check: "belief_width", reason: "Belief range too wide" },
+      });
+      expect((await fetch(`${baseUrl}/api/markets/unknown`)).status).toBe(404);
+    });
+
+    it("should explain every trade check for a market", async () => {
+      await listen(TOKENS);
+
+      const response = await fetch(`${baseUrl}/api/markets/market-1/evaluation`);
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        marketId: "market-1",
+        eligible: false,
+        checks: [{ check: "confidence", passed: false, value: 60, threshold: 65 }],
+      });
+      expect((await fetch(`${baseUrl}/api/markets/unknown/evaluation`)).status).toBe(404);
+    });
+
+    it("should require a read token when read auth is on, except for health", async () => {
+      await listen(TOKENS, true);
+
+      expect((await fetch(`${baseUrl}/api/status`)).status).toBe(401);
+      expect((await fetch(`${baseUrl}/api/health`)).status).toBe(200);
+      const authed = await fetch(`${baseUrl}/api/status`, { headers: { Authorization: "Bearer r-token" } });
+      expect(authed.status).toBe(200);
+    });
+  });
+
+  describe("control endpoints", () => {
+    it("should be disabled without configured tokens", async () => {
+      await listen("");
+
+      const response = await post("/api/control/pause", "o-token");
+      expect(response.status).toBe(503);
+      expect(service.pause).not.toHaveBeenCalled();
+    });
+
+    it("should reject missing, invalid and under-privileged tokens and audit them", async () => {
+      await listen(TOKENS);
+
+      const anonymous = await post("/api/control/halt", undefined, { reason: "x" });
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.headers.get("www-authenticate")).toBe("Bearer");
+      expect((await post("/api/control/halt", "wrong", { reason: "x" })).status).toBe(401);
+      expect((await post("/api/control/halt", "r-token", { reason: "x" })).status).toBe(403);
+      expect((await post("/api/control/kill-switch", "o-token", { active: true })).status).toBe(403);
+      expect(service.halt).not.toHaveBeenCalled();
+      expect(service.setKillSwitch).not.toHaveBeenCalled();
+
+      const rows = await auditRows();
+      expect(rows).toHaveLength(4);
+      expect(rows[2]).toContain("HALT,dash: Rejected: requires operator role");
+      expect(rows[3]).toContain("KILL_SWITCH,ops: Rejected: requires admin role");
+    });
+
+    it("should halt, pause and resume for operators", async () => {
+      await listen(TOKENS);
+
+      expect((await post("/api/control/halt", "o-token", {})).status).toBe(400);
+      expect((await post("/api/control/halt", "o-token", { reason: "bad feed" })).status).toBe(200);
+      expect(service.halt).toHaveBeenCalledWith("Manual halt by ops: bad feed");
+
+      // Halting twice does nothing, so it is refused
+      service.status.halted = true;
+      expect((await post("/api/control/halt", "o-token", { reason: "still bad" })).status).toBe(409);
+      expect(service.halt).toHaveBeenCalledTimes(1);
+
+      expect((await post("/api/control/pause", "o-token", { reason: "FOMC day" })).status).toBe(200);
+      expect(service.pause).toHaveBeenCalledWith("FOMC day");
+      expect((await post("/api/control/resume", "a-token")).status).toBe(200);
+      expect(service.resume).toHaveBeenCalledTimes(1);
+
+      const rows = await auditRows();
+      expect(rows.map(row => row.split(",")[4])).toEqual(["HALT", "HALT", "HALT", "PAUSE", "RESUME"]);
+      expect(rows[0]).toContain("ops: Rejected: reason is required");
+      expect(rows[2]).toContain("ops: Rejected: System is already halted");
+      expect(rows[3]).toContain("OPERATOR_ACTION");
+      expect(rows[3]).toContain("ops: FOMC day");
+    });
+
+    it("should resume from a halt with an acknowledgement", async () => {
+      await listen(TOKENS);
+
+      // Callers are checked before their body is read
+      const unreadable = { method: "POST", headers: { "Content-Type": "application/json" }, body: "{ not json" };
+      expect((await fetch(`${baseUrl}/api/control/resume-halt`, unreadable)).status).toBe(401);
+      expect((await fetch(`${baseUrl}/api/control/resume-halt`, {
+        ...unreadable,
+        headers: { ...unreadable.headers, Authorization: "Bearer r-token" },
+      })).status).toBe(403);
+
+      expect((await post("/api/control/resume-halt", "o-token", { reason: "Feed fixed" })).status).toBe(409);
+      expect((await auditRows()).at(-1)).toContain("RESUME_HALT,ops: Rejected: System is not halted");
+
+      service.status.halted = true;
+      service.status.haltCategory = "manual";
+      expect((await post("/api/control/resume-halt", "o-token", {})).status).toBe(400);
+      expect((await post("/api/control/resume-halt", "o-token", { reason: "Feed fixed" })).status).toBe(200);
+      expect(service.resumeFromHalt).toHaveBeenLastCalledWith("ops", "Feed fixed", undefined);
+      expect((await auditRows()).at(-1)).toContain("RESUME_HALT,ops: Feed fixed");
+    });
+
+    it("should require an admin to resume after an invariant breach", async () => {
+      await listen(TOKENS);
+      service.status.halted = true;
+      service.status.haltCategory = "invariant_breach";
+
+      expect((await post("/api/control/resume-halt", "o-token", { reason: "Looks fine" })).status).toBe(403);
+      expect((await post("/api/control/resume-halt", "a-token", { reason: "Root cause fixed" })).status).toBe(200);
+      expect(service.resumeFromHalt).toHaveBeenCalledTimes(1);
+    });
+
+    it("should resume a single halted market", async () => {
+      await listen(TOKENS);
+
+      // market-1 halted on an invariant breach, so only an admin may resume it
+      expect((await post("/api/control/resume-halt", "o-token", { reason: "Checked", marketId: "market-1" })).status).toBe(403);
+      expect((await auditRows()).at(-1)).toContain("OPERATOR_ACTION,market-1,,RESUME_HALT,ops: Rejected: Forbidden: requires admin role");
+      expect((await post("/api/control/resume-halt", "a-token", { reason: "Checked", marketId: 42 })).status).toBe(400);
+      expect((await post("/api/control/resume-halt", "a-token", { reason: "Checked", marketId: "market-1" })).status).toBe(200);
+      expect(service.resumeFromHalt).toHaveBeenLastCalledWith("root", "Checked", "market-1");
+      expect((await auditRows()).at(-1)).toContain("OPERATOR_ACTION,market-1,,RESUME_HALT,root: Checked");
+      expect((await post("/api/control/resume-halt", "o-token", { reason: "Checked", marketId: "market-2" })).status).toBe(409);
+      expect((await auditRows()).at(-1)).toContain("OPERATOR_ACTION,market-2,,RESUME_HALT,ops: Rejected: Market market-2 is not halted");
+    });
+
+    it("should flip the kill switch for admins", async () => {
+      await listen(TOKENS);
+
+      expect((await post("/api/control/kill-switch", "a-token", { active: "yes" })).status).toBe(400);
+      const response = await post("/api/control/kill-switch", "a-token", { active: true, reason: "exchange outage" });
+
+      expect(response.status).toBe(200);
+      expect(service.setKillSwitch).toHaveBeenCalledWith(true, "exchange outage");
+      const rows = await auditRows();
+      expect(rows[0]).toContain("KILL_SWITCH,root: Rejected: active must be true or false");
+      expect(rows[1]).toContain("root: Activated: exchange outage");
+    });
+
+    it("should close a position by market ID", async () => {
+      await listen(TOKENS);
+
+      const response = await post("/api/positions/market-1/close", "o-token");
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ ok: true, pending: false, pnl: 1.5 });
+      expect(service.closePosition).toHaveBeenCalledWith("market-1", "Closed by ops");
+
+      // A live SELL still working on the CLOB
+      const pending = await post("/api/positions/market-2/close", "o-token");
+      expect(pending.status).toBe(202);
+      expect(await pending.json()).toEqual({ ok: true, pending: true, pnl: 0 });
+      expect((await auditRows()).at(-1)).toContain("Exit order working");
+
+      expect((await post("/api/positions/unknown/close", "o-token")).status).toBe(404);
+      expect((await auditRows())[0]).toContain("OPERATOR_ACTION,market-1,,CLOSE_POSITION");
+    });
+
+    it("should validate and inject signals for admins", async () => {
+      await listen(TOKENS);
+
+      const invalid = await post("/api/markets/market-1/signals", "a-token", { type: "rumor", direction: "up", strength: 3 });
+      expect(invalid.status).toBe(400);
+      expect((await post("/api/markets/market-1/signals", "o-token", {})).status).toBe(403);
+
+      const response = await post("/api/markets/market-1/signals", "a-token", {
+        type: "authoritative",
+        direction: "up",
+        strength: 4,
+        description: "BLS release",
+      });
+
+      expect(response.status).toBe(200);
+      expect(((await response.json()) as { accepted: boolean }).accepted).toBe(true);
+      expect(service.injectSignal).toHaveBeenCalledWith("market-1", expect.objectContaining({
+        type: "authoritative",
+        direction: "up",
+        strength: 4,
+        source: "api:root",
+        description: "BLS release",
+      }));
+      expect((await auditRows()).at(-1)).toContain("authoritative up (strength 4) accepted: BLS release");
+
+      expect((await post("/api/markets/unknown/signals", "a-token", {
+        type: "procedural", direction: "down", strength: 1,
+      })).status).toBe(404);
+      expect((await auditRows()).at(-1)).toContain("OPERATOR_ACTION,unknown,,INJECT_SIGNAL,root: Rejected: Unknown market unknown");
+
+      service.injectSignal.mockRejectedValueOnce(new Error("System is halted: bad feed"));
+      expect((await post("/api/markets/market-1/signals", "a-token", {
+        type: "procedural", direction: "down", strength: 1,
+      })).status).toBe(409);
+      expect((await auditRows()).at(-1)).toContain("INJECT_SIGNAL,root: Rejected: System is halted: bad feed");
+    });
+
+    it("should reject malformed JSON bodies", async () => {
+      await listen(TOKENS);
+
+      const response = await fetch(`${baseUrl}/api/control/pause`, {
+        method: "POST",
+        headers: { Authorization: "Bearer o-token" },
+        body: "{ nope",
+      });
+      expect(response.status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,554 @@
+/**
+ * HTTP API Server
+ *
+ * Read endpoints for the dashboard, including the filtered, sorted and
+ * paginated market list at GET /api/markets (see market-query.ts), a
+ * market's belief, price and signal history at GET /api/markets/:marketId,
+ * every trade eligibility check at GET /api/markets/:marketId/evaluation,
+ * its lifecycle at GET /api/markets/:marketId/transitions and a Server-Sent
+ * Events stream of TradingEvents at GET /api/stream, plus authenticated
+ * control endpoints:
+ * - POST /api/control/halt               (operator) { reason }; 409 when already halted
+ * - POST /api/control/pause              (operator) { reason? }
+ * - POST /api/control/resume             (operator)
+ * - POST /api/control/resume-halt        (operator; admin after an invariant breach) { reason, marketId? }
+ * - POST /api/control/kill-switch        (admin)    { active, reason? }
+ * - POST /api/positions/:marketId/close  (operator) { reason? }
+ * - POST /api/markets/:marketId/signals  (admin)    { type, direction, strength, description? }
+ *
+ * Every control request, allowed or not, is written to the audit log
+ * under the calling token's name.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AuditLogger } from "@pomabot/core";
+import type { Signal, SignalDirection, SignalType } from "@pomabot/shared";
+import { hasRole, type ApiAuth, type ApiRole, type ApiToken } from "./auth.js";
+import { MarketQueryError, parseMarketQuery, queryMarkets } from "./market-query.js";
+import type { MarketState, TradingService } from "./services/trading.js";
+
+export type TradingApi = Pick<
+  TradingService,
+  | "getStatus"
+  | "getMarketStates"
+  | "getMarketState"
+  | "getMarketLifecycle"
+  | "explainTrade"
+  | "getPerformanceMetrics"
+  | "getTradeHistory"
+  | "getPortfolioStatus"
+  | "getPaperTradingPositions"
+  | "getPaperTradingMetrics"
+  | "getPaperTradingCalibration"
+  | "halt"
+  | "resumeFromHalt"
+  | "pause"
+  | "resume"
+  | "setKillSwitch"
+  | "closePosition"
+  | "injectSignal"
+  | "subscribe"
+>;
+
+export interface ApiServerOptions {
+  auth: ApiAuth;
+  auditLogger: AuditLogger;
+  requireReadAuth?: boolean;     // Require a read token on GET endpoints (health stays open)
+  corsOrigin?: string;           // Access-Control-Allow-Origin (default "*")
+}
+
+const MAX_BODY_BYTES = 64 * 1024;
+const STREAM_RETRY_MS = 5000;        // EventSource reconnect delay
+const STREAM_HEARTBEAT_MS = 25000;   // Keeps idle proxies from closing the stream
+
+const SIGNAL_TYPES: SignalType[] = ["authoritative", "procedural", "quantitative", "interpretive", "speculative"];
+const SIGNAL_DIRECTIONS: SignalDirection[] = ["up", "down", "neutral"];
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export function createApiServer(service: TradingApi, options: ApiServerOptions): Server {
+  const { auth, auditLogger } = options;
+
+  /**
+   * Resolve the caller and check its role, auditing refused control requests
+   */
+  async function authorize(
+    req: IncomingMessage,
+    required: ApiRole,
+    action?: string,
+    authorization = req.headers.authorization
+  ): Promise<ApiToken> {
+    if (action && !auth.isEnabled()) {
+      throw new HttpError(503, "Control endpoints are disabled (no API_TOKENS configured)");
+    }
+
+    const token = auth.authenticate(authorization);
+    if (!token) {
+      if (action) {
+        await auditLogger.logOperatorAction(action, "anonymous", "Rejected: missing or invalid token");
+      }
+      throw new HttpError(401, "Unauthorized");
+    }
+
+    if (!hasRole(token.role, required)) {
+      if (action) {
+        await auditLogger.logOperatorAction(action, token.name, `Rejected: requires ${required} role`);
+      }
+      throw new HttpError(403, `Forbidden: requires ${required} role`);
+    }
+
+    return token;
+  }
+
+  async function handleGet(
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string,
+    query: URLSearchParams
+  ): Promise<boolean> {
+    if (path === "/api/health") {
+      sendJson(res, 200, { ok: true, timestamp: new Date().toISOString() });
+      return true;
+    }
+
+    if (options.requireReadAuth && path.startsWith("/api/")) {
+      // EventSource can't set headers, so the stream also takes ?access_token=
+      const queryToken = path === "/api/stream" ? query.get("access_token") : undefined;
+      await authorize(req, "read", undefined, queryToken ? `Bearer ${queryToken}` : undefined);
+    }
+
+    if (path === "/api/stream") {
+      streamEvents(req, res, query);
+      return true;
+    }
+
+    if (path === "/api/status") {
+      sendJson(res, 200, service.getStatus());
+      return true;
+    }
+
+    if (path === "/api/markets") {
+      let page;
+      try {
+        page = queryMarkets(service.getMarketStates(), parseMarketQuery(query));
+      } catch (error) {
+        if (error instanceof MarketQueryError) {
+          throw new HttpError(400, error.message);
+        }
+        throw error;
+      }
+      sendJson(res, 200, { ...page, markets: page.markets.map(serializeMarket) });
+      return true;
+    }
+
+    const marketMatch = path.match(/^\/api\/markets\/([^/]+)$/);
+    if (marketMatch?.[1]) {
+      const marketId = decodeURIComponent(marketMatch[1]);
+      const state = service.getMarketState(marketId);
+      if (!state) {
+        throw new HttpError(404, `Unknown market ${marketId}`);
+      }
+      // Dates serialize to ISO strings
+      sendJson(res, 200, {
+        ...serializeMarket(state),
+        beliefHistory: state.history.beliefs,
+        priceHistory: state.history.prices,
+        signals: state.signalHistory,
+        rejectedSignals: state.history.rejectedSignals,
+        resolvedUnknowns: state.history.resolvedUnknowns,
+        lastFailedCheck: state.history.lastFailedCheck,
+      });
+      return true;
+    }
+
+    const evaluationMatch = path.match(/^\/api\/markets\/([^/]+)\/evaluation$/);
+    if (evaluationMatch?.[1]) {
+      const marketId = decodeURIComponent(evaluationMatch[1]);
+      const explanation = service.explainTrade(marketId);
+      if (!explanation) {
+        throw new HttpError(404, `Unknown market ${marketId}`);
+      }
+      sendJson(res, 200, { marketId, ...explanation });
+      return true;
+    }
+
+    const transitionsMatch = path.match(/^\/api\/markets\/([^/]+)\/transitions$/);
+    if (transitionsMatch?.[1]) {
+      const marketId = decodeURIComponent(transitionsMatch[1]);
+      const lifecycle = service.getMarketLifecycle(marketId);
+      if (!lifecycle) {
+        throw new HttpError(404, `Unknown market ${marketId}`);
+      }
+      sendJson(res, 200, lifecycle);
+      return true;
+    }
+
+    if (path === "/api/performance") {
+      sendJson(res, 200, await service.getPerformanceMetrics());
+      return true;
+    }
+
+    if (path === "/api/trade-history") {
+      sendJson(res, 200, service.getTradeHistory());
+      return true;
+    }
+
+    if (path === "/api/portfolio") {
+      sendJson(res, 200, service.getPortfolioStatus());
+      return true;
+    }
+
+    // Phase 9: Batch processing endpoints
+    if (path === "/api/batch/config") {
+      sendJson(res, 200, {
+        batchMode: process.env.BATCH_MODE_ENABLED === "true",
+        maxConcurrency: parseInt(process.env.BATCH_MAX_CONCURRENCY || "50", 10),
+        batchSize: parseInt(process.env.BATCH_SIZE || "100", 10),
+        timeoutMs: parseInt(process.env.BATCH_TIMEOUT_MS || "5000", 10),
+        minEdge: parseInt(process.env.BATCH_MIN_EDGE || "15", 10),
+        maxPortfolioRisk: parseInt(process.env.BATCH_MAX_PORTFOLIO_RISK || "20", 10),
+        diversificationRequired: process.env.BATCH_REQUIRE_DIVERSIFICATION !== "false",
+        stopLossPercent: parseInt(process.env.BATCH_STOP_LOSS_PERCENT || "5", 10),
+        profitTargetPercent: parseInt(process.env.BATCH_PROFIT_TARGET_PERCENT || "10", 10),
+      });
+      return true;
+    }
+
+    // Phase 11: Paper trading endpoints
+    if (path === "/api/paper-trading/positions") {
+      const positions = service.getPaperTradingPositions();
+      sendJson(res, 200, { positions: positions ?? [], total: positions?.length ?? 0 });
+      return true;
+    }
+
+    if (path === "/api/paper-trading/metrics") {
+      sendJson(res, 200, service.getPaperTradingMetrics() ?? {});
+      return true;
+    }
+
+    if (path === "/api/paper-trading/calibration") {
+      sendJson(res, 200, service.getPaperTradingCalibration() ?? {});
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Push TradingEvents as Server-Sent Events until the client disconnects
+   * Reconnecting clients send Last-Event-ID and get the events they missed;
+   * a new EventSource can't set it, so ?lastEventId= is the fallback
+   */
+  function streamEvents(req: IncomingMessage, res: ServerResponse, query: URLSearchParams): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write(`retry: ${STREAM_RETRY_MS}\n\n`);
+
+    const lastEventId = parseInt(String(req.headers["last-event-id"] ?? query.get("lastEventId") ?? ""), 10);
+    const unsubscribe = service.subscribe(({ id, event }) => {
+      res.write(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }, Number.isFinite(lastEventId) ? lastEventId : undefined);
+
+    const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), STREAM_HEARTBEAT_MS);
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+
+  /**
+   * Run an authorized control request, auditing it if it fails (bad body,
+   * nothing to do) the way authorize audits 401s and 403s. `target` is
+   * read when logging, so a market named in the body can be set on it.
+   */
+  async function audited(
+    action: string,
+    token: ApiToken,
+    target: { marketId?: string },
+    run: () => Promise<void>
+  ): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const details = error instanceof HttpError ? `Rejected: ${message}` : `Failed: ${message}`;
+      await auditLogger.logOperatorAction(action, token.name, details, target.marketId);
+      throw error;
+    }
+  }
+
+  async function handlePost(req: IncomingMessage, res: ServerResponse, path: string): Promise<boolean> {
+    if (path === "/api/control/halt") {
+      const token = await authorize(req, "operator", "HALT");
+      await audited("HALT", token, {}, async () => {
+        const { reason } = await readBody(req);
+        if (typeof reason !== "string" || !reason.trim()) {
+          throw new HttpError(400, "reason is required");
+        }
+        if (service.getStatus().halted) {
+          throw new HttpError(409, "System is already halted");
+        }
+        await service.halt(`Manual halt by ${token.name}: ${reason}`);
+        await auditLogger.logOperatorAction("HALT", token.name, reason);
+        sendJson(res, 200, { ok: true, status: service.getStatus() });
+      });
+      return true;
+    }
+
+    if (path === "/api/control/pause") {
+      const token = await authorize(req, "operator", "PAUSE");
+      await audited("PAUSE", token, {}, async () => {
+        const reason = optionalString((await readBody(req)).reason) ?? `Paused by ${token.name}`;
+        service.pause(reason);
+        await auditLogger.logOperatorAction("PAUSE", token.name, reason);
+        sendJson(res, 200, { ok: true, status: service.getStatus() });
+      });
+      return true;
+    }
+
+    if (path === "/api/control/resume") {
+      const token = await authorize(req, "operator", "RESUME");
+      service.resume();
+      await auditLogger.logOperatorAction("RESUME", token.name, "Trading resumed");
+      sendJson(res, 200, { ok: true, status: service.getStatus() });
+      return true;
+    }
+
+    if (path === "/api/control/resume-halt") {
+      const token = await authorize(req, "operator", "RESUME_HALT");
+      const target: { marketId?: string } = {};
+      await audited("RESUME_HALT", token, target, async () => {
+        const body = await readBody(req);
+        if (body.marketId !== undefined && typeof body.marketId !== "string") {
+          throw new HttpError(400, "marketId must be a string");
+        }
+        const marketId = target.marketId = body.marketId;
+        // The body names the market, so only now is it known whether this needs an admin
+        const category = marketId === undefined
+          ? service.getStatus().haltCategory
+          : service.getMarketLifecycle(marketId)?.activeHalt?.category;
+        if (category === "invariant_breach" && !hasRole(token.role, "admin")) {
+          throw new HttpError(403, "Forbidden: requires admin role");
+        }
+        const { reason } = body;
+        if (typeof reason !== "string" || !reason.trim()) {
+          throw new HttpError(400, "reason is required to acknowledge a halt");
+        }
+        if (!service.resumeFromHalt(token.name, reason, marketId)) {
+          throw new HttpError(409, marketId === undefined ? "System is not halted" : `Market ${marketId} is not halted`);
+        }
+        await auditLogger.logOperatorAction("RESUME_HALT", token.name, reason, marketId);
+        sendJson(res, 200, { ok: true, status: service.getStatus() });
+      });
+      return true;
+    }
+
+    if (path === "/api/control/kill-switch") {
+      const token = await authorize(req, "admin", "KILL_SWITCH");
+      await audited("KILL_SWITCH", token, {}, async () => {
+        const body = await readBody(req);
+        if (typeof body.active !== "boolean") {
+          throw new HttpError(400, "active must be true or false");
+        }
+        const reason = optionalString(body.reason) ?? `Kill switch set by ${token.name}`;
+        service.setKillSwitch(body.active, reason);
+        await auditLogger.logOperatorAction(
+          "KILL_SWITCH",
+          token.name,
+          `${body.active ? "Activated" : "Released"}: ${reason}`
+        );
+        sendJson(res, 200, { ok: true, status: service.getStatus() });
+      });
+      return true;
+    }
+
+    const closeMatch = path.match(/^\/api\/positions\/([^/]+)\/close$/);
+    if (closeMatch?.[1]) {
+      const marketId = decodeURIComponent(closeMatch[1]);
+      const token = await authorize(req, "operator", "CLOSE_POSITION");
+      await audited("CLOSE_POSITION", token, { marketId }, async () => {
+        const reason = optionalString((await readBody(req)).reason) ?? `Closed by ${token.name}`;
+        const result = await service.closePosition(marketId, reason);
+        if (!result) {
+          throw new HttpError(404, `No open position for ${marketId}`);
+        }
+        const outcome = result.closed ? "Closed" : result.pending ? "Exit order working" : "Close failed";
+        await auditLogger.logOperatorAction(
+          "CLOSE_POSITION",
+          token.name,
+          `${outcome} (pnl ${result.pnl.toFixed(2)}): ${reason}`,
+          marketId
+        );
+        // 202: the SELL is on the CLOB and the position closes as it fills
+        sendJson(
+          res,
+          result.closed ? 200 : result.pending ? 202 : 502,
+          { ok: result.closed || result.pending, pending: result.pending, pnl: result.pnl }
+        );
+      });
+      return true;
+    }
+
+    const signalMatch = path.match(/^\/api\/markets\/([^/]+)\/signals$/);
+    if (signalMatch?.[1]) {
+      const marketId = decodeURIComponent(signalMatch[1]);
+      const token = await authorize(req, "admin", "INJECT_SIGNAL");
+      await audited("INJECT_SIGNAL", token, { marketId }, async () => {
+        const signal = parseSignal(await readBody(req), token.name);
+
+        let result: Awaited<ReturnType<TradingApi["injectSignal"]>>;
+        try {
+          result = await service.injectSignal(marketId, signal);
+        } catch (error) {
+          throw new HttpError(409, error instanceof Error ? error.message : String(error));
+        }
+        if (!result) {
+          throw new HttpError(404, `Unknown market ${marketId}`);
+        }
+
+        await auditLogger.logOperatorAction(
+          "INJECT_SIGNAL",
+          token.name,
+          `${signal.type} ${signal.direction} (strength ${signal.strength}) ${result.accepted ? "accepted" : "rejected"}` +
+            (signal.description ? `: ${signal.description}` : ""),
+          marketId
+        );
+        sendJson(res, 200, { ok: true, accepted: result.accepted, belief: result.belief });
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  return createServer((req, res) => {
+    // CORS headers
+    res.setHeader("Access-Control-Allow-Origin", options.corsOrigin ?? "*");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname;
+    const handler = req.method === "POST" ? handlePost : req.method === "GET" ? handleGet : undefined;
+
+    (handler ? handler(req, res, path, url.searchParams) : Promise.resolve(false))
+      .then(handled => {
+        if (!handled) {
+          sendJson(res, 404, { error: "Not found" });
+        }
+      })
+      .catch(error => {
+        if (error instanceof HttpError) {
+          if (error.status === 401) {
+            res.setHeader("WWW-Authenticate", "Bearer");
+          }
+          sendJson(res, error.status, { error: error.message });
+          return;
+        }
+        console.error(`API error on ${req.method} ${path}:`, error);
+        sendJson(res, 500, { error: "Internal server error" });
+      });
+  });
+}
+
+/**
+ * A market's current state as listed by /api/markets
+ */
+function serializeMarket(state: MarketState) {
+  return {
+    marketId: state.market.id,
+    question: state.market.question,
+    category: state.market.category,
+    currentPrice: state.market.current_price,
+    liquidity: state.market.liquidity,
+    closesAt: state.market.closes_at?.toISOString() ?? new Date().toISOString(),
+    belief: {
+      belief_low: state.belief.belief_low,
+      belief_high: state.belief.belief_high,
+      confidence: state.belief.confidence,
+      unknowns: state.belief.unknowns,
+      last_updated: state.belief.last_updated.toISOString(),
+    },
+    signalCount: state.signalHistory.length,
+    lastChecked: state.lastChecked.toISOString(),
+    lifecycleState: state.lifecycle.getCurrentState(),
+  };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString("utf-8").trim();
+  if (!text) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(text);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HttpError(400, "Body must be a JSON object");
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Validate an injected signal; the source records who injected it
+ */
+function parseSignal(body: Record<string, unknown>, actor: string): Signal {
+  const { type, direction, strength } = body;
+
+  if (!SIGNAL_TYPES.includes(type as SignalType)) {
+    throw new HttpError(400, `type must be one of ${SIGNAL_TYPES.join(", ")}`);
+  }
+  if (!SIGNAL_DIRECTIONS.includes(direction as SignalDirection)) {
+    throw new HttpError(400, `direction must be one of ${SIGNAL_DIRECTIONS.join(", ")}`);
+  }
+  if (typeof strength !== "number" || !Number.isInteger(strength) || strength < 1 || strength > 5) {
+    throw new HttpError(400, "strength must be an integer from 1 to 5");
+  }
+
+  return {
+    type: type as SignalType,
+    direction: direction as SignalDirection,
+    strength: strength as Signal["strength"],
+    conflicts_with_existing: body.conflicts_with_existing === true,
+    timestamp: new Date(),
+    source: `api:${actor}`,
+    description: optionalString(body.description),
+  };
+}
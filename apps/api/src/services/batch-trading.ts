@@ -12,13 +12,14 @@ import {
   type BatchResult,
   type MarketEvaluation,
 } from "@pomabot/core";
-import type { Market, Signal } from "@pomabot/shared";
+import type { Market, Signal, StrategyConfig } from "@pomabot/shared";
 import { NewsAggregator } from "../connectors/news.js";
 
 export interface BatchTradingConfig {
   batchProcessor: Partial<BatchProcessorConfig>;
   positiveOutcome: Partial<PositiveOutcomeConfig>;
   enableNews: boolean;
+  strategy?: StrategyConfig;
 }
 
 /**
@@ -35,11 +36,13 @@ export class BatchTradingService {
       batchProcessor: config.batchProcessor || {},
       positiveOutcome: config.positiveOutcome || {},
       enableNews: config.enableNews ?? true,
+      strategy: config.strategy,
     };
 
     this.batchProcessor = new BatchProcessor(
       this.config.batchProcessor,
-      this.config.positiveOutcome
+      this.config.positiveOutcome,
+      this.config.strategy
     );
 
     this.newsAggregator = new NewsAggregator();
@@ -62,7 +65,7 @@ export class BatchTradingService {
       if (this.config.enableNews) {
         try {
           const newsItems = await this.newsAggregator.fetchNews(market.category);
-          const newsSignals = await this.newsAggregator.generateSignals(newsItems, keywords);
+          const newsSignals = await this.newsAggregator.generateSignals(newsItems, keywords, market.question);
           signals.push(...newsSignals);
         } catch (error) {
           console.error(`Failed to fetch news signals for ${market.id}:`, error);
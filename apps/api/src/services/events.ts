@@ -0,0 +1,67 @@
+/**
+ * Trading Event Stream
+ *
+ * In-process fan-out of TradingEvents to /api/stream subscribers.
+ * Events get increasing IDs and the latest few are buffered, so a
+ * dashboard reconnecting with Last-Event-ID replays what it missed.
+ */
+
+import type { TradingEvent } from "@pomabot/shared";
+
+export interface StreamedEvent {
+  id: number;
+  event: TradingEvent;
+}
+
+export type TradingEventListener = (streamed: StreamedEvent) => void;
+
+export class TradingEventStream {
+  private listeners: Set<TradingEventListener> = new Set();
+  private recent: StreamedEvent[] = [];
+  private nextId = 1;
+  private maxBuffered: number;
+
+  constructor(maxBuffered = 200) {
+    this.maxBuffered = maxBuffered;
+  }
+
+  publish(event: TradingEvent): void {
+    const streamed = { id: this.nextId++, event };
+    this.recent.push(streamed);
+    if (this.recent.length > this.maxBuffered) {
+      this.recent.shift();
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(streamed);
+      } catch (error) {
+        // A broken subscriber must not stop trading or other subscribers
+        console.error("Event stream listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Receive every event from now on, after replaying buffered events
+   * newer than lastEventId. Returns the unsubscribe function.
+   */
+  subscribe(listener: TradingEventListener, lastEventId?: number): () => void {
+    if (lastEventId !== undefined) {
+      for (const streamed of this.recent) {
+        if (streamed.id > lastEventId) {
+          listener(streamed);
+        }
+      }
+    }
+
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getSubscriberCount(): number {
+    return this.listeners.size;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Market History
+ *
+ * Per-market record behind the dashboard's market detail page: belief range
+ * and price over time, signals the belief engine rejected, unknowns that
+ * have been resolved, and the trade engine check that last failed. Every list is capped, like signalHistory,
+ * so a few hundred tracked markets stay within the memory budget.
+ */
+
+import type { BeliefState, Signal, Unknown } from "@pomabot/shared";
+
+export interface BeliefPoint {
+  timestamp: Date;
+  belief_low: number;
+  belief_high: number;
+  confidence: number;
+}
+
+export interface PricePoint {
+  timestamp: Date;
+  price: number;
+}
+
+export interface RejectedSignal {
+  signal: Signal;
+  reason: string;
+  rejectedAt: Date;
+}
+
+export interface FailedCheck {
+  check: string;          // TradeEligibilityResult.failedCheck, e.g. "belief_width"
+  reason: string;
+  evaluatedAt: Date;
+}
+
+export class MarketHistory {
+  beliefs: BeliefPoint[] = [];
+  prices: PricePoint[] = [];
+  rejectedSignals: RejectedSignal[] = [];
+  resolvedUnknowns: Unknown[] = [];      // Open ones live on BeliefState.unknowns
+  lastFailedCheck?: FailedCheck;
+  private maxPoints: number;
+
+  constructor(maxPoints = 50) {
+    this.maxPoints = maxPoints;
+  }
+
+  recordBelief(belief: BeliefState, timestamp = new Date()): void {
+    this.push(this.beliefs, {
+      timestamp,
+      belief_low: belief.belief_low,
+      belief_high: belief.belief_high,
+      confidence: belief.confidence,
+    });
+  }
+
+  /**
+   * Record the market price, skipping polls where it did not move
+   */
+  recordPrice(price: number, timestamp = new Date()): void {
+    if (this.prices[this.prices.length - 1]?.price === price) return;
+    this.push(this.prices, { timestamp, price });
+  }
+
+  recordRejection(signal: Signal, reason: string, rejectedAt = new Date()): void {
+    this.push(this.rejectedSignals, { signal, reason, rejectedAt });
+  }
+
+  recordResolvedUnknown(unknown: Unknown): void {
+    this.push(this.resolvedUnknowns, unknown);
+  }
+
+  recordFailedCheck(check: string, reason: string, evaluatedAt = new Date()): void {
+    this.lastFailedCheck = { check, reason, evaluatedAt };
+  }
+
+  /**
+   * Keep only the newest points, for memory cleanup
+   */
+  trim(limit: number): void {
+    for (const list of [this.beliefs, this.prices, this.rejectedSignals, this.resolvedUnknowns]) {
+      if (list.length > limit) {
+        list.splice(0, list.length - limit);
+      }
+    }
+  }
+
+  private push<T>(list: T[], item: T): void {
+    list.push(item);
+    if (list.length > this.maxPoints) {
+      list.splice(0, list.length - this.maxPoints);
+    }
+  }
+}
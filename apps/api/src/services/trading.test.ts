@@ -0,0 +1,251 @@
+/**
+ * TradingService LIVE mode, end to end against the mock CLOB
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Wallet } from "ethers";
+import type { Signal } from "@pomabot/shared";
+import { NewsAggregator, type NewsItem } from "../connectors/news";
+import type { PolymarketMarketResponse } from "../connectors/polymarket";
+import { MockClob } from "../testing/mock-clob";
+import { TradingService } from "./trading";
+
+const MARKET_ID = "0xfed";
+const YES_TOKEN = "1001";
+
+const market: PolymarketMarketResponse = {
+  condition_id: MARKET_ID,
+  question: "Will the Fed cut interest rates in December?",
+  description: "Resolves YES if the FOMC lowers the target range, according to the Federal Reserve.",
+  end_date_iso: "2099-12-31T00:00:00Z",
+  outcomes: ["Yes", "No"],
+  volume: "250000",
+  liquidity: "50000",
+  tokens: [
+    { outcome: "Yes", price: 0.4, token_id: YES_TOKEN },
+    { outcome: "No", price: 0.6, token_id: "1002" },
+  ],
+};
+
+function authoritativeSignal(): Signal {
+  return {
+    type: "authoritative",
+    direction: "up",
+    strength: 3,
+    conflicts_with_existing: false,
+    timestamp: new Date(),
+    source: "test",
+  };
+}
+
+describe("TradingService (LIVE mode)", () => {
+  let clob: MockClob;
+  let dataDir: string;
+  let services: TradingService[];
+
+  beforeEach(async () => {
+    clob = new MockClob({ markets: [market] });
+    dataDir = await mkdtemp(join(tmpdir(), "pomabot-live-"));
+    services = [];
+
+    vi.stubEnv("POLYMARKET_CLOB_URL", await clob.start());
+    vi.stubEnv("WALLET_PRIVATE_KEY", Wallet.createRandom().privateKey);
+    vi.stubEnv("ORDER_STORE_FILE", join(dataDir, "orders.json"));
+    vi.stubEnv("MARKET_STATE_FILE", join(dataDir, "market-states.jsonl"));
+    vi.stubEnv("AUDIT_LOG_PATH", join(dataDir, "audit"));
+    vi.stubEnv("POLL_INTERVAL", "3600000");
+
+    // Belief well above the 40% market price, backed by an earlier authoritative signal
+    await writeFile(join(dataDir, "market-states.jsonl"), JSON.stringify({
+      version: 1,
+      savedAt: new Date().toISOString(),
+      markets: {
+        [MARKET_ID]: {
+          marketId: MARKET_ID,
+          belief: { belief_low: 65, belief_high: 80, confidence: 70, unknowns: [], last_updated: new Date() },
+          signalHistory: [authoritativeSignal()],
+          lastChecked: new Date(),
+        },
+      },
+    }));
+
+    vi.spyOn(NewsAggregator.prototype, "fetchNews").mockResolvedValue([]);
+    vi.spyOn(NewsAggregator.prototype, "generateSignals").mockImplementation(
+      async () => [authoritativeSignal()]
+    );
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    for (const service of services) {
+      service.stop();
+    }
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    await clob.stop();
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  async function startService(): Promise<TradingService> {
+    const service = new TradingService();
+    services.push(service);
+    await service.start();
+    return service;
+  }
+
+  it("should place a signed order on the CLOB and book its fill after a restart", async () => {
+    clob.setBook(YES_TOKEN, { asks: [{ price: 0.4, size: 500 }] });
+
+    const first = await startService();
+    expect(first.getStatus().halted).toBe(false);
+
+    const [order] = clob.getOrders();
+    expect(order?.tokenId).toBe(YES_TOKEN);
+    expect(order?.side).toBe("BUY");
+    expect(order?.status).toBe("MATCHED");
+    // Quarter-Kelly capped at 2% of $1000 capital: $20 at 40¢
+    expect(order?.originalSize).toBeCloseTo(50, 6);
+    first.stop();
+
+    const second = await startService();
+
+    expect(second.getPortfolioStatus().openPositions).toBe(1);
+    // No averaging down into the position booked by reconciliation
+    expect(clob.getOrders()).toHaveLength(1);
+  });
+
+  it("should run each market through its own lifecycle", async () => {
+    clob.setBook(YES_TOKEN, { asks: [{ price: 0.4, size: 500 }] });
+    const service = new TradingService();
+    services.push(service);
+    const events: string[] = [];
+    service.subscribe(({ event }) => events.push(event.type));
+    await service.start();
+
+    const lifecycle = service.getMarketLifecycle(MARKET_ID);
+    expect(lifecycle?.state).toBe("OBSERVE");
+    expect(lifecycle?.transitions.map(t => t.to)).toEqual([
+      "INGEST_SIGNAL", "UPDATE_BELIEF", "EVALUATE_TRADE", "EXECUTE_TRADE", "MONITOR", "OBSERVE",
+    ]);
+    expect(service.getMarketLifecycle("unknown")).toBeUndefined();
+    expect(service.getStatus()).toMatchObject({ state: "OBSERVE", halted: false, haltedMarkets: [] });
+    expect(events).toEqual(expect.arrayContaining(["state_transition", "belief_updated", "trade_opportunity", "trade_executed"]));
+    expect(events).not.toContain("halt");
+
+    // Restored belief plus the update, at the 40% market price
+    const history = service.getMarketState(MARKET_ID)?.history;
+    expect(history?.beliefs).toHaveLength(2);
+    expect(history?.prices.map(p => p.price)).toEqual([40]);
+  });
+
+  it("should open nothing while paused and trade on an injected signal once resumed", async () => {
+    const service = new TradingService();
+    services.push(service);
+    service.pause("FOMC day");
+    await service.start();
+
+    expect(service.getStatus()).toMatchObject({ paused: true, pauseReason: "FOMC day" });
+    expect(clob.getOrders()).toHaveLength(0);
+
+    service.resume();
+    const result = await service.injectSignal(MARKET_ID, authoritativeSignal());
+
+    expect(result?.accepted).toBe(true);
+    expect(clob.getOrders()).toHaveLength(1);
+    expect(await service.injectSignal("unknown", authoritativeSignal())).toBeUndefined();
+
+    const closed = await service.closePosition(MARKET_ID, "operator exit");
+    expect(closed?.closed).toBe(true);
+    expect(clob.getOrders()[0]?.status).toBe("CANCELLED");
+  });
+
+  it("should apply concurrent signals for a market one after another", async () => {
+    const service = await startService();
+
+    const results = await Promise.all([
+      service.injectSignal(MARKET_ID, { ...authoritativeSignal(), description: "first" }),
+      service.injectSignal(MARKET_ID, { ...authoritativeSignal(), description: "second" }),
+    ]);
+
+    expect(results.map(result => result?.accepted)).toEqual([true, true]);
+    expect(service.getStatus().haltedMarkets).toEqual([]);
+    expect(service.getMarketLifecycle(MARKET_ID)?.state).toBe("OBSERVE");
+  });
+
+  it("should flag a signal that contradicts the market's recent history", async () => {
+    const service = await startService();
+    const before = service.getMarketState(MARKET_ID)!.belief;
+
+    await service.injectSignal(MARKET_ID, { ...authoritativeSignal(), type: "procedural", direction: "down" });
+
+    const state = service.getMarketState(MARKET_ID)!;
+    expect(state.signalHistory.at(-1)).toMatchObject({ conflicts_with_existing: true, conflicts_with: expect.stringMatching(/^test@/) });
+    expect(state.belief.confidence).toBeLessThan(before.confidence);
+  });
+
+  it("should open an unknown from a procedural signal and resolve it from an authoritative one", async () => {
+    const service = await startService();
+    const before = service.getMarketState(MARKET_ID)!.belief;
+
+    await service.injectSignal(MARKET_ID, {
+      ...authoritativeSignal(),
+      type: "procedural",
+      description: "FOMC meeting scheduled for December 10",
+    });
+    const open = service.getMarketState(MARKET_ID)!;
+    expect(open.belief.unknowns).toHaveLength(1);
+    expect(open.belief.confidence).toBeLessThan(before.confidence);
+
+    await service.injectSignal(MARKET_ID, { ...authoritativeSignal(), description: "FOMC meeting concluded with a cut" });
+    const settled = service.getMarketState(MARKET_ID)!;
+    expect(settled.belief.unknowns).toEqual([]);
+    expect(settled.history.resolvedUnknowns).toMatchObject([{ description: expect.stringContaining("FOMC meeting"), resolution_reason: expect.any(String) }]);
+  });
+
+  it("should move a belief once per article across polls and restarts", async () => {
+    const article: NewsItem = {
+      source: "sec.gov",
+      title: "Official announcement: Fed interest rates cut approved for December",
+      content: "The FOMC approved a cut to interest rates.",
+      url: "https://www.sec.gov/news/fed-cut",
+      published_at: new Date(),
+      relevance_score: 0,
+    };
+    vi.mocked(NewsAggregator.prototype.generateSignals).mockRestore();
+    vi.mocked(NewsAggregator.prototype.fetchNews).mockResolvedValue([article]);
+    const poll = (service: TradingService) => (service as unknown as { monitorLoop(): Promise<void> }).monitorLoop();
+
+    const first = await startService();
+    const belief = { ...first.getMarketState(MARKET_ID)!.belief };
+    expect(belief.belief_low).toBeGreaterThan(65);
+
+    await poll(first);
+    await poll(first);
+    expect(first.getMarketState(MARKET_ID)?.belief).toMatchObject(belief);
+    expect(first.getMarketState(MARKET_ID)?.seenSignalIds).toHaveLength(1);
+    first.stop();
+
+    const second = await startService();
+    expect(second.getMarketState(MARKET_ID)?.belief).toMatchObject({
+      belief_low: belief.belief_low,
+      belief_high: belief.belief_high,
+      confidence: belief.confidence,
+    });
+  });
+
+  it("should leave an unfilled order working across a restart", async () => {
+    const first = await startService();
+    const [order] = clob.getOrders();
+    expect(order?.status).toBe("LIVE");
+    first.stop();
+
+    clob.fillOrder(order!.id);
+    const second = await startService();
+
+    expect(second.getPortfolioStatus().openPositions).toBe(1);
+    expect(clob.getOrders()).toHaveLength(1);
+  });
+});
@@ -13,8 +13,14 @@
 
 import {
   performBeliefUpdate,
+  detectConflict,
+  analyzeResolutionCriteria,
+  addCriteriaUnknowns,
+  updateUnknowns,
+  enforceUnknownsInvariant,
   evaluateTrade,
-  StateMachine,
+  explainTrade,
+  SystemSupervisor,
   ExecutionLayer,
   SafetyControls,
   SlackNotifier,
@@ -22,37 +28,77 @@ import {
   TradeHistoryAnalyzer,
   PortfolioManager,
   PaperTradingTracker,
+  PositionMonitor,
+  PositionLedger,
+  JsonFileMarketStateStore,
+  JsonFileOrderStore,
+  loadStrategyConfig,
+  planExecution,
+  HaltWatchdog,
+  InvariantGuard,
+  toOutcomePrice,
   type DailySummary,
+  type ExecutionPlan,
+  type MarketLifecycleView,
+  type MarketStateStore,
+  type PositionView,
+  type StateMachine,
+  type TradeExplanation,
 } from "@pomabot/core";
-import type { BeliefState, Signal, Market, TradeDecision } from "@pomabot/shared";
+import type {
+  BeliefState,
+  HaltCategory,
+  HaltRecord,
+  Signal,
+  Market,
+  OutcomeToken,
+  ResolutionCriteria,
+  StateTransition,
+  TradeDecision,
+  StrategyConfig,
+} from "@pomabot/shared";
+import { DEFAULT_STRATEGY_CONFIG } from "@pomabot/shared";
 import { PolymarketConnector } from "../connectors/polymarket.js";
 import { NewsAggregator } from "../connectors/news.js";
 import { RedditConnector } from "../connectors/reddit.js";
 import { WalletManager } from "../connectors/wallet.js";
+import { TradingEventStream, type TradingEventListener } from "./events.js";
+import { MarketHistory } from "./market-history.js";
 
 export interface MarketState {
   market: Market;
   belief: BeliefState;
   signalHistory: Signal[];
+  seenSignalIds: string[];     // IDs of signals already ingested, oldest first, so news can't apply twice
   lastChecked: Date;
+  lifecycle: StateMachine;     // This market's Section 3 lifecycle, registered with the supervisor
+  history: MarketHistory;      // Belief/price history and rejections for the market detail page
 }
 
 export class TradingService {
   private polymarket: PolymarketConnector;
   private news: NewsAggregator;
   private reddit?: RedditConnector;
-  private stateMachine: StateMachine;
+  private supervisor: SystemSupervisor; // System-wide halts plus one lifecycle per market
+  private haltWatchdog: HaltWatchdog;   // Section 13 calibration and invalidation halts
+  private invariantGuard: InvariantGuard; // Section 1 invariants around belief updates and executions
   private execution: ExecutionLayer;
+  private ledger: PositionLedger = new PositionLedger({
+    fees: { feeRateBps: parseFloat(process.env.FEE_RATE_BPS ?? "0") }, // CLOB fee rate
+  });
   private safetyControls: SafetyControls;
   private notifier: SlackNotifier;
   private auditLogger: AuditLogger;
   private wallet?: WalletManager;
   private simulationMode: boolean;
   private redditEnabled: boolean;
+  private pauseReason?: string; // Set while new entries are paused from the API
+  private events = new TradingEventStream(); // Live dashboard events (/api/stream)
   
   // Phase 7: Advanced features
   private tradeHistory: TradeHistoryAnalyzer;
   private portfolioManager: PortfolioManager;
+  private positionMonitor: PositionMonitor;
   
   // Phase 11: Paper trading
   private paperTrading: PaperTradingTracker;
@@ -60,6 +106,9 @@ export class TradingService {
   private resolutionCheckInterval: number;
   
   private marketStates: Map<string, MarketState> = new Map();
+  private signalChains: Map<string, Promise<unknown>> = new Map(); // Per-market applySignals queue
+  private marketStateStore: MarketStateStore;
+  private strategyConfig: StrategyConfig = DEFAULT_STRATEGY_CONFIG;
   private pollInterval = parseInt(process.env.POLL_INTERVAL ?? "60000", 10); // Default 60s, configurable
   
   // Memory management constants - AGGRESSIVELY TUNED FOR 256MB CONTAINER
@@ -67,6 +116,8 @@ export class TradingService {
   private readonly MIN_LIQUIDITY = parseFloat(process.env.MIN_LIQUIDITY ?? "10000"); // Only track liquid markets
   private readonly MAX_SIGNAL_HISTORY = parseInt(process.env.MAX_SIGNAL_HISTORY ?? "15", 10); // Reduced from 25 to 15
   private readonly MAX_UNKNOWNS = 3; // Reduced from 5 to 3
+  private readonly MAX_SEEN_SIGNALS = parseInt(process.env.MAX_SEEN_SIGNALS ?? "200", 10); // Per market; never trimmed by memory cleanup
+  private readonly MAX_MARKET_HISTORY = parseInt(process.env.MAX_MARKET_HISTORY ?? "50", 10); // Points per detail chart
   private readonly MARKET_CLEANUP_INTERVAL = 1 * 60 * 1000; // Clean up markets every 1 minute (was 2)
   private readonly MEMORY_CHECK_INTERVAL = 2 * 60 * 1000; // Check memory every 2 minutes (was 5)
   private readonly MEMORY_CRITICAL_THRESHOLD = 120; // MB - trigger aggressive cleanup (was 150)
@@ -75,6 +126,9 @@ export class TradingService {
   // Track service start time for uptime calculation
   private startTime = new Date();
   
+  // Interval and timeout handles, cleared by stop()
+  private timers: Array<ReturnType<typeof setTimeout>> = [];
+  
   // Daily summary tracking - enhanced with signal counts
   private dailyStats = {
     tradeOpportunities: 0,
@@ -116,16 +170,28 @@ export class TradingService {
       console.log("🟢 SIMULATION MODE (no wallet configured)");
     }
 
-    // Initialize Polymarket connector with wallet
-    this.polymarket = new PolymarketConnector(this.wallet);
+    // Initialize Polymarket connector with wallet (POLYMARKET_CLOB_URL points it at a mock CLOB)
+    this.polymarket = new PolymarketConnector(this.wallet, process.env.POLYMARKET_CLOB_URL);
     
     // Initialize other services
     this.news = new NewsAggregator();
-    this.stateMachine = new StateMachine();
+    this.supervisor = new SystemSupervisor({
+      onTransition: (transition, marketId) => this.publishTransition(transition, marketId),
+    });
     this.notifier = new SlackNotifier();
     this.auditLogger = AuditLogger.getInstance(
       process.env.AUDIT_LOG_PATH ?? "./audit-logs"
     );
+    this.haltWatchdog = new HaltWatchdog({
+      target: this.supervisor,
+      auditLogger: this.auditLogger,
+      notifier: this.notifier,
+    });
+    // INVARIANT_GUARD_MODE=report-only logs violations without halting (shadow testing)
+    this.invariantGuard = new InvariantGuard(
+      { target: this.supervisor, auditLogger: this.auditLogger, notifier: this.notifier },
+      { reportOnly: process.env.INVARIANT_GUARD_MODE === "report-only" }
+    );
 
     // Initialize Reddit connector if credentials provided
     const redditClientId = process.env.REDDIT_CLIENT_ID;
@@ -148,9 +214,14 @@ export class TradingService {
     }
 
     // Initialize execution layer with connector
+    // Live orders are persisted so a restart can reconcile them against the CLOB
     this.execution = new ExecutionLayer(
       this.polymarket,
+      this.simulationMode,
+      this.ledger,
       this.simulationMode
+        ? undefined
+        : new JsonFileOrderStore(process.env.ORDER_STORE_FILE ?? "./data/orders.json")
     );
 
     // Initialize safety controls
@@ -159,7 +230,7 @@ export class TradingService {
       dailyLossLimit: parseFloat(process.env.DAILY_LOSS_LIMIT ?? "50"),
       maxOpenPositions: parseInt(process.env.MAX_OPEN_POSITIONS ?? "5", 10),
       enabled: true, // Kill switch initially enabled
-    });
+    }, this.ledger);
 
     // Phase 7: Initialize advanced features
     this.tradeHistory = new TradeHistoryAnalyzer(
@@ -172,7 +243,7 @@ export class TradingService {
       kellyFraction: parseFloat(process.env.KELLY_FRACTION ?? "0.25"), // Quarter-Kelly
       correlationThreshold: parseFloat(process.env.CORRELATION_THRESHOLD ?? "0.7"),
       maxDrawdownPercent: parseFloat(process.env.MAX_DRAWDOWN_PERCENT ?? "10"),
-    });
+    }, this.ledger);
     
     // Phase 11: Initialize paper trading with Slack notifier
     this.paperTradingEnabled = process.env.PAPER_TRADING_ENABLED !== "false"; // Default true
@@ -181,7 +252,13 @@ export class TradingService {
       10
     ); // Default 5 minutes
     
-    this.paperTrading = new PaperTradingTracker(this.notifier);
+    this.paperTrading = new PaperTradingTracker(this.notifier, this.ledger);
+    
+    // Enforce exit conditions on open positions
+    this.positionMonitor = this.createPositionMonitor();
+    
+    // Persist belief state and signal history across restarts
+    this.marketStateStore = new JsonFileMarketStateStore(process.env.MARKET_STATE_FILE);
   }
 
   /**
@@ -206,9 +283,12 @@ export class TradingService {
         console.error("❌ Failed to authenticate with CLOB - starting in simulation mode");
         this.simulationMode = true;
         // Update execution layer to simulation mode
-        this.execution = new ExecutionLayer(undefined, true);
+        this.execution = new ExecutionLayer(undefined, true, this.ledger);
+        this.positionMonitor = this.createPositionMonitor();
       } else {
         console.log("✅ CLOB authentication successful - real trading enabled");
+        // Rebuild positions and resume orders left working by the last run
+        await this.execution.reconcile();
       }
     }
     
@@ -225,8 +305,18 @@ export class TradingService {
       }
     }
     
+    // Load strategy parameters (fails startup on an invalid file)
+    const strategyConfigPath = process.env.STRATEGY_CONFIG_PATH;
+    if (strategyConfigPath) {
+      this.strategyConfig = await loadStrategyConfig(strategyConfigPath);
+    }
+    console.log(
+      `   Strategy config: ${this.strategyConfig.name} v${this.strategyConfig.version} (${this.strategyConfig.hash})`
+    );
+
     // Initialize audit logger
     await this.auditLogger.initialize();
+    this.auditLogger.setConfigHash(this.strategyConfig.hash);
     console.log(`   Audit logging: ENABLED`);
     
     // Phase 11: Initialize paper trading
@@ -257,23 +347,23 @@ export class TradingService {
     await this.monitorLoop();
     
     // Start monitoring loop
-    setInterval(() => this.monitorLoop(), this.pollInterval);
+    this.timers.push(setInterval(() => this.monitorLoop(), this.pollInterval));
     
     // Phase 11: Start paper trading resolution checking
     if (this.paperTradingEnabled && this.simulationMode) {
-      setInterval(
+      this.timers.push(setInterval(
         () => this.checkPaperTradingResolutions(), 
         this.resolutionCheckInterval
-      );
+      ));
       console.log(`   Paper trading resolution checks every ${this.resolutionCheckInterval / 1000}s`);
     }
     
     // Memory optimization: Periodically clean up expired markets
-    setInterval(() => this.cleanupExpiredMarkets(), this.MARKET_CLEANUP_INTERVAL);
+    this.timers.push(setInterval(() => this.cleanupExpiredMarkets(), this.MARKET_CLEANUP_INTERVAL));
     console.log(`   Market cleanup every ${this.MARKET_CLEANUP_INTERVAL / 1000}s`);
     
     // Memory optimization: Periodic memory pressure check
-    setInterval(() => this.checkMemoryPressure(), this.MEMORY_CHECK_INTERVAL);
+    this.timers.push(setInterval(() => this.checkMemoryPressure(), this.MEMORY_CHECK_INTERVAL));
     console.log(`   Memory pressure check every ${this.MEMORY_CHECK_INTERVAL / 1000}s`);
     
     // Schedule daily summary (send at midnight UTC)
@@ -282,6 +372,17 @@ export class TradingService {
     console.log("✅ Trading service running");
   }
 
+  /**
+   * Stop all scheduled loops (a cycle already running completes)
+   */
+  stop(): void {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers = [];
+    console.log("🛑 Trading service stopped");
+  }
+
   /**
    * Check memory pressure and trigger aggressive cleanup if needed
    */
@@ -315,6 +416,7 @@ export class TradingService {
     for (const [_marketId, state] of this.marketStates) {
       signalsCleared += state.signalHistory.length;
       state.signalHistory.length = 0; // Clear in-place
+      state.history.trim(0);
     }
     console.log(`   Cleared ${signalsCleared} signals`);
     
@@ -331,6 +433,9 @@ export class TradingService {
       for (const [id, state] of toKeep) {
         this.marketStates.set(id, state);
       }
+      for (const [id] of sortedMarkets.slice(targetMarkets)) {
+        this.supervisor.release(id);
+      }
       console.log(`   Dropped ${removedCount} low-liquidity markets (keeping only top ${targetMarkets})`);
     }
     
@@ -389,6 +494,7 @@ export class TradingService {
         state.signalHistory = state.signalHistory.slice(-aggressiveLimit);
         signalsRemoved += toRemove;
       }
+      state.history.trim(aggressiveLimit);
     }
     console.log(`   Trimmed ${signalsRemoved} signals from history`);
     
@@ -418,6 +524,9 @@ export class TradingService {
       for (const [id, state] of toKeep) {
         this.marketStates.set(id, state);
       }
+      for (const [id] of sortedMarkets.slice(targetMarkets)) {
+        this.supervisor.release(id);
+      }
       console.log(`   Dropped ${removedCount} low-liquidity markets`);
     }
     
@@ -439,19 +548,15 @@ export class TradingService {
    */
   private async monitorLoop(): Promise<void> {
     try {
+      // Book fills and cancellations of working CLOB orders, even while halted
+      await this.execution.syncWorkingOrders();
+
       // Check if halted
-      if (this.stateMachine.isHalted()) {
-        console.warn("⚠️ System is halted:", this.stateMachine.getHaltReason());
+      if (this.supervisor.isHalted()) {
+        console.warn("⚠️ System is halted:", this.supervisor.getHaltReason());
         return;
       }
 
-      // Only transition to OBSERVE if we're in MONITOR state (valid path)
-      // Skip initial transition if already in OBSERVE
-      const currentState = this.stateMachine.getCurrentState();
-      if (currentState === "MONITOR") {
-        this.stateMachine.transition("OBSERVE", "Monitoring cycle started");
-      }
-
       // Fetch latest news and signals
       const news = await this.news.fetchNews();
       // const polls = await this.polling.fetchPolls();
@@ -464,6 +569,12 @@ export class TradingService {
         await this.processMarket(marketId, state, news);
       }
       
+      // Revalue positions and close those whose exit conditions fired
+      await this.checkPositionExits();
+
+      // Halt on calibration drift or repeated invalidations (Section 13)
+      await this.haltWatchdog.check();
+      
       // Calculate total signals for memory stats
       let totalSignals = 0;
       for (const [_, state] of this.marketStates) {
@@ -525,33 +636,54 @@ export class TradingService {
       }
     }
 
+    // Rehydrate persisted belief state from previous runs
+    const snapshots = await this.marketStateStore.load();
+    let restoredCount = 0;
+
     for (const market of markets) {
       // Initialize belief state for new markets
       if (!this.marketStates.has(market.id)) {
+        const snapshot = snapshots.get(market.id);
+        if (snapshot) {
+          restoredCount++;
+        }
+        
+        // New markets start with the open questions named in their resolution criteria
+        const belief = snapshot?.belief
+          ?? addCriteriaUnknowns(this.initializeBeliefState(), market.resolution_criteria, this.strategyConfig).belief;
+        const history = new MarketHistory(this.MAX_MARKET_HISTORY);
+        history.recordBelief(belief, belief.last_updated);
+        history.recordPrice(market.current_price);
+
         this.marketStates.set(market.id, {
           market,
-          belief: this.initializeBeliefState(),
-          signalHistory: [],
-          lastChecked: new Date(),
+          belief,
+          signalHistory: snapshot?.signalHistory.slice(-this.MAX_SIGNAL_HISTORY) ?? [],
+          seenSignalIds: snapshot?.seenSignalIds?.slice(-this.MAX_SEEN_SIGNALS) ?? [],
+          lastChecked: snapshot?.lastChecked ?? new Date(),
+          lifecycle: this.supervisor.forMarket(market.id),
+          history,
         });
       }
     }
     
-    console.log(`Tracking ${this.marketStates.size} markets`);
+    console.log(`Tracking ${this.marketStates.size} markets (${restoredCount} restored from saved state)`);
   }
 
   /**
    * Update market data from Polymarket
-   * In simulation mode, skip individual fetches (too slow for 1000+ markets)
+   * In simulation mode, skip individual fetches (too slow for 1000+ markets),
+   * except for closed markets whose resolution calibration is waiting on
    */
   private async updateMarkets(): Promise<void> {
     // Skip individual market updates in simulation - use batch data from fetchMarkets
     // This is much faster and sufficient for testing
-    if (!process.env.POLYMARKET_API_KEY) {
-      return;
-    }
+    const refreshAll = Boolean(process.env.POLYMARKET_API_KEY);
+    const now = new Date();
     
     for (const [marketId, state] of this.marketStates) {
+      if (!refreshAll && !this.isAwaitingResolution(marketId, state, now)) continue;
+
       const updatedMarket = await this.polymarket.getMarket(marketId);
       
       if (updatedMarket) {
@@ -571,14 +703,20 @@ export class TradingService {
     for (const [marketId, state] of this.marketStates) {
       const market = state.market;
       
-      // Remove markets that have closed or are past their end date
+      // Remove markets that have resolved, or closed without a position
+      // whose resolution the halt watchdog still needs
       const shouldRemove = 
-        (market.closes_at && market.closes_at < now) ||
         market.resolved_at !== undefined ||
-        market.resolution_outcome !== undefined;
+        market.resolution_outcome !== undefined ||
+        (market.closes_at !== undefined && market.closes_at < now && !this.isAwaitingResolution(marketId, state, now));
       
       if (shouldRemove) {
+        if (market.resolution_outcome !== undefined) {
+          this.haltWatchdog.recordResolution(marketId, market.resolution_outcome, market.resolved_at ?? now);
+        }
         this.marketStates.delete(marketId);
+        this.supervisor.release(marketId);
+        void this.marketStateStore.delete(marketId);
         removedCount++;
       }
     }
@@ -596,6 +734,16 @@ export class TradingService {
     }
   }
 
+  /**
+   * Closed but not yet resolved, with a calibration entry from a position
+   */
+  private isAwaitingResolution(marketId: string, state: MarketState, now: Date): boolean {
+    const { market } = state;
+    return market.closes_at !== undefined && market.closes_at < now &&
+      market.resolution_outcome === undefined &&
+      this.haltWatchdog.isAwaitingResolution(marketId);
+  }
+
   /**
    * Process a single market: generate signals, update beliefs, evaluate trades
    */
@@ -604,12 +752,19 @@ export class TradingService {
     state: MarketState,
     news: Array<any>
   ): Promise<void> {
+    // A halted market sits out until an operator resumes it; a closed one
+    // is only kept to see its resolution
+    if (state.lifecycle.isHalted()) return;
+    if (state.market.closes_at && state.market.closes_at < new Date()) return;
+
+    state.history.recordPrice(state.market.current_price);
+
     try {
       // Extract market keywords for signal matching
       const keywords = this.extractKeywords(state.market.question);
 
       // Generate signals from news
-      const newsSignals = await this.news.generateSignals(news, keywords);
+      const newsSignals = await this.news.generateSignals(news, keywords, state.market.question);
       
       // Generate signals from Reddit if enabled
       const redditSignals: Signal[] = [];
@@ -660,104 +815,228 @@ export class TradingService {
         return;
       }
 
-      // Process each new signal
-      for (const signal of signals) {
-        if (this.stateMachine.isHalted()) return;
+      await this.applySignals(marketId, state, signals);
+
+    } catch (error) {
+      console.error(`Error processing market ${marketId}:`, error);
+    }
+  }
+
+  /**
+   * Run signals through the belief engine, persist the updated belief and
+   * evaluate a trade. Returns the number of signals that were accepted.
+   * Calls for the same market run one after another, so an injected signal
+   * can't interleave its lifecycle transitions with a monitor cycle.
+   */
+  private applySignals(
+    marketId: string,
+    state: MarketState,
+    signals: Signal[]
+  ): Promise<number> {
+    const previous = this.signalChains.get(marketId) ?? Promise.resolve();
+    const run = previous.then(() => this.runSignals(marketId, state, signals));
+    const chain = run.catch(() => undefined);
+    this.signalChains.set(marketId, chain);
+    void chain.then(() => {
+      if (this.signalChains.get(marketId) === chain) this.signalChains.delete(marketId);
+    });
+    return run;
+  }
+
+  private async runSignals(
+    marketId: string,
+    state: MarketState,
+    signals: Signal[]
+  ): Promise<number> {
+    const lifecycle = state.lifecycle;
+    let accepted = 0;
+    let ingested = 0;
+
+    // Process each new signal
+    for (const incoming of signals) {
+      if (!this.supervisor.canProcess(marketId)) break;
+
+      // Content already ingested on an earlier poll (or earlier in this batch)
+      if (incoming.id !== undefined) {
+        if (state.seenSignalIds.includes(incoming.id)) continue;
+        this.markSignalSeen(state, incoming.id);
+        ingested++;
+      }
+
+      // Connectors can't see the market's history; flag contradictions here
+      const signal = detectConflict(incoming, state.signalHistory, this.strategyConfig);
+      if (signal.conflicts_with && process.env.VERBOSE === "true") {
+        console.log(`⚔️  Conflicting ${signal.type} signal for ${marketId} (vs ${signal.conflicts_with})`);
+      }
+      
+      // A further signal in this batch starts a new cycle from OBSERVE
+      if (lifecycle.getCurrentState() === "UPDATE_BELIEF") {
+        lifecycle.transition("OBSERVE", "Ingesting next signal");
+      }
+      lifecycle.transition("INGEST_SIGNAL", `Processing ${signal.type} signal`);
+      
+      if (lifecycle.isHalted()) break;
+
+      // Update belief, with the unknowns the signal raises or resolves
+      try {
+        const unknowns = updateUnknowns(state.belief, signal);
+        const updatedBelief = enforceUnknownsInvariant(
+          state.belief,
+          performBeliefUpdate(unknowns.belief, signal, state.signalHistory, this.strategyConfig),
+          this.strategyConfig
+        );
+
+        if (!(await this.invariantGuard.checkBeliefUpdate(state.market, state.belief, updatedBelief))) {
+          state.history.recordRejection(signal, "Belief update blocked by invariant guard");
+          lifecycle.transition("OBSERVE", "Belief update blocked by invariant guard");
+          break;
+        }
+
+        lifecycle.transition("UPDATE_BELIEF", "Belief updated");
+
+        state.belief = updatedBelief;
+        state.history.recordBelief(updatedBelief);
+        for (const unknown of unknowns.added) {
+          console.log(`❓ New unknown for ${marketId}: ${unknown.description}`);
+        }
+        for (const unknown of unknowns.resolved) {
+          state.history.recordResolvedUnknown(unknown);
+          console.log(`✅ Resolved unknown for ${marketId}: ${unknown.description}`);
+        }
         
-        // Ensure we're in OBSERVE state before starting a new signal cycle
-        const currentState = this.stateMachine.getCurrentState();
-        if (currentState === "UPDATE_BELIEF" || currentState === "EVALUATE_TRADE") {
-          // Complete current cycle by going back to OBSERVE
-          this.stateMachine.transition("OBSERVE", "Resetting for next signal");
+        // Memory optimization: Limit unknowns array
+        if (state.belief.unknowns && state.belief.unknowns.length > this.MAX_UNKNOWNS) {
+          state.belief.unknowns = state.belief.unknowns.slice(-this.MAX_UNKNOWNS);
         }
         
-        // Now start fresh cycle: OBSERVE → INGEST_SIGNAL
-        if (this.stateMachine.getCurrentState() === "OBSERVE") {
-          this.stateMachine.transition("INGEST_SIGNAL", `Processing ${signal.type} signal`);
+        state.signalHistory.push(signal);
+        
+        // Memory optimization: Keep only the most recent signals
+        // Use splice instead of slice+push to reduce allocations
+        if (state.signalHistory.length > this.MAX_SIGNAL_HISTORY) {
+          const removeCount = state.signalHistory.length - this.MAX_SIGNAL_HISTORY;
+          state.signalHistory.splice(0, removeCount);
         }
         
-        if (this.stateMachine.isHalted()) return;
-
-        // Update belief
-        try {
-          const updatedBelief = performBeliefUpdate(
-            state.belief,
-            signal,
-            state.signalHistory
-          );
-
-          this.stateMachine.transition("UPDATE_BELIEF", "Belief updated");
-
-          state.belief = updatedBelief;
-          
-          // Memory optimization: Limit unknowns array
-          if (state.belief.unknowns && state.belief.unknowns.length > this.MAX_UNKNOWNS) {
-            state.belief.unknowns = state.belief.unknowns.slice(-this.MAX_UNKNOWNS);
-          }
-          
-          state.signalHistory.push(signal);
-          
-          // Memory optimization: Keep only the most recent signals
-          // Use splice instead of slice+push to reduce allocations
-          if (state.signalHistory.length > this.MAX_SIGNAL_HISTORY) {
-            const removeCount = state.signalHistory.length - this.MAX_SIGNAL_HISTORY;
-            state.signalHistory.splice(0, removeCount);
-          }
-          
-          // Track belief update for daily summary
-          this.dailyStats.beliefUpdates++;
+        // Track belief update for daily summary
+        this.dailyStats.beliefUpdates++;
+        accepted++;
+        this.events.publish({
+          type: "belief_updated",
+          marketId,
+          belief_low: updatedBelief.belief_low,
+          belief_high: updatedBelief.belief_high,
+          confidence: updatedBelief.confidence,
+          signalType: signal.type,
+          timestamp: new Date().toISOString(),
+        });
 
-          console.log(`📈 Updated belief for ${state.market.question}:`, {
-            range: [updatedBelief.belief_low, updatedBelief.belief_high],
-            confidence: updatedBelief.confidence,
-          });
+        console.log(`📈 Updated belief for ${state.market.question}:`, {
+          range: [updatedBelief.belief_low, updatedBelief.belief_high],
+          confidence: updatedBelief.confidence,
+        });
 
-        } catch (error) {
-          // Signal rejected - this is expected behavior, reduce logging noise
-          if (process.env.VERBOSE === "true") {
-            console.warn(`Signal rejected for ${marketId}:`, error);
-          }
-          // Go back to OBSERVE for next signal
-          if (this.stateMachine.getCurrentState() === "INGEST_SIGNAL") {
-            this.stateMachine.transition("OBSERVE", "Signal rejected, continuing");
-          }
-          continue;
+      } catch (error) {
+        // Signal rejected - this is expected behavior, reduce logging noise
+        if (process.env.VERBOSE === "true") {
+          console.warn(`Signal rejected for ${marketId}:`, error);
         }
+        state.history.recordRejection(signal, error instanceof Error ? error.message : String(error));
+        // Go back to OBSERVE for next signal
+        lifecycle.transition("OBSERVE", "Signal rejected, continuing");
+        continue;
       }
+    }
+
+    if (accepted > 0 || ingested > 0) {
+      await this.persistMarketState(marketId, state);
+    }
 
-      // Evaluate trade
+    // Evaluate trade
+    if (this.supervisor.canProcess(marketId)) {
       await this.evaluateTradeForMarket(state);
+      // Decisions that neither trade nor reject end the cycle here
+      if (lifecycle.getCurrentState() === "EVALUATE_TRADE") {
+        lifecycle.transition("OBSERVE", "Evaluation complete");
+      }
+    }
 
-    } catch (error) {
-      console.error(`Error processing market ${marketId}:`, error);
+    if (lifecycle.isHalted()) {
+      await this.reportMarketHalt(marketId, state);
     }
+    return accepted;
+  }
+
+  /**
+   * Remember an ingested signal ID, forgetting the oldest beyond MAX_SEEN_SIGNALS
+   */
+  private markSignalSeen(state: MarketState, signalId: string): void {
+    state.seenSignalIds.push(signalId);
+    if (state.seenSignalIds.length > this.MAX_SEEN_SIGNALS) {
+      state.seenSignalIds.splice(0, state.seenSignalIds.length - this.MAX_SEEN_SIGNALS);
+    }
+  }
+
+  /**
+   * A market's lifecycle halted (illegal transition): only that market stops
+   */
+  private async reportMarketHalt(marketId: string, state: MarketState): Promise<void> {
+    const reason = state.lifecycle.getHaltReason() ?? "Market halted";
+    console.error(`🛑 Market halted: ${state.market.question} - ${reason}`);
+    await this.notifyError(new Error(reason), `Market ${marketId} halted`);
+  }
+
+  /**
+   * Resolution criteria the trade engine checks for a market
+   */
+  private getResolutionCriteria(market: Market): ResolutionCriteria {
+    return analyzeResolutionCriteria(market.resolution_criteria);
+  }
+
+  /**
+   * Snapshot a market's belief state and signal history to the store
+   */
+  private async persistMarketState(marketId: string, state: MarketState): Promise<void> {
+    await this.marketStateStore.save({
+      marketId,
+      belief: state.belief,
+      signalHistory: state.signalHistory,
+      seenSignalIds: state.seenSignalIds,
+      lastChecked: state.lastChecked,
+    });
   }
 
   /**
    * Evaluate and potentially execute a trade
    */
   private async evaluateTradeForMarket(state: MarketState): Promise<void> {
+    const lifecycle = state.lifecycle;
+
     // Only transition if we're in UPDATE_BELIEF state
-    const currentState = this.stateMachine.getCurrentState();
-    if (currentState === "UPDATE_BELIEF") {
-      this.stateMachine.transition("EVALUATE_TRADE", "Checking trade eligibility");
+    if (lifecycle.getCurrentState() === "UPDATE_BELIEF") {
+      lifecycle.transition("EVALUATE_TRADE", "Checking trade eligibility");
     }
 
-    const criteria = {
-      authority: "Polymarket resolution",
-      authority_is_clear: true,
-      outcome_is_objective: true,
-    };
-
-    const decision = evaluateTrade(state.belief, state.market, criteria);
+    const criteria = this.getResolutionCriteria(state.market);
+    const decision = evaluateTrade(state.belief, state.market, criteria, this.strategyConfig);
+    if (!("side" in decision) && decision.failedCheck) {
+      state.history.recordFailedCheck(decision.failedCheck, decision.reason ?? decision.failedCheck);
+    }
 
     // Check if trade is recommended
     if ("side" in decision && decision.side !== "NONE") {
       const edge = this.calculateEdge(decision, state.belief);
-      
+
+      // The trade engine leaves sizing to the portfolio (quarter-Kelly, capped per trade)
+      if (decision.size_usd <= 0) {
+        const sizing = this.portfolioManager.calculateKellySize(edge / 100, state.belief.confidence);
+        decision.size_usd = sizing.recommendedSize;
+      }
+
       console.log(`💡 Trade opportunity: ${decision.side} on ${state.market.question}`);
       console.log(`   Entry: ${decision.entry_price}%`);
       console.log(`   Edge: ${edge}%`);
+      console.log(`   Size: $${decision.size_usd.toFixed(2)}`);
       console.log(`   Rationale: ${decision.rationale}`);
 
       // Track for daily summary
@@ -771,6 +1050,17 @@ export class TradingService {
         decision.rationale
       );
       
+      this.events.publish({
+        type: "trade_opportunity",
+        marketId: state.market.id,
+        question: state.market.question,
+        side: decision.side,
+        entryPrice: decision.entry_price,
+        edge,
+        sizeUsd: decision.size_usd,
+        timestamp: new Date().toISOString(),
+      });
+      
       // Send Slack notification
       await this.notifier.sendTradeOpportunity({
         market: state.market,
@@ -779,6 +1069,15 @@ export class TradingService {
         edge,
       });
 
+      // Paused from the API: keep monitoring, open nothing new
+      if (this.pauseReason !== undefined) {
+        console.log(`⏸️ Trading paused (${this.pauseReason}) - skipping trade`);
+        if (lifecycle.getCurrentState() === "EVALUATE_TRADE") {
+          lifecycle.transition("OBSERVE", "Trading paused");
+        }
+        return;
+      }
+
       // Check safety controls before executing
       const safetyCheck = this.safetyControls.canTrade(state.market.id, decision.size_usd);
       
@@ -790,40 +1089,97 @@ export class TradingService {
         );
         
         // Transition back to OBSERVE
-        if (this.stateMachine.getCurrentState() === "EVALUATE_TRADE") {
-          this.stateMachine.transition("OBSERVE", "Trade blocked by safety controls");
+        if (lifecycle.getCurrentState() === "EVALUATE_TRADE") {
+          lifecycle.transition("OBSERVE", "Trade blocked by safety controls");
+        }
+        return;
+      }
+
+      // Nothing left to size against (capital or portfolio limits)
+      if (decision.size_usd <= 0) {
+        console.log(`⏸️ No position size available - skipping trade`);
+        if (lifecycle.getCurrentState() === "EVALUATE_TRADE") {
+          lifecycle.transition("OBSERVE", "No position size available");
+        }
+        return;
+      }
+
+      // Section 1 invariants on the exact decision about to execute
+      if (!(await this.invariantGuard.checkExecution(state.market, decision, state.belief))) {
+        if (lifecycle.getCurrentState() === "EVALUATE_TRADE") {
+          lifecycle.transition("OBSERVE", "Trade blocked by invariant guard");
         }
         return;
       }
 
       // Execute trade (real or simulation)
-      if (this.stateMachine.getCurrentState() === "EVALUATE_TRADE") {
-        this.stateMachine.transition("EXECUTE_TRADE", 
+      if (lifecycle.getCurrentState() === "EVALUATE_TRADE") {
+        lifecycle.transition("EXECUTE_TRADE", 
           this.simulationMode ? "[SIMULATION] Trade would be executed" : "Executing real trade"
         );
 
         // Get token ID for the YES/NO outcome
-        const tokenId = this.getTokenIdForOutcome(state.market, decision.side);
+        const token = this.getTokenForOutcome(state.market, decision.side);
+        const tokenId = token?.token_id ?? (this.simulationMode ? "simulated-token-id" : undefined);
         
         if (!tokenId && !this.simulationMode) {
           console.error("❌ Cannot execute trade: token ID not found");
-          this.stateMachine.transition("MONITOR", "Trade execution failed");
-          this.stateMachine.transition("OBSERVE", "Ready for next cycle");
+          lifecycle.transition("MONITOR", "Trade execution failed");
+          lifecycle.transition("OBSERVE", "Ready for next cycle");
           return;
         }
 
+        // Size against book depth when the outcome token has a real book
+        const plan = token && decision.size_usd > 0
+          ? await this.planOrder(state, decision, token)
+          : undefined;
+
         // Execute the trade
-        const result = await this.execution.executeTrade(decision, state.market.id, tokenId);
+        const result = await this.execution.executeTrade(
+          decision,
+          state.market.id,
+          tokenId,
+          { tokenPrice: token?.price, plan }
+        );
         
         if (result.success) {
           this.dailyStats.tradesExecuted++;
+          this.events.publish({
+            type: "trade_executed",
+            marketId: state.market.id,
+            question: state.market.question,
+            side: decision.side,
+            sizeUsd: decision.size_usd,
+            orderId: result.order?.id,
+            simulated: this.simulationMode,
+            timestamp: new Date().toISOString(),
+          });
           
-          // Register position with safety controls
-          this.safetyControls.addPosition(
-            state.market.id,
-            decision.size_usd,
-            decision.entry_price
-          );
+          // Fills are in the ledger; label them for diversification checks
+          this.ledger.annotate(state.market.id, {
+            marketQuestion: state.market.question,
+            category: state.market.category,
+          });
+          
+          // Calibrate this belief against the market's resolution
+          this.haltWatchdog.recordEntry(state.market.id, state.belief, edge / 100);
+          
+          // Watch the position's exit conditions from the next cycle on
+          if (result.order) {
+            this.positionMonitor.track(
+              {
+                marketId: state.market.id,
+                order: result.order,
+                side: decision.side,
+                entryPrice: decision.entry_price,
+                sizeUsd: decision.size_usd,
+                entryBelief: { ...state.belief },
+                exitConditions: decision.exit_conditions,
+                openedAt: new Date(),
+              },
+              { market: state.market, belief: { ...state.belief }, lastUpdated: state.lastChecked }
+            );
+          }
           
           // Phase 11: Create paper position for tracking
           if (this.simulationMode && this.paperTradingEnabled) {
@@ -856,8 +1212,8 @@ export class TradingService {
         }
         
         // Transition through MONITOR back to OBSERVE for proper state flow
-        this.stateMachine.transition("MONITOR", "Trade execution complete");
-        this.stateMachine.transition("OBSERVE", "Ready for next cycle");
+        lifecycle.transition("MONITOR", "Trade execution complete");
+        lifecycle.transition("OBSERVE", "Ready for next cycle");
       }
 
     } else if ("eligible" in decision && !decision.eligible) {
@@ -877,8 +1233,8 @@ export class TradingService {
         console.log(`⏸️ No trade for ${state.market.question}: ${decision.reason}`);
       }
       // Go back to OBSERVE from EVALUATE_TRADE (valid transition)
-      if (this.stateMachine.getCurrentState() === "EVALUATE_TRADE") {
-        this.stateMachine.transition("OBSERVE", "No trade - continuing observation");
+      if (lifecycle.getCurrentState() === "EVALUATE_TRADE") {
+        lifecycle.transition("OBSERVE", "No trade - continuing observation");
       }
     }
   }
@@ -938,18 +1294,84 @@ export class TradingService {
   }
 
   /**
-   * Get token ID for YES/NO outcome from market data
+   * Walk the outcome token's order book to estimate slippage and shrink
+   * or split the order so the edge after slippage still clears MIN_EDGE
+   */
+  private async planOrder(
+    state: MarketState,
+    decision: TradeDecision,
+    token: OutcomeToken
+  ): Promise<ExecutionPlan> {
+    const book = await this.polymarket.getOrderBook(token.token_id);
+    const plan = planExecution({
+      side: decision.side as "YES" | "NO",
+      sizeUsd: decision.size_usd,
+      belief: state.belief,
+      asks: book.asks,
+      minEdge: this.strategyConfig.minEdge[state.market.category] ?? 0.25,
+    });
+
+    console.log(
+      `📘 Execution plan (${plan.action}): $${plan.plannedSizeUsd.toFixed(2)} of $${plan.requestedSizeUsd.toFixed(2)}` +
+      (plan.expectedAvgPrice !== undefined
+        ? `, avg ${plan.expectedAvgPrice.toFixed(1)}%, slippage ${plan.expectedSlippage.toFixed(2)}pp`
+        : "") +
+      ` - ${plan.reason}`
+    );
+
+    return plan;
+  }
+
+  /**
+   * Position monitor over the current execution layer
+   * Market data only refreshes when POLYMARKET_API_KEY is set, so
+   * staleness is only an emergency exit in that mode
    */
-  private getTokenIdForOutcome(_market: Market, _side: "YES" | "NO"): string | undefined {
-    // This would need to be populated from the market data
-    // For now, return undefined in simulation mode
-    if (this.simulationMode) {
-      return "simulated-token-id";
+  private createPositionMonitor(): PositionMonitor {
+    return new PositionMonitor(
+      {
+        execution: this.execution,
+        auditLogger: this.auditLogger,
+        notifier: this.notifier,
+      },
+      {
+        maxDataAgeMs: process.env.POLYMARKET_API_KEY ? this.pollInterval * 3 : undefined,
+      }
+    );
+  }
+
+  /**
+   * Mark ledger positions to market, check them against their exit
+   * conditions and count the exits toward the invalidation halt
+   */
+  private async checkPositionExits(): Promise<void> {
+    for (const position of this.ledger.getOpenPositions()) {
+      const state = this.marketStates.get(position.marketId);
+      if (state) {
+        this.ledger.markToMarket(position.marketId, state.market.current_price);
+      }
     }
-    
-    // In real mode, this should be fetched from market.tokens array
-    // The PolymarketMarketResponse includes token_id in tokens array
-    return undefined;
+
+    if (this.positionMonitor.getPositions().length === 0) return;
+
+    const views = new Map<string, PositionView>();
+    for (const [marketId, state] of this.marketStates) {
+      views.set(marketId, { market: state.market, belief: state.belief, lastUpdated: state.lastChecked });
+    }
+
+    const closed = await this.positionMonitor.checkPositions(views);
+    for (const exit of closed) {
+      const pnlText = `${exit.pnl >= 0 ? "+" : "-"}$${Math.abs(exit.pnl).toFixed(2)}`;
+      console.log(`   Closed ${exit.position.side} ${exit.position.marketId} at ${exit.exitPrice.toFixed(1)}% (${pnlText})`);
+      this.haltWatchdog.recordExit(exit.trigger.type);
+    }
+  }
+
+  /**
+   * Get the CLOB token (ID and current price) for the outcome being bought
+   */
+  private getTokenForOutcome(market: Market, side: "YES" | "NO"): OutcomeToken | undefined {
+    return side === "YES" ? market.tokens?.yes : market.tokens?.no;
   }
 
   /**
@@ -998,12 +1420,29 @@ export class TradingService {
     markets: number;
     halted: boolean;
     haltReason?: string;
+    haltCategory?: HaltCategory;
+    haltHistory: HaltRecord[];
+    haltedMarkets: Array<{ marketId: string; halt: HaltRecord }>;
+    paused: boolean;
+    pauseReason?: string;
+    tradingEnabled: boolean;
+    invariantGuard: { reportOnly: boolean; violations: number };
   } {
     return {
-      state: this.stateMachine.getCurrentState(),
+      state: this.supervisor.getState(),
       markets: this.marketStates.size,
-      halted: this.stateMachine.isHalted(),
-      haltReason: this.stateMachine.getHaltReason(),
+      halted: this.supervisor.isHalted(),
+      haltReason: this.supervisor.getHaltReason(),
+      haltCategory: this.supervisor.getActiveHalt()?.category,
+      haltHistory: this.supervisor.getHaltHistory(),
+      haltedMarkets: this.supervisor.getHaltedMarkets(),
+      paused: this.pauseReason !== undefined,
+      pauseReason: this.pauseReason,
+      tradingEnabled: this.safetyControls.isTradingEnabled(),
+      invariantGuard: {
+        reportOnly: this.invariantGuard.isReportOnly(),
+        violations: this.invariantGuard.getViolations().length,
+      },
     };
   }
 
@@ -1014,6 +1453,184 @@ export class TradingService {
     return Array.from(this.marketStates.values());
   }
 
+  /**
+   * A tracked market's state, for the market detail page
+   */
+  getMarketState(marketId: string): MarketState | undefined {
+    return this.marketStates.get(marketId);
+  }
+
+  /**
+   * Every trade eligibility check for a market against its current belief,
+   * including the ones evaluateTrade never reached, with the resolution
+   * criteria parsed for checks 1 and 2
+   */
+  explainTrade(marketId: string): (TradeExplanation & { criteria: ResolutionCriteria }) | undefined {
+    const state = this.marketStates.get(marketId);
+    if (!state) return undefined;
+    const criteria = this.getResolutionCriteria(state.market);
+    return { ...explainTrade(state.belief, state.market, criteria, this.strategyConfig), criteria };
+  }
+
+  /**
+   * A tracked market's lifecycle state and transition history
+   */
+  getMarketLifecycle(marketId: string): MarketLifecycleView | undefined {
+    if (!this.marketStates.has(marketId)) return undefined;
+    return this.supervisor.getMarketLifecycle(marketId);
+  }
+
+  /**
+   * Live events for /api/stream, replaying buffered events after lastEventId
+   * Returns the unsubscribe function
+   */
+  subscribe(listener: TradingEventListener, lastEventId?: number): () => void {
+    return this.events.subscribe(listener, lastEventId);
+  }
+
+  /**
+   * Stream a lifecycle transition, plus a halt event when it entered HALT
+   */
+  private publishTransition(transition: StateTransition, marketId?: string): void {
+    const timestamp = transition.timestamp.toISOString();
+    this.events.publish({
+      type: "state_transition",
+      marketId,
+      from: transition.from,
+      to: transition.to,
+      reason: transition.reason,
+      timestamp,
+    });
+
+    if (transition.to === "HALT") {
+      const halt = marketId === undefined
+        ? this.supervisor.getActiveHalt()
+        : this.supervisor.getMarketLifecycle(marketId)?.activeHalt;
+      this.events.publish({
+        type: "halt",
+        marketId,
+        category: halt?.category ?? "invariant_breach",
+        reason: halt?.reason ?? transition.reason,
+        timestamp,
+      });
+    }
+  }
+
+  /**
+   * Halt the system on operator request (resumeFromHalt() to continue)
+   */
+  async halt(reason: string): Promise<void> {
+    if (this.supervisor.isHalted()) return;
+    this.supervisor.forceHalt(reason, "manual");
+    await this.notifyHalt(reason);
+  }
+
+  /**
+   * Leave HALT once an operator has acknowledged it, system-wide or for
+   * one market. After a system halt the watchdog starts over, so the same
+   * halt condition doesn't fire again on the next cycle.
+   */
+  resumeFromHalt(actor: string, reason: string, marketId?: string): boolean {
+    if (marketId !== undefined) {
+      if (!this.supervisor.resumeMarket(marketId, actor, reason)) return false;
+      console.log(`▶️ Resumed market ${marketId} by ${actor}: ${reason}`);
+      return true;
+    }
+
+    const halt = this.supervisor.getActiveHalt();
+    if (!this.supervisor.resume(actor, reason)) return false;
+
+    this.haltWatchdog.acknowledge();
+    console.log(`▶️ Resumed from ${halt?.category ?? "unknown"} halt by ${actor}: ${reason}`);
+    return true;
+  }
+
+  /**
+   * Stop opening new positions; beliefs, order sync and exits keep running
+   */
+  pause(reason: string): void {
+    this.pauseReason = reason;
+    console.log(`⏸️ Trading paused: ${reason}`);
+  }
+
+  resume(): void {
+    this.pauseReason = undefined;
+    console.log("▶️ Trading resumed");
+  }
+
+  /**
+   * Flip the SafetyControls kill switch (active = all trading blocked)
+   */
+  setKillSwitch(active: boolean, reason: string): void {
+    if (active) {
+      this.safetyControls.enableKillSwitch(reason);
+    } else {
+      this.safetyControls.disableKillSwitch();
+    }
+  }
+
+  /**
+   * Close a market's position (and cancel its working orders) on operator
+   * request. Positions the monitor tracks exit through it; positions
+   * rebuilt by reconciliation are sold at the current market price.
+   * `pending` means a live SELL was submitted and has yet to fill.
+   * Returns undefined when there is nothing to close.
+   */
+  async closePosition(
+    marketId: string,
+    reason: string
+  ): Promise<{ closed: boolean; pending: boolean; pnl: number } | undefined> {
+    if (!this.execution.hasPosition(marketId)) return undefined;
+
+    if (this.positionMonitor.isTracking(marketId)) {
+      // The monitor records a pending exit once its SELL fills
+      const exit = await this.positionMonitor.exit(marketId, reason);
+      return { closed: exit !== undefined, pending: this.positionMonitor.isExiting(marketId), pnl: exit?.pnl ?? 0 };
+    }
+
+    const realizedBefore = this.ledger.getRealizedPnl();
+    const position = this.ledger.getOpenPosition(marketId);
+    const market = this.marketStates.get(marketId)?.market;
+    const closed = await this.execution.closePosition(
+      marketId,
+      position && market
+        ? {
+            tokenId: this.getTokenForOutcome(market, position.side)?.token_id,
+            price: toOutcomePrice(position.side, market.current_price),
+          }
+        : undefined
+    );
+    const pnl = this.ledger.getRealizedPnl() - realizedBefore;
+    const pending = closed && this.execution.hasPosition(marketId);
+
+    if (closed && !pending && market) {
+      await this.auditLogger.logPositionClosed(market, pnl, `manual: ${reason}`);
+    }
+    return { closed: closed && !pending, pending, pnl };
+  }
+
+  /**
+   * Feed an operator-supplied signal through the normal belief update and
+   * trade evaluation. Returns undefined for an unknown market.
+   */
+  async injectSignal(
+    marketId: string,
+    signal: Signal
+  ): Promise<{ accepted: boolean; belief: BeliefState } | undefined> {
+    const state = this.marketStates.get(marketId);
+    if (!state) return undefined;
+
+    if (this.supervisor.isHalted()) {
+      throw new Error(`System is halted: ${this.supervisor.getHaltReason()}`);
+    }
+    if (state.lifecycle.isHalted()) {
+      throw new Error(`Market is halted: ${state.lifecycle.getHaltReason()}`);
+    }
+
+    const accepted = await this.applySignals(marketId, state, [signal]);
+    return { accepted: accepted > 0, belief: state.belief };
+  }
+
   /**
    * Schedule daily summary to be sent at midnight UTC
    */
@@ -1029,10 +1646,10 @@ export class TradingService {
     const msUntilMidnight = tomorrow.getTime() - now.getTime();
     
     // Schedule first summary, then repeat every 24 hours
-    setTimeout(() => {
+    this.timers.push(setTimeout(() => {
       this.sendDailySummaryReport();
-      setInterval(() => this.sendDailySummaryReport(), 24 * 60 * 60 * 1000);
-    }, msUntilMidnight);
+      this.timers.push(setInterval(() => this.sendDailySummaryReport(), 24 * 60 * 60 * 1000));
+    }, msUntilMidnight));
     
     console.log(`📅 Daily summary scheduled in ${Math.round(msUntilMidnight / 1000 / 60)} minutes`);
   }
@@ -1072,7 +1689,7 @@ export class TradingService {
       redditSignalsProcessed: this.dailyStats.redditSignalsProcessed,
       hackerNewsSignalsProcessed: this.dailyStats.hackerNewsSignalsProcessed,
       beliefUpdates: this.dailyStats.beliefUpdates,
-      systemHealth: this.stateMachine.isHalted() ? "unhealthy" : "healthy",
+      systemHealth: this.supervisor.isHalted() ? "unhealthy" : "healthy",
       mode: this.simulationMode ? "Simulation" : "Live Trading",
       paperTradingMetrics,
       // Top missed opportunities
@@ -1189,6 +1806,7 @@ export class TradingService {
           if (!market) {
             // Market no longer available - mark as expired
             await this.paperTrading.expirePosition(position.id);
+            this.positionMonitor.untrack(position.marketId);
             continue;
           }
           
@@ -1196,6 +1814,7 @@ export class TradingService {
           if (market.resolved_at || market.resolution_outcome !== undefined) {
             // Market is resolved
             const actualOutcome: "YES" | "NO" = market.resolution_outcome === true ? "YES" : "NO";
+            this.haltWatchdog.recordResolution(position.marketId, actualOutcome === "YES", market.resolved_at);
             const exitPrice = actualOutcome === "YES" ? 100 : 0;
             
             await this.paperTrading.resolvePosition(
@@ -1203,6 +1822,7 @@ export class TradingService {
               actualOutcome,
               exitPrice
             );
+            this.positionMonitor.untrack(position.marketId);
             
             // Log resolution
             await this.auditLogger.logPaperTradeResolved(
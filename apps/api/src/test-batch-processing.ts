@@ -10,6 +10,7 @@
 
 import { PolymarketConnector } from "./connectors/polymarket.js";
 import { BatchTradingService } from "./services/batch-trading.js";
+import { loadStrategyConfig } from "@pomabot/core";
 import type { Market, MarketCategory } from "@pomabot/shared";
 
 // Test configurations
@@ -157,7 +158,10 @@ async function runTestScenario(
   console.log("=".repeat(80) + "\n");
 
   // Initialize batch trading service
+  const strategyConfigPath = process.env.STRATEGY_CONFIG_PATH;
+  const strategy = strategyConfigPath ? await loadStrategyConfig(strategyConfigPath) : undefined;
   const batchService = new BatchTradingService({
+    strategy,
     batchProcessor: {
       maxConcurrency: parseInt(process.env.BATCH_MAX_CONCURRENCY || "50", 10),
       batchSize: parseInt(process.env.BATCH_SIZE || "100", 10),
@@ -12,7 +12,7 @@
 
 import { WalletManager } from "./connectors/wallet.js";
 import { PolymarketConnector } from "./connectors/polymarket.js";
-import { SafetyControls } from "@pomabot/core";
+import { SafetyControls, PositionLedger, sharesForUsd } from "@pomabot/core";
 
 // ANSI color codes for terminal output
 const colors = {
@@ -269,12 +269,13 @@ class Phase4Tester {
     console.log(`${colors.blue}[5/7] Testing Safety Controls...${colors.reset}`);
 
     try {
+      const ledger = new PositionLedger();
       this.safetyControls = new SafetyControls({
         maxPositionSize: parseFloat(process.env.MAX_POSITION_SIZE || "100"),
         dailyLossLimit: parseFloat(process.env.DAILY_LOSS_LIMIT || "50"),
         maxOpenPositions: parseInt(process.env.MAX_OPEN_POSITIONS || "5", 10),
         enabled: true,
-      });
+      }, ledger);
 
       console.log(`  ${colors.green}✓${colors.reset} Safety controls initialized`);
 
@@ -298,7 +299,13 @@ class Phase4Tester {
       }
 
       // Test position tracking
-      this.safetyControls.addPosition("test-market-1", 50, 65);
+      ledger.recordFill({
+        marketId: "test-market-1",
+        side: "YES",
+        action: "BUY",
+        shares: sharesForUsd(50, 65),
+        price: 65,
+      });
       const positions = this.safetyControls.getPositions();
       if (positions.length === 1 && positions[0]?.marketId === "test-market-1") {
         console.log(`  ${colors.green}✓${colors.reset} Position tracking works`);
@@ -0,0 +1,172 @@
+/**
+ * Tests for the mock CLOB, driven through the real PolymarketConnector
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Wallet } from "ethers";
+import { ExecutionLayer, PositionLedger } from "@pomabot/core";
+import type { TradeDecision } from "@pomabot/shared";
+import { PolymarketConnector, type PolymarketMarketResponse } from "../connectors/polymarket";
+import { WalletManager } from "../connectors/wallet";
+import { MockClob } from "./mock-clob";
+
+const YES_TOKEN = "1001";
+const NO_TOKEN = "1002";
+
+const market: PolymarketMarketResponse = {
+  condition_id: "0xfed",
+  question: "Will the Fed cut rates in December?",
+  description: "Resolves YES if the FOMC lowers the target range.",
+  end_date_iso: "2099-12-31T00:00:00Z",
+  outcomes: ["Yes", "No"],
+  volume: "0",
+  liquidity: "0",
+  tokens: [
+    { outcome: "Yes", price: 0.4, token_id: YES_TOKEN },
+    { outcome: "No", price: 0.6, token_id: NO_TOKEN },
+  ],
+};
+
+function createWallet(): WalletManager {
+  return new WalletManager({ privateKey: Wallet.createRandom().privateKey, chainId: 137 });
+}
+
+describe("MockClob", () => {
+  let clob: MockClob;
+  let connector: PolymarketConnector;
+
+  beforeEach(async () => {
+    clob = new MockClob({ markets: [market] });
+    connector = new PolymarketConnector(createWallet(), await clob.start());
+  });
+
+  afterEach(async () => {
+    await clob.stop();
+  });
+
+  describe("Public endpoints", () => {
+    it("should serve markets and order books", async () => {
+      clob.setBook(YES_TOKEN, { asks: [{ price: 0.41, size: 100 }, { price: 0.4, size: 50 }] });
+
+      const markets = await connector.fetchMarkets();
+      expect(markets).toHaveLength(1);
+      expect(markets[0]?.tokens?.yes.token_id).toBe(YES_TOKEN);
+      expect((await connector.getMarket("0xfed"))?.current_price).toBe(40);
+
+      const book = await connector.getOrderBook(YES_TOKEN);
+      expect(book.asks).toEqual([{ price: 0.4, size: 50 }, { price: 0.41, size: 100 }]);
+    });
+  });
+
+  describe("Authentication", () => {
+    it("should issue API credentials for a signed nonce", async () => {
+      expect(await connector.authenticate()).toBe(true);
+      expect(connector.isAuthenticated()).toBe(true);
+    });
+
+    it("should reject private calls without credentials", async () => {
+      const response = await fetch(`${clob.url}/order/0xmock1`);
+      expect(response.status).toBe(401);
+    });
+
+    it("should reject an order signed by another wallet", async () => {
+      await connector.authenticate();
+      const other = new PolymarketConnector(createWallet(), clob.url);
+      // Borrow the authenticated session's API key with a different signer
+      (other as unknown as { authCredentials: unknown }).authCredentials =
+        (connector as unknown as { authCredentials: unknown }).authCredentials;
+
+      const result = await other.placeOrder({ tokenId: YES_TOKEN, price: 0.4, size: 10, side: "BUY" });
+
+      expect(result).toBeUndefined();
+      expect(clob.requests.at(-1)).toMatchObject({ method: "POST", path: "/order", status: 401 });
+    });
+  });
+
+  describe("Matching", () => {
+    beforeEach(async () => {
+      await connector.authenticate();
+    });
+
+    it("should cross an order against resting asks at or below its limit", async () => {
+      clob.setBook(YES_TOKEN, { asks: [{ price: 0.4, size: 60 }, { price: 0.45, size: 100 }] });
+
+      const placed = await connector.placeOrder({ tokenId: YES_TOKEN, price: 0.4, size: 40, side: "BUY" });
+      const order = clob.getOrder(placed!.orderId);
+
+      // $40 at 40¢ = 100 shares, 60 available at the limit
+      expect(order?.originalSize).toBeCloseTo(100, 6);
+      expect(order?.sizeMatched).toBeCloseTo(60, 6);
+      expect(order?.status).toBe("LIVE");
+      expect((await connector.getOrderBook(YES_TOKEN)).asks).toEqual([{ price: 0.45, size: 100 }]);
+
+      // Reported in USDC at the order price
+      const status = await connector.getOrderStatus(placed!.orderId);
+      expect(status?.status).toBe("LIVE");
+      expect(status?.filledAmount).toBeCloseTo(24, 6);
+    });
+
+    it("should apply scripted fills and cancels", async () => {
+      const first = await connector.placeOrder({ tokenId: YES_TOKEN, price: 0.4, size: 40, side: "BUY" });
+      const second = await connector.placeOrder({ tokenId: NO_TOKEN, price: 0.6, size: 30, side: "BUY" });
+
+      clob.fillOrder(first!.orderId);
+      clob.expireOrder(second!.orderId);
+
+      expect((await connector.getOrderStatus(first!.orderId))?.status).toBe("MATCHED");
+      expect((await connector.getOrderStatus(first!.orderId))?.filledAmount).toBeCloseTo(40, 6);
+      expect((await connector.getOrderStatus(second!.orderId))?.status).toBe("CANCELLED");
+    });
+
+    it("should cancel live orders and refuse to cancel matched ones", async () => {
+      const live = await connector.placeOrder({ tokenId: YES_TOKEN, price: 0.4, size: 40, side: "BUY" });
+      const matched = await connector.placeOrder({ tokenId: YES_TOKEN, price: 0.4, size: 40, side: "BUY" });
+      clob.fillOrder(matched!.orderId);
+
+      expect(await connector.cancelOrder(live!.orderId)).toBe(true);
+      expect(clob.getOrder(live!.orderId)?.status).toBe("CANCELLED");
+      expect(await connector.cancelOrder(matched!.orderId)).toBe(false);
+    });
+  });
+
+  describe("ExecutionLayer in live mode", () => {
+    const decision: TradeDecision = {
+      side: "YES",
+      size_usd: 40,
+      entry_price: 40,
+      exit_conditions: [{ type: "emergency", description: "test" }],
+      rationale: "test",
+      rationale_hash: "hash",
+      timestamp: new Date(),
+    };
+
+    it("should open, fill and sell a position through the CLOB", async () => {
+      await connector.authenticate();
+      clob.setBook(YES_TOKEN, { bids: [{ price: 0.5, size: 500 }] });
+      const ledger = new PositionLedger();
+      const execution = new ExecutionLayer(connector, false, ledger);
+
+      const result = await execution.executeTrade(decision, "0xfed", YES_TOKEN, { tokenPrice: 40 });
+      expect(result.order?.clob_order_id).toBeDefined();
+
+      clob.fillOrder(result.order!.clob_order_id!, 50);
+      await execution.syncWorkingOrders();
+      expect(ledger.getOpenPosition("0xfed")?.shares).toBeCloseTo(50, 6);
+
+      clob.fillOrder(result.order!.clob_order_id!);
+      await execution.syncWorkingOrders();
+      expect(ledger.getOpenPosition("0xfed")?.shares).toBeCloseTo(100, 6);
+
+      expect(await execution.closePosition("0xfed", { tokenId: YES_TOKEN, price: 50 })).toBe(true);
+      const exit = clob.getOrders().find(o => o.side === "SELL");
+      expect(exit?.status).toBe("MATCHED");
+      expect(exit?.originalSize).toBeCloseTo(100, 6);
+
+      // Booked when the sale is synced, not at submission
+      expect(ledger.getRealizedPnl()).toBe(0);
+      await execution.syncWorkingOrders();
+      expect(execution.hasPosition("0xfed")).toBe(false);
+      expect(ledger.getRealizedPnl()).toBeCloseTo(10, 6);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Mock Polymarket CLOB
+ *
+ * In-process HTTP server implementing the CLOB endpoints that
+ * PolymarketConnector uses, so LIVE mode can run end to end without
+ * touching clob.polymarket.com:
+ * - GET  /markets, /markets/:id, /book     (public)
+ * - GET  /auth/nonce, POST /auth/api-key   (L1: wallet signature)
+ * - POST /order, GET /order/:id, DELETE /order (L2: API key headers)
+ *
+ * Incoming orders are checked against their EIP-712 signature and
+ * crossed against the resting liquidity set with setBook(). Whatever
+ * doesn't cross rests as LIVE until a test fills or cancels it with
+ * fillOrder() / expireOrder(). Resting orders are not shown on the book.
+ * Orders belong to the maker address, so API keys issued to the same
+ * wallet after a restart can still read and cancel them.
+ *
+ * Sizes are in outcome shares and prices are decimals (0-1), as on the
+ * real CLOB.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomBytes } from "node:crypto";
+import { verifyMessage, verifyTypedData } from "ethers";
+import type { OrderBookLevel } from "@pomabot/core";
+import {
+  ORDER_EIP712_TYPES,
+  ctfExchangeDomain,
+  type ClobAuthCredentials,
+  type PolymarketMarketResponse,
+} from "../connectors/polymarket.js";
+
+export interface MockClobOptions {
+  markets?: PolymarketMarketResponse[];
+  chainId?: number;              // EIP-712 domain chain ID (default 137)
+  maxClockSkewSeconds?: number;  // Allowed POLY-TIMESTAMP drift (default 300)
+}
+
+export interface MockClobOrder {
+  id: string;
+  owner: string;                 // API key that placed the order
+  maker: string;
+  tokenId: string;
+  side: "BUY" | "SELL";
+  price: number;                 // Decimal limit price
+  originalSize: number;          // Shares
+  sizeMatched: number;           // Shares
+  status: "LIVE" | "MATCHED" | "CANCELLED";
+  createdAt: Date;
+}
+
+export interface MockClobRequest {
+  method: string;
+  path: string;
+  status: number;
+}
+
+interface SignedOrder {
+  salt: number;
+  maker: string;
+  signer: string;
+  taker: string;
+  tokenId: string;
+  makerAmount: string;
+  takerAmount: string;
+  side: "BUY" | "SELL";
+  feeRateBps: string;
+  nonce: number;
+  expiration: number;
+  signatureType: number;
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/** Shares left below this are treated as fully matched */
+const SHARE_EPSILON = 1e-6;
+
+export class MockClob {
+  private server?: Server;
+  private markets: PolymarketMarketResponse[];
+  private chainId: number;
+  private maxClockSkewSeconds: number;
+  private books: Map<string, { bids: OrderBookLevel[]; asks: OrderBookLevel[] }> = new Map();
+  private orders: Map<string, MockClobOrder> = new Map();
+  private nonces: Map<string, string> = new Map();                   // address → nonce
+  private credentials: Map<string, ClobAuthCredentials & { address: string }> = new Map();
+  private nextOrderId = 1;
+
+  /** Every request served, for assertions */
+  readonly requests: MockClobRequest[] = [];
+
+  constructor(options: MockClobOptions = {}) {
+    this.markets = options.markets ?? [];
+    this.chainId = options.chainId ?? 137;
+    this.maxClockSkewSeconds = options.maxClockSkewSeconds ?? 300;
+  }
+
+  /**
+   * Listen on a local port (0 = any free port) and return the base URL
+   */
+  async start(port = 0): Promise<string> {
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+    await new Promise<void>(resolve => this.server!.listen(port, "127.0.0.1", resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | undefined;
+    if (!address) {
+      throw new Error("Mock CLOB is not running");
+    }
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  setMarkets(markets: PolymarketMarketResponse[]): void {
+    this.markets = markets;
+  }
+
+  /**
+   * Replace the resting liquidity for a token (decimal prices, share sizes)
+   */
+  setBook(tokenId: string, book: { bids?: OrderBookLevel[]; asks?: OrderBookLevel[] }): void {
+    this.books.set(tokenId, {
+      bids: (book.bids ?? []).map(level => ({ ...level })).sort((a, b) => b.price - a.price),
+      asks: (book.asks ?? []).map(level => ({ ...level })).sort((a, b) => a.price - b.price),
+    });
+  }
+
+  /**
+   * Scripted fill of a resting order; fills everything left by default
+   */
+  fillOrder(orderId: string, shares?: number): MockClobOrder {
+    const order = this.requireOrder(orderId);
+    if (order.status !== "LIVE") {
+      throw new Error(`Cannot fill ${order.status} order ${orderId}`);
+    }
+    const remaining = order.originalSize - order.sizeMatched;
+    order.sizeMatched += Math.min(shares ?? remaining, remaining);
+    if (order.originalSize - order.sizeMatched <= SHARE_EPSILON) {
+      order.status = "MATCHED";
+    }
+    return { ...order };
+  }
+
+  /**
+   * Scripted cancel of a resting order (e.g. expiry or exchange-side cancel)
+   */
+  expireOrder(orderId: string): MockClobOrder {
+    const order = this.requireOrder(orderId);
+    if (order.status === "LIVE") {
+      order.status = "CANCELLED";
+    }
+    return { ...order };
+  }
+
+  getOrder(orderId: string): MockClobOrder | undefined {
+    const order = this.orders.get(orderId);
+    return order ? { ...order } : undefined;
+  }
+
+  getOrders(): MockClobOrder[] {
+    return Array.from(this.orders.values(), order => ({ ...order }));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    let status = 200;
+    let body: unknown;
+
+    try {
+      body = await this.route(method, url, req);
+    } catch (error) {
+      status = error instanceof HttpError ? error.status : 500;
+      body = { error: error instanceof Error ? error.message : String(error) };
+    }
+
+    this.requests.push({ method, path: url.pathname, status });
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+
+  private async route(method: string, url: URL, req: IncomingMessage): Promise<unknown> {
+    const path = url.pathname;
+
+    if (method === "GET" && path === "/markets") {
+      return { data: this.markets, next_cursor: "LTE=" };
+    }
+
+    if (method === "GET" && path.startsWith("/markets/")) {
+      const id = decodeURIComponent(path.slice("/markets/".length));
+      const market = this.markets.find(m => m.condition_id === id);
+      if (!market) throw new HttpError(404, "market not found");
+      return market;
+    }
+
+    if (method === "GET" && path === "/book") {
+      const book = this.books.get(url.searchParams.get("token_id") ?? "") ?? { bids: [], asks: [] };
+      const toWire = (levels: OrderBookLevel[]) =>
+        levels.map(level => ({ price: String(level.price), size: String(level.size) }));
+      return { bids: toWire(book.bids), asks: toWire(book.asks) };
+    }
+
+    if (method === "GET" && path === "/auth/nonce") {
+      const address = (url.searchParams.get("address") ?? "").toLowerCase();
+      if (!address) throw new HttpError(400, "address required");
+      const nonce = randomBytes(16).toString("hex");
+      this.nonces.set(address, nonce);
+      return { nonce };
+    }
+
+    if (method === "POST" && path === "/auth/api-key") {
+      return this.deriveApiKey(await readJson(req));
+    }
+
+    if (method === "POST" && path === "/order") {
+      const creds = this.authorize(req, true);
+      return this.placeOrder(creds, await readJson(req));
+    }
+
+    if (method === "GET" && path.startsWith("/order/")) {
+      const creds = this.authorize(req, false);
+      const order = this.orders.get(decodeURIComponent(path.slice("/order/".length)));
+      if (!order || order.maker.toLowerCase() !== creds.address) {
+        throw new HttpError(404, "order not found");
+      }
+      return {
+        id: order.id,
+        status: order.status,
+        asset_id: order.tokenId,
+        side: order.side,
+        price: String(order.price),
+        original_size: String(order.originalSize),
+        size_matched: String(order.sizeMatched),
+      };
+    }
+
+    if (method === "DELETE" && path === "/order") {
+      const creds = this.authorize(req, true);
+      const { orderId } = (await readJson(req)) as { orderId?: string };
+      const order = orderId ? this.orders.get(orderId) : undefined;
+      if (!order || order.maker.toLowerCase() !== creds.address) {
+        return { canceled: [], not_canceled: { [orderId ?? ""]: "order not found" } };
+      }
+      if (order.status !== "LIVE") {
+        return { canceled: [], not_canceled: { [order.id]: `order already ${order.status.toLowerCase()}` } };
+      }
+      order.status = "CANCELLED";
+      return { canceled: [order.id], not_canceled: {} };
+    }
+
+    throw new HttpError(404, `no route for ${method} ${path}`);
+  }
+
+  /**
+   * L1: the wallet proves control of its address by signing the issued nonce
+   */
+  private deriveApiKey(body: unknown): ClobAuthCredentials {
+    const { address, nonce, signature } = body as { address?: string; nonce?: string; signature?: string };
+    const expected = address ? this.nonces.get(address.toLowerCase()) : undefined;
+    if (!address || !signature || !expected || expected !== nonce) {
+      throw new HttpError(401, "unknown or reused nonce");
+    }
+
+    const message = `This message attests that I control the given wallet\nNonce: ${nonce}`;
+    let signer: string;
+    try {
+      signer = verifyMessage(message, signature);
+    } catch {
+      throw new HttpError(401, "malformed signature");
+    }
+    if (signer.toLowerCase() !== address.toLowerCase()) {
+      throw new HttpError(401, "signature does not match address");
+    }
+
+    this.nonces.delete(address.toLowerCase());
+    const creds = {
+      apiKey: randomBytes(16).toString("hex"),
+      apiSecret: randomBytes(32).toString("base64"),
+      apiPassphrase: randomBytes(16).toString("hex"),
+    };
+    this.credentials.set(creds.apiKey, { ...creds, address: address.toLowerCase() });
+    return creds;
+  }
+
+  /**
+   * L2: API key on every private call; passphrase and a fresh timestamp
+   * on calls that change orders
+   */
+  private authorize(req: IncomingMessage, mutating: boolean): ClobAuthCredentials & { address: string } {
+    const creds = this.credentials.get(header(req, "poly-api-key") ?? "");
+    if (!creds) throw new HttpError(401, "invalid api key");
+
+    if (mutating) {
+      if (header(req, "poly-passphrase") !== creds.apiPassphrase) {
+        throw new HttpError(401, "invalid passphrase");
+      }
+      const timestamp = Number(header(req, "poly-timestamp"));
+      const skew = Math.abs(Date.now() / 1000 - timestamp);
+      if (!Number.isFinite(timestamp) || skew > this.maxClockSkewSeconds) {
+        throw new HttpError(401, "invalid timestamp");
+      }
+    }
+
+    return creds;
+  }
+
+  private placeOrder(
+    creds: ClobAuthCredentials & { address: string },
+    body: unknown
+  ): { success: boolean; orderId: string; status: MockClobOrder["status"] } {
+    const { order, signature } = body as { order?: SignedOrder; signature?: string };
+    if (!order || !signature) throw new HttpError(400, "order and signature required");
+
+    let signer: string;
+    try {
+      signer = verifyTypedData(
+        ctfExchangeDomain(this.chainId),
+        ORDER_EIP712_TYPES,
+        { ...order, side: order.side === "BUY" ? 0 : 1 },
+        signature
+      );
+    } catch {
+      throw new HttpError(400, "malformed order signature");
+    }
+    if (signer.toLowerCase() !== order.maker.toLowerCase() || signer.toLowerCase() !== creds.address) {
+      throw new HttpError(401, "order not signed by the api key owner");
+    }
+
+    // BUY pays USDC (maker) for shares (taker); SELL the reverse. 6 decimals each.
+    const maker = Number(order.makerAmount) / 1e6;
+    const taker = Number(order.takerAmount) / 1e6;
+    const shares = order.side === "BUY" ? taker : maker;
+    const price = Math.round(((order.side === "BUY" ? maker : taker) / shares) * 1e6) / 1e6;
+    if (!(shares > 0) || !(price > 0 && price < 1)) {
+      throw new HttpError(400, `invalid order amounts (price ${price}, size ${shares})`);
+    }
+
+    const placed: MockClobOrder = {
+      id: `0xmock${(this.nextOrderId++).toString(16).padStart(8, "0")}`,
+      owner: creds.apiKey,
+      maker: order.maker,
+      tokenId: order.tokenId,
+      side: order.side,
+      price,
+      originalSize: shares,
+      sizeMatched: this.match(order.tokenId, order.side, price, shares),
+      status: "LIVE",
+      createdAt: new Date(),
+    };
+    if (placed.originalSize - placed.sizeMatched <= SHARE_EPSILON) {
+      placed.status = "MATCHED";
+    }
+    this.orders.set(placed.id, placed);
+
+    return { success: true, orderId: placed.id, status: placed.status };
+  }
+
+  /**
+   * Cross an order against resting liquidity at or better than its limit
+   * Returns the shares matched
+   */
+  private match(tokenId: string, side: "BUY" | "SELL", price: number, shares: number): number {
+    const book = this.books.get(tokenId);
+    if (!book) return 0;
+
+    const levels = side === "BUY" ? book.asks : book.bids;
+    const crosses = (level: OrderBookLevel) => (side === "BUY" ? level.price <= price : level.price >= price);
+    let matched = 0;
+
+    while (levels.length > 0 && matched < shares && crosses(levels[0]!)) {
+      const level = levels[0]!;
+      const take = Math.min(level.size, shares - matched);
+      matched += take;
+      level.size -= take;
+      if (level.size <= SHARE_EPSILON) {
+        levels.shift();
+      }
+    }
+
+    return matched;
+  }
+
+  private requireOrder(orderId: string): MockClobOrder {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error(`Unknown mock CLOB order ${orderId}`);
+    }
+    return order;
+  }
+}
+
+function header(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  if (chunks.length === 0) return {};
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+  } catch {
+    throw new HttpError(400, "invalid JSON body");
+  }
+}
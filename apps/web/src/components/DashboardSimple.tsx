@@ -2,8 +2,9 @@
  * Dashboard Component - Connected to live API data
  */
 
-import { useState, useEffect } from 'react';
-import type { SystemState } from '@pomabot/shared';
+import { useState, useEffect, useRef } from 'react';
+import type { SystemState, TradingEvent } from '@pomabot/shared';
+import { useTradingStream } from './useTradingStream';
 
 // API response types
 interface MarketData {
@@ -24,6 +25,19 @@ interface MarketData {
   lastChecked: string;
 }
 
+interface MarketsPage {
+  markets: MarketData[];
+  total: number;
+  nextCursor?: string;
+}
+
+interface MarketFilters {
+  category: string;
+  sort: string;
+  hasEdge: boolean;
+  minConfidence: string;
+}
+
 interface StatusData {
   state: string;
   markets: number;
@@ -33,6 +47,37 @@ interface StatusData {
 
 const API_BASE = import.meta.env.PUBLIC_API_URL ?? 'http://localhost:4000';
 
+const PAGE_SIZE = 20;
+
+const MARKET_CATEGORIES = [
+  'politics', 'crypto', 'sports', 'economics', 'entertainment', 'weather', 'technology', 'world', 'other',
+];
+
+const SORT_OPTIONS = [
+  { value: '-liquidity', label: 'Liquidity' },
+  { value: '-edge', label: 'Edge' },
+  { value: '-confidence', label: 'Confidence' },
+  { value: 'closesAt', label: 'Closing soonest' },
+];
+
+// /api/markets URL, leaving out unset parameters
+function marketsUrl(params: Record<string, string | number | undefined>): string {
+  const query = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  }
+  return `${API_BASE}/api/markets?${query}`;
+}
+
+function filterParams(filters: MarketFilters): Record<string, string | undefined> {
+  return {
+    category: filters.category,
+    sort: filters.sort,
+    hasEdge: filters.hasEdge ? 'true' : undefined,
+    minConfidence: filters.minConfidence,
+  };
+}
+
 const styles = {
   container: {
     display: 'flex',
@@ -176,6 +221,29 @@ const styles = {
     fontSize: '0.75rem',
     marginTop: '0.25rem',
   },
+  filterBar: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    gap: '1rem',
+    alignItems: 'center',
+    marginBottom: '1rem',
+    fontSize: '0.875rem',
+    color: '#6b7280',
+  },
+  filterInput: {
+    padding: '0.375rem 0.5rem',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.375rem',
+    fontSize: '0.875rem',
+  },
+  loadMoreButton: {
+    padding: '0.5rem 1rem',
+    border: '1px solid #e5e7eb',
+    borderRadius: '0.5rem',
+    background: 'white',
+    cursor: 'pointer',
+    fontWeight: 500,
+  },
   philosophyCard: {
     background: 'linear-gradient(to right, #eff6ff, #f5f3ff)',
     borderRadius: '0.5rem',
@@ -216,7 +284,11 @@ function MarketCard({ market }: { market: MarketData }) {
 
   return (
     <div style={styles.marketCard}>
-      <h3 style={styles.marketTitle}>{market.question}</h3>
+      <h3 style={styles.marketTitle}>
+        <a href={`/markets/${encodeURIComponent(market.marketId)}`} style={{ color: 'inherit', textDecoration: 'none' }}>
+          {market.question}
+        </a>
+      </h3>
       <div style={{ fontSize: '0.75rem', color: '#9ca3af', marginBottom: '0.5rem' }}>
         {market.category.toUpperCase()} • Closes: {new Date(market.closesAt).toLocaleDateString()}
       </div>
@@ -303,12 +375,57 @@ function MarketCard({ market }: { market: MarketData }) {
 export default function Dashboard() {
   const [systemState, setSystemState] = useState<SystemState>('OBSERVE');
   const [markets, setMarkets] = useState<MarketData[]>([]);
+  const [marketTotal, setMarketTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | undefined>(undefined);
+  const [tradeOpportunities, setTradeOpportunities] = useState<MarketData[]>([]);
+  const [opportunityCount, setOpportunityCount] = useState(0);
+  const [filters, setFilters] = useState<MarketFilters>({ category: '', sort: '-liquidity', hasEdge: false, minConfidence: '' });
+  // Refreshes reload every page loaded so far, so the grid doesn't collapse
+  const loadedCount = useRef(PAGE_SIZE);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | undefined>(undefined);
   const [totalMarkets, setTotalMarkets] = useState(0);
   const [halted, setHalted] = useState(false);
   const [haltReason, setHaltReason] = useState<string | undefined>(undefined);
 
+  // Apply live events between full refreshes
+  const { connected } = useTradingStream(API_BASE, (event: TradingEvent) => {
+    switch (event.type) {
+      case 'state_transition':
+        // Market lifecycles show up on the market cards via refresh
+        if (event.marketId === undefined) {
+          setSystemState(event.to);
+          setHalted(event.to === 'HALT');
+          if (event.to !== 'HALT') setHaltReason(undefined);
+        }
+        break;
+      case 'halt':
+        if (event.marketId === undefined) {
+          setHalted(true);
+          setHaltReason(event.reason);
+        }
+        break;
+      case 'belief_updated': {
+        const applyBelief = (list: MarketData[]) => list.map(m => m.marketId === event.marketId
+          ? {
+              ...m,
+              belief: {
+                ...m.belief,
+                belief_low: event.belief_low,
+                belief_high: event.belief_high,
+                confidence: event.confidence,
+                last_updated: event.timestamp,
+              },
+              signalCount: m.signalCount + 1,
+            }
+          : m);
+        setMarkets(applyBelief);
+        setTradeOpportunities(applyBelief);
+        break;
+      }
+    }
+  });
+
   // Fetch data from API
   useEffect(() => {
     const fetchData = async () => {
@@ -323,11 +440,21 @@ export default function Dashboard() {
           setHaltReason(status.haltReason);
         }
 
-        // Fetch markets
-        const marketsRes = await fetch(`${API_BASE}/api/markets`);
+        // Fetch the filtered grid and the top opportunities (price outside belief range)
+        const [marketsRes, opportunitiesRes] = await Promise.all([
+          fetch(marketsUrl({ ...filterParams(filters), limit: loadedCount.current })),
+          fetch(marketsUrl({ hasEdge: 'true', sort: '-edge', limit: 10 })),
+        ]);
         if (marketsRes.ok) {
-          const data = await marketsRes.json();
-          setMarkets(data.markets);
+          const page = await marketsRes.json() as MarketsPage;
+          setMarkets(page.markets);
+          setMarketTotal(page.total);
+          setNextCursor(page.nextCursor);
+        }
+        if (opportunitiesRes.ok) {
+          const page = await opportunitiesRes.json() as MarketsPage;
+          setTradeOpportunities(page.markets);
+          setOpportunityCount(page.total);
         }
         
         setLoading(false);
@@ -340,15 +467,30 @@ export default function Dashboard() {
 
     fetchData();
     
-    // Refresh every 10 seconds
-    const interval = setInterval(fetchData, 10000);
+    // Poll every 10 seconds without the stream, resync every minute with it
+    const interval = setInterval(fetchData, connected ? 60000 : 10000);
     return () => clearInterval(interval);
-  }, []);
+  }, [connected, filters]);
 
-  // Filter markets with trade opportunities (price outside belief range)
-  const tradeOpportunities = markets.filter(
-    m => m.currentPrice < m.belief.belief_low || m.currentPrice > m.belief.belief_high
-  );
+  const updateFilters = (changes: Partial<MarketFilters>) => {
+    loadedCount.current = PAGE_SIZE;
+    setFilters(prev => ({ ...prev, ...changes }));
+  };
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    try {
+      const res = await fetch(marketsUrl({ ...filterParams(filters), limit: PAGE_SIZE, cursor: nextCursor }));
+      if (res.ok) {
+        const page = await res.json() as MarketsPage;
+        setMarkets(prev => [...prev, ...page.markets]);
+        setNextCursor(page.nextCursor);
+        loadedCount.current += page.markets.length;
+      }
+    } catch (err) {
+      console.error('Failed to load more markets:', err);
+    }
+  };
 
   if (loading) {
     return (
@@ -385,6 +527,9 @@ export default function Dashboard() {
           <div style={styles.statBox}>
             <div style={styles.statLabel}>State</div>
             <div style={styles.statValue}>{systemState}</div>
+            <div style={{ fontSize: '0.75rem', color: connected ? '#16a34a' : '#6b7280' }}>
+              {connected ? '● Live' : '○ Polling'}
+            </div>
           </div>
           <div style={styles.statBox}>
             <div style={styles.statLabel}>Active Markets</div>
@@ -392,10 +537,10 @@ export default function Dashboard() {
           </div>
           <div style={styles.statBox}>
             <div style={styles.statLabel}>Trade Opportunities</div>
-            <div style={styles.statValue}>{tradeOpportunities.length}</div>
+            <div style={styles.statValue}>{opportunityCount}</div>
           </div>
           <div style={styles.statBox}>
-            <div style={styles.statLabel}>Total Unknowns</div>
+            <div style={styles.statLabel}>Unknowns (Listed)</div>
             <div style={styles.statValue}>
               {markets.reduce((acc, m) => acc + m.belief.unknowns.length, 0)}
             </div>
@@ -411,9 +556,9 @@ export default function Dashboard() {
       {/* Trade Opportunities Section */}
       {tradeOpportunities.length > 0 && (
         <div style={styles.card}>
-          <h2 style={{ ...styles.heading, color: '#16a34a' }}>💡 Trade Opportunities ({tradeOpportunities.length})</h2>
+          <h2 style={{ ...styles.heading, color: '#16a34a' }}>💡 Trade Opportunities ({opportunityCount})</h2>
           <div style={styles.grid}>
-            {tradeOpportunities.slice(0, 10).map((market) => (
+            {tradeOpportunities.map((market) => (
               <MarketCard key={market.marketId} market={market} />
             ))}
           </div>
@@ -422,17 +567,51 @@ export default function Dashboard() {
 
       {/* All Markets Grid */}
       <div style={styles.card}>
-        <h2 style={styles.heading}>All Markets ({markets.length})</h2>
+        <h2 style={styles.heading}>Markets ({marketTotal})</h2>
+        <div style={styles.filterBar}>
+          <select style={styles.filterInput} value={filters.category} onChange={e => updateFilters({ category: e.target.value })}>
+            <option value="">All categories</option>
+            {MARKET_CATEGORIES.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <label>
+            Sort by{' '}
+            <select style={styles.filterInput} value={filters.sort} onChange={e => updateFilters({ sort: e.target.value })}>
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Min confidence{' '}
+            <input
+              type="number"
+              min={0}
+              max={100}
+              style={{ ...styles.filterInput, width: '4.5rem' }}
+              value={filters.minConfidence}
+              onChange={e => updateFilters({ minConfidence: e.target.value })}
+            />
+          </label>
+          <label>
+            <input type="checkbox" checked={filters.hasEdge} onChange={e => updateFilters({ hasEdge: e.target.checked })} />
+            {' '}Edge only
+          </label>
+        </div>
         <div style={styles.grid}>
-          {markets.slice(0, 20).map((market) => (
+          {markets.map((market) => (
             <MarketCard key={market.marketId} market={market} />
           ))}
         </div>
-        {markets.length > 20 && (
-          <div style={{ marginTop: '1rem', textAlign: 'center' as const, color: '#6b7280' }}>
-            Showing 20 of {markets.length} markets
-          </div>
-        )}
+        <div style={{ marginTop: '1rem', textAlign: 'center' as const, color: '#6b7280' }}>
+          Showing {markets.length} of {marketTotal} markets
+          {nextCursor && (
+            <div style={{ marginTop: '0.5rem' }}>
+              <button style={styles.loadMoreButton} onClick={loadMore}>Load more</button>
+            </div>
+          )}
+        </div>
       </div>
 
       {/* Philosophy */}
@@ -0,0 +1,461 @@
+/**
+ * Market Detail Component - belief history, trade eligibility and signal timeline
+ */
+
+import { useState, useEffect } from 'react';
+import type { TradingEvent } from '@pomabot/shared';
+import { useTradingStream } from './useTradingStream';
+
+// API response types (GET /api/markets/:marketId)
+interface BeliefPoint {
+  timestamp: string;
+  belief_low: number;
+  belief_high: number;
+  confidence: number;
+}
+
+interface PricePoint {
+  timestamp: string;
+  price: number;
+}
+
+interface SignalData {
+  type: string;
+  direction: 'up' | 'down' | 'neutral';
+  strength: number;
+  timestamp: string;
+  source?: string;
+  description?: string;
+  conflicts_with_existing: boolean;
+  conflicts_with?: string;
+}
+
+interface UnknownData {
+  id: string;
+  description: string;
+  added_at: string;
+  resolved_at?: string;
+  resolution_reason?: string;
+}
+
+interface MarketDetailData {
+  marketId: string;
+  question: string;
+  category: string;
+  currentPrice: number;
+  closesAt: string;
+  belief: {
+    belief_low: number;
+    belief_high: number;
+    confidence: number;
+    unknowns: UnknownData[];
+  };
+  lifecycleState: string;
+  beliefHistory: BeliefPoint[];
+  priceHistory: PricePoint[];
+  signals: SignalData[];
+  rejectedSignals: Array<{ signal: SignalData; reason: string; rejectedAt: string }>;
+  resolvedUnknowns: UnknownData[];
+  lastFailedCheck?: { check: string; reason: string; evaluatedAt: string };
+}
+
+// GET /api/markets/:marketId/evaluation
+interface TradeCheck {
+  check: string;
+  passed: boolean;
+  value: number | boolean;
+  threshold: number | boolean | [number, number];
+  reason?: string;
+}
+
+interface EvaluationData {
+  eligible: boolean;
+  side: 'YES' | 'NO' | 'NONE';
+  checks: TradeCheck[];
+  criteria: {
+    authority: string;
+    verification_source?: string;
+    deadline?: string;
+    ambiguity_markers?: string[];
+    confidence?: number;
+  };
+}
+
+interface TimelineEntry {
+  signal: SignalData;
+  at: string;
+  rejectionReason?: string;
+}
+
+const API_BASE = import.meta.env.PUBLIC_API_URL ?? 'http://localhost:4000';
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+
+const styles = {
+  container: {
+    display: 'flex',
+    flexDirection: 'column' as const,
+    gap: '1.5rem',
+  },
+  card: {
+    background: 'white',
+    borderRadius: '0.5rem',
+    boxShadow: '0 1px 3px rgba(0,0,0,0.1)',
+    padding: '1.5rem',
+  },
+  heading: {
+    fontSize: '1.5rem',
+    fontWeight: 700,
+    marginBottom: '1rem',
+  },
+  subheading: {
+    fontSize: '0.875rem',
+    color: '#6b7280',
+  },
+  grid: {
+    display: 'grid',
+    gridTemplateColumns: 'repeat(auto-fit, minmax(160px, 1fr))',
+    gap: '1rem',
+  },
+  statBox: {
+    padding: '1rem',
+    borderRadius: '0.5rem',
+    background: '#eff6ff',
+  },
+  statLabel: {
+    fontSize: '0.875rem',
+    fontWeight: 500,
+    color: '#2563eb',
+  },
+  statValue: {
+    fontSize: '1.25rem',
+    fontWeight: 600,
+    marginTop: '0.5rem',
+  },
+  legend: {
+    display: 'flex',
+    gap: '1.5rem',
+    fontSize: '0.75rem',
+    color: '#6b7280',
+    marginTop: '0.5rem',
+  },
+  timelineItem: {
+    display: 'flex',
+    gap: '1rem',
+    padding: '0.75rem 0',
+    borderBottom: '1px solid #e5e7eb',
+    fontSize: '0.875rem',
+  },
+  timelineTime: {
+    minWidth: '9rem',
+    color: '#9ca3af',
+  },
+  badge: {
+    display: 'inline-block',
+    padding: '0.125rem 0.5rem',
+    borderRadius: '9999px',
+    fontSize: '0.75rem',
+    fontWeight: 500,
+    background: '#e0e7ff',
+    color: '#3730a3',
+    marginRight: '0.5rem',
+  },
+  tableCell: {
+    padding: '0.5rem',
+    borderBottom: '1px solid #e5e7eb',
+  },
+};
+
+const DIRECTION_ICONS = { up: '▲', down: '▼', neutral: '●' };
+
+const CHECK_LABELS: Record<string, string> = {
+  resolution_authority: 'Resolution authority clear',
+  objective_outcome: 'Outcome objectively verifiable',
+  liquidity: 'Liquidity ≥ minimum',
+  belief_width: 'Belief width ≤ maximum',
+  confidence: 'Confidence ≥ minimum',
+  price_outside_range: 'Price outside belief range',
+  edge: 'Edge ≥ category minimum',
+  exit_plan: 'Exit plan defined',
+};
+
+function formatCheckValue(check: string, value: TradeCheck['value'] | TradeCheck['threshold']): string {
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) return `[${value[0].toFixed(1)}%, ${value[1].toFixed(1)}%]`;
+  if (check === 'edge') return `${(value * 100).toFixed(1)}%`;
+  if (check === 'liquidity') return `$${value.toLocaleString()}`;
+  if (check === 'confidence') return value.toFixed(0);
+  return `${value.toFixed(1)}%`;
+}
+
+// Section 7 checks, all of them, not just the first one that failed
+function EvaluationPanel({ evaluation }: { evaluation: EvaluationData }) {
+  return (
+    <div>
+      <div style={{ marginBottom: '1rem', fontWeight: 600, color: evaluation.eligible ? '#16a34a' : '#6b7280' }}>
+        {evaluation.eligible
+          ? `✓ Eligible: BUY ${evaluation.side}`
+          : `✗ Not eligible: ${evaluation.checks.filter(c => !c.passed).length} of ${evaluation.checks.length} checks failing`}
+      </div>
+      <div style={{ ...styles.subheading, marginBottom: '1rem' }}>
+        Resolves by: <strong>{evaluation.criteria.authority}</strong>
+        {evaluation.criteria.verification_source && evaluation.criteria.verification_source !== evaluation.criteria.authority
+          ? ` (${evaluation.criteria.verification_source})`
+          : ''}
+        {evaluation.criteria.deadline ? ` • Deadline ${new Date(evaluation.criteria.deadline).toLocaleDateString()}` : ''}
+        {evaluation.criteria.confidence !== undefined ? ` • Parse confidence ${(evaluation.criteria.confidence * 100).toFixed(0)}%` : ''}
+        {evaluation.criteria.ambiguity_markers?.length ? ` • Ambiguous: "${evaluation.criteria.ambiguity_markers.join('", "')}"` : ''}
+      </div>
+      <table style={{ width: '100%', fontSize: '0.875rem', borderCollapse: 'collapse' as const }}>
+        <thead>
+          <tr style={{ textAlign: 'left' as const, color: '#6b7280' }}>
+            <th style={styles.tableCell}>Check</th>
+            <th style={styles.tableCell}>Measured</th>
+            <th style={styles.tableCell}>Threshold</th>
+            <th style={styles.tableCell}>Result</th>
+          </tr>
+        </thead>
+        <tbody>
+          {evaluation.checks.map(check => (
+            <tr key={check.check} title={check.reason}>
+              <td style={styles.tableCell}>{CHECK_LABELS[check.check] ?? check.check}</td>
+              <td style={styles.tableCell}>{formatCheckValue(check.check, check.value)}</td>
+              <td style={styles.tableCell}>{formatCheckValue(check.check, check.threshold)}</td>
+              <td style={{ ...styles.tableCell, color: check.passed ? '#16a34a' : '#dc2626', fontWeight: 500 }}>
+                {check.passed ? '✓ Pass' : '✗ Fail'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// Belief range as a band and market price as a line, both on the 0-100 scale
+function BeliefChart({ beliefs, prices }: { beliefs: BeliefPoint[]; prices: PricePoint[] }) {
+  const times = [...beliefs, ...prices].map(p => new Date(p.timestamp).getTime());
+  if (times.length === 0) {
+    return <div style={styles.subheading}>No history recorded yet</div>;
+  }
+
+  const start = Math.min(...times);
+  const end = Math.max(Date.now(), ...times);
+  const x = (timestamp: string) =>
+    end === start ? 0 : ((new Date(timestamp).getTime() - start) / (end - start)) * CHART_WIDTH;
+  const y = (value: number) => CHART_HEIGHT - (Math.min(100, Math.max(0, value)) / 100) * CHART_HEIGHT;
+
+  // Each value holds until the next point, so extend the last one to now
+  const now = new Date(end).toISOString();
+  const beliefSteps = beliefs.length > 0 ? [...beliefs, { ...beliefs[beliefs.length - 1]!, timestamp: now }] : [];
+  const priceSteps = prices.length > 0 ? [...prices, { ...prices[prices.length - 1]!, timestamp: now }] : [];
+
+  const band = [
+    ...beliefSteps.map(p => `${x(p.timestamp)},${y(p.belief_high)}`),
+    ...[...beliefSteps].reverse().map(p => `${x(p.timestamp)},${y(p.belief_low)}`),
+  ].join(' ');
+  const priceLine = priceSteps.map(p => `${x(p.timestamp)},${y(p.price)}`).join(' ');
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} style={{ width: '100%', height: 'auto', background: '#f9fafb' }}>
+        {[25, 50, 75].map(level => (
+          <line key={level} x1={0} x2={CHART_WIDTH} y1={y(level)} y2={y(level)} stroke="#e5e7eb" strokeWidth={1} />
+        ))}
+        {band && <polygon points={band} fill="#93c5fd" opacity={0.5} />}
+        {priceLine && <polyline points={priceLine} fill="none" stroke="#ef4444" strokeWidth={2} />}
+      </svg>
+      <div style={styles.legend}>
+        <span style={{ color: '#2563eb' }}>■ Belief range</span>
+        <span style={{ color: '#ef4444' }}>— Market price</span>
+        <span>{new Date(start).toLocaleString()} → now</span>
+      </div>
+    </div>
+  );
+}
+
+export default function MarketDetail({ marketId }: { marketId: string }) {
+  const [market, setMarket] = useState<MarketDetailData | undefined>(undefined);
+  const [evaluation, setEvaluation] = useState<EvaluationData | undefined>(undefined);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | undefined>(undefined);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Refetch when this market's belief moves or it trades
+  const { connected } = useTradingStream(API_BASE, (event: TradingEvent) => {
+    if (
+      (event.type === 'belief_updated' || event.type === 'trade_executed' || event.type === 'state_transition') &&
+      event.marketId === marketId
+    ) {
+      setRefreshKey(key => key + 1);
+    }
+  });
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [res, evaluationRes] = await Promise.all([
+          fetch(`${API_BASE}/api/markets/${encodeURIComponent(marketId)}`),
+          fetch(`${API_BASE}/api/markets/${encodeURIComponent(marketId)}/evaluation`),
+        ]);
+        if (res.status === 404) {
+          setError('This market is no longer tracked (closed, resolved or dropped).');
+        } else if (res.ok) {
+          setMarket(await res.json() as MarketDetailData);
+          setError(undefined);
+        }
+        if (evaluationRes.ok) {
+          setEvaluation(await evaluationRes.json() as EvaluationData);
+        }
+        setLoading(false);
+      } catch (err) {
+        setError('Failed to connect to API. Make sure the trading bot is running on port 4000.');
+        setLoading(false);
+      }
+    };
+
+    fetchData();
+    // Poll every 10 seconds without the stream, resync every minute with it
+    const interval = setInterval(fetchData, connected ? 60000 : 10000);
+    return () => clearInterval(interval);
+  }, [marketId, connected, refreshKey]);
+
+  if (loading) {
+    return (
+      <div style={{ ...styles.container, padding: '2rem', textAlign: 'center' as const }}>
+        <div style={{ fontSize: '1.5rem' }}>Loading market...</div>
+      </div>
+    );
+  }
+
+  if (error || !market) {
+    return (
+      <div style={{ ...styles.card, background: '#fef2f2', borderColor: '#fecaca' }}>
+        <h2 style={{ ...styles.heading, color: '#dc2626' }}>⚠️ Market Unavailable</h2>
+        <p style={{ color: '#7f1d1d' }}>{error ?? 'No data'}</p>
+      </div>
+    );
+  }
+
+  // Accepted and rejected signals, newest first
+  const timeline: TimelineEntry[] = [
+    ...market.signals.map(signal => ({ signal, at: signal.timestamp })),
+    ...market.rejectedSignals.map(r => ({ signal: r.signal, at: r.rejectedAt, rejectionReason: r.reason })),
+  ].sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+
+  return (
+    <div style={styles.container}>
+      {/* Summary */}
+      <div style={styles.card}>
+        <h2 style={styles.heading}>{market.question}</h2>
+        <div style={{ ...styles.subheading, marginBottom: '1rem' }}>
+          {market.category.toUpperCase()} • Closes: {new Date(market.closesAt).toLocaleDateString()} •{' '}
+          {connected ? '● Live' : '○ Polling'}
+        </div>
+        <div style={styles.grid}>
+          <div style={styles.statBox}>
+            <div style={styles.statLabel}>Market Price</div>
+            <div style={styles.statValue}>{market.currentPrice.toFixed(1)}%</div>
+          </div>
+          <div style={styles.statBox}>
+            <div style={styles.statLabel}>Belief Range</div>
+            <div style={styles.statValue}>
+              {market.belief.belief_low.toFixed(0)}% - {market.belief.belief_high.toFixed(0)}%
+            </div>
+          </div>
+          <div style={styles.statBox}>
+            <div style={styles.statLabel}>Confidence</div>
+            <div style={styles.statValue}>{market.belief.confidence.toFixed(0)}</div>
+          </div>
+          <div style={styles.statBox}>
+            <div style={styles.statLabel}>Lifecycle</div>
+            <div style={styles.statValue}>{market.lifecycleState}</div>
+          </div>
+        </div>
+        {market.lastFailedCheck && (
+          <div style={{ marginTop: '1rem', padding: '0.75rem', background: '#fffbeb', borderRadius: '0.5rem', color: '#92400e' }}>
+            ⏸️ Last failed trade check: <strong>{market.lastFailedCheck.check}</strong> - {market.lastFailedCheck.reason}
+            <span style={{ color: '#b45309', fontSize: '0.75rem' }}>
+              {' '}({new Date(market.lastFailedCheck.evaluatedAt).toLocaleString()})
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Trade Eligibility */}
+      {evaluation && (
+        <div style={styles.card}>
+          <h2 style={styles.heading}>🔍 Trade Eligibility</h2>
+          <EvaluationPanel evaluation={evaluation} />
+        </div>
+      )}
+
+      {/* Unknowns */}
+      <div style={styles.card}>
+        <h2 style={styles.heading}>❓ Unknowns ({market.belief.unknowns.length} open)</h2>
+        {market.belief.unknowns.length === 0 && market.resolvedUnknowns.length === 0 ? (
+          <div style={styles.subheading}>No open questions tracked</div>
+        ) : (
+          <>
+            {market.belief.unknowns.map(unknown => (
+              <div key={unknown.id} style={styles.timelineItem}>
+                <div style={styles.timelineTime}>{new Date(unknown.added_at).toLocaleString()}</div>
+                <div style={{ flex: 1 }}>{unknown.description}</div>
+              </div>
+            ))}
+            {[...market.resolvedUnknowns].reverse().map(unknown => (
+              <div key={unknown.id} style={{ ...styles.timelineItem, color: '#6b7280' }}>
+                <div style={styles.timelineTime}>{new Date(unknown.resolved_at ?? unknown.added_at).toLocaleString()}</div>
+                <div style={{ flex: 1 }}>
+                  <span style={{ textDecoration: 'line-through' }}>{unknown.description}</span>
+                  {unknown.resolution_reason && (
+                    <div style={{ color: '#059669', marginTop: '0.25rem' }}>✓ Resolved by {unknown.resolution_reason}</div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {/* Belief History */}
+      <div style={styles.card}>
+        <h2 style={styles.heading}>📈 Belief vs Market Price</h2>
+        <BeliefChart beliefs={market.beliefHistory} prices={market.priceHistory} />
+      </div>
+
+      {/* Signal Timeline */}
+      <div style={styles.card}>
+        <h2 style={styles.heading}>📡 Signal Timeline ({timeline.length})</h2>
+        {timeline.length === 0 ? (
+          <div style={styles.subheading}>No signals ingested yet</div>
+        ) : (
+          timeline.map((entry, i) => (
+            <div key={i} style={styles.timelineItem}>
+              <div style={styles.timelineTime}>{new Date(entry.at).toLocaleString()}</div>
+              <div style={{ flex: 1 }}>
+                <span style={styles.badge}>{entry.signal.type}</span>
+                <span>
+                  {DIRECTION_ICONS[entry.signal.direction]} {entry.signal.direction} • strength {entry.signal.strength}
+                  {entry.signal.source ? ` • ${entry.signal.source}` : ''}
+                </span>
+                {entry.signal.description && (
+                  <div style={{ color: '#6b7280', marginTop: '0.25rem' }}>{entry.signal.description}</div>
+                )}
+                {entry.signal.conflicts_with_existing && (
+                  <div style={{ color: '#d97706', marginTop: '0.25rem' }}>
+                    ⚔️ Conflicts with {entry.signal.conflicts_with ?? 'an earlier signal'}
+                  </div>
+                )}
+                {entry.rejectionReason && (
+                  <div style={{ color: '#dc2626', marginTop: '0.25rem' }}>✗ Rejected: {entry.rejectionReason}</div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@
  */
 
 import { useState, useEffect } from 'react';
+import { useTradingStream } from './useTradingStream';
 
 interface PerformanceMetrics {
   totalTrades: number;
@@ -143,6 +144,14 @@ export default function PerformanceDashboard() {
   const [portfolio, setPortfolio] = useState<PortfolioStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | undefined>(undefined);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  // Trades and halts change P&L and exposure: refetch right away
+  const { connected } = useTradingStream(API_BASE, event => {
+    if (event.type === 'trade_executed' || event.type === 'halt') {
+      setRefreshKey(key => key + 1);
+    }
+  });
 
   useEffect(() => {
     const fetchData = async () => {
@@ -171,9 +180,10 @@ export default function PerformanceDashboard() {
     };
 
     fetchData();
-    const interval = setInterval(fetchData, 30000); // Refresh every 30s
+    // Poll every 30s without the stream, resync every 5 minutes with it
+    const interval = setInterval(fetchData, connected ? 300000 : 30000);
     return () => clearInterval(interval);
-  }, []);
+  }, [connected, refreshKey]);
 
   if (loading) {
     return (
@@ -0,0 +1,89 @@
+/**
+ * Live Trading Events
+ * Subscribes the dashboards to the API's /api/stream (Server-Sent Events)
+ *
+ * EventSource reconnects by itself and resumes from the last event ID.
+ * If the server refuses the stream the source is closed for good, so we
+ * reopen it with backoff, passing the last ID we saw as ?lastEventId= so
+ * the server replays what was missed. `connected` is false whenever no
+ * stream is open, which is the dashboards' cue to fall back to polling.
+ *
+ * With API_READ_AUTH=true the API needs a read token; EventSource can't
+ * set headers, so PUBLIC_API_READ_TOKEN is sent as ?access_token=.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { TradingEvent, TradingEventType } from '@pomabot/shared';
+
+const EVENT_TYPES: TradingEventType[] = [
+  'state_transition',
+  'belief_updated',
+  'trade_opportunity',
+  'trade_executed',
+  'halt',
+];
+
+const INITIAL_RETRY_MS = 5000;
+const MAX_RETRY_MS = 60000;
+const READ_TOKEN: string | undefined = import.meta.env.PUBLIC_API_READ_TOKEN;
+
+export function useTradingStream(apiBase: string, onEvent: (event: TradingEvent) => void): { connected: boolean } {
+  const [connected, setConnected] = useState(false);
+  const handler = useRef(onEvent);
+  handler.current = onEvent;
+
+  useEffect(() => {
+    // Older browsers and some proxies: polling only
+    if (typeof EventSource === 'undefined') return;
+
+    let source: EventSource | undefined;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let retryDelay = INITIAL_RETRY_MS;
+    let stopped = false;
+    let lastEventId: string | undefined;
+
+    const connect = () => {
+      const params = new URLSearchParams();
+      if (READ_TOKEN) params.set('access_token', READ_TOKEN);
+      if (lastEventId) params.set('lastEventId', lastEventId);
+      const query = params.toString();
+      source = new EventSource(`${apiBase}/api/stream${query ? `?${query}` : ''}`);
+
+      source.onopen = () => {
+        retryDelay = INITIAL_RETRY_MS;
+        setConnected(true);
+      };
+
+      source.onerror = () => {
+        setConnected(false);
+        if (source?.readyState === EventSource.CLOSED && !stopped) {
+          retryTimer = setTimeout(connect, retryDelay);
+          retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+        }
+      };
+
+      for (const type of EVENT_TYPES) {
+        source.addEventListener(type, message => {
+          const { data, lastEventId: id } = message as Event & { data: string; lastEventId: string };
+          if (id) lastEventId = id;
+          try {
+            handler.current(JSON.parse(data) as TradingEvent);
+          } catch (err) {
+            console.error('Failed to handle stream event:', err);
+          }
+        });
+      }
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      source?.close();
+      setConnected(false);
+    };
+  }, [apiBase]);
+
+  return { connected };
+}
@@ -0,0 +1,145 @@
+/**
+ * Test Suite: Position Accounting
+ *
+ * The same scenarios run through the accounting helpers and every
+ * component that reports P&L, so they cannot drift apart.
+ */
+
+import { describe, test, expect } from "vitest";
+import {
+  roundTripPnl,
+  sharesForUsd,
+  shareValue,
+  settlementPrice,
+  toOutcomePrice,
+  tradingFee,
+  type FeeSchedule,
+  type PositionSide,
+} from "./accounting";
+import { PositionLedger } from "./position-ledger";
+import { SafetyControls } from "./safety-controls";
+import { PortfolioManager } from "./portfolio-manager";
+import { PaperTradingTracker } from "./paper-trading";
+
+interface Scenario {
+  name: string;
+  side: PositionSide;
+  sizeUsd: number;
+  entryPrice: number;          // YES price
+  exitPrice: number;           // YES price
+  fees?: FeeSchedule;
+  expectedPnl: number;
+}
+
+const scenarios: Scenario[] = [
+  // 250 shares pay $1 each
+  { name: "YES resolving YES", side: "YES", sizeUsd: 100, entryPrice: 40, exitPrice: 100, expectedPnl: 150 },
+  { name: "YES resolving NO", side: "YES", sizeUsd: 100, entryPrice: 40, exitPrice: 0, expectedPnl: -100 },
+  // NO bought at 70: 142.86 shares
+  { name: "NO resolving NO", side: "NO", sizeUsd: 100, entryPrice: 30, exitPrice: 0, expectedPnl: 300 / 7 },
+  // YES rising 30 → 50 is a loss for NO: 142.86 shares sold at 50
+  { name: "NO sold after YES rises", side: "NO", sizeUsd: 100, entryPrice: 30, exitPrice: 50, expectedPnl: -200 / 7 },
+  // 250 shares, $2 fee each way (2% of the 40¢ cheaper side)
+  {
+    name: "YES sold with fees",
+    side: "YES",
+    sizeUsd: 100,
+    entryPrice: 40,
+    exitPrice: 60,
+    fees: { feeRateBps: 200 },
+    expectedPnl: 46,
+  },
+];
+
+describe("Accounting helpers", () => {
+  test("should convert USD and YES prices into outcome terms", () => {
+    expect(toOutcomePrice("YES", 35)).toBe(35);
+    expect(toOutcomePrice("NO", 35)).toBe(65);
+    expect(sharesForUsd(50, 40)).toBe(125);
+    expect(sharesForUsd(50, 0)).toBe(0);
+    expect(shareValue(125, 60)).toBe(75);
+    expect(settlementPrice("NO", "NO")).toBe(100);
+    expect(settlementPrice("YES", "NO")).toBe(0);
+  });
+
+  test("should charge fees on the cheaper side and nothing at settlement", () => {
+    const fees = { feeRateBps: 200 };
+    expect(tradingFee(100, 30, fees)).toBeCloseTo(0.6, 9);
+    expect(tradingFee(100, 70, fees)).toBeCloseTo(0.6, 9);
+    expect(tradingFee(100, 100, fees)).toBe(0);
+    expect(tradingFee(100, 0, fees)).toBe(0);
+    expect(tradingFee(100, 50)).toBe(0);
+  });
+});
+
+describe.each(scenarios)("P&L: $name", (scenario) => {
+  const entry = toOutcomePrice(scenario.side, scenario.entryPrice);
+  const shares = sharesForUsd(scenario.sizeUsd, entry);
+  const expected = roundTripPnl(scenario);
+
+  function openLedger(): PositionLedger {
+    const ledger = new PositionLedger({ fees: scenario.fees });
+    ledger.recordFill({ marketId: "m1", side: scenario.side, action: "BUY", shares, price: entry });
+    return ledger;
+  }
+
+  test("roundTripPnl", () => {
+    expect(expected.shares).toBeCloseTo(shares, 9);
+    expect(expected.pnl).toBeCloseTo(scenario.expectedPnl, 6);
+  });
+
+  test("PositionLedger", () => {
+    const ledger = openLedger();
+    expect(ledger.closePosition("m1", scenario.exitPrice)).toBeCloseTo(scenario.expectedPnl, 6);
+    expect(ledger.getClosedPositions()[0]?.feesPaid).toBeCloseTo(expected.entryFee + expected.exitFee, 9);
+  });
+
+  test("SafetyControls", () => {
+    const ledger = openLedger();
+    const safety = new SafetyControls(
+      { maxPositionSize: 1000, dailyLossLimit: 1000, maxOpenPositions: 5, enabled: true },
+      ledger
+    );
+
+    ledger.markToMarket("m1", scenario.exitPrice);
+    // Unrealized P&L does not anticipate the exit fee
+    expect(safety.getTotalUnrealizedPnl()).toBeCloseTo(scenario.expectedPnl + expected.exitFee, 6);
+
+    ledger.closePosition("m1", scenario.exitPrice);
+    expect(safety.getDailyPnl()).toBeCloseTo(scenario.expectedPnl, 6);
+  });
+
+  test("PortfolioManager", () => {
+    const ledger = openLedger();
+    const portfolio = new PortfolioManager({
+      totalCapital: 1000,
+      maxRiskPerTrade: 0.02,
+      kellyFraction: 0.25,
+      correlationThreshold: 0.7,
+      maxDrawdownPercent: 10,
+    }, ledger);
+
+    ledger.closePosition("m1", scenario.exitPrice);
+    const status = portfolio.getPortfolioStatus();
+    expect(status.totalValue).toBeCloseTo(1000 + scenario.expectedPnl, 6);
+    expect(status.availableCapital).toBeCloseTo(1000 + scenario.expectedPnl, 6);
+  });
+
+  test("PaperTradingTracker", async () => {
+    const tracker = new PaperTradingTracker(undefined, new PositionLedger({ fees: scenario.fees }));
+    const position = await tracker.createPosition({
+      marketId: "m1",
+      marketQuestion: scenario.name,
+      category: "test",
+      side: scenario.side,
+      entryPrice: scenario.entryPrice,
+      beliefLow: 40,
+      beliefHigh: 60,
+      edge: 10,
+      sizeUsd: scenario.sizeUsd,
+    });
+
+    await tracker.resolvePosition(position.id, scenario.exitPrice >= 50 ? "YES" : "NO", scenario.exitPrice);
+    expect(tracker.getPosition(position.id)?.pnl).toBeCloseTo(scenario.expectedPnl, 6);
+  });
+});
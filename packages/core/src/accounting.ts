@@ -0,0 +1,104 @@
+/**
+ * Position Accounting
+ *
+ * Share-based P&L math shared by the PositionLedger, paper trading and
+ * the backtester, so every component values a position the same way.
+ *
+ * A position is a number of outcome shares. Each share pays 100 (i.e. $1)
+ * if its outcome wins and 0 otherwise, so:
+ * - USD size converts into shares at the entry outcome price
+ * - A YES share is worth the YES price; a NO share is worth 100 - YES price
+ * - P&L is shares × (exit - entry) / 100, less fees
+ *
+ * Prices are percentages (0-100) throughout; YES prices match
+ * Market.current_price and outcome prices match Order.outcome_limit_price.
+ */
+
+import type { TradeSide } from "@pomabot/shared";
+
+export type PositionSide = Exclude<TradeSide, "NONE">;
+
+/**
+ * Trading fees, as charged by the Polymarket CLOB:
+ * fee = feeRate × min(price, 100 - price) / 100 × shares
+ * Settlement at resolution (price 0 or 100) is therefore free.
+ */
+export interface FeeSchedule {
+  feeRateBps: number;          // Basis points of the cheaper side's price
+}
+
+export const NO_FEES: FeeSchedule = { feeRateBps: 0 };
+
+/**
+ * Outcome price of a side given the YES price
+ */
+export function toOutcomePrice(side: PositionSide, yesPrice: number): number {
+  return side === "YES" ? yesPrice : 100 - yesPrice;
+}
+
+/**
+ * Shares bought with a USD amount at an outcome price
+ */
+export function sharesForUsd(sizeUsd: number, outcomePrice: number): number {
+  return outcomePrice > 0 ? sizeUsd / (outcomePrice / 100) : 0;
+}
+
+/**
+ * USD value of shares at an outcome price
+ */
+export function shareValue(shares: number, outcomePrice: number): number {
+  return (shares * outcomePrice) / 100;
+}
+
+/**
+ * USD fee for trading shares at an outcome price
+ */
+export function tradingFee(shares: number, outcomePrice: number, fees: FeeSchedule = NO_FEES): number {
+  const feeRate = fees.feeRateBps / 10_000;
+  return feeRate * shareValue(shares, Math.min(outcomePrice, 100 - outcomePrice));
+}
+
+/**
+ * Outcome price a side's shares settle at when the market resolves
+ */
+export function settlementPrice(side: PositionSide, outcome: PositionSide): number {
+  return side === outcome ? 100 : 0;
+}
+
+export interface RoundTripInput {
+  side: PositionSide;
+  sizeUsd: number;             // USD spent on shares, fees excluded
+  entryPrice: number;          // YES price at entry, 0-100
+  exitPrice: number;           // YES price at exit (100/0 at resolution), 0-100
+  fees?: FeeSchedule;
+}
+
+export interface RoundTripResult {
+  shares: number;
+  entryFee: number;
+  exitFee: number;
+  proceeds: number;            // USD received for the shares, fees excluded
+  pnl: number;                 // proceeds - sizeUsd - fees
+}
+
+/**
+ * P&L of buying a side with a USD amount and selling (or settling) every share
+ */
+export function roundTripPnl(input: RoundTripInput): RoundTripResult {
+  const fees = input.fees ?? NO_FEES;
+  const entry = toOutcomePrice(input.side, input.entryPrice);
+  const exit = toOutcomePrice(input.side, input.exitPrice);
+
+  const shares = sharesForUsd(input.sizeUsd, entry);
+  const entryFee = tradingFee(shares, entry, fees);
+  const exitFee = tradingFee(shares, exit, fees);
+  const proceeds = shareValue(shares, exit);
+
+  return {
+    shares,
+    entryFee,
+    exitFee,
+    proceeds,
+    pnl: proceeds - input.sizeUsd - entryFee - exitFee,
+  };
+}
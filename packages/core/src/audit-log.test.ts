@@ -7,7 +7,8 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { AuditLogger } from "./audit-log.js";
 import { existsSync } from "node:fs";
-import { rm } from "node:fs/promises";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
 
 describe("AuditLogger", () => {
   const testLogDir = "./test-audit-logs";
@@ -49,6 +50,66 @@ describe("AuditLogger", () => {
     expect(existsSync(testLogDir)).toBe(true);
   });
 
+  it("should append the strategy config hash to every row", async () => {
+    await logger.initialize();
+    logger.setConfigHash("abc123");
+    await logger.logSystemStart(10, "SIMULATION");
+
+    const [file] = await readdir(testLogDir);
+    const [header, row] = (await readFile(join(testLogDir, file!), "utf-8")).split("\n");
+    expect(header?.endsWith(",configHash")).toBe(true);
+    expect(row?.endsWith(",abc123")).toBe(true);
+  });
+
+  it("should move aside a day file written with older columns", async () => {
+    const oldHeader = "timestamp,event,marketId,marketQuestion,action,details,belief,edge,amount,pnl";
+    const oldRow = "2026-01-01T00:00:00.000Z,SYSTEM_START,,,,Started,,,,";
+    const today = join(testLogDir, `audit-${new Date().toISOString().split("T")[0]}.csv`);
+    await mkdir(testLogDir, { recursive: true });
+    await writeFile(today, `${oldHeader}\n${oldRow}\n`, "utf-8");
+
+    await logger.initialize();
+
+    const files = await readdir(testLogDir);
+    expect(files).toHaveLength(2);
+    const rotated = files.find(f => join(testLogDir, f) !== today);
+    expect(await readFile(join(testLogDir, rotated!), "utf-8")).toBe(`${oldHeader}\n${oldRow}\n`);
+    expect((await readFile(today, "utf-8")).split("\n")[0]?.endsWith(",configHash")).toBe(true);
+
+    // A file with the current columns is kept as is
+    await logger.logSystemStart(10, "SIMULATION");
+    await new AuditLogger(testLogDir).initialize();
+    expect(await readdir(testLogDir)).toHaveLength(2);
+    expect((await readFile(today, "utf-8")).split("\n")).toHaveLength(3);
+  });
+
+  it("should log operator actions with the acting token name", async () => {
+    await logger.initialize();
+    await logger.logOperatorAction("CLOSE_POSITION", "ops-bot", "Closed manually, pnl +$1.50", "market-1");
+
+    const [file] = await readdir(testLogDir);
+    const [, row] = (await readFile(join(testLogDir, file!), "utf-8")).split("\n");
+    expect(row).toContain(",OPERATOR_ACTION,market-1,,CLOSE_POSITION,");
+    expect(row).toContain('"ops-bot: Closed manually, pnl +$1.50"');
+  });
+
+  it("should log invariant violations with before and after state", async () => {
+    await logger.initialize();
+    await logger.logInvariantViolation(
+      "confidence",
+      "Confidence rose while unknowns grew",
+      { confidence: 60, unknowns: 0 },
+      { confidence: 70, unknowns: 1 },
+      undefined,
+      false
+    );
+
+    const [file] = await readdir(testLogDir);
+    const [, row] = (await readFile(join(testLogDir, file!), "utf-8")).split("\n");
+    expect(row).toContain(",INVARIANT_VIOLATION,,,confidence (report-only),");
+    expect(row).toContain('{""before"":{""confidence"":60,""unknowns"":0},""after"":{""confidence"":70,""unknowns"":1}}');
+  });
+
   it("should get singleton instance", () => {
     const instance1 = AuditLogger.getInstance(testLogDir);
     const instance2 = AuditLogger.getInstance(testLogDir);
@@ -5,7 +5,7 @@
  * Logs are committed to Git for historical tracking.
  */
 
-import { writeFile, appendFile, mkdir } from "node:fs/promises";
+import { readFile, writeFile, appendFile, mkdir, rename } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
 import type { Market, BeliefState, TradeDecision } from "@pomabot/shared";
@@ -19,7 +19,9 @@ export type AuditEventType =
   | "POSITION_CLOSED"
   | "PAPER_TRADE_RESOLVED"
   | "ERROR"
-  | "DAILY_SUMMARY";
+  | "DAILY_SUMMARY"
+  | "OPERATOR_ACTION"
+  | "INVARIANT_VIOLATION";
 
 export interface AuditEntry {
   timestamp: string; // ISO 8601
@@ -32,8 +34,11 @@ export interface AuditEntry {
   edge?: number;
   amount?: number;
   pnl?: number;
+  configHash?: string; // StrategyConfig hash active when the entry was written
 }
 
+const CSV_HEADER = "timestamp,event,marketId,marketQuestion,action,details,belief,edge,amount,pnl,configHash";
+
 export interface AuditDailySummary {
   date: string;
   totalMarkets: number;
@@ -59,6 +64,7 @@ export class AuditLogger {
   private currentDate: string;
   private externalLogEnabled: boolean;
   private logtailToken?: string;
+  private configHash?: string;
 
   constructor(logDir: string = "/app/audit-logs") {
     this.logDir = logDir;
@@ -70,7 +76,9 @@ export class AuditLogger {
 
   /**
    * Initialize the audit logger
-   * Creates log directory and CSV header if needed
+   * Creates log directory and CSV header if needed. A day file started
+   * with different columns (e.g. before configHash was added) is moved
+   * aside so its rows keep the header they were written under.
    */
   async initialize(): Promise<void> {
     // Create log directory if it doesn't exist
@@ -78,12 +86,24 @@ export class AuditLogger {
       await mkdir(this.logDir, { recursive: true });
     }
 
-    // Create CSV file with header if it doesn't exist
-    if (!existsSync(this.currentLogFile)) {
-      const header =
-        "timestamp,event,marketId,marketQuestion,action,details,belief,edge,amount,pnl\n";
-      await writeFile(this.currentLogFile, header, "utf-8");
+    if (existsSync(this.currentLogFile)) {
+      const [existingHeader] = (await readFile(this.currentLogFile, "utf-8")).split("\n", 1);
+      if (existingHeader === CSV_HEADER) return;
+
+      const rotatedFile = join(this.logDir, `audit-${this.currentDate}.${Date.now()}.csv`);
+      await rename(this.currentLogFile, rotatedFile);
+      console.warn(`⚠️ Audit log columns changed, moved ${this.currentLogFile} to ${rotatedFile}`);
     }
+
+    // Create CSV file with header
+    await writeFile(this.currentLogFile, `${CSV_HEADER}\n`, "utf-8");
+  }
+
+  /**
+   * Tag all subsequent entries with the active strategy config hash
+   */
+  setConfigHash(configHash: string | undefined): void {
+    this.configHash = configHash;
   }
 
   /**
@@ -163,6 +183,7 @@ export class AuditLogger {
       action: decision.side,
       details: decision.rationale,
       amount: decision.size_usd,
+      configHash: decision.config_hash,
     });
   }
 
@@ -232,10 +253,53 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log an action requested through the HTTP API
+   * The actor is the API token name, never the token itself
+   */
+  async logOperatorAction(
+    action: string,
+    actor: string,
+    details: string,
+    marketId?: string,
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date().toISOString(),
+      event: "OPERATOR_ACTION",
+      marketId,
+      action,
+      details: `${actor}: ${details}`,
+    });
+  }
+
+  /**
+   * Log a global invariant violation with the state before and after the
+   * offending step, serialized as JSON in the details column
+   */
+  async logInvariantViolation(
+    invariant: string,
+    message: string,
+    before: unknown,
+    after: unknown,
+    market?: Market,
+    enforced = true,
+  ): Promise<void> {
+    await this.log({
+      timestamp: new Date().toISOString(),
+      event: "INVARIANT_VIOLATION",
+      marketId: market?.id,
+      marketQuestion: market?.question,
+      action: enforced ? invariant : `${invariant} (report-only)`,
+      details: `${message} ${JSON.stringify({ before, after })}`,
+    });
+  }
+
   /**
    * Internal log method - writes to CSV and optionally ships to external service
    */
   private async log(entry: AuditEntry): Promise<void> {
+    entry.configHash ??= this.configHash;
+
     // Check if we need to rotate log file (new day)
     const currentDate = this.getDateString();
     if (currentDate !== this.currentDate) {
@@ -284,6 +348,7 @@ export class AuditLogger {
       entry.edge?.toFixed(2) ?? "",
       entry.amount?.toFixed(2) ?? "",
       entry.pnl?.toFixed(2) ?? "",
+      entry.configHash ?? "",
     ].join(",") + "\n";
   }
 
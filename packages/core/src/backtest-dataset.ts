@@ -0,0 +1,230 @@
+/**
+ * Backtest Dataset Loading
+ *
+ * Reads recorded markets, price snapshots, signals and resolution
+ * outcomes from JSON or CSV fixtures so backtests run fully offline.
+ *
+ * JSON format:
+ *   { "name": "...", "markets": [{ "market": {...}, "prices": [...],
+ *     "signals": [...], "outcome": true, "resolved_at": "..." }] }
+ *
+ * CSV format (one event per row):
+ *   timestamp,market_id,event,question,category,price,liquidity,
+ *   signal_type,direction,strength,source,description,outcome
+ *
+ *   event = market | price | signal | resolution
+ *   (market rows carry the resolution criteria in "description")
+ */
+
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type {
+  Market,
+  MarketCategory,
+  Signal,
+  SignalDirection,
+  SignalType,
+} from "@pomabot/shared";
+
+export interface PriceSnapshot {
+  timestamp: Date;
+  price: number;       // YES price, 0-100
+  liquidity?: number;
+}
+
+export interface BacktestMarket {
+  market: Market;
+  prices: PriceSnapshot[];
+  signals: Signal[];
+  outcome?: boolean;   // true = resolved YES
+  resolved_at?: Date;
+}
+
+export interface BacktestDataset {
+  name?: string;
+  markets: BacktestMarket[];
+}
+
+const DATE_KEYS = new Set(["timestamp", "created_at", "closes_at", "resolved_at"]);
+
+const CSV_COLUMNS = [
+  "timestamp",
+  "market_id",
+  "event",
+  "question",
+  "category",
+  "price",
+  "liquidity",
+  "signal_type",
+  "direction",
+  "strength",
+  "source",
+  "description",
+  "outcome",
+] as const;
+
+type CsvRow = Record<(typeof CSV_COLUMNS)[number], string>;
+
+/**
+ * Parse a JSON backtest dataset, reviving Date fields
+ */
+export function parseBacktestJson(content: string): BacktestDataset {
+  const parsed = JSON.parse(content, (key, value) => {
+    if (DATE_KEYS.has(key) && typeof value === "string") {
+      return new Date(value);
+    }
+    return value;
+  }) as BacktestDataset;
+
+  if (!Array.isArray(parsed.markets)) {
+    throw new Error("Invalid backtest dataset: missing markets array");
+  }
+
+  for (const entry of parsed.markets) {
+    if (!entry.market?.id) {
+      throw new Error("Invalid backtest dataset: market entry without id");
+    }
+    entry.prices = entry.prices ?? [];
+    entry.signals = entry.signals ?? [];
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse a CSV event log into a backtest dataset
+ */
+export function parseBacktestCsv(content: string, name?: string): BacktestDataset {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  const header = lines.shift();
+  if (!header) {
+    return { name, markets: [] };
+  }
+
+  const columns = parseCsvLine(header).map(c => c.trim());
+  for (const required of ["timestamp", "market_id", "event"]) {
+    if (!columns.includes(required)) {
+      throw new Error(`Invalid backtest CSV: missing column "${required}"`);
+    }
+  }
+
+  const markets = new Map<string, BacktestMarket>();
+
+  for (const [index, line] of lines.entries()) {
+    const values = parseCsvLine(line);
+    const row = Object.fromEntries(
+      CSV_COLUMNS.map(col => [col, values[columns.indexOf(col)]?.trim() ?? ""])
+    ) as CsvRow;
+    const timestamp = new Date(row.timestamp);
+    const lineNumber = index + 2;
+
+    if (Number.isNaN(timestamp.getTime())) {
+      throw new Error(`Invalid backtest CSV line ${lineNumber}: bad timestamp "${row.timestamp}"`);
+    }
+
+    if (row.event === "market") {
+      markets.set(row.market_id, {
+        market: {
+          id: row.market_id,
+          question: row.question,
+          resolution_criteria: row.description,
+          category: (row.category || "other") as MarketCategory,
+          current_price: parseFloat(row.price || "50"),
+          liquidity: parseFloat(row.liquidity || "0"),
+          volume_24h: 0,
+          created_at: timestamp,
+        },
+        prices: [],
+        signals: [],
+      });
+      continue;
+    }
+
+    const entry = markets.get(row.market_id);
+    if (!entry) {
+      throw new Error(
+        `Invalid backtest CSV line ${lineNumber}: ${row.event} for undeclared market "${row.market_id}"`
+      );
+    }
+
+    switch (row.event) {
+      case "price":
+        entry.prices.push({
+          timestamp,
+          price: parseFloat(row.price),
+          liquidity: row.liquidity ? parseFloat(row.liquidity) : undefined,
+        });
+        break;
+      case "signal":
+        entry.signals.push({
+          type: row.signal_type as SignalType,
+          direction: (row.direction || "neutral") as SignalDirection,
+          strength: Math.min(5, Math.max(1, parseInt(row.strength || "3", 10))) as Signal["strength"],
+          conflicts_with_existing: false,
+          timestamp,
+          source: row.source || undefined,
+          description: row.description || undefined,
+        });
+        break;
+      case "resolution":
+        entry.outcome = row.outcome.toUpperCase() === "YES" || row.outcome === "true";
+        entry.resolved_at = timestamp;
+        break;
+      default:
+        throw new Error(`Invalid backtest CSV line ${lineNumber}: unknown event "${row.event}"`);
+    }
+  }
+
+  return { name, markets: Array.from(markets.values()) };
+}
+
+/**
+ * Load a dataset from disk, choosing the parser by file extension
+ */
+export async function loadBacktestDataset(filePath: string): Promise<BacktestDataset> {
+  const content = await readFile(filePath, "utf-8");
+  const extension = extname(filePath).toLowerCase();
+
+  if (extension === ".json") {
+    return parseBacktestJson(content);
+  }
+  if (extension === ".csv") {
+    return parseBacktestCsv(content, filePath);
+  }
+
+  throw new Error(`Unsupported backtest dataset format: ${extension}`);
+}
+
+/**
+ * Split a CSV line, honouring double-quoted fields with "" escapes
+ */
+function parseCsvLine(line: string): string[] {
+  const values: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      values.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+
+  values.push(current);
+  return values;
+}
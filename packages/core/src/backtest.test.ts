@@ -0,0 +1,142 @@
+/**
+ * Test Suite: Backtesting Engine
+ */
+
+import { describe, test, expect } from "vitest";
+import { fileURLToPath } from "node:url";
+import { Backtester } from "./backtest";
+import { loadBacktestDataset, parseBacktestCsv, parseBacktestJson } from "./backtest-dataset";
+
+const fixturePath = (name: string) =>
+  fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+
+describe("Backtest dataset loading", () => {
+  test("should load JSON fixture with revived dates", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+
+    expect(dataset.markets).toHaveLength(3);
+    expect(dataset.markets[0]?.market.created_at).toBeInstanceOf(Date);
+    expect(dataset.markets[0]?.signals[0]?.timestamp).toBeInstanceOf(Date);
+    expect(dataset.markets[0]?.resolved_at).toBeInstanceOf(Date);
+  });
+
+  test("should load equivalent CSV fixture", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.csv"));
+
+    expect(dataset.markets).toHaveLength(3);
+    const lakers = dataset.markets.find(m => m.market.id === "lakers-finals");
+    expect(lakers?.market.category).toBe("sports");
+    expect(lakers?.prices).toHaveLength(2);
+    expect(lakers?.signals).toHaveLength(2);
+    expect(lakers?.outcome).toBe(true);
+    expect(lakers?.market.resolution_criteria).toContain("official NBA announcement");
+  });
+
+  test("should reject CSV rows for undeclared markets", () => {
+    const csv = "timestamp,market_id,event,price\n2026-01-01T00:00:00Z,unknown,price,40\n";
+    expect(() => parseBacktestCsv(csv)).toThrow(/undeclared market/);
+  });
+
+  test("should reject JSON without markets", () => {
+    expect(() => parseBacktestJson("{}")).toThrow(/missing markets/);
+  });
+});
+
+describe("Backtester", () => {
+  test("should trade markets whose beliefs move outside the price", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const result = new Backtester().run(dataset);
+
+    expect(result.trades).toHaveLength(2);
+
+    const lakers = result.trades.find(t => t.marketId === "lakers-finals");
+    expect(lakers?.side).toBe("YES");
+    expect(lakers?.entryPrice).toBe(40);
+    expect(lakers?.entryTime.toISOString()).toBe("2026-01-02T12:00:00.000Z");
+    expect(lakers?.status).toBe("WIN");
+
+    const senate = result.trades.find(t => t.marketId === "senate-bill");
+    expect(senate?.side).toBe("NO");
+    expect(senate?.status).toBe("LOSS");
+  });
+
+  test("should settle YES and NO shares at resolution", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const result = new Backtester().run(dataset);
+
+    // 2% max risk on 10,000 → $200 YES at 40¢ → 500 shares → +$300
+    const lakers = result.trades.find(t => t.marketId === "lakers-finals");
+    expect(lakers?.sizeUsd).toBe(200);
+    expect(lakers?.pnl).toBeCloseTo(300, 6);
+
+    // Sized on remaining cash (9,800) → $196 NO, resolved YES → full loss
+    const senate = result.trades.find(t => t.marketId === "senate-bill");
+    expect(senate?.sizeUsd).toBe(196);
+    expect(senate?.pnl).toBeCloseTo(-196, 6);
+
+    expect(result.totalPnl).toBeCloseTo(104, 6);
+    expect(result.finalEquity).toBeCloseTo(10104, 6);
+    expect(result.winRate).toBe(50);
+  });
+
+  test("should deduct entry fees from cash and P&L", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const result = new Backtester({ fees: { feeRateBps: 100 } }).run(dataset);
+
+    // 500 shares at 40¢: 1% of $200 to enter, settlement is free
+    const lakers = result.trades.find(t => t.marketId === "lakers-finals");
+    expect(lakers?.fees).toBeCloseTo(2, 6);
+    expect(lakers?.pnl).toBeCloseTo(298, 6);
+    expect(result.finalEquity).toBeCloseTo(10000 + result.totalPnl, 6);
+  });
+
+  test("should count rejected speculative-only signals", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const result = new Backtester().run(dataset);
+
+    expect(result.signalsApplied).toBe(4);
+    expect(result.signalsRejected).toBe(1);
+    expect(result.marketsEvaluated).toBe(3);
+  });
+
+  test("should compute Brier score over all resolved markets", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const result = new Backtester().run(dataset);
+
+    // Midpoints: 0.74 (YES), 0.26 (YES), 0.50 (NO)
+    const expected = (Math.pow(0.74 - 1, 2) + Math.pow(0.26 - 1, 2) + Math.pow(0.5, 2)) / 3;
+    expect(result.brierScore).toBeCloseTo(expected, 6);
+    expect(result.calibration.calibrationBuckets.length).toBeGreaterThan(0);
+  });
+
+  test("should produce identical results from JSON and CSV fixtures", async () => {
+    const fromJson = new Backtester().run(
+      await loadBacktestDataset(fixturePath("backtest-sample.json"))
+    );
+    const fromCsv = new Backtester().run(
+      await loadBacktestDataset(fixturePath("backtest-sample.csv"))
+    );
+
+    expect(fromCsv.totalPnl).toBeCloseTo(fromJson.totalPnl, 6);
+    expect(fromCsv.brierScore).toBeCloseTo(fromJson.brierScore, 6);
+    expect(fromCsv.trades.map(t => t.marketId)).toEqual(fromJson.trades.map(t => t.marketId));
+  });
+
+  test("should track drawdown on the mark-to-market equity curve", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const result = new Backtester().run(dataset);
+
+    expect(result.equityCurve.length).toBeGreaterThan(0);
+    // The NO position goes to zero at resolution
+    expect(result.maxDrawdown).toBeGreaterThan(0);
+  });
+
+  test("should be deterministic across runs", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const first = new Backtester().run(dataset);
+    const second = new Backtester().run(dataset);
+
+    expect(second.totalPnl).toBe(first.totalPnl);
+    expect(second.equityCurve).toEqual(first.equityCurve);
+  });
+});
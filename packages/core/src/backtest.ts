@@ -0,0 +1,423 @@
+/**
+ * Historical Backtesting Engine
+ *
+ * Replays recorded markets and signals through the belief and trade
+ * engines with a simulated clock, so threshold changes can be
+ * evaluated offline before they ship.
+ *
+ * Each market is traded at most once (no averaging down), sized with
+ * PortfolioManager against available cash, and settled at its
+ * recorded resolution outcome. Shares, fees and P&L use the same
+ * accounting as the live PositionLedger.
+ */
+
+import type {
+  BeliefState,
+  Market,
+  Signal,
+  StrategyParams,
+} from "@pomabot/shared";
+import { DEFAULT_STRATEGY_PARAMS } from "@pomabot/shared";
+import { performBeliefUpdate } from "./belief-engine.js";
+import { detectConflict } from "./conflict-detector.js";
+import { analyzeResolutionCriteria } from "./resolution-criteria.js";
+import { evaluateTrade } from "./trade-engine.js";
+import { PortfolioManager, type PortfolioConfig } from "./portfolio-manager.js";
+import {
+  NO_FEES,
+  roundTripPnl,
+  settlementPrice,
+  shareValue,
+  sharesForUsd,
+  toOutcomePrice,
+  tradingFee,
+  type FeeSchedule,
+  type PositionSide,
+} from "./accounting.js";
+import { calculateCalibrationAnalysis, type CalibrationAnalysis } from "./paper-trading.js";
+import type { BacktestDataset, BacktestMarket } from "./backtest-dataset.js";
+
+export interface BacktestConfig {
+  initialCapital: number;
+  portfolio: Omit<PortfolioConfig, "totalCapital">;
+  initialBelief: Pick<BeliefState, "belief_low" | "belief_high" | "confidence">;
+  params: StrategyParams;      // Thresholds, edge minimums and impact caps under test
+  fees: FeeSchedule;
+}
+
+export interface BacktestTrade {
+  marketId: string;
+  marketQuestion: string;
+  category: string;
+  side: PositionSide;
+  entryTime: Date;
+  entryPrice: number;          // YES price at entry, 0-100
+  beliefLow: number;
+  beliefHigh: number;
+  confidence: number;
+  edge: number;                // percentage points
+  sizeUsd: number;             // USD spent on shares, fees excluded
+  shares: number;
+  fees: number;                // USD paid in trading fees
+  status: "OPEN" | "WIN" | "LOSS" | "EXPIRED";
+  exitTime?: Date;
+  exitPrice?: number;
+  pnl?: number;
+}
+
+export interface EquityPoint {
+  timestamp: Date;
+  equity: number;
+}
+
+export interface BacktestResult {
+  datasetName?: string;
+  trades: BacktestTrade[];
+  initialCapital: number;
+  finalEquity: number;
+  totalPnl: number;
+  returnPercent: number;
+  winRate: number;             // % of settled trades that won
+  maxDrawdown: number;         // % peak-to-trough on the equity curve
+  sharpeRatio?: number;        // mean / stdev of per-trade returns
+  brierScore: number;          // Belief midpoint vs outcome, all resolved markets
+  calibration: CalibrationAnalysis;
+  equityCurve: EquityPoint[];
+  marketsEvaluated: number;
+  signalsApplied: number;
+  signalsRejected: number;
+}
+
+type BacktestEvent =
+  | { kind: "price"; timestamp: Date; marketId: string; price: number; liquidity?: number }
+  | { kind: "signal"; timestamp: Date; marketId: string; signal: Signal }
+  | { kind: "resolution"; timestamp: Date; marketId: string; outcome: boolean };
+
+interface SimulatedMarket {
+  market: Market;
+  belief: BeliefState;
+  signalHistory: Signal[];
+  trade?: BacktestTrade;
+  resolved: boolean;
+}
+
+/**
+ * Event ordering for identical timestamps:
+ * prices first (the book moves), then signals, then resolution
+ */
+const EVENT_ORDER: Record<BacktestEvent["kind"], number> = {
+  price: 0,
+  signal: 1,
+  resolution: 2,
+};
+
+const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  initialCapital: 10000,
+  portfolio: {
+    maxRiskPerTrade: 0.02,
+    kellyFraction: 0.25,
+    correlationThreshold: 0.7,
+    maxDrawdownPercent: 10,
+  },
+  initialBelief: {
+    belief_low: 40,
+    belief_high: 60,
+    confidence: 50,
+  },
+  params: DEFAULT_STRATEGY_PARAMS,
+  fees: NO_FEES,
+};
+
+/**
+ * Backtester - deterministic offline replay of recorded markets
+ */
+export class Backtester {
+  private config: BacktestConfig;
+
+  constructor(config: Partial<BacktestConfig> = {}) {
+    this.config = {
+      ...DEFAULT_BACKTEST_CONFIG,
+      ...config,
+      portfolio: { ...DEFAULT_BACKTEST_CONFIG.portfolio, ...config.portfolio },
+      initialBelief: { ...DEFAULT_BACKTEST_CONFIG.initialBelief, ...config.initialBelief },
+    };
+  }
+
+  /**
+   * Replay the dataset and compute P&L and prediction quality
+   */
+  run(dataset: BacktestDataset): BacktestResult {
+    const markets = new Map<string, SimulatedMarket>();
+    for (const entry of dataset.markets) {
+      markets.set(entry.market.id, {
+        market: { ...entry.market },
+        belief: this.initialBelief(entry.market.created_at),
+        signalHistory: [],
+        resolved: false,
+      });
+    }
+
+    const events = this.buildTimeline(dataset.markets);
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    const forecasts: Array<{ predicted: number; outcome: boolean }> = [];
+    let cash = this.config.initialCapital;
+    let signalsApplied = 0;
+    let signalsRejected = 0;
+
+    for (const event of events) {
+      const sim = markets.get(event.marketId);
+      if (!sim || sim.resolved) continue;
+
+      // Simulated clock: everything below happens "at" event.timestamp
+      const now = event.timestamp;
+
+      switch (event.kind) {
+        case "price":
+          sim.market.current_price = event.price;
+          if (event.liquidity !== undefined) {
+            sim.market.liquidity = event.liquidity;
+          }
+          break;
+
+        case "signal":
+          try {
+            const signal = detectConflict(event.signal, sim.signalHistory, this.config.params);
+            const updated = performBeliefUpdate(
+              sim.belief,
+              signal,
+              sim.signalHistory,
+              this.config.params
+            );
+            sim.belief = { ...updated, last_updated: now };
+            sim.signalHistory.push(signal);
+            signalsApplied++;
+          } catch {
+            signalsRejected++;
+          }
+          break;
+
+        case "resolution": {
+          sim.resolved = true;
+          sim.market.resolved_at = now;
+          sim.market.resolution_outcome = event.outcome;
+          forecasts.push({
+            predicted: (sim.belief.belief_low + sim.belief.belief_high) / 2 / 100,
+            outcome: event.outcome,
+          });
+
+          if (sim.trade) {
+            cash += this.settleTrade(sim.trade, event.outcome, now);
+          }
+          break;
+        }
+      }
+
+      // Evaluate a new entry after any price move or belief change
+      if (!sim.resolved && !sim.trade) {
+        const trade = this.tryOpenTrade(sim, cash, now);
+        if (trade) {
+          sim.trade = trade;
+          trades.push(trade);
+          cash -= trade.sizeUsd + trade.fees;
+        }
+      }
+
+      equityCurve.push({ timestamp: now, equity: cash + this.openPositionValue(markets) });
+    }
+
+    // Markets without a recorded resolution expire at cost
+    for (const sim of markets.values()) {
+      if (sim.trade?.status === "OPEN" && !sim.resolved) {
+        sim.trade.status = "EXPIRED";
+        sim.trade.pnl = 0;
+        cash += sim.trade.sizeUsd + sim.trade.fees;
+      }
+    }
+
+    return this.buildResult(dataset, trades, equityCurve, forecasts, cash, {
+      marketsEvaluated: markets.size,
+      signalsApplied,
+      signalsRejected,
+    });
+  }
+
+  /**
+   * Flatten all market events into one time-ordered stream
+   */
+  private buildTimeline(entries: BacktestMarket[]): BacktestEvent[] {
+    const events: BacktestEvent[] = [];
+
+    for (const entry of entries) {
+      const marketId = entry.market.id;
+      for (const snapshot of entry.prices) {
+        events.push({
+          kind: "price",
+          timestamp: snapshot.timestamp,
+          marketId,
+          price: snapshot.price,
+          liquidity: snapshot.liquidity,
+        });
+      }
+      for (const signal of entry.signals) {
+        events.push({ kind: "signal", timestamp: signal.timestamp, marketId, signal });
+      }
+      if (entry.outcome !== undefined && entry.resolved_at) {
+        events.push({
+          kind: "resolution",
+          timestamp: entry.resolved_at,
+          marketId,
+          outcome: entry.outcome,
+        });
+      }
+    }
+
+    return events.sort((a, b) =>
+      a.timestamp.getTime() - b.timestamp.getTime() ||
+      EVENT_ORDER[a.kind] - EVENT_ORDER[b.kind]
+    );
+  }
+
+  /**
+   * Run the trade engine and size an approved decision
+   */
+  private tryOpenTrade(sim: SimulatedMarket, cash: number, now: Date): BacktestTrade | undefined {
+    const criteria = analyzeResolutionCriteria(sim.market.resolution_criteria);
+    const decision = evaluateTrade(sim.belief, sim.market, criteria, this.config.params);
+    if (!("side" in decision) || decision.side === "NONE") {
+      return undefined;
+    }
+
+    const edge = decision.side === "YES"
+      ? sim.belief.belief_low - decision.entry_price
+      : decision.entry_price - sim.belief.belief_high;
+
+    // Size against cash currently available, not the starting bankroll
+    const portfolio = new PortfolioManager({ ...this.config.portfolio, totalCapital: cash });
+    const sizing = portfolio.calculateKellySize(edge / 100, sim.belief.confidence);
+    if (sizing.recommendedSize <= 0) {
+      return undefined;
+    }
+
+    const outcomePrice = toOutcomePrice(decision.side, decision.entry_price);
+    const shares = sharesForUsd(sizing.recommendedSize, outcomePrice);
+
+    return {
+      marketId: sim.market.id,
+      marketQuestion: sim.market.question,
+      category: sim.market.category,
+      side: decision.side,
+      entryTime: now,
+      entryPrice: decision.entry_price,
+      beliefLow: sim.belief.belief_low,
+      beliefHigh: sim.belief.belief_high,
+      confidence: sim.belief.confidence,
+      edge,
+      sizeUsd: sizing.recommendedSize,
+      shares,
+      fees: tradingFee(shares, outcomePrice, this.config.fees),
+      status: "OPEN",
+    };
+  }
+
+  /**
+   * Settle a trade at resolution; returns cash paid out
+   */
+  private settleTrade(trade: BacktestTrade, outcome: boolean, now: Date): number {
+    const winner: PositionSide = outcome ? "YES" : "NO";
+    const exitPrice = settlementPrice("YES", winner);
+    const result = roundTripPnl({
+      side: trade.side,
+      sizeUsd: trade.sizeUsd,
+      entryPrice: trade.entryPrice,
+      exitPrice,
+      fees: this.config.fees,
+    });
+
+    trade.status = trade.side === winner ? "WIN" : "LOSS";
+    trade.exitTime = now;
+    trade.exitPrice = exitPrice;
+    trade.fees = result.entryFee + result.exitFee;
+    trade.pnl = result.pnl;
+
+    return result.proceeds - result.exitFee;
+  }
+
+  /**
+   * Mark-to-market value of open trades at their latest YES price
+   */
+  private openPositionValue(markets: Map<string, SimulatedMarket>): number {
+    let value = 0;
+    for (const sim of markets.values()) {
+      if (sim.trade?.status === "OPEN") {
+        value += shareValue(sim.trade.shares, toOutcomePrice(sim.trade.side, sim.market.current_price));
+      }
+    }
+    return value;
+  }
+
+  private initialBelief(timestamp: Date): BeliefState {
+    return {
+      ...this.config.initialBelief,
+      unknowns: [],
+      last_updated: timestamp,
+    };
+  }
+
+  private buildResult(
+    dataset: BacktestDataset,
+    trades: BacktestTrade[],
+    equityCurve: EquityPoint[],
+    forecasts: Array<{ predicted: number; outcome: boolean }>,
+    finalCash: number,
+    counters: Pick<BacktestResult, "marketsEvaluated" | "signalsApplied" | "signalsRejected">
+  ): BacktestResult {
+    const initialCapital = this.config.initialCapital;
+    const settled = trades.filter(t => t.status === "WIN" || t.status === "LOSS");
+    const wins = settled.filter(t => t.status === "WIN");
+    const totalPnl = trades.reduce((sum, t) => sum + (t.pnl ?? 0), 0);
+
+    // Max drawdown over the equity curve
+    let peak = initialCapital;
+    let maxDrawdown = 0;
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equity);
+      if (peak > 0) {
+        maxDrawdown = Math.max(maxDrawdown, ((peak - point.equity) / peak) * 100);
+      }
+    }
+
+    // Per-trade Sharpe (no risk-free rate; trades are not time-aligned)
+    let sharpeRatio: number | undefined;
+    const returns = settled.map(t => (t.pnl ?? 0) / t.sizeUsd);
+    if (returns.length >= 2) {
+      const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+      const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / returns.length;
+      const stdDev = Math.sqrt(variance);
+      sharpeRatio = stdDev > 0 ? mean / stdDev : undefined;
+    }
+
+    const brierScore = forecasts.length > 0
+      ? forecasts.reduce(
+          (sum, f) => sum + Math.pow(f.predicted - (f.outcome ? 1 : 0), 2),
+          0
+        ) / forecasts.length
+      : 0;
+
+    return {
+      datasetName: dataset.name,
+      trades,
+      initialCapital,
+      finalEquity: finalCash,
+      totalPnl,
+      returnPercent: (totalPnl / initialCapital) * 100,
+      winRate: settled.length > 0 ? (wins.length / settled.length) * 100 : 0,
+      maxDrawdown,
+      sharpeRatio,
+      brierScore,
+      calibration: calculateCalibrationAnalysis(settled),
+      equityCurve,
+      ...counters,
+    };
+  }
+}
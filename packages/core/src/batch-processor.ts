@@ -12,8 +12,18 @@
  * - Memory-efficient processing
  */
 
-import type { Market, BeliefState, Signal, TradeDecision, ResolutionCriteria } from "@pomabot/shared";
+import type {
+  Market,
+  BeliefState,
+  Signal,
+  TradeDecision,
+  ResolutionCriteria,
+  StrategyConfig,
+} from "@pomabot/shared";
+import { DEFAULT_STRATEGY_CONFIG } from "@pomabot/shared";
 import { performBeliefUpdate } from "./belief-engine.js";
+import { detectConflict } from "./conflict-detector.js";
+import { analyzeResolutionCriteria } from "./resolution-criteria.js";
 import { evaluateTrade } from "./trade-engine.js";
 
 export interface BatchProcessorConfig {
@@ -85,12 +95,15 @@ const DEFAULT_POSITIVE_OUTCOME_CONFIG: PositiveOutcomeConfig = {
 export class BatchProcessor {
   private config: BatchProcessorConfig;
   private positiveOutcomeConfig: PositiveOutcomeConfig;
+  private strategyConfig: StrategyConfig;
 
   constructor(
     config: Partial<BatchProcessorConfig> = {},
-    positiveOutcomeConfig: Partial<PositiveOutcomeConfig> = {}
+    positiveOutcomeConfig: Partial<PositiveOutcomeConfig> = {},
+    strategyConfig: StrategyConfig = DEFAULT_STRATEGY_CONFIG
   ) {
     this.config = { ...DEFAULT_BATCH_CONFIG, ...config };
+    this.strategyConfig = strategyConfig;
     this.positiveOutcomeConfig = { 
       ...DEFAULT_POSITIVE_OUTCOME_CONFIG, 
       ...positiveOutcomeConfig 
@@ -235,8 +248,9 @@ export class BatchProcessor {
     const signalHistory: Signal[] = [];
 
     // Update belief with each signal
-    for (const signal of signals) {
-      belief = performBeliefUpdate(belief, signal, signalHistory);
+    for (const incoming of signals) {
+      const signal = detectConflict(incoming, signalHistory, this.strategyConfig);
+      belief = performBeliefUpdate(belief, signal, signalHistory, this.strategyConfig);
       signalHistory.push(signal);
     }
 
@@ -244,7 +258,7 @@ export class BatchProcessor {
     const criteria = this.createResolutionCriteria(market);
 
     // Evaluate trade decision
-    const result = evaluateTrade(belief, market, criteria);
+    const result = evaluateTrade(belief, market, criteria, this.strategyConfig);
     
     // Check if result is a TradeDecision or TradeEligibilityResult
     let decision: TradeDecision;
@@ -360,17 +374,10 @@ export class BatchProcessor {
 
   /**
    * Create resolution criteria for a market
-   * Uses heuristics based on market characteristics
+   * Parsed from its resolution text, as in live trading
    */
   private createResolutionCriteria(market: Market): ResolutionCriteria {
-    // For batch processing, we assume most markets have clear resolution criteria
-    // This is a simplification - in production, this should be more sophisticated
-    return {
-      authority: "Polymarket",
-      authority_is_clear: true,
-      outcome_is_objective: true,
-      verification_source: market.resolution_criteria,
-    };
+    return analyzeResolutionCriteria(market.resolution_criteria);
   }
 
   /**
@@ -420,4 +427,11 @@ export class BatchProcessor {
   getPositiveOutcomeConfig(): PositiveOutcomeConfig {
     return { ...this.positiveOutcomeConfig };
   }
+
+  /**
+   * Get the strategy configuration markets are evaluated under
+   */
+  getStrategyConfig(): StrategyConfig {
+    return this.strategyConfig;
+  }
 }
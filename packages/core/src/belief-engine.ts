@@ -6,10 +6,9 @@
  * Do not modify algorithms, thresholds, or formulas without spec approval.
  */
 
-import type { BeliefState, Signal } from "@pomabot/shared";
+import type { BeliefState, Signal, StrategyParams } from "@pomabot/shared";
 import { 
-  IMPACT_CAPS, 
-  THRESHOLDS, 
+  DEFAULT_STRATEGY_PARAMS,
   clamp,
   daysBetween 
 } from "@pomabot/shared";
@@ -37,18 +36,20 @@ export function isSignalEligible(
  */
 export function updateBelief(
   currentBelief: BeliefState,
-  signal: Signal
+  signal: Signal,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
 ): BeliefState {
+  const { thresholds } = params;
   const rangeWidth = currentBelief.belief_high - currentBelief.belief_low;
   
   // Get impact cap for signal type (Section 4.2)
-  const impactCap = IMPACT_CAPS[signal.type] ?? 0;
+  const impactCap = params.impactCaps[signal.type] ?? 0;
   
   // Calculate maximum shift based on signal strength
   const maxShift = impactCap * 100 * (signal.strength / 5);
   
   // Limit shift to 60% of range width
-  const shift = Math.min(maxShift, rangeWidth * THRESHOLDS.MAX_RANGE_SHIFT_RATIO);
+  const shift = Math.min(maxShift, rangeWidth * thresholds.MAX_RANGE_SHIFT_RATIO);
   
   // Direction multiplier
   let directionMultiplier = 0;
@@ -65,7 +66,7 @@ export function updateBelief(
   let newHigh: number;
   
   if (signal.conflicts_with_existing) {
-    const wideningAmount = rangeWidth * THRESHOLDS.CONFLICT_WIDENING_RATIO;
+    const wideningAmount = rangeWidth * thresholds.CONFLICT_WIDENING_RATIO;
     
     if (signal.direction === "down") {
       // Shift low bound down, widen high bound up
@@ -114,33 +115,36 @@ export function calculateConfidence(
   authoritativeCount: number,
   proceduralCount: number,
   hasConflicts: boolean,
-  daysSinceLastSignal: number
+  daysSinceLastSignal: number,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
 ): number {
+  const { thresholds } = params;
+  
   // Section 5.1: Base confidence
-  let confidence = THRESHOLDS.BASE_CONFIDENCE;
+  let confidence = thresholds.BASE_CONFIDENCE;
   
   // Section 5.2: Adjustments
-  confidence += authoritativeCount * THRESHOLDS.CONFIDENCE_AUTHORITATIVE_BONUS;
-  confidence += proceduralCount * THRESHOLDS.CONFIDENCE_PROCEDURAL_BONUS;
+  confidence += authoritativeCount * thresholds.CONFIDENCE_AUTHORITATIVE_BONUS;
+  confidence += proceduralCount * thresholds.CONFIDENCE_PROCEDURAL_BONUS;
   
   // Unknown penalty
-  const unknownPenalty = belief.unknowns.length * THRESHOLDS.UNKNOWN_PENALTY;
+  const unknownPenalty = belief.unknowns.length * thresholds.UNKNOWN_PENALTY;
   confidence -= unknownPenalty;
   
   // Conflict penalty
   if (hasConflicts) {
-    confidence -= THRESHOLDS.CONFLICT_PENALTY;
+    confidence -= thresholds.CONFLICT_PENALTY;
   }
   
   // Section 5.3: Time decay
-  const timeDecay = daysSinceLastSignal * THRESHOLDS.TIME_DECAY_RATE;
+  const timeDecay = daysSinceLastSignal * thresholds.TIME_DECAY_RATE;
   confidence -= timeDecay;
   
   // Section 5.4: Bounds
   confidence = clamp(
     confidence, 
-    THRESHOLDS.MIN_CONFIDENCE_BOUND, 
-    THRESHOLDS.MAX_CONFIDENCE_BOUND
+    thresholds.MIN_CONFIDENCE_BOUND, 
+    thresholds.MAX_CONFIDENCE_BOUND
   );
   
   return confidence;
@@ -153,23 +157,25 @@ export function calculateConfidence(
 export function calculateConfidenceFromCurrent(
   currentConfidence: number,
   unknownCount: number,
-  daysSinceLastSignal: number
+  daysSinceLastSignal: number,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
 ): number {
+  const { thresholds } = params;
   let confidence = currentConfidence;
   
   // Section 5.3: Time decay
-  const timeDecay = daysSinceLastSignal * THRESHOLDS.TIME_DECAY_RATE;
+  const timeDecay = daysSinceLastSignal * thresholds.TIME_DECAY_RATE;
   confidence -= timeDecay;
   
   // Unknown penalty
-  const unknownPenalty = unknownCount * THRESHOLDS.UNKNOWN_PENALTY;
+  const unknownPenalty = unknownCount * thresholds.UNKNOWN_PENALTY;
   confidence -= unknownPenalty;
   
   // Section 5.4: Bounds
   confidence = clamp(
     confidence, 
-    THRESHOLDS.MIN_CONFIDENCE_BOUND, 
-    THRESHOLDS.MAX_CONFIDENCE_BOUND
+    thresholds.MIN_CONFIDENCE_BOUND, 
+    thresholds.MAX_CONFIDENCE_BOUND
   );
   
   return confidence;
@@ -181,7 +187,8 @@ export function calculateConfidenceFromCurrent(
 export function performBeliefUpdate(
   currentBelief: BeliefState,
   signal: Signal,
-  signalHistory: Signal[]
+  signalHistory: Signal[],
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
 ): BeliefState {
   // Check eligibility
   if (!isSignalEligible(signal, signalHistory)) {
@@ -192,7 +199,7 @@ export function performBeliefUpdate(
   }
   
   // Update belief range
-  const updatedBelief = updateBelief(currentBelief, signal);
+  const updatedBelief = updateBelief(currentBelief, signal, params);
   
   // Count signal types for confidence
   const authoritativeCount = signalHistory.filter(
@@ -216,7 +223,8 @@ export function performBeliefUpdate(
     authoritativeCount,
     proceduralCount,
     hasConflicts,
-    daysSinceLast
+    daysSinceLast,
+    params
   );
   
   return {
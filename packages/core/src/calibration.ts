@@ -205,6 +205,14 @@ export class CalibrationSystem {
     return recommendations;
   }
 
+  /**
+   * Distance of range coverage from the 85% target (0-1)
+   */
+  getCoverageDeviation(): number {
+    const expectedCoverage = 0.85; // Targeting 85% coverage
+    return Math.abs(this.currentMetrics.range_coverage - expectedCoverage);
+  }
+
   /**
    * Section 13: Check if calibration failure should halt system
    */
@@ -215,8 +223,7 @@ export class CalibrationSystem {
     }
 
     // Coverage deviation > 15%
-    const expectedCoverage = 0.85; // Targeting 85% coverage
-    const deviation = Math.abs(this.currentMetrics.range_coverage - expectedCoverage);
+    const deviation = this.getCoverageDeviation();
     
     if (deviation > THRESHOLDS.CALIBRATION_COVERAGE_DEVIATION_HALT) {
       return {
@@ -0,0 +1,73 @@
+/**
+ * Test Suite: Conflict Detector
+ * Section 4.4 conflict flag set from a market's signal history
+ */
+
+import { describe, test, expect } from "vitest";
+import type { Signal } from "@pomabot/shared";
+import { detectConflict, findConflictingSignal } from "./conflict-detector";
+import { performBeliefUpdate } from "./belief-engine";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+function createSignal(overrides: Partial<Signal> = {}): Signal {
+  return {
+    type: "procedural",
+    direction: "up",
+    strength: 3,
+    conflicts_with_existing: false,
+    timestamp: NOW,
+    source: "reuters",
+    ...overrides,
+  };
+}
+
+function hoursAgo(hours: number): Date {
+  return new Date(NOW.getTime() - hours * 60 * 60 * 1000);
+}
+
+describe("Conflict Detector", () => {
+  test("should flag an opposing signal of comparable type within the window", () => {
+    const ruling = createSignal({ type: "authoritative", timestamp: hoursAgo(24), id: "court:abc" });
+    const signal = detectConflict(createSignal({ direction: "down" }), [ruling]);
+
+    expect(signal.conflicts_with_existing).toBe(true);
+    expect(signal.conflicts_with).toBe("court:abc");
+  });
+
+  test("should ignore agreeing, neutral, stale and much weaker signals", () => {
+    const history = [
+      createSignal({ type: "authoritative", direction: "up", timestamp: hoursAgo(1) }),
+      createSignal({ direction: "down", timestamp: hoursAgo(100) }),
+      createSignal({ direction: "neutral", timestamp: hoursAgo(1) }),
+    ];
+
+    expect(findConflictingSignal(createSignal({ direction: "up" }), history)).toBeUndefined();
+    expect(findConflictingSignal(createSignal({ direction: "neutral" }), history)).toBeUndefined();
+    // A rumor against an authoritative ruling is noise, not a conflict
+    expect(findConflictingSignal(createSignal({ type: "speculative", direction: "down" }), history)).toBeUndefined();
+  });
+
+  test("should reference the strongest, then most recent, conflicting signal", () => {
+    const history = [
+      createSignal({ type: "quantitative", direction: "down", timestamp: hoursAgo(2), source: "poll" }),
+      createSignal({ type: "procedural", direction: "down", timestamp: hoursAgo(30), source: "docket" }),
+      createSignal({ type: "procedural", direction: "down", timestamp: hoursAgo(5), source: "filing" }),
+    ];
+
+    const signal = detectConflict(createSignal(), history);
+    expect(signal.conflicts_with).toBe(`filing@${hoursAgo(5).toISOString()}`);
+  });
+
+  test("should widen the belief and cost confidence once flagged", () => {
+    const belief = { belief_low: 40, belief_high: 55, confidence: 60, unknowns: [], last_updated: NOW };
+    const history = [createSignal({ direction: "down", timestamp: hoursAgo(1) })];
+    const incoming = createSignal();
+
+    const plain = performBeliefUpdate(belief, incoming, []);
+    const conflicted = performBeliefUpdate(belief, detectConflict(incoming, history), history);
+
+    expect(conflicted.belief_high - conflicted.belief_low).toBeGreaterThan(plain.belief_high - plain.belief_low);
+    expect(conflicted.confidence).toBeLessThan(plain.confidence);
+  });
+});
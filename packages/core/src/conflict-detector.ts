@@ -0,0 +1,83 @@
+/**
+ * Conflict Detector
+ * Sets Signal.conflicts_with_existing for Section 4.4 of
+ * polymarket_ai_deterministic_spec.md
+ *
+ * Connectors only see one source at a time, so they can't know whether a
+ * signal contradicts what the market has already heard. A new signal
+ * conflicts with a recent one from its history when:
+ * - They point in opposite directions (neutral signals never conflict)
+ * - The new signal's type is comparable to or higher than the old one's:
+ *   at most one tier below it, so a rumor against a court ruling is noise
+ *   for the impact caps, not a conflict
+ * - The old signal is at most CONFLICT_WINDOW_HOURS older
+ *
+ * Timing is measured between the signals' own timestamps, so backtests
+ * replaying recorded signals flag the same conflicts as live trading.
+ */
+
+import type { Signal, SignalType, StrategyParams } from "@pomabot/shared";
+import { DEFAULT_STRATEGY_PARAMS } from "@pomabot/shared";
+
+// Higher tiers carry more weight (Section 4.2 impact caps)
+const TYPE_TIER: Record<SignalType, number> = {
+  authoritative: 4,
+  procedural: 3,
+  quantitative: 2,
+  interpretive: 1,
+  speculative: 0,
+};
+
+/**
+ * Find the strongest recent signal the new one contradicts
+ * Ties between equal tiers go to the most recent signal.
+ */
+export function findConflictingSignal(
+  signal: Signal,
+  signalHistory: Signal[],
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): Signal | undefined {
+  if (signal.direction === "neutral") return undefined;
+
+  const windowMs = params.thresholds.CONFLICT_WINDOW_HOURS * 60 * 60 * 1000;
+  let conflicting: Signal | undefined;
+
+  for (const existing of signalHistory) {
+    if (existing.direction === "neutral" || existing.direction === signal.direction) continue;
+    if (TYPE_TIER[signal.type] < TYPE_TIER[existing.type] - 1) continue;
+
+    const age = signal.timestamp.getTime() - existing.timestamp.getTime();
+    if (age < 0 || age > windowMs) continue;
+
+    if (!conflicting || TYPE_TIER[existing.type] >= TYPE_TIER[conflicting.type]) {
+      conflicting = existing;
+    }
+  }
+
+  return conflicting;
+}
+
+/**
+ * The signal with its conflict flag and reference set from its history
+ * Signals already flagged (e.g. injected by an operator) are kept as they are.
+ */
+export function detectConflict(
+  signal: Signal,
+  signalHistory: Signal[],
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): Signal {
+  if (signal.conflicts_with_existing) return signal;
+
+  const conflicting = findConflictingSignal(signal, signalHistory, params);
+  if (!conflicting) return signal;
+
+  return { ...signal, conflicts_with_existing: true, conflicts_with: signalRef(conflicting) };
+}
+
+/**
+ * Stable reference to a signal: its content ID, or source and timestamp
+ * for signals without one
+ */
+export function signalRef(signal: Signal): string {
+  return signal.id ?? `${signal.source ?? "unknown"}@${signal.timestamp.toISOString()}`;
+}
@@ -0,0 +1,136 @@
+/**
+ * Test Suite: Order Book Execution Planner
+ */
+
+import { describe, test, expect } from "vitest";
+import type { TradeDecision } from "@pomabot/shared";
+import { planExecution, type OrderBookLevel } from "./execution-planner";
+import { ExecutionLayer } from "./execution";
+
+// YES fair value 60 with a 10% edge minimum → average price must stay ≤ 50
+const belief = { belief_low: 60, belief_high: 70 };
+const asks: OrderBookLevel[] = [
+  { price: 0.55, size: 1000 },
+  { price: 0.40, size: 100 },
+  { price: 0.45, size: 100 },
+];
+
+describe("planExecution", () => {
+  test("should estimate average fill and slippage when the book is deep enough", () => {
+    const plan = planExecution({ side: "YES", sizeUsd: 60, belief, asks, minEdge: 0.1 });
+
+    expect(plan.action).toBe("full");
+    expect(plan.slices).toHaveLength(1);
+    expect(plan.slices[0]?.limitPrice).toBe(45);
+    // 100 @ 40¢ + 44.4 @ 45¢
+    expect(plan.expectedAvgPrice).toBeCloseTo((60 / (100 + 20 / 0.45)) * 100, 6);
+    expect(plan.expectedSlippage).toBeCloseTo(plan.expectedAvgPrice! - 40, 6);
+    expect(plan.edgeAfterSlippage).toBeCloseTo(60 - plan.expectedAvgPrice!, 6);
+  });
+
+  test("should shrink the order where slippage would erode MIN_EDGE", () => {
+    const plan = planExecution(
+      { side: "YES", sizeUsd: 400, belief, asks, minEdge: 0.1 },
+      { restRemainder: false }
+    );
+
+    // 100 @ 40 + 100 @ 45 + 300 @ 55 averages exactly 50
+    expect(plan.action).toBe("shrunk");
+    expect(plan.plannedSizeUsd).toBeCloseTo(250, 6);
+    expect(plan.expectedAvgPrice).toBeCloseTo(50, 6);
+    expect(plan.edgeAfterSlippage).toBeCloseTo(10, 6);
+    expect(plan.reason).toContain("MIN_EDGE");
+  });
+
+  test("should split off a resting remainder at the edge bound", () => {
+    const plan = planExecution({ side: "YES", sizeUsd: 400, belief, asks, minEdge: 0.1 });
+
+    expect(plan.action).toBe("split");
+    expect(plan.plannedSizeUsd).toBeCloseTo(400, 6);
+    expect(plan.slices[1]).toMatchObject({ limitPrice: 50, crossesBook: false });
+    expect(plan.slices[1]?.sizeUsd).toBeCloseTo(150, 6);
+  });
+
+  test("should value NO against the upper belief bound", () => {
+    // NO fair value 100 - 70 = 30 → average NO price must stay ≤ 20
+    const plan = planExecution(
+      { side: "NO", sizeUsd: 30, belief, asks: [{ price: 0.18, size: 100 }, { price: 0.25, size: 100 }], minEdge: 0.1 },
+      { restRemainder: false }
+    );
+
+    expect(plan.fairValue).toBe(30);
+    expect(plan.maxAveragePrice).toBe(20);
+    expect(plan.action).toBe("shrunk");
+    expect(plan.expectedAvgPrice).toBeCloseTo(20, 6);
+  });
+
+  test("should shrink to available depth", () => {
+    const plan = planExecution(
+      { side: "YES", sizeUsd: 100, belief, asks: [{ price: 0.4, size: 100 }], minEdge: 0.1 },
+      { restRemainder: false }
+    );
+
+    expect(plan.action).toBe("shrunk");
+    expect(plan.plannedSizeUsd).toBeCloseTo(40, 6);
+    expect(plan.reason).toBe("Shrunk to available book depth");
+  });
+
+  test("should skip when nothing is fillable within the bound", () => {
+    const plan = planExecution(
+      { side: "YES", sizeUsd: 100, belief, asks: [{ price: 0.58, size: 1000 }], minEdge: 0.1 },
+      { restRemainder: false }
+    );
+
+    expect(plan.action).toBe("skip");
+    expect(plan.slices).toHaveLength(0);
+  });
+});
+
+describe("ExecutionLayer with an execution plan", () => {
+  const decision: TradeDecision = {
+    side: "YES",
+    size_usd: 400,
+    entry_price: 40,
+    exit_conditions: [],
+    rationale_hash: "",
+    rationale: "",
+    timestamp: new Date(),
+  };
+
+  test("should place one order per slice with expected fill recorded", async () => {
+    const plan = planExecution({ side: "YES", sizeUsd: 400, belief, asks, minEdge: 0.1 });
+    const execution = new ExecutionLayer();
+
+    const result = await execution.executeTrade(decision, "market-1", undefined, { plan });
+
+    expect(result.success).toBe(true);
+    expect(result.orders).toHaveLength(2);
+    expect(result.order?.outcome_limit_price).toBe(55);
+    expect(result.order?.expected_fill_price).toBeCloseTo(50, 6);
+    expect(result.order?.expected_slippage).toBeCloseTo(10, 6);
+  });
+
+  test("should record realized slippage against the expectation", async () => {
+    const plan = planExecution({ side: "YES", sizeUsd: 400, belief, asks, minEdge: 0.1 });
+    const execution = new ExecutionLayer();
+    const { order } = await execution.executeTrade(decision, "market-1", undefined, { plan });
+
+    execution.updateOrderStatus(order!.id, "filled", 500, 51);
+
+    const filled = execution.getOrder(order!.id);
+    expect(filled?.realized_fill_price).toBe(51);
+    expect(filled?.realized_slippage).toBeCloseTo(1, 6);
+    expect(execution.getPosition("market-1")?.fills.some(f => f.orderId === order!.id)).toBe(true);
+  });
+
+  test("should refuse a skipped plan", async () => {
+    const plan = planExecution(
+      { side: "YES", sizeUsd: 100, belief, asks: [{ price: 0.58, size: 1000 }], minEdge: 0.1 },
+      { restRemainder: false }
+    );
+
+    const result = await new ExecutionLayer().executeTrade(decision, "market-1", undefined, { plan });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("skipped");
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Execution Planner
+ *
+ * Walks the order book of the outcome token being bought to estimate
+ * the average fill price and slippage of a proposed order, and sizes
+ * it so the edge after slippage still clears the category MIN_EDGE.
+ *
+ * Prices in the plan are outcome prices (0-100), the same units as
+ * TradeDecision.entry_price. Book levels use CLOB units.
+ */
+
+import type { BeliefState, TradeSide } from "@pomabot/shared";
+
+export interface OrderBookLevel {
+  price: number;  // CLOB decimal price, 0-1
+  size: number;   // Outcome shares available at this price
+}
+
+export interface OrderBook {
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+export interface ExecutionPlanInput {
+  side: Exclude<TradeSide, "NONE">;
+  sizeUsd: number;
+  belief: Pick<BeliefState, "belief_low" | "belief_high">;
+  asks: OrderBookLevel[];     // Asks for the outcome token being bought
+  minEdge: number;            // Decimal, as in MIN_EDGE (0.12 = 12%)
+}
+
+export interface ExecutionPlannerConfig {
+  restRemainder: boolean;     // Rest the edge-limited remainder as a passive limit order
+  minSliceUsd: number;        // Smaller slices are dropped (CLOB minimum order size)
+  tickSize: number;           // CLOB price increment (decimal)
+}
+
+export interface ExecutionSlice {
+  limitPrice: number;         // Outcome price, 0-100
+  sizeUsd: number;
+  expectedShares: number;
+  crossesBook: boolean;       // false = resting order, fills only if the book comes to us
+}
+
+export type ExecutionPlanAction = "full" | "shrunk" | "split" | "passive" | "skip";
+
+export interface ExecutionPlan {
+  action: ExecutionPlanAction;
+  requestedSizeUsd: number;
+  plannedSizeUsd: number;
+  slices: ExecutionSlice[];
+  fairValue: number;           // Conservative belief bound for the held outcome
+  maxAveragePrice: number;     // Highest average price that still clears MIN_EDGE
+  bestAsk?: number;
+  expectedAvgPrice?: number;   // Over crossing fills only
+  expectedSlippage: number;    // expectedAvgPrice - bestAsk, percentage points
+  edgeAfterSlippage?: number;  // fairValue - expectedAvgPrice, percentage points
+  reason: string;
+}
+
+const DEFAULT_PLANNER_CONFIG: ExecutionPlannerConfig = {
+  restRemainder: true,
+  minSliceUsd: 5,
+  tickSize: 0.01,
+};
+
+/** Ignore sub-cent remainders from floating point */
+const USD_EPSILON = 0.005;
+
+/**
+ * Plan an order against the book
+ *
+ * Asks are consumed cheapest first while the running average price
+ * stays at or below `fairValue - minEdge`; the level that would break
+ * that bound is only partially taken. Whatever cannot be filled within
+ * the bound is either rested at the bound (split) or dropped (shrunk).
+ */
+export function planExecution(
+  input: ExecutionPlanInput,
+  config: Partial<ExecutionPlannerConfig> = {}
+): ExecutionPlan {
+  const { restRemainder, minSliceUsd, tickSize } = { ...DEFAULT_PLANNER_CONFIG, ...config };
+
+  // Conservative fair value of the outcome being bought
+  const fairValue = input.side === "YES"
+    ? input.belief.belief_low
+    : 100 - input.belief.belief_high;
+  const maxAveragePrice = fairValue - input.minEdge * 100;
+
+  const asks = input.asks
+    .filter(level => level.size > 0)
+    // Decimal → percent, dropping float noise (0.55 * 100 = 55.00000000000001)
+    .map(level => ({ price: Math.round(level.price * 1e6) / 1e4, size: level.size }))
+    .sort((a, b) => a.price - b.price);
+  const bestAsk = asks[0]?.price;
+
+  let cost = 0;
+  let shares = 0;
+  let worstPrice: number | undefined;
+  let limitedBy: "edge" | "depth" | undefined;
+
+  for (const level of asks) {
+    const remainingUsd = input.sizeUsd - cost;
+    if (remainingUsd <= USD_EPSILON) break;
+
+    let take = Math.min(level.size, remainingUsd / (level.price / 100));
+
+    // Cap so the running average stays within maxAveragePrice
+    if (level.price > maxAveragePrice) {
+      const cap = (maxAveragePrice * shares - 100 * cost) / (level.price - maxAveragePrice);
+      if (cap < take) {
+        take = Math.max(0, cap);
+        limitedBy = "edge";
+      }
+    }
+
+    if (take <= 0) break;
+
+    cost += take * (level.price / 100);
+    shares += take;
+    worstPrice = level.price;
+
+    if (limitedBy === "edge") break;
+  }
+
+  if (!limitedBy && input.sizeUsd - cost > USD_EPSILON) {
+    limitedBy = "depth";
+  }
+
+  const slices: ExecutionSlice[] = [];
+  if (cost >= minSliceUsd && worstPrice !== undefined) {
+    slices.push({ limitPrice: worstPrice, sizeUsd: cost, expectedShares: shares, crossesBook: true });
+  }
+
+  const tickPct = tickSize * 100;
+  const restPrice = Math.floor(maxAveragePrice / tickPct + 1e-9) * tickPct;
+  const crossingUsd = slices[0]?.sizeUsd ?? 0;
+  const remainderUsd = input.sizeUsd - crossingUsd;
+  if (restRemainder && remainderUsd >= minSliceUsd && restPrice > 0) {
+    slices.push({
+      limitPrice: restPrice,
+      sizeUsd: remainderUsd,
+      expectedShares: remainderUsd / (restPrice / 100),
+      // Asks at or below the bound are all consumed above, unless
+      // that crossing slice was dropped for being under the minimum
+      crossesBook: crossingUsd === 0 && bestAsk !== undefined && bestAsk <= restPrice,
+    });
+  }
+
+  const expectedAvgPrice = crossingUsd > 0 ? (cost / shares) * 100 : undefined;
+  const plannedSizeUsd = slices.reduce((sum, s) => sum + s.sizeUsd, 0);
+  const action = chooseAction(slices, plannedSizeUsd, input.sizeUsd);
+
+  return {
+    action,
+    requestedSizeUsd: input.sizeUsd,
+    plannedSizeUsd,
+    slices,
+    fairValue,
+    maxAveragePrice,
+    bestAsk,
+    expectedAvgPrice,
+    expectedSlippage: expectedAvgPrice !== undefined && bestAsk !== undefined
+      ? expectedAvgPrice - bestAsk
+      : 0,
+    edgeAfterSlippage: expectedAvgPrice !== undefined ? fairValue - expectedAvgPrice : undefined,
+    reason: describePlan(action, limitedBy, maxAveragePrice),
+  };
+}
+
+function chooseAction(
+  slices: ExecutionSlice[],
+  plannedSizeUsd: number,
+  requestedSizeUsd: number
+): ExecutionPlanAction {
+  if (slices.length === 0) return "skip";
+  if (slices.every(s => !s.crossesBook)) return "passive";
+  if (slices.length > 1) return "split";
+  return requestedSizeUsd - plannedSizeUsd > USD_EPSILON ? "shrunk" : "full";
+}
+
+function describePlan(
+  action: ExecutionPlanAction,
+  limitedBy: "edge" | "depth" | undefined,
+  maxAveragePrice: number
+): string {
+  const bound = `avg price ≤ ${maxAveragePrice.toFixed(1)}`;
+  switch (action) {
+    case "full":
+      return `Full size fills within ${bound}`;
+    case "shrunk":
+      return limitedBy === "edge"
+        ? `Shrunk to keep ${bound} (MIN_EDGE after slippage)`
+        : "Shrunk to available book depth";
+    case "split":
+      return `Crossing within ${bound}, remainder rested at the bound`;
+    case "passive":
+      return `No asks within ${bound}; resting at the bound`;
+    case "skip":
+      return `Nothing fillable within ${bound}`;
+  }
+}
@@ -11,23 +11,54 @@
  */
 
 import type { TradeDecision, TradeSide } from "@pomabot/shared";
+import type { ExecutionPlan } from "./execution-planner.js";
+import { shareValue, sharesForUsd, toOutcomePrice } from "./accounting.js";
+import { PositionLedger, type LedgerPosition, type PositionLedgerView } from "./position-ledger.js";
+import type { OrderStore } from "./order-store.js";
 
 export interface Order {
   id: string;
   market_id: string;
   side: TradeSide;
+  action?: "BUY" | "SELL";  // Entries buy the outcome token; exits sell it (default BUY)
   size_usd: number;
   limit_price: number;
   status: "pending" | "partial" | "filled" | "cancelled";
-  filled_size: number;
+  filled_size: number;     // USD filled so far
+  filled_shares?: number;  // Shares booked in the ledger so far (absent in older stores)
   created_at: Date;
   updated_at: Date;
   clob_order_id?: string;  // Polymarket CLOB order ID
+  outcome_limit_price?: number;   // Limit sent to the CLOB, in outcome terms (0-100)
+  expected_fill_price?: number;   // Planner's average fill estimate (outcome price)
+  expected_slippage?: number;     // Planner's estimate vs best ask, percentage points
+  realized_fill_price?: number;   // Average fill price once (partially) filled
+  realized_slippage?: number;     // realized_fill_price - expected_fill_price
+}
+
+export interface ExecuteTradeOptions {
+  tokenPrice?: number;       // Quoted price of the outcome token (0-100)
+  plan?: ExecutionPlan;      // Order book plan; replaces the single entry-price order
+}
+
+/** Where to sell a filled position */
+export interface PositionExit {
+  tokenId?: string;          // Required to sell on the CLOB in live mode
+  price: number;             // Outcome price to sell at (0-100)
+}
+
+/** Outcome of restoring persisted orders at startup */
+export interface ReconciliationResult {
+  restored: number;          // Orders loaded from the store
+  synced: number;            // Working orders re-polled on the CLOB
+  cancelled: number;         // Working orders that never reached the CLOB
+  openPositions: number;     // Ledger positions rebuilt from fills
 }
 
 export interface ExecutionResult {
   success: boolean;
   order?: Order;
+  orders?: Order[];   // All slices when executing a plan
   error?: string;
 }
 
@@ -46,6 +77,7 @@ export interface OrderConnector {
   getOrderStatus(orderId: string): Promise<{
     status: "LIVE" | "MATCHED" | "CANCELLED";
     filledAmount?: number;
+    averagePrice?: number;   // Decimal fill price, when reported
   } | undefined>;
   
   cancelOrder(orderId: string): Promise<boolean>;
@@ -53,26 +85,99 @@ export interface OrderConnector {
 
 /**
  * Execution constraints from Section 10
+ *
+ * Fills are written to the PositionLedger, which is the record of what
+ * is held. Simulated orders fill at their limit price immediately.
+ *
+ * With an OrderStore every order change is persisted, so reconcile()
+ * can rebuild positions and resume working orders after a restart.
  */
 export class ExecutionLayer {
   private orders: Map<string, Order> = new Map();
-  private activePositions: Map<string, Order> = new Map();
   private connector?: OrderConnector;
   private simulationMode: boolean;
-
-  constructor(connector?: OrderConnector, simulationMode = true) {
+  private ledger: PositionLedger;
+  private store?: OrderStore;
+
+  constructor(
+    connector?: OrderConnector,
+    simulationMode = true,
+    ledger: PositionLedger = new PositionLedger(),
+    store?: OrderStore
+  ) {
     this.connector = connector;
     this.simulationMode = simulationMode;
+    this.ledger = ledger;
+    this.store = store;
+  }
+
+  /**
+   * Restore persisted orders after a restart
+   *
+   * Fills already recorded are replayed into the ledger in order, then
+   * every working order is re-polled on the CLOB so fills made while we
+   * were down are booked. Working orders without a CLOB ID never reached
+   * the book and are cancelled.
+   */
+  async reconcile(): Promise<ReconciliationResult> {
+    const result: ReconciliationResult = { restored: 0, synced: 0, cancelled: 0, openPositions: 0 };
+    if (!this.store) return result;
+
+    const orders = (await this.store.load())
+      .sort((a, b) => a.created_at.getTime() - b.created_at.getTime());
+
+    for (const order of orders) {
+      this.orders.set(order.id, order);
+      this.replayFills(order);
+    }
+    result.restored = orders.length;
+
+    for (const order of orders) {
+      if (order.status !== "pending" && order.status !== "partial") continue;
+
+      if (order.clob_order_id && this.connector && !this.simulationMode) {
+        await this.syncOrderStatus(order.id);
+        result.synced++;
+      } else {
+        this.updateOrderStatus(order.id, "cancelled");
+        result.cancelled++;
+      }
+    }
+
+    result.openPositions = this.ledger.getOpenPositions().length;
+    console.log(
+      `🔄 Reconciled ${result.restored} orders: ${result.synced} synced, ${result.cancelled} cancelled, ${result.openPositions} open positions`
+    );
+    return result;
+  }
+
+  /**
+   * Poll every working order on the CLOB
+   * Called each monitoring cycle so fills and cancellations reach the ledger
+   */
+  async syncWorkingOrders(): Promise<number> {
+    const working = Array.from(this.orders.values()).filter(
+      order => (order.status === "pending" || order.status === "partial") && order.clob_order_id
+    );
+    for (const order of working) {
+      await this.syncOrderStatus(order.id);
+    }
+    return working.length;
   }
 
   /**
    * Execute a trade decision
    * Section 10: Use limit orders only
+   *
+   * Without a plan a single limit order is placed at the quoted outcome
+   * price. With an execution plan each slice becomes its own limit
+   * order carrying the planner's expected fill price and slippage.
    */
   async executeTrade(
     decision: TradeDecision,
     marketId: string,
-    tokenId?: string
+    tokenId?: string,
+    options: ExecuteTradeOptions = {}
   ): Promise<ExecutionResult> {
     // Validation: No trades without decisions
     if (decision.side === "NONE") {
@@ -82,65 +187,117 @@ export class ExecutionLayer {
       };
     }
 
-    // Check for existing position (no averaging down)
-    if (this.activePositions.has(marketId)) {
+    // Check for existing position or working order (no averaging down)
+    if (this.hasPosition(marketId)) {
       return {
         success: false,
         error: "Position already exists - no averaging down allowed",
       };
     }
 
-    // Create limit order
-    const order: Order = {
-      id: this.generateOrderId(),
-      market_id: marketId,
-      side: decision.side,
-      size_usd: decision.size_usd,
-      limit_price: decision.entry_price,
-      status: "pending",
-      filled_size: 0,
-      created_at: new Date(),
-      updated_at: new Date(),
-    };
+    const { plan } = options;
+    if (plan?.action === "skip") {
+      return {
+        success: false,
+        error: `Execution plan skipped: ${plan.reason}`,
+      };
+    }
 
-    this.orders.set(order.id, order);
+    // Both sides are entered by buying that outcome's token;
+    // without a quoted token price NO is priced at the YES complement
+    const legs = plan
+      ? plan.slices.map(slice => ({
+          outcomePrice: slice.limitPrice,
+          sizeUsd: slice.sizeUsd,
+          expectedFill: (slice.sizeUsd / slice.expectedShares) * 100,
+          expectedSlippage: slice.crossesBook ? plan.expectedSlippage : 0,
+        }))
+      : [{
+          outcomePrice: options.tokenPrice ??
+            (decision.side === "YES" ? decision.entry_price : 100 - decision.entry_price),
+          sizeUsd: decision.size_usd,
+          expectedFill: undefined,
+          expectedSlippage: undefined,
+        }];
+
+    const orders: Order[] = [];
+    for (const leg of legs) {
+      // Create limit order (limit_price stays in YES terms like entry_price)
+      const order: Order = {
+        id: this.generateOrderId(),
+        market_id: marketId,
+        side: decision.side,
+        size_usd: leg.sizeUsd,
+        limit_price: plan
+          ? (decision.side === "YES" ? leg.outcomePrice : 100 - leg.outcomePrice)
+          : decision.entry_price,
+        status: "pending",
+        filled_size: 0,
+        created_at: new Date(),
+        updated_at: new Date(),
+        outcome_limit_price: leg.outcomePrice,
+        expected_fill_price: leg.expectedFill,
+        expected_slippage: leg.expectedSlippage,
+      };
 
-    // If in live mode and connector available, submit to CLOB
-    if (!this.simulationMode && this.connector && tokenId) {
-      try {
-        const result = await this.connector.placeOrder({
-          tokenId,
-          price: decision.entry_price / 100, // Convert percentage to decimal
-          size: decision.size_usd,
-          side: decision.side === "YES" ? "BUY" : "SELL",
-        });
+      this.orders.set(order.id, order);
 
-        if (result?.orderId) {
-          order.clob_order_id = result.orderId;
-          console.log(`✅ Real order submitted to CLOB: ${result.orderId}`);
-        } else {
-          order.status = "cancelled";
-          return {
-            success: false,
-            error: "Failed to submit order to CLOB",
-          };
-        }
-      } catch (error) {
-        console.error("Order submission error:", error);
-        order.status = "cancelled";
+      const error = await this.submitOrder(order, tokenId);
+      await this.persist(order);
+      if (error) {
+        // Slices already on the book stay there; report them with the failure
         return {
-          success: false,
-          error: error instanceof Error ? error.message : "Unknown error",
+          success: orders.length > 0,
+          order: orders[0],
+          orders,
+          error,
         };
       }
+      if (this.simulationMode) {
+        this.updateOrderStatus(order.id, "filled");
+      }
+      orders.push(order);
     }
 
     return {
       success: true,
-      order,
+      order: orders[0],
+      orders,
     };
   }
 
+  /**
+   * Submit an order to the CLOB in live mode
+   * Returns an error message if submission failed
+   */
+  private async submitOrder(order: Order, tokenId?: string): Promise<string | undefined> {
+    if (this.simulationMode || !this.connector || !tokenId) {
+      return undefined;
+    }
+
+    try {
+      const result = await this.connector.placeOrder({
+        tokenId,
+        price: order.outcome_limit_price! / 100, // Convert percentage to decimal
+        size: order.size_usd,
+        side: "BUY",
+      });
+
+      if (result?.orderId) {
+        order.clob_order_id = result.orderId;
+        console.log(`✅ Real order submitted to CLOB: ${result.orderId}`);
+        return undefined;
+      }
+
+      order.status = "cancelled";
+      return "Failed to submit order to CLOB";
+    } catch (error) {
+      console.error("Order submission error:", error);
+      order.status = "cancelled";
+      return error instanceof Error ? error.message : "Unknown error";
+    }
+  }
+
   /**
    * Poll order status from CLOB
    * Should be called periodically to update order states
@@ -153,21 +310,24 @@ export class ExecutionLayer {
       const status = await this.connector.getOrderStatus(order.clob_order_id);
       
       if (status) {
+        // Limit orders fill at or better than the limit
+        const fillPrice = status.averagePrice !== undefined ? status.averagePrice * 100 : undefined;
         switch (status.status) {
           case "LIVE":
-            order.status = "pending";
+            if (status.filledAmount) {
+              this.updateOrderStatus(orderId, "partial", status.filledAmount, fillPrice);
+            } else {
+              this.updateOrderStatus(orderId, "pending");
+            }
             break;
           case "MATCHED":
-            order.status = "filled";
-            order.filled_size = status.filledAmount ?? order.size_usd;
-            this.activePositions.set(order.market_id, order);
+            this.updateOrderStatus(orderId, "filled", status.filledAmount ?? order.size_usd, fillPrice);
             break;
           case "CANCELLED":
-            order.status = "cancelled";
-            this.activePositions.delete(order.market_id);
+            // Shares from earlier partial fills stay in the ledger
+            this.updateOrderStatus(orderId, "cancelled");
             break;
         }
-        order.updated_at = new Date();
       }
     } catch (error) {
       console.error(`Failed to sync order status for ${orderId}:`, error);
@@ -175,33 +335,51 @@ export class ExecutionLayer {
   }
 
   /**
-   * Check if a position exists for a market
+   * Check if a position or a working order exists for a market
    */
   hasPosition(marketId: string): boolean {
-    return this.activePositions.has(marketId);
+    return this.ledger.hasOpenPosition(marketId) || this.getWorkingOrders(marketId).length > 0;
+  }
+
+  /**
+   * Check if orders for a market may still fill (entries or a live exit)
+   */
+  hasWorkingOrders(marketId: string): boolean {
+    return this.getWorkingOrders(marketId).length > 0;
   }
 
   /**
-   * Get active position for a market
+   * Get the ledger position for a market
    */
-  getPosition(marketId: string): Order | undefined {
-    return this.activePositions.get(marketId);
+  getPosition(marketId: string): LedgerPosition | undefined {
+    return this.ledger.getOpenPosition(marketId);
   }
 
   /**
-   * Get all active positions
+   * Get all open ledger positions
    */
-  getAllPositions(): Order[] {
-    return Array.from(this.activePositions.values());
+  getAllPositions(): LedgerPosition[] {
+    return this.ledger.getOpenPositions();
+  }
+
+  /**
+   * Read-only ledger view for consumers of positions
+   */
+  getLedger(): PositionLedgerView {
+    return this.ledger;
   }
 
   /**
    * Update order status (would be called by market data feed)
+   * Newly filled USD is booked in the ledger at the fill price,
+   * falling back to the order's limit: bought shares for entries, sold
+   * shares for exits
    */
   updateOrderStatus(
     orderId: string,
     status: Order["status"],
-    filledSize?: number
+    filledSize?: number,
+    fillPrice?: number
   ): void {
     const order = this.orders.get(orderId);
     if (!order) return;
@@ -209,40 +387,145 @@ export class ExecutionLayer {
     order.status = status;
     order.updated_at = new Date();
 
-    if (filledSize !== undefined) {
-      order.filled_size = filledSize;
+    if (fillPrice !== undefined) {
+      this.recordFill(order, fillPrice);
     }
 
-    // If filled, add to active positions
-    if (status === "filled") {
-      this.activePositions.set(order.market_id, order);
+    const filledUsd = filledSize ?? (status === "filled" ? order.size_usd : order.filled_size);
+    const newlyFilled = filledUsd - order.filled_size;
+    order.filled_size = filledUsd;
+
+    const price = order.realized_fill_price ?? order.outcome_limit_price;
+    if (newlyFilled > 0 && price !== undefined && price > 0 && order.side !== "NONE") {
+      const action = order.action ?? "BUY";
+      let shares = sharesForUsd(newlyFilled, price);
+      if (action === "SELL") {
+        // USD/price rounding must not sell more than is held
+        shares = Math.min(shares, this.ledger.getOpenPosition(order.market_id)?.shares ?? 0);
+      }
+      if (shares > 0) {
+        this.ledger.recordFill({
+          marketId: order.market_id,
+          side: order.side,
+          action,
+          shares,
+          price,
+          orderId: order.id,
+        });
+        order.filled_shares = (order.filled_shares ?? 0) + shares;
+      }
     }
 
-    // If cancelled, remove from active positions
-    if (status === "cancelled") {
-      this.activePositions.delete(order.market_id);
+    void this.persist(order);
+  }
+
+  /**
+   * Record realized fill price (outcome terms) against the plan's expectation
+   */
+  private recordFill(order: Order, fillPrice: number | undefined): void {
+    if (fillPrice === undefined) return;
+    order.realized_fill_price = fillPrice;
+    if (order.expected_fill_price !== undefined) {
+      order.realized_slippage = fillPrice - order.expected_fill_price;
     }
   }
 
   /**
    * Close a position
+   *
+   * Working orders for the market are synced and then cancelled first, so
+   * fills the CLOB made since the last poll are in the ledger. Held shares
+   * are then sold at the exit price. Simulated sales are booked in the ledger
+   * at once; in live mode (which needs the token ID) the SELL is a working
+   * CLOB order like any entry, and shares leave the ledger as
+   * syncOrderStatus reports its fills.
    */
-  async closePosition(marketId: string): Promise<boolean> {
-    const position = this.activePositions.get(marketId);
-    if (!position) {
+  async closePosition(marketId: string, exit?: PositionExit): Promise<boolean> {
+    const working = this.getWorkingOrders(marketId);
+    if (!this.ledger.hasOpenPosition(marketId) && working.length === 0) {
       return false;
     }
 
-    // If in live mode, cancel the order on CLOB
-    if (!this.simulationMode && this.connector && position.clob_order_id) {
+    for (const order of working) {
+      await this.syncOrderStatus(order.id);
+      if (order.status === "pending" || order.status === "partial") {
+        await this.cancelOrder(order.id);
+      }
+    }
+
+    // Sized after the sync so late fills are sold too
+    const position = this.ledger.getOpenPosition(marketId);
+    if (!position) {
+      return true;
+    }
+
+    const exitPrice = exit?.price ?? position.markPrice;
+    const exitUsd = shareValue(position.shares, exitPrice); // USD notional of every share held
+    const now = new Date();
+    const exitOrder: Order = {
+      id: this.generateOrderId(),
+      market_id: marketId,
+      side: position.side,
+      action: "SELL",
+      size_usd: exitUsd,
+      limit_price: toOutcomePrice(position.side, exitPrice),
+      status: "pending",
+      filled_size: 0,
+      created_at: now,
+      updated_at: now,
+      outcome_limit_price: exitPrice,
+    };
+
+    if (!this.simulationMode && this.connector) {
+      if (!exit?.tokenId) {
+        console.error(`Cannot sell ${marketId}: token ID unknown`);
+        return false;
+      }
+      // The CLOB order is sized in shares from USD / price
+      if (!(exitPrice > 0)) {
+        console.error(`Cannot sell ${marketId} at price ${exitPrice}`);
+        return false;
+      }
+
       try {
-        await this.connector.cancelOrder(position.clob_order_id);
+        const result = await this.connector.placeOrder({
+          tokenId: exit.tokenId,
+          price: exitPrice / 100,
+          size: exitUsd,
+          side: "SELL",
+        });
+        if (!result?.orderId) {
+          console.error(`Failed to submit exit order for ${marketId}`);
+          return false;
+        }
+        exitOrder.clob_order_id = result.orderId;
+        console.log(`✅ Exit order submitted to CLOB: ${result.orderId}`);
       } catch (error) {
-        console.error(`Failed to cancel order ${position.clob_order_id}:`, error);
+        console.error(`Failed to submit exit order for ${marketId}:`, error);
+        return false;
       }
+
+      this.orders.set(exitOrder.id, exitOrder);
+      await this.persist(exitOrder);
+      return true;
     }
 
-    this.activePositions.delete(marketId);
+    // Simulated exits fill at once, recorded as filled SELL orders so a restart can replay them
+    exitOrder.status = "filled";
+    exitOrder.filled_size = exitUsd;
+    exitOrder.filled_shares = position.shares;
+    this.orders.set(exitOrder.id, exitOrder);
+
+    this.ledger.recordFill({
+      marketId,
+      side: position.side,
+      action: "SELL",
+      shares: position.shares,
+      price: exitPrice,
+      orderId: exitOrder.id,
+      timestamp: now,
+    });
+    await this.persist(exitOrder);
     return true;
   }
 
@@ -286,6 +569,59 @@ export class ExecutionLayer {
     return Array.from(this.orders.values());
   }
 
+  /**
+   * Orders for a market that may still fill
+   */
+  private getWorkingOrders(marketId: string): Order[] {
+    return Array.from(this.orders.values()).filter(
+      order => order.market_id === marketId && (order.status === "pending" || order.status === "partial")
+    );
+  }
+
+  /**
+   * Book the fills of a restored order into the ledger
+   * Replays the shares booked while it was live; orders stored before
+   * those were recorded fall back to filled USD at the fill price. A
+   * SELL never replays more than is held, as when it was live.
+   */
+  private replayFills(order: Order): void {
+    const price = order.realized_fill_price ?? order.outcome_limit_price;
+    if (order.filled_size <= 0 || price === undefined || !(price > 0) || order.side === "NONE") return;
+
+    const action = order.action ?? "BUY";
+    let shares = order.filled_shares ?? sharesForUsd(order.filled_size, price);
+    if (action === "SELL") {
+      shares = Math.min(shares, this.ledger.getOpenPosition(order.market_id)?.shares ?? 0);
+    }
+    if (!(shares > 0)) return;
+
+    try {
+      this.ledger.recordFill({
+        marketId: order.market_id,
+        side: order.side,
+        action,
+        shares,
+        price,
+        orderId: order.id,
+        timestamp: order.updated_at,
+      });
+    } catch (error) {
+      console.error(`Failed to replay fills of order ${order.id}:`, error);
+    }
+  }
+
+  /**
+   * Persist the latest state of an order; failures are logged, not thrown
+   */
+  private async persist(order: Order): Promise<void> {
+    if (!this.store) return;
+    try {
+      await this.store.save(order);
+    } catch (error) {
+      console.error(`Failed to persist order ${order.id}:`, error);
+    }
+  }
+
   /**
    * Check if in simulation mode
    */
@@ -0,0 +1,96 @@
+/**
+ * Test Suite: Halt Watchdog
+ * Section 13 halts from calibration drift and consecutive invalidations
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import type { BeliefState } from "@pomabot/shared";
+import type { SlackNotifier } from "./notifications";
+import { SystemSupervisor } from "./supervisor";
+import { HaltWatchdog } from "./halt-watchdog";
+
+const narrowBelief: BeliefState = {
+  belief_low: 45,
+  belief_high: 55,
+  confidence: 80,
+  unknowns: [],
+  last_updated: new Date("2026-03-01T12:00:00Z"),
+};
+
+describe("HaltWatchdog", () => {
+  let supervisor: SystemSupervisor;
+  let notifier: { sendSystemHalt: ReturnType<typeof vi.fn> };
+  let watchdog: HaltWatchdog;
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    supervisor = new SystemSupervisor();
+    notifier = { sendSystemHalt: vi.fn(async () => {}) };
+    watchdog = new HaltWatchdog({ target: supervisor, notifier: notifier as unknown as SlackNotifier });
+  });
+
+  function resolveMarkets(count: number, prefix = "m"): void {
+    for (let i = 0; i < count; i++) {
+      watchdog.recordEntry(`${prefix}${i}`, narrowBelief, 0.15);
+      watchdog.recordResolution(`${prefix}${i}`, i % 2 === 0);
+    }
+  }
+
+  test("should only calibrate markets a position was opened on", () => {
+    watchdog.recordEntry("fed", narrowBelief, 0.15);
+
+    expect(watchdog.recordResolution("other", true)).toBe(false);
+    expect(watchdog.recordResolution("fed", true)).toBe(true);
+    expect(watchdog.recordResolution("fed", true)).toBe(false);
+
+    expect(watchdog.getCalibration().getRecords()).toEqual([
+      expect.objectContaining({ market_id: "fed", confidence_at_entry: 80, outcome: true, edge_at_entry: 0.15 }),
+    ]);
+  });
+
+  test("should halt on coverage deviation once enough markets resolved", async () => {
+    // Outcomes of 0 or 100 never fall inside [45, 55]: coverage 0%, deviation 85%
+    resolveMarkets(19);
+    expect(await watchdog.check()).toBeUndefined();
+
+    resolveMarkets(1, "last");
+    const trigger = await watchdog.check();
+
+    expect(trigger).toMatchObject({ condition: "coverage_deviation", threshold: 0.15, sampleSize: 20 });
+    expect(trigger?.observed).toBeCloseTo(0.85);
+    expect(supervisor.getActiveHalt()).toMatchObject({ category: "safety", trigger });
+    expect(supervisor.getHaltReason()).toContain("Coverage deviation 85.0% exceeds 15% threshold");
+    expect(notifier.sendSystemHalt).toHaveBeenCalledWith(supervisor.getHaltReason());
+  });
+
+  test("should halt after consecutive invalidations, reset by a profit exit", async () => {
+    watchdog.recordExit("invalidation");
+    watchdog.recordExit("invalidation");
+    watchdog.recordExit("profit");
+    watchdog.recordExit("invalidation");
+    watchdog.recordExit("emergency");
+    watchdog.recordExit("invalidation");
+    expect(await watchdog.check()).toBeUndefined();
+
+    watchdog.recordExit("invalidation");
+    expect(await watchdog.check()).toMatchObject({ condition: "consecutive_invalidations", observed: 3, threshold: 3 });
+    expect(supervisor.getHaltReason()).toBe("3 consecutive belief invalidations (threshold 3)");
+
+    // Already halted: no second halt or notification
+    expect(await watchdog.check()).toBeUndefined();
+    expect(notifier.sendSystemHalt).toHaveBeenCalledTimes(1);
+  });
+
+  test("should not re-halt on the acknowledged sample after a resume", async () => {
+    resolveMarkets(20);
+    await watchdog.check();
+    supervisor.resume("ops", "Reviewed calibration");
+    watchdog.acknowledge();
+
+    expect(await watchdog.check()).toBeUndefined();
+    expect(supervisor.isHalted()).toBe(false);
+
+    resolveMarkets(1, "new");
+    expect((await watchdog.check())?.condition).toBe("coverage_deviation");
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Halt Watchdog
+ * Automatic halt triggers from Section 13 of polymarket_ai_deterministic_spec.md
+ *
+ * Feeds resolved markets into the CalibrationSystem and counts
+ * consecutive invalidation exits, then halts the system when either
+ * breaches its threshold:
+ * - Coverage deviation > THRESHOLDS.CALIBRATION_COVERAGE_DEVIATION_HALT
+ *   (once enough markets have resolved to measure it)
+ * - THRESHOLDS.CONSECUTIVE_INVALIDATIONS_HALT invalidation exits in a row
+ *
+ * The halt carries a structured HaltTrigger and is written to the audit
+ * log and sent to Slack.
+ */
+
+import type { BeliefState, ExitCondition, HaltTrigger } from "@pomabot/shared";
+import { THRESHOLDS } from "@pomabot/shared";
+import { CalibrationSystem } from "./calibration.js";
+import type { AuditLogger } from "./audit-log.js";
+import type { SlackNotifier } from "./notifications.js";
+import type { StateMachine } from "./state-machine.js";
+
+/** The belief a position was opened on, kept until its market resolves */
+export interface CalibrationEntry {
+  belief: BeliefState;
+  edge: number;                // Edge at entry (0-1)
+}
+
+export interface HaltWatchdogConfig {
+  minResolvedMarkets?: number;     // Resolutions needed before coverage can halt (default 20)
+  coverageDeviationHalt?: number;  // Default THRESHOLDS.CALIBRATION_COVERAGE_DEVIATION_HALT
+  consecutiveInvalidationsHalt?: number; // Default THRESHOLDS.CONSECUTIVE_INVALIDATIONS_HALT
+}
+
+export interface HaltWatchdogDeps {
+  target: Pick<StateMachine, "forceHalt" | "isHalted">;
+  calibration?: CalibrationSystem;
+  auditLogger?: AuditLogger;
+  notifier?: SlackNotifier;
+}
+
+/**
+ * Human-readable halt reason for a trigger
+ */
+export function describeHaltTrigger(trigger: HaltTrigger): string {
+  if (trigger.condition === "coverage_deviation") {
+    return `Coverage deviation ${(trigger.observed * 100).toFixed(1)}% exceeds ` +
+      `${(trigger.threshold * 100).toFixed(0)}% threshold over ${trigger.sampleSize} resolved markets`;
+  }
+  return `${trigger.observed} consecutive belief invalidations (threshold ${trigger.threshold})`;
+}
+
+export class HaltWatchdog {
+  private deps: HaltWatchdogDeps;
+  private calibration: CalibrationSystem;
+  private entries: Map<string, CalibrationEntry> = new Map();
+  private consecutiveInvalidations = 0;
+  private acknowledgedResolutions = 0; // Calibration records already reviewed by an operator
+  private minResolvedMarkets: number;
+  private coverageDeviationHalt: number;
+  private consecutiveInvalidationsHalt: number;
+
+  constructor(deps: HaltWatchdogDeps, config: HaltWatchdogConfig = {}) {
+    this.deps = deps;
+    this.calibration = deps.calibration ?? new CalibrationSystem();
+    this.minResolvedMarkets = config.minResolvedMarkets ?? 20;
+    this.coverageDeviationHalt = config.coverageDeviationHalt ?? THRESHOLDS.CALIBRATION_COVERAGE_DEVIATION_HALT;
+    this.consecutiveInvalidationsHalt = config.consecutiveInvalidationsHalt ?? THRESHOLDS.CONSECUTIVE_INVALIDATIONS_HALT;
+  }
+
+  getCalibration(): CalibrationSystem {
+    return this.calibration;
+  }
+
+  getConsecutiveInvalidations(): number {
+    return this.consecutiveInvalidations;
+  }
+
+  /**
+   * Remember the belief behind a new position for calibration at resolution
+   */
+  recordEntry(marketId: string, belief: BeliefState, edge: number): void {
+    this.entries.set(marketId, { belief: { ...belief, unknowns: [...belief.unknowns] }, edge });
+  }
+
+  /**
+   * Whether a position was opened on the market and its resolution is
+   * still needed for calibration
+   */
+  isAwaitingResolution(marketId: string): boolean {
+    return this.entries.has(marketId);
+  }
+
+  /**
+   * Feed a resolved market into calibration
+   * Returns false when no position was opened on the market
+   */
+  recordResolution(marketId: string, outcome: boolean, resolvedAt: Date = new Date()): boolean {
+    const entry = this.entries.get(marketId);
+    if (!entry) return false;
+
+    this.entries.delete(marketId);
+    this.calibration.addRecord({
+      market_id: marketId,
+      belief_at_entry: entry.belief,
+      confidence_at_entry: entry.belief.confidence,
+      unknowns_at_entry: entry.belief.unknowns.length,
+      outcome,
+      resolved_at: resolvedAt,
+      edge_at_entry: entry.edge,
+    });
+    return true;
+  }
+
+  /**
+   * Count an exit: invalidations extend the streak, a profit exit ends it,
+   * emergency exits leave it unchanged
+   */
+  recordExit(type: ExitCondition["type"]): void {
+    if (type === "invalidation") {
+      this.consecutiveInvalidations++;
+    } else if (type === "profit") {
+      this.consecutiveInvalidations = 0;
+    }
+  }
+
+  /**
+   * The first threshold currently breached, if any
+   * Coverage only counts once an operator-reviewed sample has grown
+   */
+  evaluate(): HaltTrigger | undefined {
+    const resolved = this.calibration.getRecords().length;
+    if (resolved >= this.minResolvedMarkets && resolved > this.acknowledgedResolutions) {
+      const deviation = this.calibration.getCoverageDeviation();
+      if (deviation > this.coverageDeviationHalt) {
+        return {
+          condition: "coverage_deviation",
+          observed: deviation,
+          threshold: this.coverageDeviationHalt,
+          sampleSize: resolved,
+        };
+      }
+    }
+
+    if (this.consecutiveInvalidations >= this.consecutiveInvalidationsHalt) {
+      return {
+        condition: "consecutive_invalidations",
+        observed: this.consecutiveInvalidations,
+        threshold: this.consecutiveInvalidationsHalt,
+        sampleSize: this.consecutiveInvalidations,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Halt the target if a threshold is breached and it isn't halted already
+   */
+  async check(): Promise<HaltTrigger | undefined> {
+    if (this.deps.target.isHalted()) return undefined;
+
+    const trigger = this.evaluate();
+    if (!trigger) return undefined;
+
+    const reason = describeHaltTrigger(trigger);
+    console.error(`🛑 Halt watchdog: ${reason}`);
+    this.deps.target.forceHalt(reason, "safety", trigger);
+    await this.deps.auditLogger?.logSystemStop(reason);
+    await this.deps.notifier?.sendSystemHalt(reason);
+    return trigger;
+  }
+
+  /**
+   * An operator resumed from a halt: restart the invalidation streak and
+   * only re-halt on coverage once further markets resolve
+   */
+  acknowledge(): void {
+    this.consecutiveInvalidations = 0;
+    this.acknowledgedResolutions = this.calibration.getRecords().length;
+  }
+}
@@ -3,9 +3,14 @@
  */
 
 export * from "./belief-engine.js";
+export * from "./conflict-detector.js";
+export * from "./unknowns-ledger.js";
+export * from "./resolution-criteria.js";
 export * from "./trade-engine.js";
 export * from "./state-machine.js";
+export * from "./supervisor.js";
 export * from "./calibration.js";
+export * from "./halt-watchdog.js";
 export * from "./execution.js";
 export * from "./notifications.js";
 export * from "./audit-log.js";
@@ -14,3 +19,14 @@ export * from "./trade-history.js";
 export * from "./portfolio-manager.js";
 export * from "./batch-processor.js";
 export * from "./paper-trading.js";
+export * from "./market-state-store.js";
+export * from "./order-store.js";
+export * from "./backtest-dataset.js";
+export * from "./backtest.js";
+export * from "./optimizer.js";
+export * from "./strategy-config.js";
+export * from "./execution-planner.js";
+export * from "./position-monitor.js";
+export * from "./accounting.js";
+export * from "./position-ledger.js";
+export * from "./invariant-guard.js";
@@ -0,0 +1,118 @@
+/**
+ * Test Suite: Invariant Guard
+ * Section 1 global invariants enforced at runtime
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import type { BeliefState, Market, TradeDecision } from "@pomabot/shared";
+import type { AuditLogger } from "./audit-log";
+import { SystemSupervisor } from "./supervisor";
+import { InvariantGuard } from "./invariant-guard";
+
+const market: Market = {
+  id: "fed-cut",
+  question: "Will the Fed cut rates in March?",
+  resolution_criteria: "FOMC statement",
+  category: "economics",
+  current_price: 40,
+  closes_at: new Date("2026-03-20T00:00:00Z"),
+  created_at: new Date("2026-01-01T00:00:00Z"),
+};
+
+const belief: BeliefState = {
+  belief_low: 55,
+  belief_high: 70,
+  confidence: 60,
+  unknowns: [],
+  last_updated: new Date("2026-03-01T12:00:00Z"),
+};
+
+function createDecision(overrides: Partial<TradeDecision> = {}): TradeDecision {
+  return {
+    side: "YES",
+    size_usd: 20,
+    entry_price: 40,
+    exit_conditions: [
+      { type: "invalidation", trigger_belief_shift: 0.5 },
+      { type: "profit", trigger_price_level: 62.5 },
+    ],
+    rationale_hash: "hash",
+    rationale: "Belief above market",
+    timestamp: new Date("2026-03-01T12:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("InvariantGuard", () => {
+  let supervisor: SystemSupervisor;
+  let auditLogger: { logInvariantViolation: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    supervisor = new SystemSupervisor();
+    auditLogger = { logInvariantViolation: vi.fn(async () => {}) };
+  });
+
+  function createGuard(reportOnly = false): InvariantGuard {
+    return new InvariantGuard(
+      { target: supervisor, auditLogger: auditLogger as unknown as AuditLogger },
+      { reportOnly }
+    );
+  }
+
+  test("should pass valid belief updates and executions", async () => {
+    const guard = createGuard();
+
+    expect(await guard.checkBeliefUpdate(market, belief, { ...belief, confidence: 70 })).toBe(true);
+    expect(await guard.checkExecution(market, createDecision(), belief)).toBe(true);
+    expect(guard.getViolations()).toHaveLength(0);
+    expect(supervisor.isHalted()).toBe(false);
+  });
+
+  test("should halt and block when confidence rises with unknowns", async () => {
+    const guard = createGuard();
+    const after: BeliefState = {
+      ...belief,
+      confidence: 70,
+      unknowns: [{ id: "u1", description: "Data delayed", added_at: new Date() }],
+    };
+
+    expect(await guard.checkBeliefUpdate(market, belief, after)).toBe(false);
+
+    expect(supervisor.getActiveHalt()).toMatchObject({ category: "invariant_breach" });
+    expect(supervisor.getHaltReason()).toContain("Invariant violated (confidence) on fed-cut");
+    expect(auditLogger.logInvariantViolation).toHaveBeenCalledWith(
+      "confidence",
+      expect.stringContaining("60 → 70"),
+      { belief_low: 55, belief_high: 70, confidence: 60, unknowns: 0 },
+      { belief_low: 55, belief_high: 70, confidence: 70, unknowns: 1 },
+      market,
+      true
+    );
+  });
+
+  test("should check bounds, exits and sizing before execution", async () => {
+    const guard = createGuard();
+
+    expect(await guard.checkExecution(market, createDecision({ entry_price: 60 }), belief)).toBe(false);
+    expect(await guard.checkExecution(market, createDecision({ exit_conditions: [] }), belief)).toBe(false);
+    expect(await guard.checkExecution(market, createDecision({ size_usd: 0 }), belief)).toBe(false);
+
+    expect(guard.getViolations().map(v => v.invariant)).toEqual(["trade_bounds", "trade_exits", "execution"]);
+    // One halt, however many violations follow it
+    expect(supervisor.getHaltHistory()).toHaveLength(1);
+  });
+
+  test("should only report violations in report-only mode", async () => {
+    const guard = createGuard(true);
+
+    expect(await guard.checkExecution(market, createDecision({ entry_price: 60 }), belief)).toBe(true);
+
+    expect(guard.isReportOnly()).toBe(true);
+    expect(supervisor.isHalted()).toBe(false);
+    expect(guard.getViolations()[0]).toMatchObject({ invariant: "trade_bounds", enforced: false });
+    expect(auditLogger.logInvariantViolation).toHaveBeenCalledWith(
+      "trade_bounds", expect.any(String), expect.any(Object), expect.any(Object), market, false
+    );
+  });
+});
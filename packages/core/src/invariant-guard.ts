@@ -0,0 +1,154 @@
+/**
+ * Invariant Guard
+ * Runtime enforcement of the global invariants from Section 1 of
+ * polymarket_ai_deterministic_spec.md
+ *
+ * Wraps the validate* checks around the two steps that can break them:
+ * - Belief updates: confidence cannot increase if unknowns increase
+ * - Executions: trades stay outside the belief range, carry predefined
+ *   exits and come from a sized, non-NONE TradeDecision
+ *
+ * A violation is written to the audit log as INVARIANT_VIOLATION with the
+ * state before and after the step. Enforcing guards then halt the target
+ * ("Violation of any invariant = system halt") and tell the caller to
+ * drop the step; report-only guards log and let it through, for shadow
+ * testing new checks against live traffic.
+ */
+
+import type { BeliefState, Market, TradeDecision } from "@pomabot/shared";
+import { validateConfidenceInvariant } from "./belief-engine.js";
+import { validateTradeBoundsInvariant, validateTradeExitsInvariant } from "./trade-engine.js";
+import { validateExecutionInvariant } from "./execution.js";
+import type { AuditLogger } from "./audit-log.js";
+import type { SlackNotifier } from "./notifications.js";
+import type { StateMachine } from "./state-machine.js";
+
+export type InvariantName = "confidence" | "trade_bounds" | "trade_exits" | "execution";
+
+export interface InvariantViolation {
+  invariant: InvariantName;
+  message: string;
+  marketId: string;
+  before: unknown;
+  after: unknown;
+  enforced: boolean;
+  detectedAt: Date;
+}
+
+export interface InvariantGuardConfig {
+  reportOnly?: boolean;        // Log violations without halting or blocking
+}
+
+export interface InvariantGuardDeps {
+  target: Pick<StateMachine, "forceHalt" | "isHalted">;
+  auditLogger?: AuditLogger;
+  notifier?: SlackNotifier;
+}
+
+export class InvariantGuard {
+  private deps: InvariantGuardDeps;
+  private reportOnly: boolean;
+  private violations: InvariantViolation[] = [];
+  private readonly MAX_VIOLATIONS = 50;
+
+  constructor(deps: InvariantGuardDeps, config: InvariantGuardConfig = {}) {
+    this.deps = deps;
+    this.reportOnly = config.reportOnly ?? false;
+  }
+
+  isReportOnly(): boolean {
+    return this.reportOnly;
+  }
+
+  /**
+   * Most recent violations, oldest first
+   */
+  getViolations(): InvariantViolation[] {
+    return [...this.violations];
+  }
+
+  /**
+   * Check a belief update before it is applied
+   * Returns false when the update must be dropped
+   */
+  async checkBeliefUpdate(market: Market, before: BeliefState, after: BeliefState): Promise<boolean> {
+    if (validateConfidenceInvariant(before, after)) return true;
+
+    return this.violate(
+      "confidence",
+      `Confidence rose ${before.confidence} → ${after.confidence} while unknowns grew ` +
+        `${before.unknowns.length} → ${after.unknowns.length}`,
+      market,
+      summarizeBelief(before),
+      summarizeBelief(after)
+    );
+  }
+
+  /**
+   * Check a sized trade decision before it is executed
+   * Returns false when the trade must not be executed
+   */
+  async checkExecution(market: Market, decision: TradeDecision, belief: BeliefState): Promise<boolean> {
+    const before = summarizeBelief(belief);
+    const after = summarizeDecision(decision);
+
+    if (!validateTradeBoundsInvariant(decision, belief)) {
+      return this.violate(
+        "trade_bounds",
+        `${decision.side} entry at ${decision.entry_price}% is inside belief range [${belief.belief_low}, ${belief.belief_high}]`,
+        market, before, after
+      );
+    }
+    if (!validateTradeExitsInvariant(decision)) {
+      return this.violate("trade_exits", "Trade lacks invalidation and profit exits", market, before, after);
+    }
+    if (!validateExecutionInvariant(decision)) {
+      return this.violate("execution", "Execution without a sized trade decision", market, before, after);
+    }
+    return true;
+  }
+
+  private async violate(
+    invariant: InvariantName,
+    message: string,
+    market: Market,
+    before: unknown,
+    after: unknown
+  ): Promise<boolean> {
+    const enforced = !this.reportOnly;
+    this.violations.push({ invariant, message, marketId: market.id, before, after, enforced, detectedAt: new Date() });
+    if (this.violations.length > this.MAX_VIOLATIONS) {
+      this.violations.shift();
+    }
+
+    console.error(`🚨 Invariant violated (${invariant}${enforced ? "" : ", report-only"}) on ${market.question}: ${message}`);
+    await this.deps.auditLogger?.logInvariantViolation(invariant, message, before, after, market, enforced);
+
+    if (!enforced) return true;
+
+    if (!this.deps.target.isHalted()) {
+      const reason = `Invariant violated (${invariant}) on ${market.id}: ${message}`;
+      this.deps.target.forceHalt(reason, "invariant_breach");
+      await this.deps.notifier?.sendSystemHalt(reason);
+    }
+    return false;
+  }
+}
+
+function summarizeBelief(belief: BeliefState) {
+  return {
+    belief_low: belief.belief_low,
+    belief_high: belief.belief_high,
+    confidence: belief.confidence,
+    unknowns: belief.unknowns.length,
+  };
+}
+
+function summarizeDecision(decision: TradeDecision) {
+  return {
+    side: decision.side,
+    entry_price: decision.entry_price,
+    size_usd: decision.size_usd,
+    exit_conditions: decision.exit_conditions.map(exit => exit.type),
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * Market State Store Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  JsonFileMarketStateStore,
+  InMemoryMarketStateStore,
+  reviveMarketStateDates,
+  type MarketStateSnapshot,
+} from "./market-state-store.js";
+import { existsSync } from "node:fs";
+import { rm, readFile, writeFile, appendFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+
+function createSnapshot(marketId: string): MarketStateSnapshot {
+  return {
+    marketId,
+    belief: {
+      belief_low: 62,
+      belief_high: 74,
+      confidence: 71,
+      unknowns: [
+        {
+          id: "u1",
+          description: "Pending court ruling",
+          added_at: new Date("2026-01-05T10:00:00Z"),
+          resolved_at: new Date("2026-01-06T10:00:00Z"),
+          resolution_reason: "Ruling published",
+        },
+      ],
+      last_updated: new Date("2026-01-06T12:00:00Z"),
+      last_signal: {
+        type: "authoritative",
+        direction: "up",
+        strength: 4,
+        conflicts_with_existing: false,
+        timestamp: new Date("2026-01-06T11:59:00Z"),
+        source: "sec.gov",
+      },
+    },
+    signalHistory: [
+      {
+        type: "authoritative",
+        direction: "up",
+        strength: 4,
+        conflicts_with_existing: false,
+        timestamp: new Date("2026-01-06T11:59:00Z"),
+        source: "sec.gov",
+        description: "SEC approves filing",
+      },
+    ],
+    lastChecked: new Date("2026-01-06T12:01:00Z"),
+  };
+}
+
+describe("JsonFileMarketStateStore", () => {
+  const testDir = "./test-market-state";
+  const testFile = join(testDir, "market-states.jsonl");
+  const legacyFile = join(testDir, "market-states.json");
+
+  afterEach(async () => {
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should return an empty map when no file exists", async () => {
+    const store = new JsonFileMarketStateStore(testFile);
+    const snapshots = await store.load();
+    expect(snapshots.size).toBe(0);
+  });
+
+  it("should persist and rehydrate snapshots across instances", async () => {
+    const store = new JsonFileMarketStateStore(testFile);
+    await store.save(createSnapshot("market-1"));
+    await store.save(createSnapshot("market-2"));
+
+    const restarted = new JsonFileMarketStateStore(testFile);
+    const snapshots = await restarted.load();
+
+    expect(snapshots.size).toBe(2);
+    const restored = snapshots.get("market-1");
+    expect(restored?.belief.belief_low).toBe(62);
+    expect(restored?.belief.belief_high).toBe(74);
+    expect(restored?.belief.confidence).toBe(71);
+    expect(restored?.signalHistory).toHaveLength(1);
+  });
+
+  it("should revive Date fields", async () => {
+    const store = new JsonFileMarketStateStore(testFile);
+    await store.save(createSnapshot("market-1"));
+
+    const snapshots = await new JsonFileMarketStateStore(testFile).load();
+    const restored = snapshots.get("market-1");
+
+    expect(restored?.lastChecked).toBeInstanceOf(Date);
+    expect(restored?.belief.last_updated).toBeInstanceOf(Date);
+    expect(restored?.belief.last_updated.toISOString()).toBe("2026-01-06T12:00:00.000Z");
+    expect(restored?.belief.last_signal?.timestamp).toBeInstanceOf(Date);
+    expect(restored?.signalHistory[0]?.timestamp).toBeInstanceOf(Date);
+    expect(restored?.belief.unknowns[0]?.added_at).toBeInstanceOf(Date);
+    expect(restored?.belief.unknowns[0]?.resolved_at).toBeInstanceOf(Date);
+  });
+
+  it("should remove deleted markets from the file", async () => {
+    const store = new JsonFileMarketStateStore(testFile);
+    await store.save(createSnapshot("market-1"));
+    await store.save(createSnapshot("market-2"));
+    await store.delete("market-1");
+
+    const snapshots = await new JsonFileMarketStateStore(testFile).load();
+    expect(snapshots.has("market-1")).toBe(false);
+    expect(snapshots.has("market-2")).toBe(true);
+  });
+
+  it("should append only the changed market", async () => {
+    const store = new JsonFileMarketStateStore(testFile);
+    await store.save(createSnapshot("market-1"));
+    await store.save(createSnapshot("market-2"));
+    const before = await readFile(testFile, "utf-8");
+
+    await store.save({ ...createSnapshot("market-1"), lastChecked: new Date("2026-01-07T00:00:00Z") });
+
+    const after = await readFile(testFile, "utf-8");
+    expect(after.startsWith(before)).toBe(true);
+    const appended = after.slice(before.length);
+    expect(appended).toContain("market-1");
+    expect(appended).not.toContain("market-2");
+
+    const snapshots = await new JsonFileMarketStateStore(testFile).load();
+    expect(snapshots.get("market-1")?.lastChecked.toISOString()).toBe("2026-01-07T00:00:00.000Z");
+  });
+
+  it("should compact the journal once it grows", async () => {
+    const store = new JsonFileMarketStateStore(testFile);
+    for (let i = 0; i < 250; i++) {
+      await store.save({ ...createSnapshot("market-1"), lastChecked: new Date(Date.UTC(2026, 0, 1, 0, i)) });
+    }
+
+    const lines = (await readFile(testFile, "utf-8")).trim().split("\n");
+    expect(lines.length).toBeLessThanOrEqual(100);
+
+    const snapshots = await new JsonFileMarketStateStore(testFile).load();
+    expect(snapshots.get("market-1")?.lastChecked.toISOString()).toBe("2026-01-01T04:09:00.000Z");
+  });
+
+  it("should skip a line cut short by a crash", async () => {
+    const store = new JsonFileMarketStateStore(testFile);
+    await store.save(createSnapshot("market-1"));
+    await appendFile(testFile, '{"save":{"marketId":"market-2"', "utf-8");
+
+    const restarted = new JsonFileMarketStateStore(testFile);
+    expect([...(await restarted.load()).keys()]).toEqual(["market-1"]);
+
+    // The next write doesn't land on the broken line
+    await restarted.save(createSnapshot("market-3"));
+    const snapshots = await new JsonFileMarketStateStore(testFile).load();
+    expect([...snapshots.keys()].sort()).toEqual(["market-1", "market-3"]);
+  });
+
+  it("should load version 1 files", async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      testFile,
+      JSON.stringify({ version: 1, savedAt: "2026-01-06T12:02:00Z", markets: { "market-1": createSnapshot("market-1") } }),
+      "utf-8"
+    );
+
+    const store = new JsonFileMarketStateStore(testFile);
+    const snapshots = await store.load();
+    expect(snapshots.get("market-1")?.lastChecked).toBeInstanceOf(Date);
+
+    await store.save(createSnapshot("market-2"));
+    const restored = await new JsonFileMarketStateStore(testFile).load();
+    expect([...restored.keys()].sort()).toEqual(["market-1", "market-2"]);
+  });
+
+  it("should fall back to the legacy path until the journal exists", async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      legacyFile,
+      JSON.stringify({ version: 1, savedAt: "2026-01-06T12:02:00Z", markets: { "market-1": createSnapshot("market-1") } }),
+      "utf-8"
+    );
+
+    const store = new JsonFileMarketStateStore(testFile, legacyFile);
+    expect([...(await store.load()).keys()]).toEqual(["market-1"]);
+    expect(existsSync(testFile)).toBe(false);
+
+    await store.save(createSnapshot("market-2"));
+    const restored = await new JsonFileMarketStateStore(testFile).load();
+    expect([...restored.keys()].sort()).toEqual(["market-1", "market-2"]);
+  });
+
+  it("should start fresh when the file is corrupt", async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(testFile, "{ not json", "utf-8");
+
+    const store = new JsonFileMarketStateStore(testFile);
+    const snapshots = await store.load();
+    expect(snapshots.size).toBe(0);
+  });
+});
+
+describe("InMemoryMarketStateStore", () => {
+  let store: InMemoryMarketStateStore;
+
+  beforeEach(() => {
+    store = new InMemoryMarketStateStore();
+  });
+
+  it("should isolate saved snapshots from later mutation", async () => {
+    const snapshot = createSnapshot("market-1");
+    await store.save(snapshot);
+    snapshot.signalHistory.length = 0;
+
+    const snapshots = await store.load();
+    expect(snapshots.get("market-1")?.signalHistory).toHaveLength(1);
+  });
+});
+
+describe("reviveMarketStateDates", () => {
+  it("should leave non-date keys and invalid dates untouched", () => {
+    expect(reviveMarketStateDates("description", "2026-01-01T00:00:00Z")).toBe(
+      "2026-01-01T00:00:00Z"
+    );
+    expect(reviveMarketStateDates("timestamp", "not a date")).toBe("not a date");
+  });
+});
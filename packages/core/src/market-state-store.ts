@@ -0,0 +1,244 @@
+/**
+ * Market State Persistence
+ *
+ * Snapshots per-market belief state and signal history so that
+ * deploys and crashes don't reset every market back to its prior.
+ *
+ * The store is pluggable: TradingService only depends on the
+ * MarketStateStore interface. JsonFileMarketStateStore, a local JSON
+ * Lines journal, is the default; InMemoryMarketStateStore is for tests.
+ */
+
+import { readFile, writeFile, appendFile, rename, mkdir } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { dirname } from "node:path";
+import type { BeliefState, Signal } from "@pomabot/shared";
+
+export interface MarketStateSnapshot {
+  marketId: string;
+  belief: BeliefState;
+  signalHistory: Signal[];
+  seenSignalIds?: string[];   // Signal IDs already ingested, oldest first (absent in older files)
+  lastChecked: Date;
+}
+
+export interface MarketStateStore {
+  load(): Promise<Map<string, MarketStateSnapshot>>;
+  save(snapshot: MarketStateSnapshot): Promise<void>;
+  delete(marketId: string): Promise<void>;
+}
+
+/** First line of the journal; version 1 files are this line alone, with every market */
+interface MarketStateFileHeader {
+  version: number;
+  savedAt: string;
+  markets?: Record<string, MarketStateSnapshot>;
+}
+
+/** One journal line per saved or deleted market */
+type JournalEntry = { save: MarketStateSnapshot } | { delete: string };
+
+export const DEFAULT_MARKET_STATE_FILE = "./data/market-states.jsonl";
+// Where the store lived while it was a single JSON object; read once if the journal is missing
+export const LEGACY_MARKET_STATE_FILE = "./data/market-states.json";
+
+const STORE_FILE_VERSION = 2;
+const LEGACY_FILE_VERSION = 1; // Single JSON object rewritten on every save
+
+// Compact once the journal holds this many times more lines than markets
+const COMPACTION_FACTOR = 4;
+const MIN_COMPACTION_LINES = 100;
+
+/**
+ * Keys holding ISO date strings after JSON serialization
+ * (BeliefState.last_updated, Signal.timestamp, Unknown.added_at/resolved_at)
+ */
+const DATE_KEYS = new Set([
+  "last_updated",
+  "timestamp",
+  "added_at",
+  "resolved_at",
+  "lastChecked",
+]);
+
+/**
+ * JSON.parse reviver that restores Date fields of persisted market state
+ */
+export function reviveMarketStateDates(key: string, value: unknown): unknown {
+  if (DATE_KEYS.has(key) && typeof value === "string") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+/**
+ * In-memory store (for tests and when persistence is disabled)
+ */
+export class InMemoryMarketStateStore implements MarketStateStore {
+  private snapshots: Map<string, MarketStateSnapshot> = new Map();
+
+  async load(): Promise<Map<string, MarketStateSnapshot>> {
+    return new Map(this.snapshots);
+  }
+
+  async save(snapshot: MarketStateSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.marketId, structuredClone(snapshot));
+  }
+
+  async delete(marketId: string): Promise<void> {
+    this.snapshots.delete(marketId);
+  }
+}
+
+/**
+ * JsonFileMarketStateStore - Local JSON Lines journal (the default store)
+ *
+ * Each save or delete appends one line for that market only, so a cycle
+ * that touches a few markets doesn't rewrite all of them. Once the
+ * journal is several times longer than the number of markets it is
+ * compacted to one line per market, atomically (temp file + rename).
+ * Writes are serialized; a line cut short by a crash is skipped on load.
+ * When the journal doesn't exist yet, a file at the legacy path is loaded
+ * instead and the first save writes it out to the journal path.
+ */
+export class JsonFileMarketStateStore implements MarketStateStore {
+  private filePath: string;
+  private snapshots: Map<string, MarketStateSnapshot> = new Map();
+  private writeChain: Promise<void> = Promise.resolve();
+  private legacyFilePath?: string;
+  private journalLines = 0;   // Lines in the file; 0 until a valid journal is on disk
+
+  constructor(
+    filePath: string = DEFAULT_MARKET_STATE_FILE,
+    legacyFilePath: string | undefined = filePath === DEFAULT_MARKET_STATE_FILE ? LEGACY_MARKET_STATE_FILE : undefined
+  ) {
+    this.filePath = filePath;
+    this.legacyFilePath = legacyFilePath;
+  }
+
+  /**
+   * Load all persisted snapshots, reviving Date fields
+   * A missing or corrupt file yields an empty map
+   */
+  async load(): Promise<Map<string, MarketStateSnapshot>> {
+    this.snapshots.clear();
+    this.journalLines = 0;
+
+    const sourcePath = existsSync(this.filePath) ? this.filePath : this.legacyFilePath;
+    if (!sourcePath || !existsSync(sourcePath)) {
+      return new Map();
+    }
+    if (sourcePath !== this.filePath) {
+      console.log(`📦 Loading market states from ${sourcePath}; saving them to ${this.filePath} from now on`);
+    }
+
+    try {
+      const content = await readFile(sourcePath, "utf-8");
+      const [headerLine, ...entryLines] = content.split("\n").filter(line => line.trim());
+      if (!headerLine) return new Map();
+      const header = JSON.parse(headerLine, reviveMarketStateDates) as MarketStateFileHeader;
+
+      // Rewritten as a journal on the next save
+      if (header.version === LEGACY_FILE_VERSION) {
+        for (const [marketId, snapshot] of Object.entries(header.markets ?? {})) {
+          this.snapshots.set(marketId, snapshot);
+        }
+        return new Map(this.snapshots);
+      }
+
+      if (header.version !== STORE_FILE_VERSION) {
+        console.warn(
+          `⚠️ Unsupported market state file version ${header.version} - starting fresh`
+        );
+        return new Map();
+      }
+
+      let skipped = false;
+      for (const line of entryLines) {
+        let entry: JournalEntry;
+        try {
+          entry = JSON.parse(line, reviveMarketStateDates) as JournalEntry;
+        } catch {
+          console.warn(`⚠️ Skipping unreadable line in ${sourcePath}`);
+          skipped = true;
+          continue;
+        }
+
+        if ("save" in entry) {
+          this.snapshots.set(entry.save.marketId, entry.save);
+        } else {
+          this.snapshots.delete(entry.delete);
+        }
+      }
+      // Appending after a broken line would join the two, and a legacy file
+      // isn't at the journal path, so compact first
+      this.journalLines = skipped || sourcePath !== this.filePath ? 0 : 1 + entryLines.length;
+    } catch (error) {
+      console.error(`Failed to load market states from ${sourcePath}:`, error);
+    }
+
+    return new Map(this.snapshots);
+  }
+
+  /**
+   * Record a snapshot and append it to the journal
+   */
+  async save(snapshot: MarketStateSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.marketId, snapshot);
+    await this.persist({ save: snapshot });
+  }
+
+  /**
+   * Remove a market (e.g. after it expires) and append the removal
+   */
+  async delete(marketId: string): Promise<void> {
+    if (this.snapshots.delete(marketId)) {
+      await this.persist({ delete: marketId });
+    }
+  }
+
+  /**
+   * Queue a write behind any in-flight write: the entry alone, or the
+   * whole compacted journal when there's no journal yet or it has grown
+   * too long
+   */
+  private persist(entry: JournalEntry): Promise<void> {
+    const compact = this.journalLines === 0 ||
+      this.journalLines >= Math.max(MIN_COMPACTION_LINES, COMPACTION_FACTOR * this.snapshots.size);
+
+    let write: () => Promise<void>;
+    if (compact) {
+      const header: MarketStateFileHeader = { version: STORE_FILE_VERSION, savedAt: new Date().toISOString() };
+      const lines = [header, ...Array.from(this.snapshots.values(), snapshot => ({ save: snapshot }))]
+        .map(line => JSON.stringify(line));
+      const content = `${lines.join("\n")}\n`;
+      this.journalLines = lines.length;
+      write = () => this.writeAtomic(content);
+    } else {
+      const line = `${JSON.stringify(entry)}\n`;
+      this.journalLines++;
+      write = () => appendFile(this.filePath, line, "utf-8");
+    }
+
+    this.writeChain = this.writeChain
+      .then(write)
+      .catch(error => {
+        console.error(`Failed to persist market states to ${this.filePath}:`, error);
+        this.journalLines = 0; // Rewrite the whole journal next time
+      });
+
+    return this.writeChain;
+  }
+
+  private async writeAtomic(content: string): Promise<void> {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, content, "utf-8");
+    await rename(tempPath, this.filePath);
+  }
+}
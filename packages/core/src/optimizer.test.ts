@@ -0,0 +1,116 @@
+/**
+ * Test Suite: Strategy Parameter Optimizer
+ */
+
+import { describe, test, expect } from "vitest";
+import { fileURLToPath } from "node:url";
+import { DEFAULT_STRATEGY_PARAMS, THRESHOLDS } from "@pomabot/shared";
+import {
+  ParameterOptimizer,
+  applyParameterSet,
+  enumerateGrid,
+  sampleParameterSets,
+} from "./optimizer";
+import { Backtester } from "./backtest";
+import { loadBacktestDataset } from "./backtest-dataset";
+
+const fixturePath = (name: string) =>
+  fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+
+describe("Parameter sets", () => {
+  test("should override parameters without mutating the defaults", () => {
+    const params = applyParameterSet(DEFAULT_STRATEGY_PARAMS, {
+      "thresholds.MIN_CONFIDENCE": 70,
+      "minEdge.sports": 0.2,
+      "impactCaps.authoritative": 0.1,
+    });
+
+    expect(params.thresholds.MIN_CONFIDENCE).toBe(70);
+    expect(params.minEdge.sports).toBe(0.2);
+    expect(params.impactCaps.authoritative).toBe(0.1);
+    expect(THRESHOLDS.MIN_CONFIDENCE).toBe(65);
+    expect(DEFAULT_STRATEGY_PARAMS.minEdge.sports).toBe(0.1);
+  });
+
+  test("should reject unknown parameter paths", () => {
+    expect(() => applyParameterSet(DEFAULT_STRATEGY_PARAMS, { "foo.bar": 1 })).toThrow();
+    expect(() =>
+      applyParameterSet(DEFAULT_STRATEGY_PARAMS, { "thresholds.NOT_A_THRESHOLD": 1 })
+    ).toThrow(/Unknown thresholds key "NOT_A_THRESHOLD"/);
+    expect(() => applyParameterSet(DEFAULT_STRATEGY_PARAMS, { "minEdge.sport": 0.2 }))
+      .toThrow(/Unknown minEdge key "sport"/);
+    expect(() => applyParameterSet(DEFAULT_STRATEGY_PARAMS, { "impactCaps.authorative": 0.1 }))
+      .toThrow(/Unknown impactCaps key "authorative"/);
+    expect(() => applyParameterSet(DEFAULT_STRATEGY_PARAMS, { "thresholds.constructor": 1 }))
+      .toThrow(/Unknown thresholds key/);
+  });
+
+  test("should enumerate the full grid", () => {
+    const grid = enumerateGrid({
+      "thresholds.MIN_CONFIDENCE": [60, 65, 70],
+      "thresholds.MAX_BELIEF_WIDTH": [20, 25],
+    });
+
+    expect(grid).toHaveLength(6);
+    expect(grid).toContainEqual({
+      "thresholds.MIN_CONFIDENCE": 70,
+      "thresholds.MAX_BELIEF_WIDTH": 20,
+    });
+  });
+
+  test("should sample reproducibly for a given seed", () => {
+    const space = {
+      "thresholds.MIN_CONFIDENCE": [55, 60, 65, 70, 75],
+      "minEdge.politics": [0.08, 0.1, 0.12, 0.15],
+    };
+
+    const first = sampleParameterSets(space, 5, 42);
+    const second = sampleParameterSets(space, 5, 42);
+
+    expect(first).toHaveLength(5);
+    expect(second).toEqual(first);
+    expect(new Set(first.map(s => JSON.stringify(s))).size).toBe(5);
+  });
+});
+
+describe("ParameterOptimizer", () => {
+  test("should match the default backtest when no overrides are given", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const [candidate] = new ParameterOptimizer().evaluate(dataset, [{}]);
+
+    expect(candidate?.result.totalPnl).toBeCloseTo(new Backtester().run(dataset).totalPnl, 6);
+  });
+
+  test("should rank grid candidates by the chosen objective", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const space = { "minEdge.politics": [0.12, 0.5] };
+
+    // A 50% politics edge minimum skips the losing senate trade → no drawdown
+    const byDrawdown = new ParameterOptimizer({ objective: "drawdown" }).gridSearch(dataset, space);
+    expect(byDrawdown[0]?.overrides).toEqual({ "minEdge.politics": 0.5 });
+    expect(byDrawdown[0]?.result.trades).toHaveLength(1);
+
+    // Sharpe needs at least two settled trades, so the default wins there
+    const bySharpe = new ParameterOptimizer({ objective: "sharpe" }).gridSearch(dataset, space);
+    expect(bySharpe[0]?.overrides).toEqual({ "minEdge.politics": 0.12 });
+  });
+
+  test("should score each fold on markets outside its training window", async () => {
+    const dataset = await loadBacktestDataset(fixturePath("backtest-sample.json"));
+    const result = new ParameterOptimizer({ objective: "drawdown" }).walkForward(
+      dataset,
+      enumerateGrid({ "minEdge.politics": [0.12, 0.5] }),
+      2
+    );
+
+    expect(result.folds).toHaveLength(2);
+    for (const fold of result.folds) {
+      expect(fold.testMarketIds.some(id => fold.trainMarketIds.includes(id))).toBe(false);
+    }
+    expect(result.folds[1]?.trainMarketIds).toHaveLength(2);
+    expect(result.testPnl).toBeCloseTo(
+      result.folds.reduce((sum, f) => sum + f.test.totalPnl, 0),
+      6
+    );
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Strategy Parameter Optimizer
+ *
+ * Grid and random search over engine thresholds, per-category edge
+ * minimums and signal impact caps on top of the Backtester, with
+ * walk-forward splits so a configuration is always scored on markets
+ * it was not selected on.
+ *
+ * Parameters are addressed by dotted paths into StrategyParams:
+ *   "thresholds.MIN_CONFIDENCE", "minEdge.sports", "impactCaps.authoritative"
+ */
+
+import type { StrategyParams } from "@pomabot/shared";
+import { DEFAULT_STRATEGY_PARAMS } from "@pomabot/shared";
+import { Backtester, type BacktestConfig, type BacktestResult } from "./backtest.js";
+import type { BacktestDataset, BacktestMarket } from "./backtest-dataset.js";
+
+/** Candidate values per parameter path */
+export type ParameterSpace = Record<string, number[]>;
+
+/** One concrete assignment of parameter path → value */
+export type ParameterSet = Record<string, number>;
+
+export type RankingMetric = "sharpe" | "drawdown" | "brier";
+
+export interface OptimizerConfig {
+  objective: RankingMetric;
+  baseParams: StrategyParams;
+  backtest: Partial<Omit<BacktestConfig, "params">>;
+}
+
+export interface OptimizationCandidate {
+  overrides: ParameterSet;
+  params: StrategyParams;
+  result: BacktestResult;
+}
+
+export interface WalkForwardFold {
+  fold: number;
+  trainMarketIds: string[];
+  testMarketIds: string[];
+  selected: OptimizationCandidate;   // Best on the training window
+  test: BacktestResult;              // Same parameters on the unseen window
+}
+
+export interface WalkForwardResult {
+  objective: RankingMetric;
+  folds: WalkForwardFold[];
+  testPnl: number;                   // Summed out-of-sample P&L across folds
+}
+
+const PARAMETER_GROUPS = ["thresholds", "minEdge", "impactCaps"] as const;
+type ParameterGroup = (typeof PARAMETER_GROUPS)[number];
+
+/** Refuse sweeps that would take hours on a single core */
+const MAX_GRID_SIZE = 10000;
+
+const DEFAULT_OPTIMIZER_CONFIG: OptimizerConfig = {
+  objective: "sharpe",
+  baseParams: DEFAULT_STRATEGY_PARAMS,
+  backtest: {},
+};
+
+/**
+ * Apply overrides to a copy of the base parameters
+ */
+export function applyParameterSet(
+  base: StrategyParams,
+  overrides: ParameterSet
+): StrategyParams {
+  const params: StrategyParams = {
+    thresholds: { ...base.thresholds },
+    minEdge: { ...base.minEdge },
+    impactCaps: { ...base.impactCaps },
+  };
+
+  for (const [path, value] of Object.entries(overrides)) {
+    const [group, key, ...rest] = path.split(".");
+    if (!key || rest.length > 0 || !isParameterGroup(group)) {
+      throw new Error(`Invalid parameter path "${path}"`);
+    }
+    // Only keys the base already has: a typo like "minEdge.sport" must not add a new one
+    const values: Record<string, number> = params[group];
+    if (!Object.hasOwn(values, key)) {
+      throw new Error(`Unknown ${group} key "${key}"`);
+    }
+    values[key] = value;
+  }
+
+  return params;
+}
+
+function isParameterGroup(group: string | undefined): group is ParameterGroup {
+  return PARAMETER_GROUPS.some(known => known === group);
+}
+
+/**
+ * Cartesian product of every candidate value
+ */
+export function enumerateGrid(space: ParameterSpace): ParameterSet[] {
+  const paths = Object.keys(space);
+  const size = paths.reduce((product, path) => product * (space[path]?.length ?? 0), 1);
+  if (size > MAX_GRID_SIZE) {
+    throw new Error(`Grid of ${size} combinations exceeds ${MAX_GRID_SIZE}; use random search`);
+  }
+
+  let sets: ParameterSet[] = [{}];
+  for (const path of paths) {
+    const values = space[path] ?? [];
+    sets = sets.flatMap(set => values.map(value => ({ ...set, [path]: value })));
+  }
+  return sets;
+}
+
+/**
+ * Draw parameter sets uniformly from the space with a seeded PRNG
+ * Duplicates are skipped, so fewer than `samples` may be returned
+ */
+export function sampleParameterSets(
+  space: ParameterSpace,
+  samples: number,
+  seed: number = 1
+): ParameterSet[] {
+  const random = mulberry32(seed);
+  const seen = new Set<string>();
+  const sets: ParameterSet[] = [];
+  const maxAttempts = samples * 10;
+
+  for (let attempt = 0; attempt < maxAttempts && sets.length < samples; attempt++) {
+    const set: ParameterSet = {};
+    for (const [path, values] of Object.entries(space)) {
+      if (values.length === 0) continue;
+      set[path] = values[Math.floor(random() * values.length)]!;
+    }
+
+    const key = JSON.stringify(set);
+    if (!seen.has(key)) {
+      seen.add(key);
+      sets.push(set);
+    }
+  }
+
+  return sets;
+}
+
+/**
+ * Order results best-first by the objective, breaking ties with the
+ * other two metrics (higher Sharpe, lower drawdown, lower Brier)
+ */
+export function compareResults(
+  a: BacktestResult,
+  b: BacktestResult,
+  objective: RankingMetric
+): number {
+  const metrics: Record<RankingMetric, (r: BacktestResult) => number> = {
+    sharpe: r => -(r.sharpeRatio ?? Number.NEGATIVE_INFINITY),
+    drawdown: r => r.maxDrawdown,
+    brier: r => r.brierScore,
+  };
+  const order: RankingMetric[] = [
+    objective,
+    ...(["sharpe", "drawdown", "brier"] as const).filter(m => m !== objective),
+  ];
+
+  for (const metric of order) {
+    const diff = metrics[metric](a) - metrics[metric](b);
+    if (diff !== 0 && !Number.isNaN(diff)) {
+      return diff;
+    }
+  }
+  return b.totalPnl - a.totalPnl;
+}
+
+/**
+ * ParameterOptimizer - searches StrategyParams against recorded markets
+ */
+export class ParameterOptimizer {
+  private config: OptimizerConfig;
+
+  constructor(config: Partial<OptimizerConfig> = {}) {
+    this.config = { ...DEFAULT_OPTIMIZER_CONFIG, ...config };
+  }
+
+  /**
+   * Backtest every parameter set and return candidates best-first
+   */
+  evaluate(dataset: BacktestDataset, sets: ParameterSet[]): OptimizationCandidate[] {
+    const candidates = sets.map(overrides => {
+      const params = applyParameterSet(this.config.baseParams, overrides);
+      const result = new Backtester({ ...this.config.backtest, params }).run(dataset);
+      return { overrides, params, result };
+    });
+
+    return candidates.sort((a, b) => compareResults(a.result, b.result, this.config.objective));
+  }
+
+  gridSearch(dataset: BacktestDataset, space: ParameterSpace): OptimizationCandidate[] {
+    return this.evaluate(dataset, enumerateGrid(space));
+  }
+
+  randomSearch(
+    dataset: BacktestDataset,
+    space: ParameterSpace,
+    samples: number,
+    seed?: number
+  ): OptimizationCandidate[] {
+    return this.evaluate(dataset, sampleParameterSets(space, samples, seed));
+  }
+
+  /**
+   * Expanding-window walk-forward validation
+   *
+   * Markets are ordered by creation time and cut into `folds + 1`
+   * contiguous windows. Fold k selects the best parameter set on
+   * windows 0..k and reports its performance on window k+1.
+   */
+  walkForward(
+    dataset: BacktestDataset,
+    sets: ParameterSet[],
+    folds: number = 3
+  ): WalkForwardResult {
+    if (sets.length === 0) {
+      throw new Error("Walk-forward needs at least one parameter set");
+    }
+
+    const windows = splitChronologically(dataset.markets, folds + 1);
+    if (windows.length < 2) {
+      throw new Error(`Not enough markets for ${folds} walk-forward folds`);
+    }
+
+    const results: WalkForwardFold[] = [];
+    for (let k = 0; k < windows.length - 1; k++) {
+      const train = windows.slice(0, k + 1).flat();
+      const test = windows[k + 1]!;
+
+      const [selected] = this.evaluate({ name: dataset.name, markets: train }, sets);
+      const testResult = new Backtester({
+        ...this.config.backtest,
+        params: selected!.params,
+      }).run({ name: dataset.name, markets: test });
+
+      results.push({
+        fold: k + 1,
+        trainMarketIds: train.map(m => m.market.id),
+        testMarketIds: test.map(m => m.market.id),
+        selected: selected!,
+        test: testResult,
+      });
+    }
+
+    return {
+      objective: this.config.objective,
+      folds: results,
+      testPnl: results.reduce((sum, f) => sum + f.test.totalPnl, 0),
+    };
+  }
+}
+
+/**
+ * Split markets into `count` contiguous windows by creation time
+ * Empty windows are dropped when there are fewer markets than windows
+ */
+function splitChronologically(markets: BacktestMarket[], count: number): BacktestMarket[][] {
+  const sorted = [...markets].sort(
+    (a, b) =>
+      a.market.created_at.getTime() - b.market.created_at.getTime() ||
+      a.market.id.localeCompare(b.market.id)
+  );
+
+  const windows: BacktestMarket[][] = [];
+  for (let i = 0; i < count; i++) {
+    const start = Math.floor((i * sorted.length) / count);
+    const end = Math.floor(((i + 1) * sorted.length) / count);
+    if (end > start) {
+      windows.push(sorted.slice(start, end));
+    }
+  }
+  return windows;
+}
+
+/**
+ * Small seeded PRNG so random searches are reproducible
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,289 @@
+/**
+ * Order Store and Reconciliation Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync } from "node:fs";
+import { rm, writeFile, mkdir } from "node:fs/promises";
+import { join } from "node:path";
+import type { TradeDecision } from "@pomabot/shared";
+import { ExecutionLayer, type Order, type OrderConnector } from "./execution.js";
+import { InMemoryOrderStore, JsonFileOrderStore } from "./order-store.js";
+import { PositionLedger } from "./position-ledger.js";
+
+type ClobStatus = Awaited<ReturnType<OrderConnector["getOrderStatus"]>>;
+
+/**
+ * Local stand-in for the CLOB: orders rest until a test fills or cancels them
+ */
+class FakeClob implements OrderConnector {
+  placed: Array<Parameters<OrderConnector["placeOrder"]>[0]> = [];
+  statuses: Map<string, NonNullable<ClobStatus>> = new Map();
+  private nextId = 1;
+
+  async placeOrder(params: Parameters<OrderConnector["placeOrder"]>[0]) {
+    const orderId = `clob-${this.nextId++}`;
+    this.placed.push(params);
+    this.statuses.set(orderId, { status: "LIVE" });
+    return { orderId };
+  }
+
+  async getOrderStatus(orderId: string): Promise<ClobStatus> {
+    return this.statuses.get(orderId);
+  }
+
+  async cancelOrder(orderId: string): Promise<boolean> {
+    this.statuses.set(orderId, { status: "CANCELLED" });
+    return true;
+  }
+}
+
+function createDecision(overrides: Partial<TradeDecision> = {}): TradeDecision {
+  return {
+    side: "YES",
+    size_usd: 50,
+    entry_price: 40,
+    exit_conditions: [{ type: "emergency", description: "test" }],
+    rationale: "test",
+    rationale_hash: "hash",
+    timestamp: new Date(),
+    ...overrides,
+  };
+}
+
+function createOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: "order_1",
+    market_id: "market-1",
+    side: "YES",
+    size_usd: 50,
+    limit_price: 40,
+    status: "partial",
+    filled_size: 20,
+    created_at: new Date("2026-03-01T12:00:00Z"),
+    updated_at: new Date("2026-03-01T12:05:00Z"),
+    clob_order_id: "clob-9",
+    outcome_limit_price: 40,
+    ...overrides,
+  };
+}
+
+describe("JsonFileOrderStore", () => {
+  const testDir = "./test-order-store";
+  const testFile = join(testDir, "orders.json");
+
+  afterEach(async () => {
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should return no orders when no file exists", async () => {
+    expect(await new JsonFileOrderStore(testFile).load()).toEqual([]);
+  });
+
+  it("should persist the latest state of each order with revived dates", async () => {
+    const store = new JsonFileOrderStore(testFile);
+    await store.save(createOrder({ status: "pending", filled_size: 0 }));
+    await store.save(createOrder());
+    await store.save(createOrder({ id: "order_2", status: "filled", filled_size: 50 }));
+
+    const orders = await new JsonFileOrderStore(testFile).load();
+    const restored = orders.find(o => o.id === "order_1");
+
+    expect(orders).toHaveLength(2);
+    expect(restored?.status).toBe("partial");
+    expect(restored?.filled_size).toBe(20);
+    expect(restored?.clob_order_id).toBe("clob-9");
+    expect(restored?.created_at).toBeInstanceOf(Date);
+    expect(restored?.updated_at.toISOString()).toBe("2026-03-01T12:05:00.000Z");
+  });
+
+  it("should start fresh when the file is corrupt", async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(testFile, "{ not json", "utf-8");
+
+    expect(await new JsonFileOrderStore(testFile).load()).toEqual([]);
+  });
+});
+
+describe("ExecutionLayer reconciliation", () => {
+  let clob: FakeClob;
+  let store: InMemoryOrderStore;
+
+  beforeEach(() => {
+    clob = new FakeClob();
+    store = new InMemoryOrderStore();
+  });
+
+  function restart(): { execution: ExecutionLayer; ledger: PositionLedger } {
+    const ledger = new PositionLedger();
+    return { execution: new ExecutionLayer(clob, false, ledger, store), ledger };
+  }
+
+  it("should persist orders with their CLOB order ID", async () => {
+    const { execution } = restart();
+    const result = await execution.executeTrade(createDecision(), "market-1", "yes-token");
+
+    const [persisted] = await store.load();
+    expect(persisted?.id).toBe(result.order?.id);
+    expect(persisted?.clob_order_id).toBe("clob-1");
+    expect(persisted?.status).toBe("pending");
+  });
+
+  it("should book fills made while the service was down", async () => {
+    const first = restart();
+    await first.execution.executeTrade(createDecision(), "market-1", "yes-token");
+
+    // Filled on the CLOB after the crash
+    clob.statuses.set("clob-1", { status: "MATCHED", filledAmount: 50, averagePrice: 0.4 });
+
+    const { execution, ledger } = restart();
+    const result = await execution.reconcile();
+
+    expect(result).toEqual({ restored: 1, synced: 1, cancelled: 0, openPositions: 1 });
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(125, 6);
+    expect((await store.load())[0]?.status).toBe("filled");
+  });
+
+  it("should keep the no-averaging-down guard for orders still working", async () => {
+    const first = restart();
+    await first.execution.executeTrade(createDecision(), "market-1", "yes-token");
+
+    const { execution } = restart();
+    await execution.reconcile();
+
+    expect(execution.hasPosition("market-1")).toBe(true);
+    const retry = await execution.executeTrade(createDecision(), "market-1", "yes-token");
+    expect(retry.success).toBe(false);
+    expect(clob.placed).toHaveLength(1);
+  });
+
+  it("should rebuild positions from partial fills and then pick up new ones", async () => {
+    const first = restart();
+    await first.execution.executeTrade(createDecision(), "market-1", "yes-token");
+    clob.statuses.set("clob-1", { status: "LIVE", filledAmount: 20, averagePrice: 0.4 });
+    await first.execution.syncWorkingOrders();
+
+    const { execution, ledger } = restart();
+    await execution.reconcile();
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(50, 6);
+
+    clob.statuses.set("clob-1", { status: "MATCHED", filledAmount: 50, averagePrice: 0.4 });
+    expect(await execution.syncWorkingOrders()).toBe(1);
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(125, 6);
+    expect(await execution.syncWorkingOrders()).toBe(0);
+  });
+
+  it("should replay the shares booked live, not filled USD at the final price", async () => {
+    const first = restart();
+    await first.execution.executeTrade(createDecision(), "market-1", "yes-token");
+    // First slice booked at the limit, the rest once the CLOB reports a better average
+    clob.statuses.set("clob-1", { status: "LIVE", filledAmount: 20 });
+    await first.execution.syncWorkingOrders();
+    clob.statuses.set("clob-1", { status: "MATCHED", filledAmount: 50, averagePrice: 0.38 });
+    await first.execution.syncWorkingOrders();
+    const liveShares = first.ledger.getOpenPosition("market-1")?.shares;
+
+    const { execution, ledger } = restart();
+    await execution.reconcile();
+
+    expect(liveShares).toBeCloseTo(50 + 30 / 0.38, 6);
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(liveShares!, 6);
+  });
+
+  it("should cap replayed sells at the shares held", async () => {
+    await store.save(createOrder({ id: "order_1", status: "filled", filled_size: 50, clob_order_id: "clob-1" }));
+    // Stored before booked shares were recorded: 80 USD at 60 is more than the 125 shares held
+    await store.save(createOrder({
+      id: "order_2",
+      action: "SELL",
+      status: "filled",
+      filled_size: 80,
+      realized_fill_price: 60,
+      outcome_limit_price: 60,
+      clob_order_id: "clob-2",
+      created_at: new Date("2026-03-02T12:00:00Z"),
+    }));
+
+    const { execution, ledger } = restart();
+    const result = await execution.reconcile();
+
+    expect(result.openPositions).toBe(0);
+    expect(execution.hasPosition("market-1")).toBe(false);
+    expect(ledger.getRealizedPnl()).toBeCloseTo(25, 6);
+  });
+
+  it("should replay exits so closed positions stay closed", async () => {
+    const first = restart();
+    await first.execution.executeTrade(createDecision(), "market-1", "yes-token");
+    clob.statuses.set("clob-1", { status: "MATCHED", averagePrice: 0.4 });
+    await first.execution.syncWorkingOrders();
+    await first.execution.closePosition("market-1", { tokenId: "yes-token", price: 60 });
+    clob.statuses.set("clob-2", { status: "MATCHED", averagePrice: 0.6 });
+    await first.execution.syncWorkingOrders();
+
+    const { execution, ledger } = restart();
+    const result = await execution.reconcile();
+
+    expect(result.openPositions).toBe(0);
+    expect(execution.hasPosition("market-1")).toBe(false);
+    expect(ledger.getRealizedPnl()).toBeCloseTo(25, 6);
+  });
+
+  it("should keep live exits working until the CLOB fills them", async () => {
+    const { execution, ledger } = restart();
+    await execution.executeTrade(createDecision(), "market-1", "yes-token");
+    clob.statuses.set("clob-1", { status: "MATCHED", averagePrice: 0.4 });
+    await execution.syncWorkingOrders();
+
+    expect(await execution.closePosition("market-1", { tokenId: "yes-token", price: 60 })).toBe(true);
+    expect(clob.placed[1]).toEqual({ tokenId: "yes-token", price: 0.6, size: 75, side: "SELL" });
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(125, 6);
+    expect(execution.hasPosition("market-1")).toBe(true);
+
+    // Half the shares sell, then the rest
+    clob.statuses.set("clob-2", { status: "LIVE", filledAmount: 37.5, averagePrice: 0.6 });
+    await execution.syncWorkingOrders();
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(62.5, 6);
+
+    clob.statuses.set("clob-2", { status: "MATCHED", averagePrice: 0.6 });
+    await execution.syncWorkingOrders();
+    expect(execution.hasPosition("market-1")).toBe(false);
+    expect(ledger.getRealizedPnl()).toBeCloseTo(25, 6);
+  });
+
+  it("should sell fills made since the last poll", async () => {
+    const { execution, ledger } = restart();
+    await execution.executeTrade(createDecision(), "market-1", "yes-token");
+    // Filled on the CLOB but never synced
+    clob.statuses.set("clob-1", { status: "MATCHED", averagePrice: 0.4 });
+
+    expect(await execution.closePosition("market-1", { tokenId: "yes-token", price: 60 })).toBe(true);
+    expect(clob.statuses.get("clob-1")?.status).toBe("MATCHED");
+    expect(clob.placed[1]).toEqual({ tokenId: "yes-token", price: 0.6, size: 75, side: "SELL" });
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(125, 6);
+  });
+
+  it("should not sell at a zero price", async () => {
+    const { execution, ledger } = restart();
+    await execution.executeTrade(createDecision(), "market-1", "yes-token");
+    clob.statuses.set("clob-1", { status: "MATCHED", averagePrice: 0.4 });
+    await execution.syncWorkingOrders();
+
+    expect(await execution.closePosition("market-1", { tokenId: "yes-token", price: 0 })).toBe(false);
+    expect(clob.placed).toHaveLength(1);
+    expect(ledger.getOpenPosition("market-1")?.shares).toBeCloseTo(125, 6);
+  });
+
+  it("should cancel working orders that never reached the CLOB", async () => {
+    await store.save(createOrder({ status: "pending", filled_size: 0, clob_order_id: undefined }));
+
+    const { execution } = restart();
+    const result = await execution.reconcile();
+
+    expect(result.cancelled).toBe(1);
+    expect(execution.getOrder("order_1")?.status).toBe("cancelled");
+    expect(execution.hasPosition("market-1")).toBe(false);
+  });
+});
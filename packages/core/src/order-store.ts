@@ -0,0 +1,141 @@
+/**
+ * Order Persistence
+ *
+ * Keeps every order the ExecutionLayer places, with its CLOB order ID,
+ * so a restart can reconcile working orders against the CLOB and
+ * rebuild positions from their fills instead of orphaning them.
+ *
+ * Like MarketStateStore, ExecutionLayer only depends on the OrderStore
+ * interface, with a local JSON file as the default.
+ */
+
+import { readFile, writeFile, rename, mkdir } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { dirname } from "node:path";
+import type { Order } from "./execution.js";
+
+export interface OrderStore {
+  load(): Promise<Order[]>;
+  save(order: Order): Promise<void>;
+}
+
+interface OrderFile {
+  version: number;
+  savedAt: string;
+  orders: Record<string, Order>;
+}
+
+const ORDER_FILE_VERSION = 1;
+
+const DATE_KEYS = new Set(["created_at", "updated_at"]);
+
+/**
+ * JSON.parse reviver that restores Date fields of persisted orders
+ */
+export function reviveOrderDates(key: string, value: unknown): unknown {
+  if (DATE_KEYS.has(key) && typeof value === "string") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+/**
+ * In-memory store (for tests and when persistence is disabled)
+ */
+export class InMemoryOrderStore implements OrderStore {
+  private orders: Map<string, Order> = new Map();
+
+  async load(): Promise<Order[]> {
+    return Array.from(this.orders.values(), order => structuredClone(order));
+  }
+
+  async save(order: Order): Promise<void> {
+    this.orders.set(order.id, structuredClone(order));
+  }
+}
+
+/**
+ * JsonFileOrderStore - Local JSON file persistence
+ *
+ * Writes are serialized and atomic (temp file + rename) so a crash
+ * mid-write never leaves a truncated order file behind.
+ */
+export class JsonFileOrderStore implements OrderStore {
+  private filePath: string;
+  private orders: Map<string, Order> = new Map();
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string = "./data/orders.json") {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Load all persisted orders, reviving Date fields
+   * A missing or corrupt file yields no orders
+   */
+  async load(): Promise<Order[]> {
+    this.orders.clear();
+
+    if (!existsSync(this.filePath)) {
+      return [];
+    }
+
+    try {
+      const content = await readFile(this.filePath, "utf-8");
+      const parsed = JSON.parse(content, reviveOrderDates) as OrderFile;
+
+      if (parsed.version !== ORDER_FILE_VERSION) {
+        console.warn(`⚠️ Unsupported order file version ${parsed.version} - starting fresh`);
+        return [];
+      }
+
+      for (const [orderId, order] of Object.entries(parsed.orders ?? {})) {
+        this.orders.set(orderId, order);
+      }
+    } catch (error) {
+      console.error(`Failed to load orders from ${this.filePath}:`, error);
+    }
+
+    return Array.from(this.orders.values(), order => ({ ...order }));
+  }
+
+  /**
+   * Record the latest state of an order and persist the full file
+   */
+  async save(order: Order): Promise<void> {
+    this.orders.set(order.id, { ...order });
+    await this.persist();
+  }
+
+  /**
+   * Queue a write behind any in-flight write
+   */
+  private persist(): Promise<void> {
+    const body: OrderFile = {
+      version: ORDER_FILE_VERSION,
+      savedAt: new Date().toISOString(),
+      orders: Object.fromEntries(this.orders),
+    };
+    const content = JSON.stringify(body);
+
+    this.writeChain = this.writeChain
+      .then(() => this.writeAtomic(content))
+      .catch(error => {
+        console.error(`Failed to persist orders to ${this.filePath}:`, error);
+      });
+
+    return this.writeChain;
+  }
+
+  private async writeAtomic(content: string): Promise<void> {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, content, "utf-8");
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach } from "vitest";
 import { PaperTradingTracker } from "./paper-trading.js";
+import { PositionLedger } from "./position-ledger.js";
 
 describe("PaperTradingTracker", () => {
   let tracker: PaperTradingTracker;
@@ -117,8 +118,8 @@ describe("PaperTradingTracker", () => {
       await tracker.resolvePosition(position.id, "YES", 100);
 
       const resolved = tracker.getPosition(position.id);
-      // P&L = (100 - 40) * 100 / 100 = 60
-      expect(resolved?.pnl).toBe(60);
+      // $100 at 40¢ = 250 shares paying $1 each → +$150
+      expect(resolved?.pnl).toBeCloseTo(150, 6);
     });
 
     it("should calculate P&L correctly for NO winner", async () => {
@@ -137,8 +138,8 @@ describe("PaperTradingTracker", () => {
       await tracker.resolvePosition(position.id, "NO", 0);
 
       const resolved = tracker.getPosition(position.id);
-      // P&L = (0 - 60) * 100 / 100 = -60
-      expect(resolved?.pnl).toBe(-60);
+      // YES shares bought at 60¢ expire worthless → whole stake lost
+      expect(resolved?.pnl).toBeCloseTo(-100, 6);
     });
 
     it("should mark position as expired", async () => {
@@ -240,7 +241,7 @@ describe("PaperTradingTracker", () => {
         edge: 15,
         sizeUsd: 100,
       });
-      await tracker.resolvePosition(pos1.id, "YES", 100); // Win: +$60
+      await tracker.resolvePosition(pos1.id, "YES", 100); // Win: 250 shares → +$150
 
       const pos2 = await tracker.createPosition({
         marketId: "market-2",
@@ -253,7 +254,7 @@ describe("PaperTradingTracker", () => {
         edge: 10,
         sizeUsd: 100,
       });
-      await tracker.resolvePosition(pos2.id, "NO", 0); // Loss: -$60
+      await tracker.resolvePosition(pos2.id, "NO", 0); // Loss: -$100
 
       const pos3 = await tracker.createPosition({
         marketId: "market-3",
@@ -266,7 +267,7 @@ describe("PaperTradingTracker", () => {
         edge: 20,
         sizeUsd: 100,
       });
-      await tracker.resolvePosition(pos3.id, "YES", 100); // Win: +$70
+      await tracker.resolvePosition(pos3.id, "YES", 100); // Win: 333.33 shares → +$233.33
 
       // One open position
       await tracker.createPosition({
@@ -293,8 +294,8 @@ describe("PaperTradingTracker", () => {
     it("should calculate P&L correctly", () => {
       const metrics = tracker.calculateMetrics();
 
-      // Total P&L: +60 - 60 + 70 = +70
-      expect(metrics.totalPnL).toBe(70);
+      // Total P&L: +150 - 100 + 233.33 = +283.33
+      expect(metrics.totalPnL).toBeCloseTo(283.33, 2);
     });
 
     it("should calculate win rate correctly", () => {
@@ -307,18 +308,18 @@ describe("PaperTradingTracker", () => {
     it("should calculate average win and loss", () => {
       const metrics = tracker.calculateMetrics();
 
-      // Average win: (60 + 70) / 2 = 65
-      expect(metrics.averageWin).toBe(65);
+      // Average win: (150 + 233.33) / 2 = 191.67
+      expect(metrics.averageWin).toBeCloseTo(191.67, 2);
 
-      // Average loss: 60 / 1 = 60
-      expect(metrics.averageLoss).toBe(60);
+      // Average loss: 100 / 1 = 100
+      expect(metrics.averageLoss).toBeCloseTo(100, 6);
     });
 
     it("should calculate profit factor", () => {
       const metrics = tracker.calculateMetrics();
 
-      // Profit factor: 130 / 60 = 2.17
-      expect(metrics.profitFactor).toBeCloseTo(2.17, 2);
+      // Profit factor: 383.33 / 100 = 3.83
+      expect(metrics.profitFactor).toBeCloseTo(3.83, 2);
     });
 
     it("should calculate edge accuracy", () => {
@@ -418,6 +419,44 @@ describe("PaperTradingTracker", () => {
     });
   });
 
+  describe("Shared Ledger", () => {
+    const params = {
+      marketId: "market-1",
+      marketQuestion: "Will the Fed cut rates?",
+      category: "economics",
+      side: "NO" as const,
+      entryPrice: 60,
+      beliefLow: 30,
+      beliefHigh: 45,
+      edge: 15,
+      sizeUsd: 80,
+    };
+
+    it("should adopt a fill already booked by the execution layer", async () => {
+      const ledger = new PositionLedger();
+      ledger.recordFill({ marketId: "market-1", side: "NO", action: "BUY", shares: 200, price: 40 });
+      const shared = new PaperTradingTracker(undefined, ledger);
+
+      await shared.createPosition(params);
+
+      const held = ledger.getOpenPosition("market-1");
+      expect(held?.shares).toBe(200);
+      expect(held?.fills).toHaveLength(1);
+      expect(held?.category).toBe("economics");
+    });
+
+    it("should report unrealized P&L of open positions from the ledger", async () => {
+      const ledger = new PositionLedger();
+      const shared = new PaperTradingTracker(undefined, ledger);
+      await shared.createPosition(params);
+
+      // NO bought at 40¢ (YES 60); YES falls to 50 → NO worth 50¢
+      ledger.markToMarket("market-1", 50);
+
+      expect(shared.calculateMetrics().unrealizedPnL).toBeCloseTo(20, 6);
+    });
+  });
+
   describe("Reset", () => {
     it("should clear all positions", async () => {
       await tracker.createPosition({
@@ -8,10 +8,15 @@
  * - Measuring prediction quality (edge accuracy, calibration)
  * - Posting all state changes to Slack for transparency
  * - Building confidence before live trading
+ *
+ * Holdings and P&L live in the PositionLedger; paper positions add the
+ * belief, edge and outcome needed for prediction-quality metrics.
  */
 
 import type { TradeSide } from "@pomabot/shared";
 import type { SlackNotifier, SlackBlock } from "./notifications.js";
+import { sharesForUsd, toOutcomePrice } from "./accounting.js";
+import { PositionLedger } from "./position-ledger.js";
 
 export interface PaperPosition {
   id: string;
@@ -74,6 +79,108 @@ export interface CalibrationAnalysis {
   recommendations: string[];
 }
 
+/**
+ * Calibration analysis over resolved (non-expired) positions
+ * Shared by PaperTradingTracker and the backtester
+ */
+export function calculateCalibrationAnalysis(
+  resolvedPositions: Array<Pick<PaperPosition, "beliefLow" | "beliefHigh" | "status">>
+): CalibrationAnalysis {
+  // Group trades by belief buckets
+  const buckets = new Map<string, { predicted: number; wins: number; total: number }>();
+  const bucketRanges = [
+    { min: 0, max: 60, label: "0-60%" },
+    { min: 60, max: 70, label: "60-70%" },
+    { min: 70, max: 80, label: "70-80%" },
+    { min: 80, max: 90, label: "80-90%" },
+    { min: 90, max: 100, label: "90-100%" },
+  ];
+
+  for (const range of bucketRanges) {
+    buckets.set(range.label, { predicted: (range.min + range.max) / 2, wins: 0, total: 0 });
+  }
+
+  // Calculate actual win rates per bucket
+  for (const position of resolvedPositions) {
+    const midpoint = (position.beliefLow + position.beliefHigh) / 2;
+    
+    for (const range of bucketRanges) {
+      if (midpoint >= range.min && midpoint < range.max) {
+        const bucket = buckets.get(range.label);
+        if (bucket) {
+          bucket.total++;
+          if (position.status === "WIN") {
+            bucket.wins++;
+          }
+        }
+        break;
+      }
+    }
+  }
+
+  // Build calibration buckets
+  const calibrationBuckets: CalibrationBucket[] = [];
+  for (const [label, data] of buckets.entries()) {
+    if (data.total > 0) {
+      const actualWinRate = (data.wins / data.total) * 100;
+      calibrationBuckets.push({
+        beliefRange: label,
+        predictedProbability: data.predicted,
+        actualWinRate,
+        trades: data.total,
+        calibrationError: Math.abs(data.predicted - actualWinRate),
+      });
+    }
+  }
+
+  // Calculate Brier score (lower is better)
+  let brierScore = 0;
+  for (const position of resolvedPositions) {
+    const predicted = (position.beliefLow + position.beliefHigh) / 2 / 100; // Convert to 0-1
+    const actual = position.status === "WIN" ? 1 : 0;
+    brierScore += Math.pow(predicted - actual, 2);
+  }
+  brierScore = resolvedPositions.length > 0 ? brierScore / resolvedPositions.length : 0;
+
+  // Overall calibration error
+  const overallCalibration = calibrationBuckets.length > 0
+    ? calibrationBuckets.reduce((sum, b) => sum + b.calibrationError, 0) / calibrationBuckets.length
+    : 0;
+
+  // Generate recommendations
+  const recommendations: string[] = [];
+  
+  if (brierScore > 0.25) {
+    recommendations.push("High Brier score indicates poor prediction accuracy. Consider refining belief calculations.");
+  }
+  
+  if (overallCalibration > 15) {
+    recommendations.push("Significant calibration error detected. Your confidence estimates may be off.");
+  }
+
+  // Check for over/under confidence
+  for (const bucket of calibrationBuckets) {
+    if (bucket.calibrationError > 20 && bucket.trades >= 3) {
+      if (bucket.actualWinRate < bucket.predictedProbability) {
+        recommendations.push(
+          `Over-confident in ${bucket.beliefRange} range. Consider lowering belief estimates.`
+        );
+      } else {
+        recommendations.push(
+          `Under-confident in ${bucket.beliefRange} range. Your predictions are better than estimated.`
+        );
+      }
+    }
+  }
+
+  return {
+    calibrationBuckets,
+    brierScore,
+    overallCalibration,
+    recommendations,
+  };
+}
+
 /**
  * PaperTradingTracker - Tracks simulated positions until resolution
  * All state changes are posted to Slack for transparency
@@ -81,9 +188,11 @@ export interface CalibrationAnalysis {
 export class PaperTradingTracker {
   private positions: Map<string, PaperPosition> = new Map();
   private notifier?: SlackNotifier;
+  private ledger: PositionLedger;
 
-  constructor(notifier?: SlackNotifier) {
+  constructor(notifier?: SlackNotifier, ledger: PositionLedger = new PositionLedger()) {
     this.notifier = notifier;
+    this.ledger = ledger;
   }
 
   /**
@@ -124,6 +233,24 @@ export class PaperTradingTracker {
 
     this.positions.set(position.id, position);
 
+    // Adopt a simulated fill the ExecutionLayer already booked, otherwise book the entry
+    if (!this.ledger.hasOpenPosition(params.marketId) && params.side !== "NONE") {
+      const price = toOutcomePrice(params.side, params.entryPrice);
+      this.ledger.recordFill({
+        marketId: params.marketId,
+        side: params.side,
+        action: "BUY",
+        shares: sharesForUsd(params.sizeUsd, price),
+        price,
+        orderId: position.id,
+        timestamp: position.entryTimestamp,
+      });
+    }
+    this.ledger.annotate(params.marketId, {
+      marketQuestion: params.marketQuestion,
+      category: params.category,
+    });
+
     console.log(`📝 Paper position created: ${params.side} on "${params.marketQuestion}" @ ${params.entryPrice}%`);
     
     // Post to Slack for transparency
@@ -143,15 +270,12 @@ export class PaperTradingTracker {
     const position = this.positions.get(positionId);
     if (!position) return;
 
-    // Calculate P&L
-    // If we bet YES and YES won, we profit (exitPrice should be ~100)
-    // If we bet YES and NO won, we lose (exitPrice should be ~0)
     const isWin = position.side === actualOutcome;
     
-    // P&L calculation: (exitPrice - entryPrice) * sizeUsd / 100
-    // For winners: bought at entryPrice, sells at 100
-    // For losers: bought at entryPrice, sells at 0
-    const pnl = ((exitPrice - position.entryPrice) * position.sizeUsd) / 100;
+    // Settle the held shares at the exit (YES) price. A position already
+    // exited before resolution keeps the P&L realized by that exit.
+    const pnl = this.ledger.closePosition(position.marketId, exitPrice) ??
+      this.getRealizedPnl(position.marketId);
 
     position.status = isWin ? "WIN" : "LOSS";
     position.actualOutcome = actualOutcome;
@@ -174,9 +298,16 @@ export class PaperTradingTracker {
     const position = this.positions.get(positionId);
     if (!position) return;
 
+    // No P&L for expired positions: release the shares at cost
+    // (avgEntryPrice is an outcome price, closePosition takes the YES price)
+    const held = this.ledger.getOpenPosition(position.marketId);
+    if (held) {
+      this.ledger.closePosition(position.marketId, toOutcomePrice(held.side, held.avgEntryPrice));
+    }
+
     position.status = "EXPIRED";
     position.resolvedTimestamp = new Date();
-    position.pnl = 0; // No P&L for expired positions
+    position.pnl = 0;
 
     console.log(`⏰ Paper position expired: ${position.marketQuestion}`);
     
@@ -276,7 +407,11 @@ export class PaperTradingTracker {
 
     // P&L calculations
     const totalPnL = resolvedPositions.reduce((sum, p) => sum + (p.pnl ?? 0), 0);
-    const unrealizedPnL = 0; // TODO: Calculate based on current market prices
+    const openMarkets = new Set(openPositions.map(p => p.marketId));
+    const unrealizedPnL = this.ledger
+      .getOpenPositions()
+      .filter(p => openMarkets.has(p.marketId))
+      .reduce((sum, p) => sum + p.unrealizedPnl, 0);
     
     const winRate = tradedPositions.length > 0 
       ? (winningTrades.length / tradedPositions.length) * 100 
@@ -370,100 +505,7 @@ export class PaperTradingTracker {
     const resolvedPositions = this.getResolvedPositions().filter(
       p => p.status !== "EXPIRED"
     );
-
-    // Group trades by belief buckets
-    const buckets = new Map<string, { predicted: number; wins: number; total: number }>();
-    const bucketRanges = [
-      { min: 0, max: 60, label: "0-60%" },
-      { min: 60, max: 70, label: "60-70%" },
-      { min: 70, max: 80, label: "70-80%" },
-      { min: 80, max: 90, label: "80-90%" },
-      { min: 90, max: 100, label: "90-100%" },
-    ];
-
-    for (const range of bucketRanges) {
-      buckets.set(range.label, { predicted: (range.min + range.max) / 2, wins: 0, total: 0 });
-    }
-
-    // Calculate actual win rates per bucket
-    for (const position of resolvedPositions) {
-      const midpoint = (position.beliefLow + position.beliefHigh) / 2;
-      
-      for (const range of bucketRanges) {
-        if (midpoint >= range.min && midpoint < range.max) {
-          const bucket = buckets.get(range.label);
-          if (bucket) {
-            bucket.total++;
-            if (position.status === "WIN") {
-              bucket.wins++;
-            }
-          }
-          break;
-        }
-      }
-    }
-
-    // Build calibration buckets
-    const calibrationBuckets: CalibrationBucket[] = [];
-    for (const [label, data] of buckets.entries()) {
-      if (data.total > 0) {
-        const actualWinRate = (data.wins / data.total) * 100;
-        calibrationBuckets.push({
-          beliefRange: label,
-          predictedProbability: data.predicted,
-          actualWinRate,
-          trades: data.total,
-          calibrationError: Math.abs(data.predicted - actualWinRate),
-        });
-      }
-    }
-
-    // Calculate Brier score (lower is better)
-    let brierScore = 0;
-    for (const position of resolvedPositions) {
-      const predicted = (position.beliefLow + position.beliefHigh) / 2 / 100; // Convert to 0-1
-      const actual = position.status === "WIN" ? 1 : 0;
-      brierScore += Math.pow(predicted - actual, 2);
-    }
-    brierScore = resolvedPositions.length > 0 ? brierScore / resolvedPositions.length : 0;
-
-    // Overall calibration error
-    const overallCalibration = calibrationBuckets.length > 0
-      ? calibrationBuckets.reduce((sum, b) => sum + b.calibrationError, 0) / calibrationBuckets.length
-      : 0;
-
-    // Generate recommendations
-    const recommendations: string[] = [];
-    
-    if (brierScore > 0.25) {
-      recommendations.push("High Brier score indicates poor prediction accuracy. Consider refining belief calculations.");
-    }
-    
-    if (overallCalibration > 15) {
-      recommendations.push("Significant calibration error detected. Your confidence estimates may be off.");
-    }
-
-    // Check for over/under confidence
-    for (const bucket of calibrationBuckets) {
-      if (bucket.calibrationError > 20 && bucket.trades >= 3) {
-        if (bucket.actualWinRate < bucket.predictedProbability) {
-          recommendations.push(
-            `Over-confident in ${bucket.beliefRange} range. Consider lowering belief estimates.`
-          );
-        } else {
-          recommendations.push(
-            `Under-confident in ${bucket.beliefRange} range. Your predictions are better than estimated.`
-          );
-        }
-      }
-    }
-
-    return {
-      calibrationBuckets,
-      brierScore,
-      overallCalibration,
-      recommendations,
-    };
+    return calculateCalibrationAnalysis(resolvedPositions);
   }
 
   /**
@@ -649,6 +691,14 @@ export class PaperTradingTracker {
     }
   }
 
+  /**
+   * Realized P&L of the most recent closed ledger position for a market
+   */
+  private getRealizedPnl(marketId: string): number {
+    const closed = this.ledger.getClosedPositions().filter(p => p.marketId === marketId);
+    return closed[closed.length - 1]?.realizedPnl ?? 0;
+  }
+
   /**
    * Generate unique position ID
    */
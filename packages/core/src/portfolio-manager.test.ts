@@ -4,18 +4,28 @@
 
 import { describe, it, expect, beforeEach } from "vitest";
 import { PortfolioManager } from "./portfolio-manager.js";
+import { sharesForUsd } from "./accounting.js";
+import { PositionLedger } from "./position-ledger.js";
 
 describe("PortfolioManager", () => {
   let manager: PortfolioManager;
+  let ledger: PositionLedger;
+
+  // Book a YES position in the ledger the manager reads from
+  function buy(marketId: string, marketQuestion: string, category: string, sizeUsd: number, price: number) {
+    ledger.recordFill({ marketId, side: "YES", action: "BUY", shares: sharesForUsd(sizeUsd, price), price });
+    ledger.annotate(marketId, { marketQuestion, category });
+  }
 
   beforeEach(() => {
+    ledger = new PositionLedger();
     manager = new PortfolioManager({
       totalCapital: 1000,
       maxRiskPerTrade: 0.02, // 2%
       kellyFraction: 0.25,
       correlationThreshold: 0.7,
       maxDrawdownPercent: 10,
-    });
+    }, ledger);
   });
 
   describe("Kelly Criterion Position Sizing", () => {
@@ -63,16 +73,7 @@ describe("PortfolioManager", () => {
 
     it("should detect category concentration", () => {
       // Add two politics positions
-      manager.addPosition({
-        marketId: "market1",
-        marketQuestion: "Will candidate A win?",
-        category: "politics",
-        sizeUsd: 50,
-        entryPrice: 0.5,
-        currentPrice: 0.5,
-        unrealizedPnl: 0,
-        correlation: new Map(),
-      });
+      buy("market1", "Will candidate A win?", "politics", 50, 50);
 
       const result = manager.checkDiversification("politics", ["election"]);
       
@@ -108,16 +109,7 @@ describe("PortfolioManager", () => {
     });
 
     it("should update status after adding position", () => {
-      manager.addPosition({
-        marketId: "test1",
-        marketQuestion: "Test market",
-        category: "crypto",
-        sizeUsd: 100,
-        entryPrice: 0.5,
-        currentPrice: 0.5,
-        unrealizedPnl: 0,
-        correlation: new Map(),
-      });
+      buy("test1", "Test market", "crypto", 100, 50);
 
       const status = manager.getPortfolioStatus();
       
@@ -127,41 +119,25 @@ describe("PortfolioManager", () => {
     });
 
     it("should calculate unrealized P&L correctly", () => {
-      manager.addPosition({
-        marketId: "test1",
-        marketQuestion: "Test market",
-        category: "crypto",
-        sizeUsd: 100,
-        entryPrice: 0.5,
-        currentPrice: 0.6,
-        unrealizedPnl: 10,
-        correlation: new Map(),
-      });
+      buy("test1", "Test market", "crypto", 100, 50);
+      ledger.markToMarket("test1", 60);
 
       const status = manager.getPortfolioStatus();
       
-      expect(status.unrealizedPnl).toBe(10);
-      expect(status.totalValue).toBe(1010);
+      // 200 shares bought at 50¢, now worth 60¢
+      expect(status.unrealizedPnl).toBeCloseTo(20, 6);
+      expect(status.totalValue).toBeCloseTo(1020, 6);
     });
   });
 
   describe("Position Management", () => {
     it("should close position and realize P&L", () => {
-      manager.addPosition({
-        marketId: "test1",
-        marketQuestion: "Test market",
-        category: "crypto",
-        sizeUsd: 100,
-        entryPrice: 0.5,
-        currentPrice: 0.5,
-        unrealizedPnl: 0,
-        correlation: new Map(),
-      });
-
-      const pnl = manager.closePosition("test1", 0.6);
+      buy("test1", "Test market", "crypto", 100, 50);
+
+      const pnl = ledger.closePosition("test1", 60);
       
-      // Use toBeCloseTo for floating point comparison
-      expect(pnl).toBeCloseTo(10, 2); // (0.6 - 0.5) * 100
+      // 200 shares sold at 60¢ against a $100 cost
+      expect(pnl).toBeCloseTo(20, 6);
       
       const status = manager.getPortfolioStatus();
       expect(status.openPositions).toBe(0);
@@ -169,27 +145,8 @@ describe("PortfolioManager", () => {
     });
 
     it("should return all positions", () => {
-      manager.addPosition({
-        marketId: "test1",
-        marketQuestion: "Test market 1",
-        category: "crypto",
-        sizeUsd: 50,
-        entryPrice: 0.5,
-        currentPrice: 0.5,
-        unrealizedPnl: 0,
-        correlation: new Map(),
-      });
-
-      manager.addPosition({
-        marketId: "test2",
-        marketQuestion: "Test market 2",
-        category: "politics",
-        sizeUsd: 75,
-        entryPrice: 0.6,
-        currentPrice: 0.6,
-        unrealizedPnl: 0,
-        correlation: new Map(),
-      });
+      buy("test1", "Test market 1", "crypto", 50, 50);
+      buy("test2", "Test market 2", "politics", 75, 60);
 
       const positions = manager.getPositions();
       expect(positions).toHaveLength(2);
@@ -203,5 +160,15 @@ describe("PortfolioManager", () => {
       const sharpe = manager.calculateSharpeRatio();
       expect(sharpe).toBeUndefined();
     });
+
+    it("should use returns of closed ledger positions", () => {
+      for (let i = 0; i < 10; i++) {
+        buy(`market-${i}`, `Market ${i}`, "crypto", 10, 50);
+        ledger.closePosition(`market-${i}`, i % 2 === 0 ? 60 : 45);
+      }
+
+      // Returns alternate +20% / -10%: mean 5%, stdev 15%
+      expect(manager.calculateSharpeRatio(0)).toBeCloseTo(1 / 3, 6);
+    });
   });
 });
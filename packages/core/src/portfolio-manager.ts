@@ -5,8 +5,13 @@
  * - Risk-adjusted position sizing (Kelly Criterion)
  * - Correlation-based diversification
  * - Enhanced drawdown protection
+ *
+ * Open positions and realized P&L are read from the PositionLedger;
+ * available capital is derived from them rather than tracked here.
  */
 
+import { PositionLedger, type LedgerPosition, type PositionLedgerView } from "./position-ledger.js";
+
 export interface PortfolioConfig {
   totalCapital: number; // Total capital available for trading
   maxRiskPerTrade: number; // Maximum % of capital to risk per trade (default: 2%)
@@ -15,17 +20,6 @@ export interface PortfolioConfig {
   maxDrawdownPercent: number; // Max portfolio drawdown % (default: 10%)
 }
 
-export interface Position {
-  marketId: string;
-  marketQuestion: string;
-  category: string;
-  sizeUsd: number;
-  entryPrice: number;
-  currentPrice: number;
-  unrealizedPnl: number;
-  correlation: Map<string, number>; // Correlation with other positions
-}
-
 export interface PositionSizingRecommendation {
   recommendedSize: number; // USD amount
   method: "KELLY" | "FIXED" | "CONSERVATIVE";
@@ -39,14 +33,12 @@ export interface PositionSizingRecommendation {
  */
 export class PortfolioManager {
   private config: PortfolioConfig;
-  private positions: Map<string, Position> = new Map();
-  private portfolioValue: number;
+  private ledger: PositionLedgerView;
   private portfolioPeak: number = 0;
-  private historicalReturns: number[] = [];
 
-  constructor(config: PortfolioConfig) {
+  constructor(config: PortfolioConfig, ledger: PositionLedgerView = new PositionLedger()) {
     this.config = config;
-    this.portfolioValue = config.totalCapital;
+    this.ledger = ledger;
     this.portfolioPeak = config.totalCapital;
   }
 
@@ -98,15 +90,16 @@ export class PortfolioManager {
     const adjustedKelly = Math.max(0, Math.min(kellyFraction * this.config.kellyFraction, 0.5));
 
     // Calculate position size
-    const rawSize = this.portfolioValue * adjustedKelly;
+    const availableCapital = this.getAvailableCapital();
+    const rawSize = availableCapital * adjustedKelly;
 
     // Apply risk limits
-    const maxRiskSize = this.portfolioValue * this.config.maxRiskPerTrade;
+    const maxRiskSize = availableCapital * this.config.maxRiskPerTrade;
     const recommendedSize = Math.min(rawSize, maxRiskSize);
 
     // Determine risk level
     let riskLevel: "LOW" | "MEDIUM" | "HIGH" = "LOW";
-    const riskPercent = (recommendedSize / this.portfolioValue) * 100;
+    const riskPercent = availableCapital > 0 ? (recommendedSize / availableCapital) * 100 : 0;
 
     if (riskPercent > 5) {
       riskLevel = "HIGH";
@@ -140,7 +133,8 @@ export class PortfolioManager {
     correlationScore: number;
     reason: string;
   } {
-    if (this.positions.size === 0) {
+    const positions = this.ledger.getOpenPositions();
+    if (positions.length === 0) {
       return {
         diversified: true,
         correlationScore: 0,
@@ -149,17 +143,18 @@ export class PortfolioManager {
     }
 
     // Calculate simple correlation based on category and keyword overlap
-    const categoryPositions = Array.from(this.positions.values()).filter(
+    const categoryPositions = positions.filter(
       (p) => p.category === marketCategory
     );
 
-    const categoryConcentration = categoryPositions.length / this.positions.size;
+    const categoryConcentration = categoryPositions.length / positions.length;
 
     // Check keyword overlap with existing positions
     let maxCorrelation = 0;
     let correlatedMarket = "";
 
-    for (const position of this.positions.values()) {
+    for (const position of positions) {
+      if (!position.marketQuestion) continue;
       const positionKeywords = position.marketQuestion.toLowerCase().split(" ");
       const overlapCount = marketKeywords.filter((kw) =>
         positionKeywords.some((pk) => pk.includes(kw.toLowerCase()))
@@ -205,8 +200,9 @@ export class PortfolioManager {
     currentDrawdown: number;
     reason: string;
   } {
-    this.portfolioPeak = Math.max(this.portfolioPeak, this.portfolioValue);
-    const drawdown = (this.portfolioPeak - this.portfolioValue) / this.portfolioPeak;
+    const totalValue = this.getTotalValue();
+    this.portfolioPeak = Math.max(this.portfolioPeak, totalValue);
+    const drawdown = (this.portfolioPeak - totalValue) / this.portfolioPeak;
     const drawdownPercent = drawdown * 100;
 
     const withinLimit = drawdownPercent <= this.config.maxDrawdownPercent;
@@ -220,40 +216,6 @@ export class PortfolioManager {
     };
   }
 
-  /**
-   * Add a new position to the portfolio
-   */
-  addPosition(position: Position): void {
-    this.positions.set(position.marketId, position);
-    this.portfolioValue -= position.sizeUsd; // Reduce available capital
-  }
-
-  /**
-   * Update position with current price
-   */
-  updatePosition(marketId: string, currentPrice: number): void {
-    const position = this.positions.get(marketId);
-    if (position) {
-      position.currentPrice = currentPrice;
-      position.unrealizedPnl = (currentPrice - position.entryPrice) * position.sizeUsd;
-    }
-  }
-
-  /**
-   * Close a position and realize P&L
-   */
-  closePosition(marketId: string, exitPrice: number): number {
-    const position = this.positions.get(marketId);
-    if (!position) return 0;
-
-    const realizedPnl = (exitPrice - position.entryPrice) * position.sizeUsd;
-    this.portfolioValue += position.sizeUsd + realizedPnl;
-    this.historicalReturns.push(realizedPnl / position.sizeUsd);
-
-    this.positions.delete(marketId);
-    return realizedPnl;
-  }
-
   /**
    * Get current portfolio status
    */
@@ -265,50 +227,59 @@ export class PortfolioManager {
     unrealizedPnl: number;
     drawdown: number;
   } {
-    const allocatedCapital = Array.from(this.positions.values()).reduce(
-      (sum, p) => sum + p.sizeUsd,
-      0
-    );
-    const unrealizedPnl = Array.from(this.positions.values()).reduce(
-      (sum, p) => sum + p.unrealizedPnl,
-      0
-    );
-
-    const totalValue = this.portfolioValue + allocatedCapital + unrealizedPnl;
+    const totalValue = this.getTotalValue();
+    this.portfolioPeak = Math.max(this.portfolioPeak, totalValue);
     const drawdown = (this.portfolioPeak - totalValue) / this.portfolioPeak;
 
     return {
       totalValue,
-      availableCapital: this.portfolioValue,
-      allocatedCapital,
-      openPositions: this.positions.size,
-      unrealizedPnl,
+      availableCapital: this.getAvailableCapital(),
+      allocatedCapital: this.ledger.getExposure(),
+      openPositions: this.ledger.getOpenPositions().length,
+      unrealizedPnl: this.ledger.getUnrealizedPnl(),
       drawdown: drawdown * 100,
     };
   }
 
   /**
-   * Get all positions
+   * Get all open positions
    */
-  getPositions(): Position[] {
-    return Array.from(this.positions.values());
+  getPositions(): LedgerPosition[] {
+    return this.ledger.getOpenPositions();
   }
 
   /**
    * Calculate Sharpe ratio (if enough historical data)
    */
   calculateSharpeRatio(riskFreeRate: number = 0.05): number | undefined {
-    if (this.historicalReturns.length < 10) return undefined;
-
-    const avgReturn =
-      this.historicalReturns.reduce((sum, r) => sum + r, 0) / this.historicalReturns.length;
+    // Return on capital of each closed position
+    const returns = this.ledger
+      .getClosedPositions()
+      .filter((p) => p.investedUsd > 0)
+      .map((p) => p.realizedPnl / p.investedUsd);
+    if (returns.length < 10) return undefined;
+
+    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
     const variance =
-      this.historicalReturns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) /
-      this.historicalReturns.length;
+      returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length;
     const stdDev = Math.sqrt(variance);
 
     if (stdDev === 0) return undefined;
 
     return (avgReturn - riskFreeRate) / stdDev;
   }
+
+  /**
+   * Cash not tied up in open positions
+   */
+  private getAvailableCapital(): number {
+    return this.config.totalCapital + this.ledger.getRealizedPnl() - this.ledger.getExposure();
+  }
+
+  /**
+   * Cash plus the marked value of open positions
+   */
+  private getTotalValue(): number {
+    return this.config.totalCapital + this.ledger.getRealizedPnl() + this.ledger.getUnrealizedPnl();
+  }
 }
@@ -0,0 +1,125 @@
+/**
+ * Test Suite: Position Ledger
+ */
+
+import { describe, test, expect, beforeEach } from "vitest";
+import { PositionLedger } from "./position-ledger";
+import { SafetyControls } from "./safety-controls";
+
+describe("PositionLedger", () => {
+  let ledger: PositionLedger;
+
+  beforeEach(() => {
+    ledger = new PositionLedger();
+  });
+
+  test("should average the cost of partial fills", () => {
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 100, price: 40 });
+    const position = ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 100, price: 50 });
+
+    expect(position.shares).toBe(200);
+    expect(position.costBasis).toBeCloseTo(90, 6);
+    expect(position.avgEntryPrice).toBeCloseTo(45, 6);
+    expect(position.fills).toHaveLength(2);
+    expect(ledger.getExposure()).toBeCloseTo(90, 6);
+  });
+
+  test("should realize P&L against the average entry on sells", () => {
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 200, price: 45 });
+
+    const partial = ledger.recordFill({ marketId: "m1", side: "YES", action: "SELL", shares: 100, price: 60 });
+    expect(partial.status).toBe("open");
+    expect(partial.realizedPnl).toBeCloseTo(15, 6);
+    expect(partial.costBasis).toBeCloseTo(45, 6);
+
+    const pnl = ledger.closePosition("m1", 30);
+    expect(pnl).toBeCloseTo(-15, 6);
+    expect(ledger.hasOpenPosition("m1")).toBe(false);
+    expect(ledger.getRealizedPnl()).toBeCloseTo(0, 6);
+
+    const [closed] = ledger.getClosedPositions();
+    expect(closed?.status).toBe("closed");
+    expect(closed?.investedUsd).toBeCloseTo(90, 6);
+  });
+
+  test("should value NO positions at the NO price", () => {
+    // 100 NO shares at 70 (YES at 30)
+    ledger.recordFill({ marketId: "m1", side: "NO", action: "BUY", shares: 100, price: 70 });
+
+    ledger.markToMarket("m1", 20);
+    expect(ledger.getUnrealizedPnl()).toBeCloseTo(10, 6);
+
+    expect(ledger.settle("m1", "NO")).toBeCloseTo(30, 6);
+    expect(ledger.getUnrealizedPnl()).toBe(0);
+  });
+
+  test("should settle losing shares at zero", () => {
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 125, price: 40 });
+    expect(ledger.settle("m1", "NO")).toBeCloseTo(-50, 6);
+    expect(ledger.settle("m1", "NO")).toBeUndefined();
+  });
+
+  test("should reject invalid fills, oversells and side mismatches", () => {
+    expect(() =>
+      ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 0, price: 40 })
+    ).toThrow("Invalid fill");
+    expect(() =>
+      ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 10, price: 140 })
+    ).toThrow("Invalid fill");
+
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 10, price: 40 });
+    expect(() =>
+      ledger.recordFill({ marketId: "m1", side: "YES", action: "SELL", shares: 11, price: 40 })
+    ).toThrow("Cannot sell");
+    expect(() =>
+      ledger.recordFill({ marketId: "m1", side: "NO", action: "BUY", shares: 10, price: 60 })
+    ).toThrow("ledger holds YES");
+  });
+
+  test("should sum realized P&L from fills since a date", () => {
+    const yesterday = new Date("2026-03-01T12:00:00Z");
+    const today = new Date("2026-03-02T12:00:00Z");
+
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 100, price: 40, timestamp: yesterday });
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "SELL", shares: 50, price: 60, timestamp: yesterday });
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "SELL", shares: 50, price: 30, timestamp: today });
+
+    expect(ledger.getRealizedPnl()).toBeCloseTo(5, 6);
+    expect(ledger.getRealizedPnl(new Date("2026-03-02T00:00:00Z"))).toBeCloseTo(-5, 6);
+  });
+
+  test("should hand out snapshots that cannot change ledger state", () => {
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 100, price: 40 });
+
+    const snapshot = ledger.getOpenPosition("m1")!;
+    snapshot.shares = 0;
+    snapshot.fills.length = 0;
+
+    expect(ledger.getOpenPosition("m1")?.shares).toBe(100);
+    expect(ledger.getOpenPosition("m1")?.fills).toHaveLength(1);
+  });
+
+  test("should bound the closed position history", () => {
+    const bounded = new PositionLedger({ maxClosedPositions: 2 });
+    for (const id of ["m1", "m2", "m3"]) {
+      bounded.recordFill({ marketId: id, side: "YES", action: "BUY", shares: 10, price: 50 });
+      bounded.closePosition(id, 50);
+    }
+
+    expect(bounded.getClosedPositions().map(p => p.marketId)).toEqual(["m2", "m3"]);
+  });
+
+  test("should drive safety limits from the shared ledger", () => {
+    const safety = new SafetyControls(
+      { maxPositionSize: 100, dailyLossLimit: 20, maxOpenPositions: 1, enabled: true },
+      ledger
+    );
+
+    ledger.recordFill({ marketId: "m1", side: "YES", action: "BUY", shares: 100, price: 50 });
+    expect(safety.canTrade("m2", 10).reason).toContain("Maximum open positions");
+
+    ledger.closePosition("m1", 25);
+    expect(safety.getDailyPnl()).toBeCloseTo(-25, 6);
+    expect(safety.canTrade("m2", 10).reason).toContain("Daily loss limit");
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Position Ledger
+ *
+ * Single source of truth for positions. Fills are recorded as outcome
+ * shares bought or sold at the outcome token's price, so YES and NO
+ * positions are valued the same way: a share pays 100 if its outcome
+ * wins and 0 otherwise.
+ *
+ * The ExecutionLayer (and PaperTradingTracker in simulation) write
+ * fills; SafetyControls and PortfolioManager only read through
+ * PositionLedgerView.
+ *
+ * Prices: fills use outcome prices (0-100). markToMarket/closePosition
+ * take the YES price like Market.current_price and convert by side.
+ * Share and fee math comes from accounting.ts; fees are part of the
+ * cost basis on buys and reduce proceeds on sells.
+ */
+
+import {
+  NO_FEES,
+  settlementPrice,
+  shareValue,
+  toOutcomePrice,
+  tradingFee,
+  type FeeSchedule,
+  type PositionSide,
+} from "./accounting.js";
+
+export interface LedgerFill {
+  orderId?: string;
+  action: "BUY" | "SELL";
+  shares: number;
+  price: number;              // Outcome price, 0-100
+  fee: number;                // USD
+  realizedPnl: number;        // P&L realized by this fill (SELL only)
+  timestamp: Date;
+}
+
+export interface LedgerPosition {
+  marketId: string;
+  side: PositionSide;
+  status: "open" | "closed";
+  shares: number;             // Outcome shares held
+  costBasis: number;          // USD paid for the shares still held, fees included
+  investedUsd: number;        // USD paid for every share bought, fees included
+  avgEntryPrice: number;      // Outcome price, 0-100, fees included
+  feesPaid: number;
+  markPrice: number;          // Latest outcome price, 0-100
+  realizedPnl: number;
+  unrealizedPnl: number;
+  marketQuestion?: string;
+  category?: string;
+  fills: LedgerFill[];
+  openedAt: Date;
+  closedAt?: Date;
+}
+
+export interface FillInput {
+  marketId: string;
+  side: PositionSide;
+  action: "BUY" | "SELL";
+  shares: number;
+  price: number;              // Outcome price, 0-100
+  fee?: number;               // USD fee charged; defaults to the ledger's fee schedule
+  orderId?: string;
+  timestamp?: Date;
+}
+
+/**
+ * Read-only access for components that consume positions
+ */
+export interface PositionLedgerView {
+  getOpenPosition(marketId: string): LedgerPosition | undefined;
+  hasOpenPosition(marketId: string): boolean;
+  getOpenPositions(): LedgerPosition[];
+  getClosedPositions(): LedgerPosition[];
+  getRealizedPnl(since?: Date): number;
+  getUnrealizedPnl(): number;
+  getExposure(): number;
+}
+
+export interface PositionLedgerConfig {
+  maxClosedPositions: number; // Closed history kept in memory
+  fees: FeeSchedule;          // Applied to fills recorded without an explicit fee
+}
+
+const DEFAULT_LEDGER_CONFIG: PositionLedgerConfig = {
+  maxClosedPositions: 200,
+  fees: NO_FEES,
+};
+
+/** Share dust left by floating point after selling everything */
+const SHARE_EPSILON = 1e-9;
+
+export class PositionLedger implements PositionLedgerView {
+  private open: Map<string, LedgerPosition> = new Map();
+  private closed: LedgerPosition[] = [];
+  private totalRealizedPnl = 0;
+  private config: PositionLedgerConfig;
+
+  constructor(config: Partial<PositionLedgerConfig> = {}) {
+    this.config = { ...DEFAULT_LEDGER_CONFIG, ...config };
+  }
+
+  /**
+   * Record a (partial) fill
+   * Buying adds to the open position for the market; selling reduces it
+   * and realizes P&L against the average entry price.
+   */
+  recordFill(fill: FillInput): LedgerPosition {
+    if (!(fill.shares > 0) || !Number.isFinite(fill.price) || fill.price < 0 || fill.price > 100) {
+      throw new Error(`Invalid fill for ${fill.marketId}: ${fill.shares} shares @ ${fill.price}`);
+    }
+
+    const timestamp = fill.timestamp ?? new Date();
+    const fee = fill.fee ?? tradingFee(fill.shares, fill.price, this.config.fees);
+    let position = this.open.get(fill.marketId);
+
+    if (position && position.side !== fill.side) {
+      throw new Error(
+        `Cannot record ${fill.side} fill for ${fill.marketId}: ledger holds ${position.side}`
+      );
+    }
+
+    if (fill.action === "BUY") {
+      if (!position) {
+        position = {
+          marketId: fill.marketId,
+          side: fill.side,
+          status: "open",
+          shares: 0,
+          costBasis: 0,
+          investedUsd: 0,
+          avgEntryPrice: fill.price,
+          feesPaid: 0,
+          markPrice: fill.price,
+          realizedPnl: 0,
+          unrealizedPnl: 0,
+          fills: [],
+          openedAt: timestamp,
+        };
+        this.open.set(fill.marketId, position);
+      }
+
+      const cost = shareValue(fill.shares, fill.price) + fee;
+      position.shares += fill.shares;
+      position.costBasis += cost;
+      position.investedUsd += cost;
+      position.avgEntryPrice = (position.costBasis / position.shares) * 100;
+      position.fills.push({
+        orderId: fill.orderId,
+        action: "BUY",
+        shares: fill.shares,
+        price: fill.price,
+        fee,
+        realizedPnl: 0,
+        timestamp,
+      });
+    } else {
+      if (!position || fill.shares > position.shares + SHARE_EPSILON) {
+        throw new Error(
+          `Cannot sell ${fill.shares} shares of ${fill.marketId}: holding ${position?.shares ?? 0}`
+        );
+      }
+
+      const shares = Math.min(fill.shares, position.shares);
+      const realizedPnl =
+        shareValue(shares, fill.price) - shareValue(shares, position.avgEntryPrice) - fee;
+      position.shares -= shares;
+      position.costBasis = shareValue(position.shares, position.avgEntryPrice);
+      position.realizedPnl += realizedPnl;
+      position.fills.push({
+        orderId: fill.orderId,
+        action: "SELL",
+        shares,
+        price: fill.price,
+        fee,
+        realizedPnl,
+        timestamp,
+      });
+      this.totalRealizedPnl += realizedPnl;
+
+      if (position.shares <= SHARE_EPSILON) {
+        this.archive(position, timestamp);
+      }
+    }
+
+    position.feesPaid += fee;
+    position.markPrice = fill.price;
+    this.revalue(position);
+    return this.snapshot(position);
+  }
+
+  /**
+   * Attach market details used by diversification checks and reports
+   */
+  annotate(marketId: string, details: { marketQuestion?: string; category?: string }): void {
+    const position = this.open.get(marketId);
+    if (!position) return;
+    position.marketQuestion = details.marketQuestion ?? position.marketQuestion;
+    position.category = details.category ?? position.category;
+  }
+
+  /**
+   * Revalue an open position at the current YES price
+   */
+  markToMarket(marketId: string, yesPrice: number): void {
+    const position = this.open.get(marketId);
+    if (!position || !Number.isFinite(yesPrice)) return;
+    position.markPrice = toOutcomePrice(position.side, yesPrice);
+    this.revalue(position);
+  }
+
+  /**
+   * Sell every held share at the YES price
+   * Returns the P&L realized by the close, or undefined without a position
+   */
+  closePosition(marketId: string, yesPrice: number, orderId?: string): number | undefined {
+    const position = this.open.get(marketId);
+    if (!position) return undefined;
+
+    const before = position.realizedPnl;
+    const closed = this.recordFill({
+      marketId,
+      side: position.side,
+      action: "SELL",
+      shares: position.shares,
+      price: toOutcomePrice(position.side, yesPrice),
+      orderId,
+    });
+    return closed.realizedPnl - before;
+  }
+
+  /**
+   * Settle an open position at market resolution (winning shares pay 100)
+   */
+  settle(marketId: string, outcome: PositionSide): number | undefined {
+    return this.closePosition(marketId, settlementPrice("YES", outcome));
+  }
+
+  getOpenPosition(marketId: string): LedgerPosition | undefined {
+    const position = this.open.get(marketId);
+    return position ? this.snapshot(position) : undefined;
+  }
+
+  hasOpenPosition(marketId: string): boolean {
+    return this.open.has(marketId);
+  }
+
+  getOpenPositions(): LedgerPosition[] {
+    return Array.from(this.open.values(), p => this.snapshot(p));
+  }
+
+  /**
+   * Closed positions, oldest first (bounded by maxClosedPositions)
+   */
+  getClosedPositions(): LedgerPosition[] {
+    return this.closed.map(p => this.snapshot(p));
+  }
+
+  /**
+   * Realized P&L over all time, or from sells at or after `since`
+   */
+  getRealizedPnl(since?: Date): number {
+    if (!since) return this.totalRealizedPnl;
+
+    let total = 0;
+    for (const position of [...this.open.values(), ...this.closed]) {
+      for (const fill of position.fills) {
+        if (fill.timestamp >= since) {
+          total += fill.realizedPnl;
+        }
+      }
+    }
+    return total;
+  }
+
+  getUnrealizedPnl(): number {
+    let total = 0;
+    for (const position of this.open.values()) {
+      total += position.unrealizedPnl;
+    }
+    return total;
+  }
+
+  /**
+   * USD cost basis of all open positions
+   */
+  getExposure(): number {
+    let total = 0;
+    for (const position of this.open.values()) {
+      total += position.costBasis;
+    }
+    return total;
+  }
+
+  private revalue(position: LedgerPosition): void {
+    position.unrealizedPnl = position.status === "open"
+      ? shareValue(position.shares, position.markPrice) - position.costBasis
+      : 0;
+  }
+
+  private archive(position: LedgerPosition, timestamp: Date): void {
+    position.status = "closed";
+    position.shares = 0;
+    position.costBasis = 0;
+    position.closedAt = timestamp;
+    this.open.delete(position.marketId);
+
+    this.closed.push(position);
+    if (this.closed.length > this.config.maxClosedPositions) {
+      this.closed.splice(0, this.closed.length - this.config.maxClosedPositions);
+    }
+  }
+
+  /**
+   * Copy handed to readers so they cannot mutate ledger state
+   */
+  private snapshot(position: LedgerPosition): LedgerPosition {
+    return { ...position, fills: position.fills.map(fill => ({ ...fill })) };
+  }
+}
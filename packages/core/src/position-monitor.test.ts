@@ -0,0 +1,329 @@
+/**
+ * Test Suite: Position Monitor
+ */
+
+import { describe, test, expect, vi, beforeEach } from "vitest";
+import type { Market } from "@pomabot/shared";
+import { generateExitConditions } from "./trade-engine";
+import { ExecutionLayer, type Order, type OrderConnector } from "./execution";
+import { PositionLedger } from "./position-ledger";
+import { SafetyControls } from "./safety-controls";
+import type { AuditLogger } from "./audit-log";
+import type { SlackNotifier } from "./notifications";
+import {
+  PositionMonitor,
+  evaluateExitConditions,
+  type MonitoredPosition,
+  type PositionView,
+} from "./position-monitor";
+
+const now = new Date("2026-03-01T12:00:00Z");
+
+function createMarket(price: number): Market {
+  return {
+    id: "fed-cut",
+    question: "Will the Fed cut rates in March?",
+    resolution_criteria: "FOMC statement",
+    category: "economics",
+    current_price: price,
+    closes_at: new Date("2026-03-20T00:00:00Z"),
+    created_at: new Date("2026-01-01T00:00:00Z"),
+    tokens: {
+      yes: { token_id: "yes-token", outcome: "Yes", price },
+      no: { token_id: "no-token", outcome: "No", price: 100 - price },
+    },
+  };
+}
+
+function createOrder(overrides: Partial<Order> = {}): Order {
+  return {
+    id: "order_1",
+    market_id: "fed-cut",
+    side: "YES",
+    size_usd: 50,
+    limit_price: 40,
+    status: "filled",
+    filled_size: 50,
+    created_at: now,
+    updated_at: now,
+    outcome_limit_price: 40,
+    ...overrides,
+  };
+}
+
+// Entered YES at 40 with belief [55, 65] → profit target at the midpoint, 60
+function createPosition(overrides: Partial<MonitoredPosition> = {}): MonitoredPosition {
+  const entryBelief = { belief_low: 55, belief_high: 65 };
+  const side = overrides.side ?? "YES";
+  return {
+    marketId: "fed-cut",
+    order: createOrder({ side }),
+    side,
+    entryPrice: 40,
+    sizeUsd: 50,
+    entryBelief,
+    exitConditions: generateExitConditions(
+      { ...entryBelief, confidence: 70, unknowns: [], last_updated: now },
+      side,
+      40
+    ),
+    openedAt: now,
+    ...overrides,
+  };
+}
+
+function view(price: number, belief_low = 55, belief_high = 65, lastUpdated = now): PositionView {
+  return { market: createMarket(price), belief: { belief_low, belief_high }, lastUpdated };
+}
+
+describe("evaluateExitConditions", () => {
+  test("should hold while no condition fires", () => {
+    expect(evaluateExitConditions(createPosition(), view(45), now)).toBeUndefined();
+  });
+
+  test("should take profit when YES price reaches the belief midpoint", () => {
+    const trigger = evaluateExitConditions(createPosition(), view(60), now);
+    expect(trigger?.type).toBe("profit");
+  });
+
+  test("should take profit on NO when price falls to the target", () => {
+    // NO entered at 40 with belief [20, 30] → target 25
+    const position = createPosition({
+      side: "NO",
+      entryBelief: { belief_low: 20, belief_high: 30 },
+      exitConditions: generateExitConditions(
+        { belief_low: 20, belief_high: 30, confidence: 70, unknowns: [], last_updated: now },
+        "NO",
+        40
+      ),
+    });
+
+    expect(evaluateExitConditions(position, view(30, 20, 30), now)).toBeUndefined();
+    expect(evaluateExitConditions(position, view(25, 20, 30), now)?.type).toBe("profit");
+  });
+
+  test("should invalidate when the belief shifts against the position", () => {
+    // Midpoint 60 → 55 is half the entry width (10) against YES
+    const trigger = evaluateExitConditions(createPosition(), view(45, 50, 60), now);
+    expect(trigger?.type).toBe("invalidation");
+
+    // The same move favours a NO position
+    const noPosition = createPosition({ side: "NO" });
+    expect(evaluateExitConditions(noPosition, view(45, 50, 60), now)?.type).not.toBe("invalidation");
+  });
+
+  test("should exit on missing, invalid or stale data", () => {
+    const position = createPosition();
+
+    expect(evaluateExitConditions(position, undefined, now)?.type).toBe("emergency");
+    expect(evaluateExitConditions(position, view(Number.NaN), now)?.type).toBe("emergency");
+    expect(evaluateExitConditions(position, view(45, 70, 60), now)?.type).toBe("emergency");
+
+    const stale = view(45, 55, 65, new Date(now.getTime() - 10 * 60 * 1000));
+    expect(evaluateExitConditions(position, stale, now)).toBeUndefined();
+    expect(evaluateExitConditions(position, stale, now, { maxDataAgeMs: 5 * 60 * 1000 })?.type)
+      .toBe("emergency");
+  });
+
+  test("should only enforce conditions attached to the position", () => {
+    const position = createPosition({
+      exitConditions: [{ type: "profit", description: "target", trigger_price_level: 60 }],
+    });
+    expect(evaluateExitConditions(position, undefined, now)).toBeUndefined();
+    expect(evaluateExitConditions(position, view(45, 40, 50), now)).toBeUndefined();
+  });
+});
+
+describe("PositionMonitor", () => {
+  let ledger: PositionLedger;
+  let safetyControls: SafetyControls;
+  let auditLogger: { logPositionClosed: ReturnType<typeof vi.fn> };
+  let notifier: { sendPositionClosed: ReturnType<typeof vi.fn> };
+
+  const decision = {
+    side: "YES" as const,
+    size_usd: 50,
+    entry_price: 40,
+    exit_conditions: createPosition().exitConditions,
+    rationale: "test",
+    rationale_hash: "hash",
+    timestamp: now,
+  };
+
+  beforeEach(() => {
+    ledger = new PositionLedger();
+    safetyControls = new SafetyControls({
+      maxPositionSize: 100,
+      dailyLossLimit: 50,
+      maxOpenPositions: 5,
+      enabled: true,
+    }, ledger);
+    auditLogger = { logPositionClosed: vi.fn().mockResolvedValue(undefined) };
+    notifier = { sendPositionClosed: vi.fn().mockResolvedValue(undefined) };
+  });
+
+  function createMonitor(execution: ExecutionLayer): PositionMonitor {
+    return new PositionMonitor({
+      execution,
+      auditLogger: auditLogger as unknown as AuditLogger,
+      notifier: notifier as unknown as SlackNotifier,
+    });
+  }
+
+  // Simulated entry: $50 of YES at 40¢ = 125 shares booked in the ledger
+  async function openSimulated(): Promise<{ execution: ExecutionLayer; monitor: PositionMonitor }> {
+    const execution = new ExecutionLayer(undefined, true, ledger);
+    const { order } = await execution.executeTrade(decision, "fed-cut", undefined, { tokenPrice: 40 });
+    const monitor = createMonitor(execution);
+    monitor.track(createPosition({ order: order! }), view(40));
+    return { execution, monitor };
+  }
+
+  test("should close a triggered position and record it", async () => {
+    const { monitor } = await openSimulated();
+    expect(safetyControls.getPositions()).toHaveLength(1);
+
+    expect(await monitor.checkPositions(new Map([["fed-cut", view(45)]]), now)).toHaveLength(0);
+
+    const closed = await monitor.checkPositions(new Map([["fed-cut", view(62)]]), now);
+
+    expect(closed).toHaveLength(1);
+    expect(closed[0]?.trigger.type).toBe("profit");
+    expect(closed[0]?.exitPrice).toBe(62);
+    // 125 shares sold at 62¢ against a $50 cost
+    expect(closed[0]?.pnl).toBeCloseTo(27.5, 6);
+    expect(monitor.isTracking("fed-cut")).toBe(false);
+    expect(safetyControls.getPositions()).toHaveLength(0);
+    expect(safetyControls.getDailyPnl()).toBeCloseTo(27.5, 6);
+    expect(auditLogger.logPositionClosed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "fed-cut" }),
+      closed[0]?.pnl,
+      expect.stringContaining("profit")
+    );
+    expect(notifier.sendPositionClosed).toHaveBeenCalledTimes(1);
+  });
+
+  test("should price an emergency exit at the last good data", async () => {
+    const { monitor } = await openSimulated();
+    await monitor.checkPositions(new Map([["fed-cut", view(48)]]), now);
+
+    const [closed] = await monitor.checkPositions(new Map(), now);
+
+    expect(closed?.trigger.type).toBe("emergency");
+    expect(closed?.exitPrice).toBe(48);
+    expect(closed?.pnl).toBeCloseTo(125 * 0.48 - 50, 6);
+  });
+
+  test("should exit a tracked position on request at the last view", async () => {
+    const { monitor } = await openSimulated();
+    await monitor.checkPositions(new Map([["fed-cut", view(50)]]), now);
+
+    const closed = await monitor.exit("fed-cut", "Closed by operator");
+
+    expect(closed?.trigger).toEqual({ type: "emergency", reason: "Closed by operator" });
+    expect(closed?.pnl).toBeCloseTo(125 * 0.5 - 50, 6);
+    expect(monitor.isTracking("fed-cut")).toBe(false);
+    expect(await monitor.exit("fed-cut", "again")).toBeUndefined();
+  });
+
+  test("should sell filled shares on the CLOB in live mode", async () => {
+    const connector: OrderConnector = {
+      placeOrder: vi.fn()
+        .mockResolvedValueOnce({ orderId: "clob-1" })
+        .mockResolvedValueOnce({ orderId: "clob-2" }),
+      getOrderStatus: vi.fn().mockImplementation(async (orderId: string) =>
+        ({ status: "MATCHED", averagePrice: orderId === "clob-1" ? 0.4 : 0.6 })),
+      cancelOrder: vi.fn().mockResolvedValue(true),
+    };
+    const execution = new ExecutionLayer(connector, false, ledger);
+    const result = await execution.executeTrade(decision, "fed-cut", "yes-token", { tokenPrice: 40 });
+    await execution.syncOrderStatus(result.order!.id);
+
+    const monitor = createMonitor(execution);
+    monitor.track(createPosition({ order: result.order! }), view(40));
+    expect(await monitor.checkPositions(new Map([["fed-cut", view(60)]]), now)).toHaveLength(0);
+
+    // 125 shares sold at 60¢
+    expect(connector.placeOrder).toHaveBeenLastCalledWith({
+      tokenId: "yes-token",
+      price: 0.6,
+      size: 75,
+      side: "SELL",
+    });
+    expect(monitor.isTracking("fed-cut")).toBe(true);
+    expect(monitor.isExiting("fed-cut")).toBe(true);
+    expect(auditLogger.logPositionClosed).not.toHaveBeenCalled();
+
+    // The close is recorded once the CLOB reports the fill
+    await execution.syncWorkingOrders();
+    const [closed] = await monitor.checkPositions(new Map([["fed-cut", view(55)]]), now);
+
+    expect(closed).toMatchObject({ exitPrice: 60, trigger: { type: "profit" } });
+    expect(closed?.pnl).toBeCloseTo(25, 6);
+    expect(monitor.isTracking("fed-cut")).toBe(false);
+    expect(connector.placeOrder).toHaveBeenCalledTimes(2);
+    expect(auditLogger.logPositionClosed).toHaveBeenCalledTimes(1);
+  });
+
+  test("should sell again when the live exit order ends unfilled", async () => {
+    const statuses: Record<string, { status: "MATCHED" | "LIVE" | "CANCELLED"; averagePrice?: number }> = {
+      "clob-1": { status: "MATCHED", averagePrice: 0.4 },
+      "clob-2": { status: "LIVE" },
+      "clob-3": { status: "LIVE" },
+    };
+    const connector: OrderConnector = {
+      placeOrder: vi.fn()
+        .mockResolvedValueOnce({ orderId: "clob-1" })
+        .mockResolvedValueOnce({ orderId: "clob-2" })
+        .mockResolvedValueOnce({ orderId: "clob-3" }),
+      getOrderStatus: vi.fn().mockImplementation(async (orderId: string) => statuses[orderId]),
+      cancelOrder: vi.fn().mockResolvedValue(true),
+    };
+    const execution = new ExecutionLayer(connector, false, ledger);
+    const result = await execution.executeTrade(decision, "fed-cut", "yes-token", { tokenPrice: 40 });
+    await execution.syncOrderStatus(result.order!.id);
+
+    const monitor = createMonitor(execution);
+    monitor.track(createPosition({ order: result.order! }), view(40));
+    await monitor.checkPositions(new Map([["fed-cut", view(60)]]), now);
+
+    // Resting: nothing to do yet
+    await execution.syncWorkingOrders();
+    expect(await monitor.checkPositions(new Map([["fed-cut", view(60)]]), now)).toHaveLength(0);
+    expect(connector.placeOrder).toHaveBeenCalledTimes(2);
+
+    // Expired on the CLOB: the shares are sold again
+    statuses["clob-2"] = { status: "CANCELLED" };
+    await execution.syncWorkingOrders();
+    expect(await monitor.checkPositions(new Map([["fed-cut", view(60)]]), now)).toHaveLength(0);
+    expect(connector.placeOrder).toHaveBeenCalledTimes(3);
+    expect(monitor.isExiting("fed-cut")).toBe(true);
+
+    statuses["clob-3"] = { status: "MATCHED", averagePrice: 0.6 };
+    await execution.syncWorkingOrders();
+    const [closed] = await monitor.checkPositions(new Map([["fed-cut", view(60)]]), now);
+    expect(closed?.pnl).toBeCloseTo(25, 6);
+    expect(monitor.isTracking("fed-cut")).toBe(false);
+  });
+
+  test("should keep tracking when the live exit order fails", async () => {
+    const connector: OrderConnector = {
+      placeOrder: vi.fn()
+        .mockResolvedValueOnce({ orderId: "clob-1" })
+        .mockResolvedValueOnce(undefined),
+      getOrderStatus: vi.fn().mockResolvedValue({ status: "MATCHED" }),
+      cancelOrder: vi.fn().mockResolvedValue(true),
+    };
+    const execution = new ExecutionLayer(connector, false, ledger);
+    const result = await execution.executeTrade(decision, "fed-cut", "yes-token", { tokenPrice: 40 });
+    await execution.syncOrderStatus(result.order!.id);
+
+    const monitor = createMonitor(execution);
+    monitor.track(createPosition({ order: result.order! }), view(40));
+    const closed = await monitor.checkPositions(new Map([["fed-cut", view(60)]]), now);
+
+    expect(closed).toHaveLength(0);
+    expect(monitor.isTracking("fed-cut")).toBe(true);
+    expect(safetyControls.getPositions()).toHaveLength(1);
+  });
+});
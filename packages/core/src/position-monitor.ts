@@ -0,0 +1,347 @@
+/**
+ * Position Monitor
+ * Enforces the exit conditions from Section 9 of polymarket_ai_deterministic_spec.md
+ *
+ * Every monitoring cycle each open position is checked against the
+ * exit conditions attached to its TradeDecision:
+ * - Invalidation: belief midpoint moved against the position by at least
+ *   trigger_belief_shift, measured in widths of the entry belief range
+ * - Profit: market price reached trigger_price_level
+ * - Emergency: market data missing, stale or violating invariants
+ *
+ * A triggered position is closed through the ExecutionLayer, which books
+ * the sale in the PositionLedger. A live sale is a working CLOB order:
+ * the position stays tracked until syncWorkingOrders books its fills, and
+ * is sold again if the order ends without selling everything. Once the
+ * shares are gone the close is written to the audit log as
+ * POSITION_CLOSED and sent to Slack.
+ */
+
+import type { BeliefState, ExitCondition, Market, TradeSide } from "@pomabot/shared";
+import type { ExecutionLayer, Order } from "./execution.js";
+import { toOutcomePrice } from "./accounting.js";
+import type { AuditLogger } from "./audit-log.js";
+import type { SlackNotifier } from "./notifications.js";
+
+export interface MonitoredPosition {
+  marketId: string;
+  order: Order;
+  side: Exclude<TradeSide, "NONE">;
+  entryPrice: number;          // YES price at entry (0-100), as TradeDecision.entry_price
+  sizeUsd: number;
+  entryBelief: Pick<BeliefState, "belief_low" | "belief_high">;
+  exitConditions: ExitCondition[];
+  openedAt: Date;
+}
+
+/** Latest market data and belief for a position's market */
+export interface PositionView {
+  market: Market;
+  belief: Pick<BeliefState, "belief_low" | "belief_high">;
+  lastUpdated: Date;
+}
+
+export interface ExitTrigger {
+  type: ExitCondition["type"];
+  reason: string;
+}
+
+export interface ClosedPosition {
+  position: MonitoredPosition;
+  trigger: ExitTrigger;
+  exitPrice: number;           // YES price at exit (0-100)
+  pnl: number;                 // Realized by the exit, from the ledger
+}
+
+interface PendingExit {
+  trigger: ExitTrigger;
+  exitPrice: number;           // YES price the SELL was submitted at (0-100)
+}
+
+export interface PositionMonitorConfig {
+  maxDataAgeMs?: number;       // Older market data is an emergency; undefined disables the check
+}
+
+export interface PositionMonitorDeps {
+  execution: ExecutionLayer;
+  auditLogger?: AuditLogger;
+  notifier?: SlackNotifier;
+}
+
+/**
+ * Check a position against its exit conditions
+ * Emergency is checked first, then invalidation, then profit
+ */
+export function evaluateExitConditions(
+  position: MonitoredPosition,
+  view: PositionView | undefined,
+  now: Date = new Date(),
+  config: PositionMonitorConfig = {}
+): ExitTrigger | undefined {
+  const conditions = new Map(position.exitConditions.map(c => [c.type, c]));
+
+  if (conditions.has("emergency")) {
+    const reason = detectDataFailure(view, now, config);
+    if (reason) {
+      return { type: "emergency", reason };
+    }
+  }
+
+  // Without usable data only the emergency exit can be decided
+  if (!view) return undefined;
+
+  const invalidation = conditions.get("invalidation");
+  if (invalidation?.trigger_belief_shift !== undefined) {
+    const shift = beliefShiftAgainst(position, view.belief);
+    if (shift >= invalidation.trigger_belief_shift) {
+      return {
+        type: "invalidation",
+        reason: `Belief shifted against ${position.side} by ${(shift * 100).toFixed(0)}% of entry range`,
+      };
+    }
+  }
+
+  const profit = conditions.get("profit");
+  if (profit?.trigger_price_level !== undefined) {
+    const price = view.market.current_price;
+    const reached = position.side === "YES"
+      ? price >= profit.trigger_price_level
+      : price <= profit.trigger_price_level;
+    if (reached) {
+      return {
+        type: "profit",
+        reason: `Price ${price.toFixed(1)}% reached target ${profit.trigger_price_level.toFixed(1)}%`,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Shift of the belief midpoint against the position, in units of the
+ * entry belief width (0.5 = moved half a range against us)
+ */
+export function beliefShiftAgainst(
+  position: Pick<MonitoredPosition, "side" | "entryBelief">,
+  belief: Pick<BeliefState, "belief_low" | "belief_high">
+): number {
+  const entryMid = (position.entryBelief.belief_low + position.entryBelief.belief_high) / 2;
+  const currentMid = (belief.belief_low + belief.belief_high) / 2;
+  // Floor the width so a collapsed entry range doesn't divide by zero
+  const width = Math.max(position.entryBelief.belief_high - position.entryBelief.belief_low, 1);
+  const moved = position.side === "YES" ? entryMid - currentMid : currentMid - entryMid;
+  return moved / width;
+}
+
+function detectDataFailure(
+  view: PositionView | undefined,
+  now: Date,
+  config: PositionMonitorConfig
+): string | undefined {
+  if (!view) {
+    return "Market data unavailable";
+  }
+
+  const price = view.market.current_price;
+  if (!Number.isFinite(price) || price < 0 || price > 100) {
+    return `Invalid market price ${price}`;
+  }
+
+  if (view.belief.belief_low > view.belief.belief_high) {
+    return "Belief invariant breached (belief_low > belief_high)";
+  }
+
+  if (config.maxDataAgeMs !== undefined) {
+    const ageMs = now.getTime() - view.lastUpdated.getTime();
+    if (ageMs > config.maxDataAgeMs) {
+      return `Market data stale for ${Math.round(ageMs / 1000)}s`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * PositionMonitor - tracks open positions and closes them when an exit triggers
+ */
+export class PositionMonitor {
+  private positions: Map<string, MonitoredPosition> = new Map();
+  private lastViews: Map<string, PositionView> = new Map();
+  private pendingExits: Map<string, PendingExit> = new Map();  // Live exits whose SELL is working
+  private deps: PositionMonitorDeps;
+  private config: PositionMonitorConfig;
+
+  constructor(deps: PositionMonitorDeps, config: PositionMonitorConfig = {}) {
+    this.deps = deps;
+    this.config = config;
+  }
+
+  /**
+   * Start monitoring an opened position
+   * The entry view is the fallback price source for an emergency exit
+   */
+  track(position: MonitoredPosition, view?: PositionView): void {
+    this.positions.set(position.marketId, position);
+    if (view) {
+      this.lastViews.set(position.marketId, view);
+    }
+  }
+
+  /**
+   * Stop monitoring without closing (e.g. position settled at resolution)
+   */
+  untrack(marketId: string): void {
+    this.positions.delete(marketId);
+    this.lastViews.delete(marketId);
+    this.pendingExits.delete(marketId);
+  }
+
+  isTracking(marketId: string): boolean {
+    return this.positions.has(marketId);
+  }
+
+  /**
+   * Whether an exit was submitted and is waiting for its SELL to fill
+   */
+  isExiting(marketId: string): boolean {
+    return this.pendingExits.has(marketId);
+  }
+
+  getPositions(): MonitoredPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  /**
+   * Check every tracked position against the latest views and close
+   * the ones whose exit conditions fired
+   */
+  async checkPositions(
+    views: Map<string, PositionView>,
+    now: Date = new Date()
+  ): Promise<ClosedPosition[]> {
+    const closed: ClosedPosition[] = [];
+
+    for (const position of Array.from(this.positions.values())) {
+      const view = views.get(position.marketId);
+      const trigger = evaluateExitConditions(position, view, now, this.config);
+
+      if (view && (!trigger || trigger.type !== "emergency")) {
+        this.lastViews.set(position.marketId, view);
+      }
+
+      const pending = this.pendingExits.get(position.marketId);
+      const result = pending
+        ? await this.followExit(position, pending)
+        : trigger && await this.closePosition(position, trigger);
+      if (result) {
+        closed.push(result);
+      }
+    }
+
+    return closed;
+  }
+
+  /**
+   * Close a tracked position on request (e.g. an operator from the API)
+   * Exits as an emergency, so the invalidation streak is left unchanged.
+   * Undefined unless the position closed now; see isExiting for a live
+   * exit that is still working.
+   */
+  async exit(marketId: string, reason: string): Promise<ClosedPosition | undefined> {
+    const position = this.positions.get(marketId);
+    if (!position || this.pendingExits.has(marketId)) return undefined;
+    return this.closePosition(position, { type: "emergency", reason });
+  }
+
+  /**
+   * Close a position and record the exit everywhere it is tracked
+   * Emergency exits price at the last good data point when the current
+   * view is unusable. A failed live exit stays tracked and is retried
+   * next cycle; a submitted one is followed by followExit.
+   */
+  private async closePosition(
+    position: MonitoredPosition,
+    trigger: ExitTrigger
+  ): Promise<ClosedPosition | undefined> {
+    const market = this.lastViews.get(position.marketId)?.market;
+    const exitPrice = market?.current_price ?? position.entryPrice;
+
+    console.log(
+      `🚪 ${trigger.type.toUpperCase()} exit ${position.side} on ${market?.question ?? position.marketId}: ${trigger.reason}`
+    );
+
+    const token = position.side === "YES" ? market?.tokens?.yes : market?.tokens?.no;
+    const exited = await this.deps.execution.closePosition(position.marketId, {
+      tokenId: token?.token_id,
+      price: toOutcomePrice(position.side, exitPrice),
+    });
+    if (!exited && this.deps.execution.hasPosition(position.marketId)) {
+      console.error(`❌ Exit failed for ${position.marketId}, retrying next cycle`);
+      return undefined;
+    }
+
+    if (this.deps.execution.hasPosition(position.marketId)) {
+      console.log(`⏳ Exit order working for ${position.marketId}`);
+      this.pendingExits.set(position.marketId, { trigger, exitPrice });
+      return undefined;
+    }
+
+    return this.recordClose(position, trigger, exitPrice);
+  }
+
+  /**
+   * Check a submitted live exit: record the close once its SELL has sold
+   * every share, and sell again if it ended (cancelled, expired) first
+   */
+  private async followExit(
+    position: MonitoredPosition,
+    { trigger, exitPrice }: PendingExit
+  ): Promise<ClosedPosition | undefined> {
+    const { execution } = this.deps;
+    if (execution.hasWorkingOrders(position.marketId)) return undefined;
+
+    this.pendingExits.delete(position.marketId);
+    if (execution.hasPosition(position.marketId)) {
+      console.warn(`⚠️ Exit order for ${position.marketId} ended with shares left, selling again`);
+      return this.closePosition(position, trigger);
+    }
+
+    return this.recordClose(position, trigger, exitPrice);
+  }
+
+  /**
+   * Stop tracking a position whose shares are sold, and report its
+   * realized P&L to the audit log and Slack
+   */
+  private async recordClose(
+    position: MonitoredPosition,
+    trigger: ExitTrigger,
+    exitPrice: number
+  ): Promise<ClosedPosition> {
+    const market = this.lastViews.get(position.marketId)?.market;
+    const pnl = this.realizedPnl(position.marketId);
+
+    this.untrack(position.marketId);
+
+    if (market) {
+      const reason = `${trigger.type}: ${trigger.reason}`;
+      await this.deps.auditLogger?.logPositionClosed(market, pnl, reason);
+      await this.deps.notifier?.sendPositionClosed(position.order, market, pnl, reason);
+    }
+
+    return { position, trigger, exitPrice, pnl };
+  }
+
+  /**
+   * P&L realized by the market's latest closed ledger position; only
+   * exits sell, so this is what the exit realized
+   */
+  private realizedPnl(marketId: string): number {
+    const closed = this.deps.execution.getLedger().getClosedPositions();
+    for (let i = closed.length - 1; i >= 0; i--) {
+      if (closed[i]!.marketId === marketId) return closed[i]!.realizedPnl;
+    }
+    return 0;
+  }
+}
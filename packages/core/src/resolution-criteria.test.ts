@@ -0,0 +1,97 @@
+/**
+ * Test Suite: Resolution Criteria Analyzer
+ * Authority, ambiguity and deadline extraction behind Section 7 checks 1 and 2
+ */
+
+import { describe, test, expect } from "vitest";
+import { analyzeResolutionCriteria } from "./resolution-criteria";
+import { checkObjectiveOutcome, checkResolutionAuthority } from "./trade-engine";
+
+describe("Resolution Criteria Analyzer", () => {
+  test("should find a named resolution source and deadline", () => {
+    const criteria = analyzeResolutionCriteria(
+      "This market will resolve to \"Yes\" if US CPI inflation for May exceeds 3.0% by June 30, 2026. " +
+      "The resolution source for this market will be the Bureau of Labor Statistics (https://www.bls.gov/cpi/)."
+    );
+
+    expect(criteria).toEqual({
+      authority: "Bureau of Labor Statistics",
+      authority_is_clear: true,
+      outcome_is_objective: true,
+      verification_source: "https://www.bls.gov/cpi/",
+      deadline: new Date("2026-06-30T23:59:59.999Z"),
+      ambiguity_markers: [],
+      confidence: 1,
+    });
+  });
+
+  test("should recognize full authority names anywhere and abbreviations and domains in the source clause", () => {
+    expect(analyzeResolutionCriteria(
+      "This market will resolve to \"Yes\" if the Federal Reserve announces a cut at its September meeting."
+    )).toMatchObject({ authority: "Federal Reserve", authority_is_clear: true, confidence: 0.9 });
+
+    expect(analyzeResolutionCriteria("Resolves YES if the Senate passes the bill according to congress.gov."))
+      .toMatchObject({ authority: "congress.gov", verification_source: "congress.gov" });
+
+    expect(analyzeResolutionCriteria("Resolves YES if a spot ETF is approved, as announced by the SEC.").authority)
+      .toBe("SEC");
+    expect(analyzeResolutionCriteria("Resolves YES if the race is called according to the AP.").authority)
+      .toBe("Associated Press");
+    expect(analyzeResolutionCriteria("Resolves YES if rainfall tops 100mm, per the Bureau of Meteorology.").authority)
+      .toBe("Bureau of Meteorology");
+    expect(analyzeResolutionCriteria("Resolves YES if the bill is signed per congress.gov.").authority)
+      .toBe("congress.gov");
+  });
+
+  test("should not mistake ordinary words and sites for authorities", () => {
+    // "sec" as seconds, any academy, lowercase "ap", a .com
+    expect(analyzeResolutionCriteria("Resolves YES if the rocket lifts off within 30 sec of the scheduled time.").authority)
+      .toBe("Unknown");
+    expect(analyzeResolutionCriteria("Resolves YES if the academy opens its new campus by June 1, 2026.").authority)
+      .toBe("Unknown");
+    expect(analyzeResolutionCriteria("Resolves YES if the ap rankings list the team first, per weekly polls.").authority)
+      .toBe("Unknown");
+
+    const site = analyzeResolutionCriteria("Resolves YES if the price shown on polymarket.com is above 50¢.");
+    expect(site.authority).toBe("Unknown");
+    expect(site.verification_source).toBeUndefined();
+
+    // "per" as a rate or unit isn't a source
+    expect(analyzeResolutionCriteria("Resolves YES if the murder rate is above 5 per 100,000 residents in 2026.").authority)
+      .toBe("Unknown");
+    expect(analyzeResolutionCriteria("Resolves YES if the company pays a dividend of at least $1 per share.").authority)
+      .toBe("Unknown");
+    expect(analyzeResolutionCriteria("Resolves YES if the team averages 110 points per game.").authority)
+      .toBe("Unknown");
+
+    // Outside the source clause an abbreviation doesn't name the authority
+    expect(analyzeResolutionCriteria("Resolves YES if the SEC approves a spot ETF.").authority).toBe("Unknown");
+  });
+
+  test("should lower confidence for fallback reporting without failing a named authority", () => {
+    const criteria = analyzeResolutionCriteria(
+      "The resolution source will be official information from the NBA, however a consensus of credible reporting will also be used."
+    );
+
+    expect(criteria).toMatchObject({
+      authority: "NBA",
+      authority_is_clear: true,
+      ambiguity_markers: ["consensus of credible reporting"],
+    });
+    expect(criteria.confidence).toBeCloseTo(0.75);
+  });
+
+  test("should fail checks 1 and 2 for vague or discretionary criteria", () => {
+    const vague = analyzeResolutionCriteria("Resolves YES based on a consensus of credible reporting.");
+    expect(vague.authority).toBe("Unknown");
+    expect(checkResolutionAuthority(vague).eligible).toBe(false);
+
+    const discretionary = analyzeResolutionCriteria(
+      "Resolves per the Associated Press call, or at the discretion of the market creator if unclear."
+    );
+    expect(discretionary.authority).toBe("Associated Press");
+    expect(checkObjectiveOutcome(discretionary)).toMatchObject({ eligible: false, failedCheck: "objective_outcome" });
+
+    expect(analyzeResolutionCriteria("")).toMatchObject({ authority_is_clear: false, outcome_is_objective: false });
+  });
+});
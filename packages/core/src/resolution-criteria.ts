@@ -0,0 +1,161 @@
+/**
+ * Resolution Criteria Analyzer
+ * Feeds checks 1 and 2 of Section 7 in polymarket_ai_deterministic_spec.md
+ *
+ * Reads a market's resolution text (Market.resolution_criteria, the
+ * Polymarket description) and extracts:
+ * - The resolving authority: a named source ("The resolution source for this
+ *   market will be the BLS", "according to X"), or a known authority's full
+ *   name mentioned anywhere (Federal Reserve, NBA, ...). Abbreviations and
+ *   .gov/.org/.int domains only count inside the source clause, where "SEC"
+ *   can't be "30 sec"
+ * - The verification source: a URL or .gov/.org/.int domain when given,
+ *   else the authority
+ * - Ambiguity markers: discretionary wording ("at the discretion of") makes
+ *   the outcome non-objective; fallback wording ("consensus of credible
+ *   reporting") only lowers confidence when an authority is also named
+ * - The deadline ("by December 31, 2026"); a missing one is the spec's
+ *   "timeline ambiguous"
+ *
+ * Confidence (0-1) reflects how much of that could be read from the text;
+ * below MIN_CONFIDENCE the authority doesn't count as clear.
+ */
+
+import type { ResolutionCriteria } from "@pomabot/shared";
+import { clamp } from "@pomabot/shared";
+
+const MIN_CONFIDENCE = 0.5;
+
+// Confidence lost per missing or ambiguous part
+const PENALTIES = {
+  noAuthority: 0.5,
+  fallbackMarker: 0.15,
+  discretionMarker: 0.3,
+  noDeadline: 0.1,
+};
+
+interface KnownAuthority {
+  name: string;
+  fullName: RegExp;        // Matched anywhere, in any case
+  abbreviation?: RegExp;   // Matched in the source clause only, as written ("AP", not "ap")
+}
+
+const KNOWN_AUTHORITIES: KnownAuthority[] = [
+  { name: "Federal Reserve", fullName: /\b(federal reserve|federal open market committee)\b/i, abbreviation: /\b(FOMC|Fed)\b/ },
+  { name: "Bureau of Labor Statistics", fullName: /\bbureau of labor statistics\b/i, abbreviation: /\bBLS\b/ },
+  { name: "Bureau of Economic Analysis", fullName: /\bbureau of economic analysis\b/i, abbreviation: /\bBEA\b/ },
+  { name: "SEC", fullName: /\bsecurities and exchange commission\b/i, abbreviation: /\bSEC\b/ },
+  { name: "Supreme Court", fullName: /\bsupreme court\b/i },
+  { name: "Associated Press", fullName: /\bassociated press\b/i, abbreviation: /\bAP\b/ },
+  { name: "National Weather Service", fullName: /\bnational weather service\b/i, abbreviation: /\b(NWS|NOAA)\b/ },
+  { name: "NBA", fullName: /\bnba\b/i },
+  { name: "NFL", fullName: /\bnfl\b/i },
+  { name: "MLB", fullName: /\bmlb\b/i },
+  { name: "NHL", fullName: /\bnhl\b/i },
+  { name: "FIFA", fullName: /\bfifa\b/i },
+  { name: "UEFA", fullName: /\buefa\b/i },
+  { name: "Academy of Motion Picture Arts and Sciences", fullName: /\bacademy of motion picture arts and sciences\b/i, abbreviation: /\bAMPAS\b/ },
+  { name: "Binance", fullName: /\bbinance\b/i },
+  { name: "Coinbase", fullName: /\bcoinbase\b/i },
+  { name: "CoinGecko", fullName: /\bcoingecko\b/i },
+  { name: "CoinMarketCap", fullName: /\bcoinmarketcap\b/i },
+];
+
+const EXPLICIT_SOURCE = /\b(?:resolution source(?: for this market)? (?:will be|is)|according to|as (?:announced|reported|published) by)\s+(?:the\s+)?(.+?)(?=[,;]|\.(?:\s|$)|$)/i;
+// "per" only cites a source before a capitalized name or a domain, not "per 100,000" or "per share"
+const PER_SOURCE = /\b[Pp]er\s+(?:the\s+)?((?:[A-Z]|[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:gov|org|int)\b).*?)(?=[,;]|\.(?:\s|$)|$)/;
+const URL = /\bhttps?:\/\/[^\s)"']+/i;
+// Institutional domains only: any .com (e.g. polymarket.com) says nothing about who resolves
+const DOMAIN = /\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:gov|org|int)\b/i;
+
+const DISCRETION_MARKERS = [
+  "at the discretion of",
+  "at its discretion",
+  "sole discretion",
+  "in the opinion of",
+  "subjective",
+  "reasonable interpretation",
+];
+
+const FALLBACK_MARKERS = [
+  "consensus of credible reporting",
+  "credible reporting",
+  "widely reported",
+  "major news outlets",
+  "multiple sources",
+];
+
+const MONTHS = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+const DEADLINE = new RegExp(
+  `\\b(?:by|before|on or before|no later than|prior to|until)\\s+(?:(${MONTHS.join("|")})\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})|(\\d{4})-(\\d{2})-(\\d{2}))`,
+  "i"
+);
+
+/**
+ * ResolutionCriteria for the trade engine from a market's resolution text
+ */
+export function analyzeResolutionCriteria(text: string): ResolutionCriteria {
+  const authority = findAuthority(text);
+  const verificationSource = text.match(URL)?.[0] ?? text.match(DOMAIN)?.[0] ?? authority;
+
+  const lower = text.toLowerCase();
+  const discretion = DISCRETION_MARKERS.filter(marker => lower.includes(marker));
+  // "credible reporting" is also part of "consensus of credible reporting"
+  const fallback = FALLBACK_MARKERS.filter(marker => lower.includes(marker))
+    .filter((marker, _i, found) => !found.some(other => other !== marker && other.includes(marker)));
+  const deadline = findDeadline(text);
+
+  let confidence = 1;
+  if (!authority) confidence -= PENALTIES.noAuthority;
+  confidence -= fallback.length * PENALTIES.fallbackMarker;
+  confidence -= discretion.length * PENALTIES.discretionMarker;
+  if (!deadline) confidence -= PENALTIES.noDeadline;
+  confidence = clamp(confidence, 0, 1);
+
+  return {
+    authority: authority ?? "Unknown",
+    authority_is_clear: authority !== undefined && confidence >= MIN_CONFIDENCE,
+    outcome_is_objective: text.trim().length > 0 && discretion.length === 0,
+    verification_source: verificationSource,
+    deadline,
+    ambiguity_markers: [...discretion, ...fallback],
+    confidence,
+  };
+}
+
+function findAuthority(text: string): string | undefined {
+  const explicit = (text.match(EXPLICIT_SOURCE) ?? text.match(PER_SOURCE))?.[1]?.trim();
+
+  if (explicit) {
+    const named = KNOWN_AUTHORITIES.find(({ fullName, abbreviation }) =>
+      fullName.test(explicit) || abbreviation?.test(explicit));
+    if (named) return named.name;
+
+    const domain = explicit.match(DOMAIN)?.[0];
+    if (domain) return domain;
+  }
+
+  const mentioned = KNOWN_AUTHORITIES.find(({ fullName }) => fullName.test(text));
+  if (mentioned) return mentioned.name;
+
+  // A named source we don't know, e.g. "official data from Statistics Canada"
+  if (explicit) {
+    const name = explicit.replace(/^(?:official\s+)?(?:information|data|results|announcements?|figures|statements?)\s+(?:from|by|of)\s+(?:the\s+)?/i, "");
+    if (/^[A-Z]/.test(name) && name.length <= 80) return name;
+  }
+
+  return undefined;
+}
+
+function findDeadline(text: string): Date | undefined {
+  const match = text.match(DEADLINE);
+  if (!match) return undefined;
+
+  const [, monthName, day, year, isoYear, isoMonth, isoDay] = match;
+  const date = monthName
+    ? Date.UTC(Number(year), MONTHS.indexOf(monthName.toLowerCase()), Number(day), 23, 59, 59, 999)
+    : Date.UTC(Number(isoYear), Number(isoMonth) - 1, Number(isoDay), 23, 59, 59, 999);
+
+  // The whole named day counts ("by March 1" includes March 1)
+  return Number.isNaN(date) ? undefined : new Date(date);
+}
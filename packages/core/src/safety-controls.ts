@@ -5,8 +5,12 @@
  * - Excessive position sizes
  * - Daily loss limits
  * - System-wide emergency stops
+ *
+ * Positions and realized P&L are read from the PositionLedger.
  */
 
+import { PositionLedger, type LedgerPosition, type PositionLedgerView } from "./position-ledger.js";
+
 export interface SafetyConfig {
   maxPositionSize: number;    // Maximum USDC per position
   dailyLossLimit: number;     // Maximum daily loss in USDC
@@ -14,22 +18,13 @@ export interface SafetyConfig {
   enabled: boolean;           // Kill switch
 }
 
-export interface PositionTracker {
-  marketId: string;
-  sizeUsd: number;
-  entryPrice: number;
-  currentPrice: number;
-  unrealizedPnl: number;
-}
-
 export class SafetyControls {
   private config: SafetyConfig;
-  private dailyPnl: number = 0;
-  private lastReset: Date = new Date();
-  private positions: Map<string, PositionTracker> = new Map();
+  private ledger: PositionLedgerView;
 
-  constructor(config: SafetyConfig) {
+  constructor(config: SafetyConfig, ledger: PositionLedgerView = new PositionLedger()) {
     this.config = config;
+    this.ledger = ledger;
   }
 
   /**
@@ -56,16 +51,16 @@ export class SafetyControls {
     }
 
     // Daily loss limit check
-    this.resetDailyPnlIfNeeded();
-    if (this.dailyPnl < -this.config.dailyLossLimit) {
+    const dailyPnl = this.getDailyPnl();
+    if (dailyPnl < -this.config.dailyLossLimit) {
       return {
         allowed: false,
-        reason: `Daily loss limit reached: ${this.dailyPnl.toFixed(2)} USDC`,
+        reason: `Daily loss limit reached: ${dailyPnl.toFixed(2)} USDC`,
       };
     }
 
     // Max open positions check
-    if (this.positions.size >= this.config.maxOpenPositions) {
+    if (this.ledger.getOpenPositions().length >= this.config.maxOpenPositions) {
       return {
         allowed: false,
         reason: `Maximum open positions (${this.config.maxOpenPositions}) reached`,
@@ -73,7 +68,7 @@ export class SafetyControls {
     }
 
     // Check if position already exists for this market
-    if (this.positions.has(marketId)) {
+    if (this.ledger.hasOpenPosition(marketId)) {
       return {
         allowed: false,
         reason: "Position already exists for this market (no averaging down)",
@@ -83,68 +78,27 @@ export class SafetyControls {
     return { allowed: true };
   }
 
-  /**
-   * Register a new position
-   */
-  addPosition(marketId: string, sizeUsd: number, entryPrice: number): void {
-    this.positions.set(marketId, {
-      marketId,
-      sizeUsd,
-      entryPrice,
-      currentPrice: entryPrice,
-      unrealizedPnl: 0,
-    });
-  }
-
-  /**
-   * Update position with current price
-   */
-  updatePosition(marketId: string, currentPrice: number): void {
-    const position = this.positions.get(marketId);
-    if (!position) return;
-
-    position.currentPrice = currentPrice;
-    position.unrealizedPnl = (currentPrice - position.entryPrice) * position.sizeUsd;
-  }
-
-  /**
-   * Close a position and record P&L
-   */
-  closePosition(marketId: string, exitPrice: number): number {
-    const position = this.positions.get(marketId);
-    if (!position) return 0;
-
-    const realizedPnl = (exitPrice - position.entryPrice) * position.sizeUsd;
-    this.dailyPnl += realizedPnl;
-    this.positions.delete(marketId);
-
-    return realizedPnl;
-  }
-
   /**
    * Get current positions
    */
-  getPositions(): PositionTracker[] {
-    return Array.from(this.positions.values());
+  getPositions(): LedgerPosition[] {
+    return this.ledger.getOpenPositions();
   }
 
   /**
    * Get total unrealized P&L
    */
   getTotalUnrealizedPnl(): number {
-    let total = 0;
-    for (const position of this.positions.values()) {
-      total += position.unrealizedPnl;
-    }
-    return total;
+    return this.ledger.getUnrealizedPnl();
   }
 
   /**
-   * Get daily P&L
+   * Get daily P&L (realized since midnight UTC)
    */
   getDailyPnl(): number {
-    this.resetDailyPnlIfNeeded();
-    return this.dailyPnl;
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    return this.ledger.getRealizedPnl(startOfDay);
   }
 
   /**
@@ -170,21 +124,6 @@ export class SafetyControls {
     return this.config.enabled;
   }
 
-  /**
-   * Reset daily P&L at midnight UTC
-   */
-  private resetDailyPnlIfNeeded(): void {
-    const now = new Date();
-    const lastResetDate = this.lastReset.toISOString().split("T")[0];
-    const currentDate = now.toISOString().split("T")[0];
-
-    if (lastResetDate !== currentDate) {
-      console.log(`📊 Daily P&L reset (previous: ${this.dailyPnl.toFixed(2)} USDC)`);
-      this.dailyPnl = 0;
-      this.lastReset = now;
-    }
-  }
-
   /**
    * Get safety status
    */
@@ -196,15 +135,15 @@ export class SafetyControls {
     dailyLossLimit: number;
     dailyLossRemaining: number;
   } {
-    this.resetDailyPnlIfNeeded();
+    const dailyPnl = this.getDailyPnl();
     
     return {
       tradingEnabled: this.config.enabled,
-      dailyPnl: this.dailyPnl,
-      openPositions: this.positions.size,
+      dailyPnl,
+      openPositions: this.ledger.getOpenPositions().length,
       maxPositions: this.config.maxOpenPositions,
       dailyLossLimit: this.config.dailyLossLimit,
-      dailyLossRemaining: this.config.dailyLossLimit + this.dailyPnl,
+      dailyLossRemaining: this.config.dailyLossLimit + dailyPnl,
     };
   }
 }
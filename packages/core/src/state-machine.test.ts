@@ -145,15 +145,87 @@ describe("State Machine Transitions", () => {
     expect(stateMachine.getCurrentState()).toBe("HALT");
   });
 
-  test("should allow manual reset after halt", () => {
+  test("should refuse a reset while halted", () => {
     const stateMachine = new StateMachine();
 
     stateMachine.forceHalt("Test halt");
+    expect(stateMachine.reset()).toBe(false);
+    expect(stateMachine.getCurrentState()).toBe("HALT");
+    expect(stateMachine.getHaltReason()).toBe("Test halt");
+
+    // The acknowledged resume is the way out
+    expect(stateMachine.resume("ops", "Investigated")).toBe(true);
+    expect(stateMachine.getCurrentState()).toBe("OBSERVE");
+  });
+
+  test("should reset a cycle in progress to OBSERVE", () => {
+    const stateMachine = new StateMachine();
+
+    stateMachine.transition("INGEST_SIGNAL", "Processing signal");
+    expect(stateMachine.reset()).toBe(true);
+    expect(stateMachine.getCurrentState()).toBe("OBSERVE");
+  });
+});
+
+describe("Halt Recovery", () => {
+  test("should categorize halts", () => {
+    const stateMachine = new StateMachine();
+
+    stateMachine.transition("EXECUTE_TRADE", "Illegal jump");
+    expect(stateMachine.getActiveHalt()).toMatchObject({ category: "invariant_breach", from: "OBSERVE" });
+
+    const safety = new StateMachine();
+    checkHaltConditions(
+      { coverageDeviation: 0, highConfidenceUnderperforms: false, consecutiveInvalidations: 3, unknownDensityRising: false },
+      safety
+    );
+    expect(safety.getActiveHalt()?.category).toBe("safety");
+
+    const manual = new StateMachine();
+    manual.forceHalt("Operator request", "manual");
+    expect(manual.getActiveHalt()?.category).toBe("manual");
+  });
+
+  test("should only resume with an operator acknowledgement", () => {
+    const stateMachine = new StateMachine();
+
+    expect(stateMachine.resume("ops", "nothing to resume")).toBe(false);
+
+    stateMachine.forceHalt("Test halt", "manual");
+    expect(stateMachine.resume("", "no actor")).toBe(false);
+    expect(stateMachine.resume("ops", "  ")).toBe(false);
     expect(stateMachine.isHalted()).toBe(true);
 
-    stateMachine.reset();
+    const at = new Date("2026-03-01T12:00:00Z");
+    expect(stateMachine.resume("ops", "Feed fixed", at)).toBe(true);
+
     expect(stateMachine.getCurrentState()).toBe("OBSERVE");
     expect(stateMachine.getHaltReason()).toBeUndefined();
+    expect(stateMachine.getActiveHalt()).toBeUndefined();
+    expect(stateMachine.getTransitionHistory().at(-1)).toMatchObject({
+      from: "HALT",
+      to: "OBSERVE",
+      reason: "Resumed by ops: Feed fixed",
+    });
+    expect(stateMachine.transition("INGEST_SIGNAL", "Back to work")).toBe(true);
+  });
+
+  test("should keep a halt history with acknowledgements", () => {
+    const stateMachine = new StateMachine();
+    const at = new Date("2026-03-01T12:00:00Z");
+
+    stateMachine.forceHalt("First", "manual");
+    stateMachine.resume("ops", "Checked", at);
+    stateMachine.forceHalt("Second");
+
+    const history = stateMachine.getHaltHistory();
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({
+      reason: "First",
+      acknowledgement: { actor: "ops", reason: "Checked", timestamp: at },
+    });
+    expect(history[1]).toMatchObject({ reason: "Second", category: "invariant_breach" });
+    expect(history[1]?.acknowledgement).toBeUndefined();
   });
 });
 
@@ -5,7 +5,15 @@
  * Controls valid state transitions and enforces halt conditions.
  */
 
-import type { SystemState, StateTransition } from "@pomabot/shared";
+import type {
+  SystemState,
+  StateTransition,
+  HaltAcknowledgement,
+  HaltCategory,
+  HaltRecord,
+  HaltTrigger,
+} from "@pomabot/shared";
+import { THRESHOLDS } from "@pomabot/shared";
 
 /**
  * Valid state transitions (Section 3)
@@ -21,13 +29,26 @@ const VALID_TRANSITIONS: Record<SystemState, SystemState[]> = {
   EVALUATE_TRADE: ["EXECUTE_TRADE", "OBSERVE", "HALT"],
   EXECUTE_TRADE: ["MONITOR", "HALT"],
   MONITOR: ["OBSERVE", "HALT"],
-  HALT: [], // Terminal state - no transitions out
+  HALT: [], // Only resume() leaves HALT, with an operator acknowledgement
 };
 
+export interface StateMachineOptions {
+  maxHistory?: number;         // Keep only the latest transitions (default: unbounded)
+  onTransition?: (transition: StateTransition) => void; // Called once the new state is in effect
+}
+
 export class StateMachine {
   private currentState: SystemState = "OBSERVE";
   private transitionHistory: StateTransition[] = [];
   private haltReason?: string;
+  private haltHistory: HaltRecord[] = [];
+  private maxHistory?: number;
+  private onTransition?: (transition: StateTransition) => void;
+
+  constructor(options: StateMachineOptions = {}) {
+    this.maxHistory = options.maxHistory;
+    this.onTransition = options.onTransition;
+  }
 
   getCurrentState(): SystemState {
     return this.currentState;
@@ -45,6 +66,22 @@ export class StateMachine {
     return this.currentState === "HALT";
   }
 
+  /**
+   * Every halt since startup, oldest first, with its acknowledgement once resumed
+   */
+  getHaltHistory(): HaltRecord[] {
+    return this.haltHistory.map(record => ({ ...record }));
+  }
+
+  /**
+   * The halt currently in force (latest record while halted)
+   */
+  getActiveHalt(): HaltRecord | undefined {
+    if (!this.isHalted()) return undefined;
+    const record = this.haltHistory[this.haltHistory.length - 1];
+    return record ? { ...record } : undefined;
+  }
+
   /**
    * Attempt to transition to a new state
    * Returns true if successful, false if illegal
@@ -63,14 +100,12 @@ export class StateMachine {
       return false;
     }
 
-    // Record transition
     const transition: StateTransition = {
       from: this.currentState,
       to,
       timestamp: new Date(),
       reason,
     };
-    this.transitionHistory.push(transition);
 
     // Update state
     this.currentState = to;
@@ -78,33 +113,76 @@ export class StateMachine {
     // If transitioning to HALT, record reason
     if (to === "HALT") {
       this.haltReason = reason;
+      this.recordHalt("safety", reason, transition.from);
     }
 
+    // Record transition
+    this.recordTransition(transition);
     return true;
   }
 
   /**
-   * Force immediate halt (called on invariant breach)
+   * Force immediate halt (called on invariant breach by default)
    * Section 1: "Violation of any invariant = system halt"
    */
-  forceHalt(reason: string): void {
+  forceHalt(reason: string, category: HaltCategory = "invariant_breach", trigger?: HaltTrigger): void {
+    const from = this.currentState;
     this.haltReason = reason;
-    this.transitionHistory.push({
-      from: this.currentState,
+    this.recordHalt(category, reason, from, trigger);
+    this.currentState = "HALT";
+    this.recordTransition({
+      from,
       to: "HALT",
       timestamp: new Date(),
       reason: `EMERGENCY HALT: ${reason}`,
     });
-    this.currentState = "HALT";
   }
 
   /**
-   * Reset state machine (manual restart after halt)
+   * Leave HALT for OBSERVE once an operator has acknowledged the halt
+   * Returns false if not halted or the acknowledgement lacks an actor or reason
    */
-  reset(): void {
+  resume(actor: string, reason: string, timestamp: Date = new Date()): boolean {
+    if (!this.isHalted() || !actor.trim() || !reason.trim()) return false;
+
+    const ack: HaltAcknowledgement = { actor: actor.trim(), reason: reason.trim(), timestamp };
+    for (const record of this.haltHistory) {
+      record.acknowledgement ??= ack;
+    }
+
     this.currentState = "OBSERVE";
     this.haltReason = undefined;
+    this.recordTransition({
+      from: "HALT",
+      to: "OBSERVE",
+      timestamp: ack.timestamp,
+      reason: `Resumed by ${ack.actor}: ${ack.reason}`,
+    });
+    return true;
+  }
+
+  /**
+   * Abandon the current cycle and go back to OBSERVE
+   * Refused (returns false) while halted: only resume() leaves HALT
+   */
+  reset(): boolean {
+    if (this.isHalted()) return false;
+
+    this.currentState = "OBSERVE";
     // Keep transition history for audit
+    return true;
+  }
+
+  private recordTransition(transition: StateTransition): void {
+    this.transitionHistory.push(transition);
+    if (this.maxHistory !== undefined && this.transitionHistory.length > this.maxHistory) {
+      this.transitionHistory.splice(0, this.transitionHistory.length - this.maxHistory);
+    }
+    this.onTransition?.(transition);
+  }
+
+  private recordHalt(category: HaltCategory, reason: string, from: SystemState, trigger?: HaltTrigger): void {
+    this.haltHistory.push({ category, reason, from, haltedAt: new Date(), trigger });
   }
 }
 
@@ -112,7 +190,7 @@ export class StateMachine {
  * Section 13: Halt Conditions
  * 
  * These conditions trigger immediate system halt.
- * Manual restart is required after halt.
+ * An operator must acknowledge the halt (resume()) before trading continues.
  */
 export interface HaltConditions {
   coverageDeviation: number;
@@ -123,12 +201,13 @@ export interface HaltConditions {
 
 export function checkHaltConditions(
   conditions: HaltConditions,
-  stateMachine: StateMachine
+  stateMachine: Pick<StateMachine, "forceHalt">
 ): void {
   // Coverage deviation > 15%
-  if (Math.abs(conditions.coverageDeviation) > 0.15) {
+  if (Math.abs(conditions.coverageDeviation) > THRESHOLDS.CALIBRATION_COVERAGE_DEVIATION_HALT) {
     stateMachine.forceHalt(
-      `Coverage deviation ${(conditions.coverageDeviation * 100).toFixed(1)}% exceeds 15% threshold`
+      `Coverage deviation ${(conditions.coverageDeviation * 100).toFixed(1)}% exceeds 15% threshold`,
+      "safety"
     );
     return;
   }
@@ -136,15 +215,17 @@ export function checkHaltConditions(
   // High-confidence bucket underperforms low-confidence
   if (conditions.highConfidenceUnderperforms) {
     stateMachine.forceHalt(
-      "High-confidence bucket underperforming low-confidence bucket - calibration failure"
+      "High-confidence bucket underperforming low-confidence bucket - calibration failure",
+      "safety"
     );
     return;
   }
 
   // 3 belief invalidations in a row
-  if (conditions.consecutiveInvalidations >= 3) {
+  if (conditions.consecutiveInvalidations >= THRESHOLDS.CONSECUTIVE_INVALIDATIONS_HALT) {
     stateMachine.forceHalt(
-      `${conditions.consecutiveInvalidations} consecutive belief invalidations`
+      `${conditions.consecutiveInvalidations} consecutive belief invalidations`,
+      "safety"
     );
     return;
   }
@@ -152,7 +233,8 @@ export function checkHaltConditions(
   // Unknown density rising system-wide
   if (conditions.unknownDensityRising) {
     stateMachine.forceHalt(
-      "Unknown density rising system-wide - increasing uncertainty"
+      "Unknown density rising system-wide - increasing uncertainty",
+      "safety"
     );
     return;
   }
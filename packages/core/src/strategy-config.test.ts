@@ -0,0 +1,139 @@
+/**
+ * Test Suite: Strategy Configuration
+ */
+
+import { describe, test, expect, afterEach } from "vitest";
+import { existsSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { BeliefState, Market } from "@pomabot/shared";
+import { DEFAULT_STRATEGY_CONFIG, THRESHOLDS, hashStrategyParams } from "@pomabot/shared";
+import { loadStrategyConfig, parseStrategyConfig, validateStrategyConfig } from "./strategy-config";
+import { evaluateTrade } from "./trade-engine";
+
+const YAML_CONFIG = `
+name: conservative
+version: 2
+thresholds:
+  MIN_CONFIDENCE: 70
+minEdge:
+  crypto: 0.2
+impactCaps:
+  speculative: 0.02
+`;
+
+describe("Strategy config parsing", () => {
+  test("should merge YAML overrides over the defaults", () => {
+    const config = parseStrategyConfig(YAML_CONFIG, "yaml");
+
+    expect(config.name).toBe("conservative");
+    expect(config.version).toBe("2");
+    expect(config.thresholds.MIN_CONFIDENCE).toBe(70);
+    expect(config.thresholds.MAX_BELIEF_WIDTH).toBe(THRESHOLDS.MAX_BELIEF_WIDTH);
+    expect(config.minEdge.crypto).toBe(0.2);
+    expect(config.minEdge.sports).toBe(0.1);
+    expect(config.impactCaps.speculative).toBe(0.02);
+  });
+
+  test("should produce the same hash for equivalent JSON and YAML", () => {
+    const fromYaml = parseStrategyConfig(YAML_CONFIG, "yaml");
+    const fromJson = parseStrategyConfig(
+      JSON.stringify({
+        name: "renamed",
+        version: "7",
+        impactCaps: { speculative: 0.02 },
+        minEdge: { crypto: 0.2 },
+        thresholds: { MIN_CONFIDENCE: 70 },
+      }),
+      "json"
+    );
+
+    expect(fromJson.hash).toBe(fromYaml.hash);
+    expect(fromYaml.hash).not.toBe(DEFAULT_STRATEGY_CONFIG.hash);
+    expect(hashStrategyParams(fromYaml)).toBe(fromYaml.hash);
+  });
+
+  test("should report every schema violation at once", () => {
+    expect(() =>
+      validateStrategyConfig({
+        version: 1,
+        thresholds: { MIN_CONFIDENCE: "high", NOT_A_THRESHOLD: 1 },
+        minEdge: { sports: 1.5 },
+        extra: true,
+      })
+    ).toThrow(
+      /unknown key "extra".*"name" must be a non-empty string.*MIN_CONFIDENCE must be a number.*unknown thresholds key "NOT_A_THRESHOLD".*minEdge.sports must be between 0 and 1/
+    );
+  });
+
+  test("should not accept inherited property names as keys", () => {
+    expect(() =>
+      validateStrategyConfig({
+        name: "inherited",
+        version: 1,
+        thresholds: { constructor: 1, toString: 2 },
+        impactCaps: { hasOwnProperty: 0.5 },
+      })
+    ).toThrow(
+      /unknown thresholds key "constructor".*unknown thresholds key "toString".*unknown impactCaps key "hasOwnProperty"/
+    );
+  });
+
+  test("should reject malformed files", () => {
+    expect(() => parseStrategyConfig("name: [unclosed", "yaml")).toThrow(/could not parse yaml/);
+    expect(() => parseStrategyConfig("[]", "json")).toThrow(/expected an object/);
+  });
+});
+
+describe("loadStrategyConfig", () => {
+  const testDir = "./test-strategy-config";
+
+  afterEach(async () => {
+    if (existsSync(testDir)) {
+      await rm(testDir, { recursive: true, force: true });
+    }
+  });
+
+  test("should choose the parser by file extension", async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, "strategy.yml"), YAML_CONFIG, "utf-8");
+    await writeFile(join(testDir, "strategy.toml"), "", "utf-8");
+
+    const config = await loadStrategyConfig(join(testDir, "strategy.yml"));
+    expect(config.thresholds.MIN_CONFIDENCE).toBe(70);
+    await expect(loadStrategyConfig(join(testDir, "strategy.toml"))).rejects.toThrow(/Unsupported/);
+  });
+});
+
+describe("Config hash attribution", () => {
+  test("should record the config hash in the trade rationale", () => {
+    const belief: BeliefState = {
+      belief_low: 65,
+      belief_high: 80,
+      confidence: 75,
+      unknowns: [],
+      last_updated: new Date(),
+    };
+    const market: Market = {
+      id: "market1",
+      question: "Will X happen?",
+      resolution_criteria: "Official announcement",
+      category: "sports",
+      current_price: 50,
+      liquidity: 10000,
+      volume_24h: 5000,
+      created_at: new Date(),
+    };
+    const criteria = { authority: "League", authority_is_clear: true, outcome_is_objective: true };
+
+    const config = parseStrategyConfig(YAML_CONFIG, "yaml");
+    const decision = evaluateTrade(belief, market, criteria, config);
+    const defaultDecision = evaluateTrade(belief, market, criteria);
+
+    expect("side" in decision && decision.config_hash).toBe(config.hash);
+    expect("rationale" in decision && decision.rationale).toContain(`Config: ${config.hash}`);
+    expect("side" in defaultDecision && defaultDecision.config_hash).toBe(
+      DEFAULT_STRATEGY_CONFIG.hash
+    );
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Strategy Configuration Loading
+ *
+ * Loads a versioned StrategyConfig from a JSON or YAML file so that
+ * thresholds, edge minimums and impact caps can change without a code
+ * change, and two configurations can run side by side.
+ *
+ * Every section is optional; omitted values fall back to the defaults
+ * in @pomabot/shared. Example (YAML):
+ *
+ *   name: conservative
+ *   version: 2
+ *   thresholds:
+ *     MIN_CONFIDENCE: 70
+ *   minEdge:
+ *     crypto: 0.2
+ *   impactCaps:
+ *     speculative: 0.02
+ */
+
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import type { StrategyConfig, StrategyParams } from "@pomabot/shared";
+import { DEFAULT_STRATEGY_PARAMS, createStrategyConfig } from "@pomabot/shared";
+
+const TOP_LEVEL_KEYS = new Set(["name", "version", "thresholds", "minEdge", "impactCaps"]);
+
+/**
+ * Validate a parsed config object and merge it over the defaults
+ * Collects every problem so a bad file can be fixed in one pass
+ */
+export function validateStrategyConfig(
+  raw: unknown,
+  defaults: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): StrategyConfig {
+  const errors: string[] = [];
+
+  if (!isRecord(raw)) {
+    throw new Error("Invalid strategy config: expected an object");
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!TOP_LEVEL_KEYS.has(key)) {
+      errors.push(`unknown key "${key}"`);
+    }
+  }
+
+  if (typeof raw.name !== "string" || raw.name.trim().length === 0) {
+    errors.push(`"name" must be a non-empty string`);
+  }
+
+  const version = raw.version;
+  if (typeof version !== "string" && !Number.isInteger(version)) {
+    errors.push(`"version" must be a string or integer`);
+  }
+
+  const thresholds = mergeSection(
+    "thresholds",
+    raw.thresholds,
+    defaults.thresholds,
+    { min: 0 },
+    errors
+  );
+  const minEdge = mergeSection("minEdge", raw.minEdge, defaults.minEdge, { min: 0, max: 1 }, errors);
+  const impactCaps = mergeSection(
+    "impactCaps",
+    raw.impactCaps,
+    defaults.impactCaps,
+    { min: 0, max: 1 },
+    errors
+  );
+
+  if (thresholds.MIN_CONFIDENCE_BOUND > thresholds.MAX_CONFIDENCE_BOUND) {
+    errors.push("thresholds.MIN_CONFIDENCE_BOUND must not exceed MAX_CONFIDENCE_BOUND");
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid strategy config: ${errors.join("; ")}`);
+  }
+
+  return createStrategyConfig(raw.name as string, String(version), {
+    thresholds,
+    minEdge,
+    impactCaps,
+  });
+}
+
+/**
+ * Parse config file contents
+ */
+export function parseStrategyConfig(content: string, format: "json" | "yaml"): StrategyConfig {
+  let raw: unknown;
+  try {
+    raw = format === "json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(`Invalid strategy config: could not parse ${format} (${(error as Error).message})`);
+  }
+  return validateStrategyConfig(raw);
+}
+
+/**
+ * Load a config from disk, choosing the parser by file extension
+ */
+export async function loadStrategyConfig(filePath: string): Promise<StrategyConfig> {
+  const extension = extname(filePath).toLowerCase();
+  const format = extension === ".json"
+    ? "json"
+    : extension === ".yaml" || extension === ".yml"
+      ? "yaml"
+      : undefined;
+
+  if (!format) {
+    throw new Error(`Unsupported strategy config format: ${extension}`);
+  }
+
+  const content = await readFile(filePath, "utf-8");
+  return parseStrategyConfig(content, format);
+}
+
+/**
+ * Overlay one section onto its defaults; only known keys with
+ * finite numbers in range are accepted, so the result has the
+ * defaults' shape
+ */
+function mergeSection<T extends Record<string, number>>(
+  section: string,
+  value: unknown,
+  defaults: T,
+  range: { min: number; max?: number },
+  errors: string[]
+): T {
+  if (value === undefined) return { ...defaults };
+
+  if (!isRecord(value)) {
+    errors.push(`"${section}" must be an object`);
+    return { ...defaults };
+  }
+
+  const overrides: Partial<Record<keyof T, number>> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!isKeyOf(key, defaults)) {
+      errors.push(`unknown ${section} key "${key}"`);
+    } else if (typeof entry !== "number" || !Number.isFinite(entry)) {
+      errors.push(`${section}.${key} must be a number`);
+    } else if (entry < range.min || (range.max !== undefined && entry > range.max)) {
+      errors.push(
+        `${section}.${key} must be between ${range.min} and ${range.max ?? "∞"} (got ${entry})`
+      );
+    } else {
+      overrides[key] = entry;
+    }
+  }
+
+  return { ...defaults, ...overrides };
+}
+
+function isKeyOf<T extends object>(key: string, value: T): key is Extract<keyof T, string> {
+  return Object.hasOwn(value, key);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
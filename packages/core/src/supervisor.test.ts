@@ -0,0 +1,91 @@
+/**
+ * Test Suite: System Supervisor
+ * Per-market lifecycles with a system-wide halt
+ */
+
+import { describe, test, expect } from "vitest";
+import { checkHaltConditions } from "./state-machine";
+import { SystemSupervisor } from "./supervisor";
+
+describe("SystemSupervisor", () => {
+  test("should isolate an illegal transition to its market", () => {
+    const supervisor = new SystemSupervisor();
+    const fed = supervisor.forMarket("fed");
+    const btc = supervisor.forMarket("btc");
+
+    expect(supervisor.forMarket("fed")).toBe(fed);
+    expect(fed.transition("EXECUTE_TRADE", "Illegal jump")).toBe(false);
+
+    expect(fed.isHalted()).toBe(true);
+    expect(supervisor.isHalted()).toBe(false);
+    expect(supervisor.canProcess("fed")).toBe(false);
+    expect(supervisor.canProcess("btc")).toBe(true);
+    expect(btc.transition("INGEST_SIGNAL", "New signal")).toBe(true);
+
+    expect(supervisor.getHaltedMarkets()).toEqual([
+      { marketId: "fed", halt: expect.objectContaining({ category: "invariant_breach", from: "OBSERVE" }) },
+    ]);
+  });
+
+  test("should resume a halted market with an acknowledgement", () => {
+    const supervisor = new SystemSupervisor();
+    supervisor.forMarket("fed").transition("MONITOR", "Illegal jump");
+
+    expect(supervisor.resumeMarket("unknown", "ops", "Checked")).toBe(false);
+    expect(supervisor.resumeMarket("fed", "ops", "Checked")).toBe(true);
+
+    expect(supervisor.canProcess("fed")).toBe(true);
+    expect(supervisor.getMarketLifecycle("fed")).toMatchObject({
+      state: "OBSERVE",
+      halted: false,
+      haltHistory: [{ acknowledgement: { actor: "ops", reason: "Checked" } }],
+    });
+  });
+
+  test("should stop every market on a system-wide halt", () => {
+    const supervisor = new SystemSupervisor();
+    supervisor.forMarket("fed");
+
+    checkHaltConditions(
+      { coverageDeviation: 0, highConfidenceUnderperforms: false, consecutiveInvalidations: 3, unknownDensityRising: false },
+      supervisor
+    );
+
+    expect(supervisor.getState()).toBe("HALT");
+    expect(supervisor.getActiveHalt()?.category).toBe("safety");
+    expect(supervisor.canProcess("fed")).toBe(false);
+    expect(supervisor.getMarketLifecycle("fed")?.halted).toBe(false);
+
+    expect(supervisor.resume("ops", "Reviewed exits")).toBe(true);
+    expect(supervisor.canProcess("fed")).toBe(true);
+  });
+
+  test("should report every transition with its market", () => {
+    const seen: Array<[string, string | undefined]> = [];
+    const supervisor = new SystemSupervisor({
+      onTransition: (transition, marketId) => seen.push([transition.to, marketId]),
+    });
+
+    supervisor.forMarket("fed").transition("INGEST_SIGNAL", "New signal");
+    supervisor.forceHalt("Operator request", "manual");
+
+    expect(seen).toEqual([["INGEST_SIGNAL", "fed"], ["HALT", undefined]]);
+  });
+
+  test("should cap each market's transition history", () => {
+    const supervisor = new SystemSupervisor({ maxMarketHistory: 4 });
+    const lifecycle = supervisor.forMarket("fed");
+
+    for (let i = 0; i < 5; i++) {
+      lifecycle.transition("INGEST_SIGNAL", `Signal ${i}`);
+      lifecycle.transition("OBSERVE", "Signal rejected");
+    }
+
+    const transitions = supervisor.getMarketLifecycle("fed")?.transitions ?? [];
+    expect(transitions).toHaveLength(4);
+    expect(transitions[0]?.reason).toBe("Signal 3");
+
+    supervisor.release("fed");
+    expect(supervisor.getMarketLifecycle("fed")).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * System Supervisor
+ * Splits the Section 3 state machine into one lifecycle per market plus a
+ * system-wide halt state.
+ *
+ * Each market runs OBSERVE → INGEST_SIGNAL → UPDATE_BELIEF → EVALUATE_TRADE
+ * → EXECUTE_TRADE → MONITOR on its own StateMachine, so an illegal
+ * transition halts only that market. System-wide halts (Section 13 halt
+ * conditions, operator halts) live on the supervisor and stop every market.
+ */
+
+import type { HaltCategory, HaltRecord, HaltTrigger, StateTransition, SystemState } from "@pomabot/shared";
+import { StateMachine } from "./state-machine.js";
+
+export interface SupervisorConfig {
+  maxMarketHistory?: number;   // Transitions kept per market (default 50)
+  // Every transition, system-wide (marketId undefined) or per market
+  onTransition?: (transition: StateTransition, marketId?: string) => void;
+}
+
+/** A market lifecycle as reported to the API */
+export interface MarketLifecycleView {
+  marketId: string;
+  state: SystemState;
+  halted: boolean;
+  haltReason?: string;
+  activeHalt?: HaltRecord;
+  haltHistory: HaltRecord[];
+  transitions: StateTransition[];
+}
+
+export class SystemSupervisor {
+  private system: StateMachine;
+  private markets: Map<string, StateMachine> = new Map();
+  private maxMarketHistory: number;
+  private onTransition?: SupervisorConfig["onTransition"];
+
+  constructor(config: SupervisorConfig = {}) {
+    this.maxMarketHistory = config.maxMarketHistory ?? 50;
+    this.onTransition = config.onTransition;
+    this.system = new StateMachine({ onTransition: transition => this.onTransition?.(transition) });
+  }
+
+  /**
+   * Lifecycle for a market, created in OBSERVE on first use
+   */
+  forMarket(marketId: string): StateMachine {
+    let lifecycle = this.markets.get(marketId);
+    if (!lifecycle) {
+      lifecycle = new StateMachine({
+        maxHistory: this.maxMarketHistory,
+        onTransition: transition => this.onTransition?.(transition, marketId),
+      });
+      this.markets.set(marketId, lifecycle);
+    }
+    return lifecycle;
+  }
+
+  /**
+   * Forget a market's lifecycle (market dropped or resolved)
+   */
+  release(marketId: string): void {
+    this.markets.delete(marketId);
+  }
+
+  getMarketLifecycle(marketId: string): MarketLifecycleView | undefined {
+    const lifecycle = this.markets.get(marketId);
+    if (!lifecycle) return undefined;
+
+    return {
+      marketId,
+      state: lifecycle.getCurrentState(),
+      halted: lifecycle.isHalted(),
+      haltReason: lifecycle.getHaltReason(),
+      activeHalt: lifecycle.getActiveHalt(),
+      haltHistory: lifecycle.getHaltHistory(),
+      transitions: lifecycle.getTransitionHistory(),
+    };
+  }
+
+  /**
+   * Markets whose own lifecycle is halted, with the halt in force
+   */
+  getHaltedMarkets(): Array<{ marketId: string; halt: HaltRecord }> {
+    const halted: Array<{ marketId: string; halt: HaltRecord }> = [];
+    for (const [marketId, lifecycle] of this.markets) {
+      const halt = lifecycle.getActiveHalt();
+      if (halt) {
+        halted.push({ marketId, halt });
+      }
+    }
+    return halted;
+  }
+
+  /**
+   * Whether a market may advance its lifecycle
+   */
+  canProcess(marketId: string): boolean {
+    return !this.isHalted() && !this.markets.get(marketId)?.isHalted();
+  }
+
+  /**
+   * Acknowledge a single market's halt and return it to OBSERVE
+   */
+  resumeMarket(marketId: string, actor: string, reason: string, timestamp: Date = new Date()): boolean {
+    return this.markets.get(marketId)?.resume(actor, reason, timestamp) ?? false;
+  }
+
+  // System-wide halt state
+
+  getState(): SystemState {
+    return this.system.getCurrentState();
+  }
+
+  isHalted(): boolean {
+    return this.system.isHalted();
+  }
+
+  getHaltReason(): string | undefined {
+    return this.system.getHaltReason();
+  }
+
+  getActiveHalt(): HaltRecord | undefined {
+    return this.system.getActiveHalt();
+  }
+
+  getHaltHistory(): HaltRecord[] {
+    return this.system.getHaltHistory();
+  }
+
+  /**
+   * Halt every market (Section 13 conditions, operator halts)
+   */
+  forceHalt(reason: string, category: HaltCategory = "invariant_breach", trigger?: HaltTrigger): void {
+    this.system.forceHalt(reason, category, trigger);
+  }
+
+  resume(actor: string, reason: string, timestamp: Date = new Date()): boolean {
+    return this.system.resume(actor, reason, timestamp);
+  }
+}
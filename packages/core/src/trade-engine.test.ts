@@ -5,6 +5,7 @@
 import { describe, test, expect } from "vitest";
 import {
   evaluateTrade,
+  explainTrade,
   checkBeliefWidth,
   checkConfidence,
   checkEdge,
@@ -13,6 +14,7 @@ import {
   validateTradeExitsInvariant,
 } from "./trade-engine";
 import type { BeliefState, Market, ResolutionCriteria, TradeDecision } from "@pomabot/shared";
+import { DEFAULT_STRATEGY_PARAMS } from "@pomabot/shared";
 
 describe("Trade Eligibility Checks", () => {
   test("should reject trade when belief width exceeds 25%", () => {
@@ -98,6 +100,27 @@ describe("Trade Eligibility Checks", () => {
     expect(result.failedCheck).toBe("edge");
   });
 
+  test("should apply injected thresholds instead of the defaults", () => {
+    const belief: BeliefState = {
+      belief_low: 50,
+      belief_high: 70,
+      confidence: 60,
+      unknowns: [],
+      last_updated: new Date(),
+    };
+    const params = {
+      ...DEFAULT_STRATEGY_PARAMS,
+      thresholds: { ...DEFAULT_STRATEGY_PARAMS.thresholds, MIN_CONFIDENCE: 55 },
+      minEdge: { ...DEFAULT_STRATEGY_PARAMS.minEdge, sports: 0.05 },
+    };
+
+    expect(checkConfidence(belief, params).eligible).toBe(true);
+    expect(checkEdge(0.06, "sports", params).eligible).toBe(true);
+    // Defaults unchanged
+    expect(checkConfidence(belief).eligible).toBe(false);
+    expect(checkEdge(0.06, "sports").eligible).toBe(false);
+  });
+
   test("should use highest threshold (25%) for unknown category", () => {
     const edge = 0.22; // 22%
     const result = checkEdge(edge, "unknown-category");
@@ -274,3 +297,60 @@ describe("Complete Trade Evaluation", () => {
     }
   });
 });
+
+describe("Trade Explanation", () => {
+  const belief: BeliefState = {
+    belief_low: 65,
+    belief_high: 80,
+    confidence: 60,
+    unknowns: [],
+    last_updated: new Date(),
+  };
+
+  const market: Market = {
+    id: "market1",
+    question: "Will X happen?",
+    resolution_criteria: "Official results",
+    category: "politics",
+    current_price: 50,
+    liquidity: 10000,
+    volume_24h: 5000,
+    created_at: new Date(),
+  };
+
+  const criteria: ResolutionCriteria = {
+    authority: "Official results",
+    authority_is_clear: true,
+    outcome_is_objective: true,
+  };
+
+  test("should run every check past the first failure", () => {
+    const explanation = explainTrade(belief, market, criteria);
+
+    expect(explanation.eligible).toBe(false);
+    expect(explanation.side).toBe("NONE");
+    expect(explanation.checks.map(c => c.check)).toEqual([
+      "resolution_authority", "objective_outcome", "liquidity", "belief_width",
+      "confidence", "price_outside_range", "edge", "exit_plan",
+    ]);
+    expect(explanation.checks.filter(c => !c.passed).map(c => c.check)).toEqual(["confidence"]);
+
+    const confidence = explanation.checks.find(c => c.check === "confidence");
+    expect(confidence).toMatchObject({ value: 60, threshold: DEFAULT_STRATEGY_PARAMS.thresholds.MIN_CONFIDENCE });
+    expect(confidence?.reason).toContain("below minimum");
+    expect(explanation.checks.find(c => c.check === "edge")).toMatchObject({ passed: true, value: 0.15 });
+  });
+
+  test("should agree with evaluateTrade", () => {
+    const confident = { ...belief, confidence: 75 };
+    const explanation = explainTrade(confident, market, criteria);
+    const decision = evaluateTrade(confident, market, criteria);
+
+    expect(explanation).toMatchObject({ eligible: true, side: "YES" });
+    expect("side" in decision && decision.side).toBe("YES");
+
+    const inRange = explainTrade(confident, { ...market, current_price: 70 }, criteria);
+    expect(inRange.checks.filter(c => !c.passed).map(c => c.check)).toEqual(["price_outside_range", "edge"]);
+    expect(inRange.checks.find(c => c.check === "price_outside_range")?.threshold).toEqual([65, 80]);
+  });
+});
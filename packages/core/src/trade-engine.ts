@@ -12,9 +12,10 @@ import type {
   ResolutionCriteria, 
   TradeDecision,
   TradeSide,
-  ExitCondition
+  ExitCondition,
+  StrategyParams
 } from "@pomabot/shared";
-import { MIN_EDGE, THRESHOLDS, hashString } from "@pomabot/shared";
+import { DEFAULT_STRATEGY_PARAMS, hashString, hashStrategyParams } from "@pomabot/shared";
 
 /**
  * Section 7: Trade Eligibility Check (Ordered)
@@ -63,12 +64,16 @@ export function checkObjectiveOutcome(
 /**
  * Check 3: Liquidity ≥ minimum?
  */
-export function checkLiquidity(market: Market): TradeEligibilityResult {
-  if (market.liquidity < THRESHOLDS.MIN_LIQUIDITY) {
+export function checkLiquidity(
+  market: Market,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): TradeEligibilityResult {
+  const minLiquidity = params.thresholds.MIN_LIQUIDITY;
+  if (market.liquidity < minLiquidity) {
     return {
       eligible: false,
       failedCheck: "liquidity",
-      reason: `Liquidity ${market.liquidity} below minimum ${THRESHOLDS.MIN_LIQUIDITY}`,
+      reason: `Liquidity ${market.liquidity} below minimum ${minLiquidity}`,
     };
   }
   return { eligible: true };
@@ -77,13 +82,17 @@ export function checkLiquidity(market: Market): TradeEligibilityResult {
 /**
  * Check 4: Belief width ≤ 25%?
  */
-export function checkBeliefWidth(belief: BeliefState): TradeEligibilityResult {
+export function checkBeliefWidth(
+  belief: BeliefState,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): TradeEligibilityResult {
   const width = belief.belief_high - belief.belief_low;
-  if (width > THRESHOLDS.MAX_BELIEF_WIDTH) {
+  const maxWidth = params.thresholds.MAX_BELIEF_WIDTH;
+  if (width > maxWidth) {
     return {
       eligible: false,
       failedCheck: "belief_width",
-      reason: `Belief width ${width.toFixed(1)}% exceeds maximum ${THRESHOLDS.MAX_BELIEF_WIDTH}%`,
+      reason: `Belief width ${width.toFixed(1)}% exceeds maximum ${maxWidth}%`,
     };
   }
   return { eligible: true };
@@ -92,12 +101,16 @@ export function checkBeliefWidth(belief: BeliefState): TradeEligibilityResult {
 /**
  * Check 5: Confidence ≥ 65?
  */
-export function checkConfidence(belief: BeliefState): TradeEligibilityResult {
-  if (belief.confidence < THRESHOLDS.MIN_CONFIDENCE) {
+export function checkConfidence(
+  belief: BeliefState,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): TradeEligibilityResult {
+  const minConfidence = params.thresholds.MIN_CONFIDENCE;
+  if (belief.confidence < minConfidence) {
     return {
       eligible: false,
       failedCheck: "confidence",
-      reason: `Confidence ${belief.confidence.toFixed(1)} below minimum ${THRESHOLDS.MIN_CONFIDENCE}`,
+      reason: `Confidence ${belief.confidence.toFixed(1)} below minimum ${minConfidence}`,
     };
   }
   return { eligible: true };
@@ -158,11 +171,12 @@ export function calculateEdge(
  */
 export function checkEdge(
   edge: number,
-  category: string
+  category: string,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
 ): TradeEligibilityResult {
   // Get minimum edge for category, default to 'other' (highest threshold)
   // If category not found, use 0.25 (25%) as the most conservative threshold
-  const minEdge: number = MIN_EDGE[category] ?? 0.25;
+  const minEdge: number = params.minEdge[category] ?? 0.25;
   
   if (edge < minEdge) {
     return {
@@ -180,15 +194,17 @@ export function checkEdge(
 export function generateExitConditions(
   belief: BeliefState,
   side: TradeSide,
-  _entryPrice: number
+  _entryPrice: number,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
 ): ExitCondition[] {
   const conditions: ExitCondition[] = [];
+  const invalidationThreshold = params.thresholds.BELIEF_INVALIDATION_THRESHOLD;
   
   // Invalidation Exit: Belief range shifts against position by ≥50%
   conditions.push({
     type: "invalidation",
-    description: `Belief shifts against ${side} position by ≥${THRESHOLDS.BELIEF_INVALIDATION_THRESHOLD * 100}%`,
-    trigger_belief_shift: THRESHOLDS.BELIEF_INVALIDATION_THRESHOLD,
+    description: `Belief shifts against ${side} position by ≥${invalidationThreshold * 100}%`,
+    trigger_belief_shift: invalidationThreshold,
   });
   
   // Profit Exit: Market converges inside belief range midpoint
@@ -220,7 +236,8 @@ export function generateExitConditions(
 export function evaluateTrade(
   belief: BeliefState,
   market: Market,
-  criteria: ResolutionCriteria
+  criteria: ResolutionCriteria,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
 ): TradeDecision | TradeEligibilityResult {
   // Check 1: Resolution authority
   const authCheck = checkResolutionAuthority(criteria);
@@ -231,15 +248,15 @@ export function evaluateTrade(
   if (!objectiveCheck.eligible) return objectiveCheck;
   
   // Check 3: Liquidity
-  const liquidityCheck = checkLiquidity(market);
+  const liquidityCheck = checkLiquidity(market, params);
   if (!liquidityCheck.eligible) return liquidityCheck;
   
   // Check 4: Belief width
-  const widthCheck = checkBeliefWidth(belief);
+  const widthCheck = checkBeliefWidth(belief, params);
   if (!widthCheck.eligible) return widthCheck;
   
   // Check 5: Confidence
-  const confidenceCheck = checkConfidence(belief);
+  const confidenceCheck = checkConfidence(belief, params);
   if (!confidenceCheck.eligible) return confidenceCheck;
   
   // Check 6: Price outside range
@@ -250,16 +267,18 @@ export function evaluateTrade(
   const { edge, side } = calculateEdge(belief, market.current_price);
   
   // Check 7: Edge threshold
-  const edgeCheck = checkEdge(edge / 100, market.category);
+  const edgeCheck = checkEdge(edge / 100, market.category, params);
   if (!edgeCheck.eligible) return edgeCheck;
   
   // Check 8: Generate exit conditions (always succeeds)
-  const exitConditions = generateExitConditions(belief, side, market.current_price);
+  const exitConditions = generateExitConditions(belief, side, market.current_price, params);
   
   // All checks passed - create trade decision
+  const configHash = hashStrategyParams(params);
   const rationale = `Trade ${side} at ${market.current_price.toFixed(1)}% with edge ${edge.toFixed(1)}%. ` +
     `Belief: [${belief.belief_low.toFixed(1)}, ${belief.belief_high.toFixed(1)}], ` +
-    `Confidence: ${belief.confidence.toFixed(1)}`;
+    `Confidence: ${belief.confidence.toFixed(1)}. ` +
+    `Config: ${configHash}`;
   
   const decision: TradeDecision = {
     side,
@@ -268,12 +287,93 @@ export function evaluateTrade(
     exit_conditions: exitConditions,
     rationale,
     rationale_hash: hashString(rationale),
+    config_hash: configHash,
     timestamp: new Date(),
   };
   
   return decision;
 }
 
+/**
+ * One eligibility check with what it measured and the bar it had to clear
+ */
+export interface TradeCheckResult {
+  check: string;                              // Same names as TradeEligibilityResult.failedCheck
+  passed: boolean;
+  value: number | boolean;                    // Measured value (edge as a fraction, like checkEdge)
+  threshold: number | boolean | [number, number]; // Minimum, maximum, required flag, or belief range to be outside of
+  reason?: string;                            // Set when the check failed
+}
+
+export interface TradeExplanation {
+  eligible: boolean;
+  side: TradeSide;
+  checks: TradeCheckResult[];                 // All eight, in Section 7 order
+}
+
+/**
+ * Run all eight eligibility checks without short-circuiting
+ * Shows operators how close a market is to trading; evaluateTrade remains
+ * the decision path and agrees with `eligible` here.
+ */
+export function explainTrade(
+  belief: BeliefState,
+  market: Market,
+  criteria: ResolutionCriteria,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): TradeExplanation {
+  const { edge, side } = calculateEdge(belief, market.current_price);
+  const exits = generateExitConditions(belief, side, market.current_price, params);
+  const hasExitPlan = exits.some(e => e.type === "invalidation") && exits.some(e => e.type === "profit");
+
+  const result = (
+    check: string,
+    eligibility: TradeEligibilityResult,
+    value: TradeCheckResult["value"],
+    threshold: TradeCheckResult["threshold"]
+  ): TradeCheckResult => ({
+    check,
+    passed: eligibility.eligible,
+    value,
+    threshold,
+    ...(eligibility.reason !== undefined && { reason: eligibility.reason }),
+  });
+
+  const checks: TradeCheckResult[] = [
+    result("resolution_authority", checkResolutionAuthority(criteria), criteria.authority_is_clear, true),
+    result("objective_outcome", checkObjectiveOutcome(criteria), criteria.outcome_is_objective, true),
+    result("liquidity", checkLiquidity(market, params), market.liquidity, params.thresholds.MIN_LIQUIDITY),
+    result(
+      "belief_width",
+      checkBeliefWidth(belief, params),
+      belief.belief_high - belief.belief_low,
+      params.thresholds.MAX_BELIEF_WIDTH
+    ),
+    result("confidence", checkConfidence(belief, params), belief.confidence, params.thresholds.MIN_CONFIDENCE),
+    result(
+      "price_outside_range",
+      checkPriceOutsideRange(belief, market.current_price),
+      market.current_price,
+      [belief.belief_low, belief.belief_high]
+    ),
+    result(
+      "edge",
+      checkEdge(edge / 100, market.category, params),
+      edge / 100,
+      params.minEdge[market.category] ?? 0.25
+    ),
+    result(
+      "exit_plan",
+      hasExitPlan ? { eligible: true } : { eligible: false, reason: "No invalidation and profit exits" },
+      hasExitPlan,
+      true
+    ),
+  ];
+
+  const eligible = checks.every(c => c.passed);
+  return { eligible, side: eligible ? side : "NONE", checks };
+}
+
 /**
  * Global Invariant Check: Trades cannot occur outside belief bounds
  * Section 1, Invariant #3
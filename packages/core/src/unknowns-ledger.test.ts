@@ -0,0 +1,97 @@
+/**
+ * Test Suite: Unknowns Ledger
+ * Section 6 add/resolve rules and the confidence invariant
+ */
+
+import { describe, test, expect } from "vitest";
+import type { BeliefState, Signal } from "@pomabot/shared";
+import {
+  addCriteriaUnknowns,
+  enforceUnknownsInvariant,
+  extractUnknowns,
+  kindOf,
+  updateUnknowns,
+} from "./unknowns-ledger";
+import { performBeliefUpdate, validateConfidenceInvariant } from "./belief-engine";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+
+const belief: BeliefState = {
+  belief_low: 45,
+  belief_high: 60,
+  confidence: 60,
+  unknowns: [],
+  last_updated: NOW,
+};
+
+function createSignal(overrides: Partial<Signal> = {}): Signal {
+  return {
+    type: "procedural",
+    direction: "up",
+    strength: 3,
+    conflicts_with_existing: false,
+    timestamp: NOW,
+    source: "reuters",
+    ...overrides,
+  };
+}
+
+describe("Unknowns Ledger", () => {
+  test("should extract one unknown per pending kind", () => {
+    const unknowns = extractUnknowns(
+      "Resolves YES if the Supreme Court strikes the law. A ruling is expected by June. " +
+      "The CPI report due on June 11 is the resolution source; the upcoming jobs report is not."
+    );
+
+    expect(unknowns.map(kindOf)).toEqual(["legal_decision", "data_release"]);
+    expect(unknowns[0]?.description).toBe("Pending legal decision: A ruling is expected by June.");
+  });
+
+  test("should ignore text without anything pending", () => {
+    expect(extractUnknowns("Resolves YES if the FOMC lowers the target range.")).toEqual([]);
+    expect(extractUnknowns("The court ruled on Monday.")).toEqual([]);
+  });
+
+  test("should seed criteria unknowns with a confidence penalty", () => {
+    const { belief: seeded, added } = addCriteriaUnknowns(belief, "Senate vote scheduled for March 20.");
+
+    expect(added).toHaveLength(1);
+    expect(seeded.unknowns).toEqual(added);
+    expect(seeded.confidence).toBe(53);
+  });
+
+  test("should add from procedural signals and resolve from authoritative ones", () => {
+    const hearing = createSignal({ description: "Judge sets hearing for Friday; ruling expected next week" });
+    const { belief: open, added } = updateUnknowns(belief, hearing);
+    expect(added.map(kindOf)).toEqual(["legal_decision"]);
+
+    // The same open question again doesn't stack
+    expect(updateUnknowns(open, hearing).added).toEqual([]);
+    // Procedural reports of an outcome don't settle it
+    expect(updateUnknowns(open, createSignal({ description: "Court ruled in favor" })).resolved).toEqual([]);
+
+    const ruling = createSignal({ type: "authoritative", source: "supremecourt.gov", description: "The court ruled 6-3 for the plaintiffs" });
+    const { belief: settled, resolved } = updateUnknowns(open, ruling);
+
+    expect(settled.unknowns).toEqual([]);
+    expect(resolved).toEqual([{
+      ...added[0],
+      resolved_at: NOW,
+      resolution_reason: "supremecourt.gov: The court ruled 6-3 for the plaintiffs",
+    }]);
+  });
+
+  test("should keep confidence from rising when a signal adds unknowns", () => {
+    // Earlier signals outweigh one unknown's penalty in a fresh recalculation
+    const history = [createSignal({ type: "authoritative" }), createSignal()];
+    const signal = createSignal({ description: "Final vote scheduled for Thursday" });
+    const { belief: withUnknown } = updateUnknowns(belief, signal);
+
+    const recalculated = performBeliefUpdate(withUnknown, signal, history);
+    expect(recalculated.confidence).toBeGreaterThan(belief.confidence);
+
+    const enforced = enforceUnknownsInvariant(belief, recalculated);
+    expect(enforced.confidence).toBe(53);
+    expect(validateConfidenceInvariant(belief, enforced)).toBe(true);
+  });
+});
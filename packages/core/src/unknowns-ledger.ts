@@ -0,0 +1,179 @@
+/**
+ * Unknowns Ledger
+ * Implementation of Section 6 of polymarket_ai_deterministic_spec.md
+ *
+ * Adds an Unknown when the outcome hangs on something that hasn't happened
+ * yet, read from the market's resolution criteria and from procedural
+ * signals:
+ * - legal_decision   "ruling expected", "pending appeal"
+ * - scheduled_event  "hearing scheduled for", "vote set for"
+ * - data_release     "CPI report due", "upcoming jobs data"
+ *
+ * An authoritative signal that reports the same kind of thing as done
+ * ("the court ruled", "data released") resolves it. BeliefState.unknowns
+ * only holds open unknowns, so UNKNOWN_PENALTY counts the unresolved ones
+ * as the spec requires; resolved ones are returned to the caller with
+ * resolved_at and resolution_reason set.
+ *
+ * Each kind is tracked at most once per market: a second "hearing
+ * scheduled" headline is the same open question, not a new one.
+ */
+
+import type { BeliefState, Signal, StrategyParams, Unknown } from "@pomabot/shared";
+import { DEFAULT_STRATEGY_PARAMS, clamp, hashString } from "@pomabot/shared";
+
+export type UnknownKind = "legal_decision" | "scheduled_event" | "data_release";
+
+export interface UnknownsUpdate {
+  belief: BeliefState;
+  added: Unknown[];
+  resolved: Unknown[];
+}
+
+interface UnknownRule {
+  kind: UnknownKind;
+  label: string;
+  topic: RegExp;              // What the sentence is about
+  done: RegExp;               // Wording that reports it as having happened
+}
+
+const UNKNOWN_RULES: UnknownRule[] = [
+  {
+    kind: "legal_decision",
+    label: "Pending legal decision",
+    topic: /\b(court|judge|justices|ruling|verdict|appeal|lawsuit|tribunal)\b/i,
+    done: /\b(ruled|rules that|verdict|dismissed|upheld|overturned|struck down|sided with|decision (issued|handed down))\b/i,
+  },
+  {
+    kind: "scheduled_event",
+    label: "Scheduled event",
+    topic: /\b(hearing|vote|meeting|session|summit|debate|deadline)\b/i,
+    done: /\b(held|concluded|voted|adjourned|ended|completed|took place)\b/i,
+  },
+  {
+    kind: "data_release",
+    label: "Upcoming data release",
+    topic: /\b(report|data|figures|statistics|cpi|payrolls|gdp|jobs numbers)\b/i,
+    done: /\b(released|published|reported|showed|came in)\b/i,
+  },
+];
+
+// Wording that puts the topic in the future
+const PENDING_CUE = /\b(pending|awaiting|awaits|awaited|expected|scheduled|upcoming|due|set (for|to)|will (rule|decide|hold|meet|vote|release|publish))\b/i;
+
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/**
+ * Open questions named in a piece of text, one per kind
+ */
+export function extractUnknowns(text: string, addedAt: Date = new Date()): Unknown[] {
+  const unknowns: Unknown[] = [];
+
+  for (const sentence of splitSentences(text)) {
+    if (!PENDING_CUE.test(sentence)) continue;
+
+    for (const rule of UNKNOWN_RULES) {
+      if (!rule.topic.test(sentence) || unknowns.some(u => kindOf(u) === rule.kind)) continue;
+      unknowns.push({
+        id: `${rule.kind}:${hashString(sentence)}`,
+        description: `${rule.label}: ${truncate(sentence)}`,
+        added_at: addedAt,
+      });
+    }
+  }
+
+  return unknowns;
+}
+
+/**
+ * Seed a new market's unknowns from its resolution criteria
+ */
+export function addCriteriaUnknowns(
+  belief: BeliefState,
+  resolutionCriteria: string,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): UnknownsUpdate {
+  const added = extractUnknowns(resolutionCriteria, belief.last_updated);
+  const updated = { ...belief, unknowns: [...belief.unknowns, ...added] };
+  return { belief: enforceUnknownsInvariant(belief, updated, params), added, resolved: [] };
+}
+
+/**
+ * Add the unknowns a procedural signal raises and resolve the ones an
+ * authoritative signal settles. Confidence is left to the belief update
+ * that follows (see enforceUnknownsInvariant).
+ */
+export function updateUnknowns(belief: BeliefState, signal: Signal): UnknownsUpdate {
+  const text = signal.description ?? "";
+
+  if (signal.type === "procedural") {
+    const added = extractUnknowns(text, signal.timestamp)
+      .filter(unknown => !belief.unknowns.some(open => kindOf(open) === kindOf(unknown)));
+    return { belief: { ...belief, unknowns: [...belief.unknowns, ...added] }, added, resolved: [] };
+  }
+
+  if (signal.type === "authoritative") {
+    const settled = new Set(
+      splitSentences(text)
+        .filter(sentence => !PENDING_CUE.test(sentence))
+        .flatMap(sentence => UNKNOWN_RULES.filter(rule => rule.topic.test(sentence) && rule.done.test(sentence)))
+        .map(rule => rule.kind)
+    );
+
+    const resolved = belief.unknowns
+      .filter(unknown => settled.has(kindOf(unknown)!))
+      .map(unknown => ({
+        ...unknown,
+        resolved_at: signal.timestamp,
+        resolution_reason: `${signal.source ?? "Authoritative signal"}: ${truncate(text)}`,
+      }));
+
+    if (resolved.length > 0) {
+      const open = belief.unknowns.filter(unknown => !resolved.some(r => r.id === unknown.id));
+      return { belief: { ...belief, unknowns: open }, added: [], resolved };
+    }
+  }
+
+  return { belief, added: [], resolved: [] };
+}
+
+/**
+ * Section 6 enforcement: if unknowns increase, confidence must decrease
+ * A belief update recalculates confidence from signal counts, which can
+ * outweigh the new UNKNOWN_PENALTY; cap it one penalty per added unknown
+ * below where it was.
+ */
+export function enforceUnknownsInvariant(
+  before: BeliefState,
+  after: BeliefState,
+  params: StrategyParams = DEFAULT_STRATEGY_PARAMS
+): BeliefState {
+  const { thresholds } = params;
+  const added = after.unknowns.length - before.unknowns.length;
+  if (added <= 0) return after;
+
+  const ceiling = before.confidence - added * thresholds.UNKNOWN_PENALTY;
+  if (after.confidence <= ceiling) return after;
+
+  return {
+    ...after,
+    confidence: clamp(ceiling, thresholds.MIN_CONFIDENCE_BOUND, Math.min(before.confidence, thresholds.MAX_CONFIDENCE_BOUND)),
+  };
+}
+
+/**
+ * Kind of an unknown added by this ledger, from its "<kind>:<hash>" ID
+ */
+export function kindOf(unknown: Unknown): UnknownKind | undefined {
+  const kind = unknown.id.split(":")[0];
+  return UNKNOWN_RULES.find(rule => rule.kind === kind)?.kind;
+}
+
+function splitSentences(text: string): string[] {
+  return text.split(/(?<=[.!?;])\s+|\n+/).map(s => s.trim()).filter(Boolean);
+}
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_DESCRIPTION_LENGTH ? `${trimmed.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…` : trimmed;
+}
@@ -26,9 +26,11 @@ export interface Signal {
   direction: SignalDirection;
   strength: 1 | 2 | 3 | 4 | 5;
   conflicts_with_existing: boolean;
+  conflicts_with?: string;  // Reference to the signal it conflicts with (signalRef)
   timestamp: Date;
   source?: string;
   description?: string;
+  id?: string;       // Content-addressed identity (createSignalId); signals without one are never deduplicated
 }
 
 export interface Unknown {
@@ -68,6 +70,7 @@ export interface TradeDecision {
   exit_conditions: ExitCondition[];
   rationale_hash: string;
   rationale: string;
+  config_hash?: string;   // StrategyConfig hash the decision was made under
   timestamp: Date;
 }
 
@@ -86,6 +89,15 @@ export type MarketCategory =
   | "world"           // Geopolitics, international events
   | "other";          // Miscellaneous markets
 
+/**
+ * Tradable CLOB token for one side of a binary market
+ */
+export interface OutcomeToken {
+  token_id: string;
+  outcome: string;  // Label as listed on Polymarket ("Yes", or e.g. a team name)
+  price: number;    // 0-100
+}
+
 export interface Market {
   id: string;
   question: string;
@@ -98,6 +110,7 @@ export interface Market {
   closes_at?: Date;
   resolved_at?: Date;
   resolution_outcome?: boolean;
+  tokens?: { yes: OutcomeToken; no: OutcomeToken };  // Absent for simulated/recorded markets
 }
 
 export interface ResolutionCriteria {
@@ -105,6 +118,9 @@ export interface ResolutionCriteria {
   authority_is_clear: boolean;
   outcome_is_objective: boolean;
   verification_source?: string;
+  deadline?: Date;
+  ambiguity_markers?: string[];   // Wording that leaves the outcome open ("at the discretion of")
+  confidence?: number;            // 0-1, how much of the criteria could be parsed
 }
 
 /**
@@ -127,6 +143,42 @@ export interface StateTransition {
   reason: string;
 }
 
+/**
+ * Why the system halted:
+ * - invariant_breach: illegal transition or violated global invariant
+ * - safety: Section 13 halt condition (calibration, invalidations, unknowns)
+ * - manual: operator request
+ */
+export type HaltCategory = "invariant_breach" | "safety" | "manual";
+
+/**
+ * Explicit operator sign-off required to leave HALT
+ */
+export interface HaltAcknowledgement {
+  actor: string;
+  reason: string;
+  timestamp: Date;
+}
+
+/**
+ * Measured breach behind an automatic halt (Section 13)
+ */
+export interface HaltTrigger {
+  condition: "coverage_deviation" | "consecutive_invalidations";
+  observed: number;            // Coverage deviation (0-1) or invalidation count
+  threshold: number;           // THRESHOLDS value that was breached
+  sampleSize: number;          // Resolved markets or exits behind the observation
+}
+
+export interface HaltRecord {
+  category: HaltCategory;
+  reason: string;
+  from: SystemState;
+  haltedAt: Date;
+  trigger?: HaltTrigger;                  // Set for watchdog halts
+  acknowledgement?: HaltAcknowledgement;  // Set once an operator resumed
+}
+
 /**
  * Calibration tracking
  */
@@ -148,3 +200,55 @@ export interface CalibrationMetrics {
   total_markets: number;
   last_updated: Date;
 }
+
+/**
+ * Live events pushed to dashboards over /api/stream
+ * Timestamps are ISO 8601 strings since events are sent as JSON
+ */
+export type TradingEvent =
+  | {
+      type: "state_transition";
+      marketId?: string;         // Undefined for the system-wide supervisor
+      from: SystemState;
+      to: SystemState;
+      reason: string;
+      timestamp: string;
+    }
+  | {
+      type: "belief_updated";
+      marketId: string;
+      belief_low: number;
+      belief_high: number;
+      confidence: number;
+      signalType: SignalType;
+      timestamp: string;
+    }
+  | {
+      type: "trade_opportunity";
+      marketId: string;
+      question: string;
+      side: Exclude<TradeSide, "NONE">;
+      entryPrice: number;
+      edge: number;
+      sizeUsd: number;
+      timestamp: string;
+    }
+  | {
+      type: "trade_executed";
+      marketId: string;
+      question: string;
+      side: Exclude<TradeSide, "NONE">;
+      sizeUsd: number;
+      orderId?: string;
+      simulated: boolean;
+      timestamp: string;
+    }
+  | {
+      type: "halt";
+      marketId?: string;         // Set when only one market halted
+      category: HaltCategory;
+      reason: string;
+      timestamp: string;
+    };
+
+export type TradingEventType = TradingEvent["type"];
@@ -50,11 +50,84 @@ export const THRESHOLDS = {
   CONFIDENCE_PROCEDURAL_BONUS: 5,
   MAX_RANGE_SHIFT_RATIO: 0.6,
   CONFLICT_WIDENING_RATIO: 0.25,
+  CONFLICT_WINDOW_HOURS: 72,  // Opposing signals further apart than this don't conflict
   BELIEF_INVALIDATION_THRESHOLD: 0.50,  // 50% shift against position
   CALIBRATION_COVERAGE_DEVIATION_HALT: 0.15,  // 15%
   CONSECUTIVE_INVALIDATIONS_HALT: 3,
 };
 
+export type Thresholds = typeof THRESHOLDS;
+
+/**
+ * Tunable engine parameters
+ * Engine functions take these as an optional last argument so that
+ * backtests and parameter sweeps can vary them; production uses the defaults.
+ */
+export interface StrategyParams {
+  thresholds: Thresholds;
+  minEdge: Record<string, number>;
+  impactCaps: Record<string, number>;
+}
+
+export const DEFAULT_STRATEGY_PARAMS: StrategyParams = {
+  thresholds: THRESHOLDS,
+  minEdge: MIN_EDGE,
+  impactCaps: IMPACT_CAPS,
+};
+
+/**
+ * Versioned, named strategy parameters
+ * `hash` is derived from the parameter values only, so two configs with
+ * identical numbers share a hash regardless of name or version.
+ */
+export interface StrategyConfig extends StrategyParams {
+  name: string;
+  version: string;
+  hash: string;
+}
+
+const strategyHashes = new WeakMap<StrategyParams, string>();
+
+/**
+ * Stable content hash of strategy parameters (key order independent)
+ */
+export function hashStrategyParams(params: StrategyParams): string {
+  const cached = strategyHashes.get(params);
+  if (cached) return cached;
+
+  const canonical = (values: Record<string, number>) =>
+    Object.keys(values).sort().map(key => [key, values[key]]);
+  const hash = hashString(JSON.stringify([
+    canonical(params.thresholds),
+    canonical(params.minEdge),
+    canonical(params.impactCaps),
+  ]));
+
+  strategyHashes.set(params, hash);
+  return hash;
+}
+
+export function createStrategyConfig(
+  name: string,
+  version: string,
+  params: StrategyParams
+): StrategyConfig {
+  return {
+    name,
+    version,
+    thresholds: params.thresholds,
+    minEdge: params.minEdge,
+    impactCaps: params.impactCaps,
+    hash: hashStrategyParams(params),
+  };
+}
+
+export const DEFAULT_STRATEGY_CONFIG: StrategyConfig = createStrategyConfig(
+  "default",
+  "1",
+  DEFAULT_STRATEGY_PARAMS
+);
+
 /**
  * Clamp a value between min and max
  */
@@ -70,6 +143,15 @@ export function daysBetween(date1: Date, date2: Date): number {
   return Math.abs(date2.getTime() - date1.getTime()) / MS_PER_DAY;
 }
 
+/**
+ * Identity of the content behind a signal (source + URL + title hash)
+ * The same article yields the same ID on every poll, so it can only move
+ * a market's belief once.
+ */
+export function createSignalId(source: string, url: string, title: string): string {
+  return `${source}:${hashString(JSON.stringify([source, url, title.trim()]))}`;
+}
+
 /**
  * Hash a string for rationale tracking
  */